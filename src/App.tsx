@@ -8,6 +8,8 @@ import Assessment from "./pages/Assessment";
 import Processes from "./pages/Processes";
 import ImportExport from "./pages/ImportExport";
 import Guide from "./pages/Guide";
+import Trash from "./pages/Trash";
+import Diagnostics from "./pages/Diagnostics";
 
 function App() {
   return (
@@ -22,6 +24,8 @@ function App() {
             <Route path="processes" element={<Processes />} />
             <Route path="processes/:code" element={<Processes />} />
             <Route path="import-export" element={<ImportExport />} />
+            <Route path="trash" element={<Trash />} />
+            <Route path="diagnostics" element={<Diagnostics />} />
             <Route path="guide" element={<Guide />} />
           </Route>
         </Routes>
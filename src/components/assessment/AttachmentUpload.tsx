@@ -32,6 +32,7 @@ import PictureAsPdfIcon from "@mui/icons-material/PictureAsPdf";
 import ImageIcon from "@mui/icons-material/Image";
 import DeleteIcon from "@mui/icons-material/Delete";
 import DownloadIcon from "@mui/icons-material/Download";
+import { formatFileSize } from "../../utils/fileFormatters";
 import type { Attachment } from "../../types";
 
 interface AttachmentUploadProps {
@@ -72,15 +73,6 @@ function getFileIcon(fileType: string): JSX.Element {
   return <InsertDriveFileIcon color="action" />;
 }
 
-/**
- * Format file size for display
- */
-function formatFileSize(bytes: number): string {
-  if (bytes < 1024) return `${bytes} B`;
-  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
-  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
-}
-
 /**
  * Attachment upload and management component
  */
@@ -0,0 +1,289 @@
+/**
+ * Blueprint Migration Dialog Component
+ *
+ * Review screen for moving an assessment onto a newer blueprint version. Each rated question
+ * from the pinned version is mapped to a question in the new version (or discarded), using a
+ * mapping file when one is loaded and question text matching otherwise.
+ */
+
+import { useState } from "react";
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogContentText,
+  DialogTitle,
+  MenuItem,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  TextField,
+  Typography,
+} from "@mui/material";
+import UploadFileIcon from "@mui/icons-material/UploadFile";
+import { getCapabilityByCode } from "../../services/blueprint";
+import {
+  getMappingIssues,
+  hasRatingContent,
+  isBlueprintRating,
+  migrateAssessment,
+  parseBlueprintMapping,
+  proposeQuestionMapping,
+  type MappingSource,
+  type QuestionIndexMap,
+} from "../../services/blueprintMigration";
+import { compactChipSx } from "../../theme/sharedStyles";
+import type { CapabilityAssessment, Rating } from "../../types";
+
+interface BlueprintMigrationDialogProps {
+  open: boolean;
+  assessment: CapabilityAssessment;
+  ratings: Rating[];
+  toVersion: string;
+  onClose: () => void;
+  onMigrated: () => void;
+}
+
+const SOURCE_LABELS: Record<MappingSource, string> = {
+  file: "Mapping file",
+  bundled: "Bundled mapping",
+  text: "Matched by question text",
+};
+
+function describeAnswer(rating: Rating): string {
+  if (rating.notApplicable) return "N/A";
+  if (rating.level !== null) return `Level ${rating.level}`;
+  if (rating.previousLevel) return `Was level ${rating.previousLevel}`;
+  return "Notes only";
+}
+
+export function BlueprintMigrationDialog({
+  open,
+  assessment,
+  ratings,
+  toVersion,
+  onClose,
+  onMigrated,
+}: BlueprintMigrationDialogProps) {
+  const fromVersion = assessment.blueprintVersion;
+  const oldQuestions =
+    getCapabilityByCode(assessment.capabilityCode, fromVersion)?.bcm.maturity_model
+      .capability_questions ?? [];
+  const newQuestions =
+    getCapabilityByCode(assessment.capabilityCode, toVersion)?.bcm.maturity_model
+      .capability_questions ?? [];
+
+  const [proposal, setProposal] = useState(() =>
+    proposeQuestionMapping(assessment.capabilityCode, fromVersion, toVersion)
+  );
+  const [map, setMap] = useState<QuestionIndexMap>(proposal.map);
+  const [mappingFileName, setMappingFileName] = useState<string | null>(null);
+  const [migrating, setMigrating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const ratedRows = ratings
+    .filter((r) => isBlueprintRating(r) && hasRatingContent(r))
+    .sort((a, b) => a.questionIndex - b.questionIndex);
+  const issues = getMappingIssues(ratings, map, newQuestions.length);
+  const discardedCount = ratedRows.filter((r) => (map[r.questionIndex] ?? null) === null).length;
+  const mappedTargets = new Set(
+    ratedRows.map((r) => map[r.questionIndex]).filter((t): t is number => t != null)
+  );
+  const unmappedNewQuestions = newQuestions
+    .map((question, index) => ({ question, index }))
+    .filter(({ index }) => !mappedTargets.has(index));
+
+  const handleMappingFile = async (file: File) => {
+    setError(null);
+    try {
+      const mappingFile = parseBlueprintMapping(await file.text());
+      if (mappingFile.fromVersion !== fromVersion || mappingFile.toVersion !== toVersion) {
+        throw new Error(
+          `Mapping file is for v${mappingFile.fromVersion} → v${mappingFile.toVersion}, not v${fromVersion} → v${toVersion}`
+        );
+      }
+      if (!mappingFile.capabilities[assessment.capabilityCode]) {
+        throw new Error(`Mapping file has no entries for ${assessment.processName}`);
+      }
+      const next = proposeQuestionMapping(
+        assessment.capabilityCode,
+        fromVersion,
+        toVersion,
+        mappingFile
+      );
+      setProposal(next);
+      setMap(next.map);
+      setMappingFileName(file.name);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to read mapping file");
+    }
+  };
+
+  const handleMigrate = async () => {
+    setMigrating(true);
+    setError(null);
+    try {
+      await migrateAssessment(assessment.id, toVersion, map);
+      onMigrated();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Migration failed");
+    } finally {
+      setMigrating(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth>
+      <DialogTitle>Migrate to Blueprint v{toVersion}</DialogTitle>
+      <DialogContent dividers>
+        <DialogContentText sx={{ mb: 2 }}>
+          This assessment was started against blueprint v{fromVersion}. Review where each answered
+          question moves in v{toVersion}. Ratings move with their notes, targets, attachments, and
+          change history; discarded ratings are removed. Custom questions are not affected.
+        </DialogContentText>
+
+        <Box sx={{ display: "flex", alignItems: "center", gap: 1, mb: 2, flexWrap: "wrap" }}>
+          <Chip
+            label={
+              mappingFileName
+                ? `${SOURCE_LABELS.file}: ${mappingFileName}`
+                : SOURCE_LABELS[proposal.source]
+            }
+            size="small"
+            variant="outlined"
+            sx={compactChipSx}
+          />
+          <Button size="small" component="label" startIcon={<UploadFileIcon />}>
+            Load Mapping File
+            <input
+              type="file"
+              accept=".json,application/json"
+              hidden
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) handleMappingFile(file);
+                e.target.value = "";
+              }}
+            />
+          </Button>
+        </Box>
+
+        {ratedRows.length === 0 ? (
+          <Typography variant="body2" color="text.secondary">
+            No questions have been answered yet, so nothing needs to be mapped.
+          </Typography>
+        ) : (
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>v{fromVersion} Question</TableCell>
+                <TableCell width={110}>Answer</TableCell>
+                <TableCell width={300}>v{toVersion} Question</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {ratedRows.map((rating) => {
+                const target = map[rating.questionIndex] ?? null;
+                const attachmentCount = rating.attachmentIds?.length ?? 0;
+                return (
+                  <TableRow
+                    key={rating.id}
+                    sx={target === null ? { backgroundColor: "warning.50" } : undefined}
+                  >
+                    <TableCell>
+                      <Typography variant="body2">
+                        <strong>Q{rating.questionIndex + 1}:</strong>{" "}
+                        {oldQuestions[rating.questionIndex]?.question || "Question not found"}
+                      </Typography>
+                      {attachmentCount > 0 && (
+                        <Typography variant="caption" color="text.secondary">
+                          {attachmentCount} attachment{attachmentCount === 1 ? "" : "s"}
+                        </Typography>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Chip label={describeAnswer(rating)} size="small" sx={compactChipSx} />
+                    </TableCell>
+                    <TableCell>
+                      <TextField
+                        select
+                        fullWidth
+                        size="small"
+                        value={target === null ? "" : String(target)}
+                        onChange={(e) =>
+                          setMap({
+                            ...map,
+                            [rating.questionIndex]:
+                              e.target.value === "" ? null : Number(e.target.value),
+                          })
+                        }
+                      >
+                        <MenuItem value="">
+                          <em>Discard rating</em>
+                        </MenuItem>
+                        {newQuestions.map((question, index) => (
+                          <MenuItem key={index} value={String(index)} sx={{ whiteSpace: "normal" }}>
+                            Q{index + 1}: {question.question}
+                          </MenuItem>
+                        ))}
+                      </TextField>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+
+        {unmappedNewQuestions.length > 0 && (
+          <Box sx={{ mt: 3 }}>
+            <Typography variant="subtitle2" gutterBottom>
+              Unanswered after migration ({unmappedNewQuestions.length})
+            </Typography>
+            {unmappedNewQuestions.map(({ question, index }) => (
+              <Typography key={index} variant="body2" color="text.secondary">
+                <strong>Q{index + 1}:</strong> {question.question}
+              </Typography>
+            ))}
+          </Box>
+        )}
+
+        {discardedCount > 0 && issues.length === 0 && (
+          <Alert severity="warning" sx={{ mt: 2 }}>
+            {discardedCount} rating{discardedCount === 1 ? "" : "s"} will be discarded.
+          </Alert>
+        )}
+
+        {issues.length > 0 && (
+          <Alert severity="error" sx={{ mt: 2 }}>
+            {issues.map((issue) => (
+              <div key={issue}>{issue}</div>
+            ))}
+          </Alert>
+        )}
+
+        {error && (
+          <Alert severity="error" sx={{ mt: 2 }}>
+            {error}
+          </Alert>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Cancel</Button>
+        <Button
+          onClick={handleMigrate}
+          variant="contained"
+          disabled={migrating || issues.length > 0}
+        >
+          Migrate
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
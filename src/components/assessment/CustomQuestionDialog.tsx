@@ -0,0 +1,152 @@
+/**
+ * Custom Question Dialog Component
+ *
+ * Adds or edits a state-specific question for a capability: question text, category,
+ * a descriptor for each of the five maturity levels, and whether it counts toward the score.
+ */
+
+import { useState } from "react";
+import {
+  Alert,
+  Box,
+  Button,
+  Checkbox,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogContentText,
+  DialogTitle,
+  FormControlLabel,
+  TextField,
+} from "@mui/material";
+import { getQuestionLabel, type CustomQuestionInput } from "../../services/customQuestions";
+import type { CustomQuestion, MaturityLevel } from "../../types";
+
+interface CustomQuestionDialogProps {
+  open: boolean;
+  capabilityName: string;
+  question?: CustomQuestion; // Question being edited; omitted when adding
+  onClose: () => void;
+  onSave: (input: CustomQuestionInput) => Promise<void>;
+  onDelete?: () => Promise<void>;
+}
+
+const EMPTY_LEVELS: MaturityLevel = {
+  level_1: "",
+  level_2: "",
+  level_3: "",
+  level_4: "",
+  level_5: "",
+};
+
+export function CustomQuestionDialog({
+  open,
+  capabilityName,
+  question,
+  onClose,
+  onSave,
+  onDelete,
+}: CustomQuestionDialogProps) {
+  const [text, setText] = useState(question?.question ?? "");
+  const [category, setCategory] = useState(question?.category ?? "");
+  const [levels, setLevels] = useState<MaturityLevel>(question?.levels ?? EMPTY_LEVELS);
+  const [includeInScoring, setIncludeInScoring] = useState(question?.includeInScoring ?? true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const isComplete = !!text.trim() && Object.values(levels).every((level) => level.trim());
+
+  // Run a save or delete, keeping the dialog open with the error if it fails
+  const run = async (action: () => Promise<void>) => {
+    setSaving(true);
+    setError(null);
+    try {
+      await action();
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save question");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth>
+      <DialogTitle>
+        {question
+          ? `Edit Custom Question ${getQuestionLabel(question.questionIndex)}`
+          : "Add Custom Question"}
+      </DialogTitle>
+      <DialogContent dividers>
+        <DialogContentText sx={{ mb: 2 }}>
+          Custom questions are added to every assessment of "{capabilityName}" after the blueprint
+          questions, and are included in exports.
+        </DialogContentText>
+
+        <Box sx={{ display: "flex", flexDirection: "column", gap: 2 }}>
+          <TextField
+            autoFocus
+            fullWidth
+            multiline
+            label="Question"
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            required
+          />
+          <TextField
+            fullWidth
+            label="Category"
+            placeholder="Custom"
+            value={category}
+            onChange={(e) => setCategory(e.target.value)}
+            helperText="Matches a blueprint category to share its scoring weight"
+          />
+          {([1, 2, 3, 4, 5] as const).map((level) => {
+            const key = `level_${level}` as keyof MaturityLevel;
+            return (
+              <TextField
+                key={level}
+                fullWidth
+                multiline
+                label={`Level ${level}`}
+                value={levels[key]}
+                onChange={(e) => setLevels({ ...levels, [key]: e.target.value })}
+                required
+              />
+            );
+          })}
+          <FormControlLabel
+            control={
+              <Checkbox
+                checked={includeInScoring}
+                onChange={(e) => setIncludeInScoring(e.target.checked)}
+              />
+            }
+            label="Count this question toward the capability score"
+          />
+        </Box>
+
+        {error && (
+          <Alert severity="error" sx={{ mt: 2 }}>
+            {error}
+          </Alert>
+        )}
+      </DialogContent>
+      <DialogActions>
+        {onDelete && (
+          <Button color="error" onClick={() => run(onDelete)} disabled={saving} sx={{ mr: "auto" }}>
+            Delete
+          </Button>
+        )}
+        <Button onClick={onClose}>Cancel</Button>
+        <Button
+          variant="contained"
+          onClick={() => run(() => onSave({ question: text, category, levels, includeInScoring }))}
+          disabled={saving || !isComplete}
+        >
+          {question ? "Save" : "Add Question"}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
@@ -2,6 +2,7 @@
  * Question Card Component
  *
  * Displays a single assessment question with rating options, notes, and attachments.
+ * Custom questions are marked as such and can be edited from the card.
  */
 
 import { useState } from "react";
@@ -13,6 +14,8 @@ import {
   Chip,
   FormControl,
   FormControlLabel,
+  IconButton,
+  MenuItem,
   Radio,
   RadioGroup,
   TextField,
@@ -21,10 +24,17 @@ import {
 import CheckCircleIcon from "@mui/icons-material/CheckCircle";
 import HistoryIcon from "@mui/icons-material/History";
 import AttachFileIcon from "@mui/icons-material/AttachFile";
+import FlagIcon from "@mui/icons-material/Flag";
+import TimelineIcon from "@mui/icons-material/Timeline";
+import DoNotDisturbIcon from "@mui/icons-material/DoNotDisturb";
+import EditIcon from "@mui/icons-material/Edit";
 import { useRatings } from "../../hooks/useRatings";
+import { getQuestionLabel, isCustomQuestionIndex } from "../../services/customQuestions";
 import { AttachmentUpload } from "./AttachmentUpload";
+import { RatingTimelineDialog } from "./RatingTimelineDialog";
 import { compactChipSx } from "../../theme/sharedStyles";
 import { QUESTION_NUMBER_MIN_WIDTH, NOTES_TEXTAREA_ROWS } from "../../constants/ui";
+import { formatDate, fromDateInputValue, toDateInputValue } from "../../utils/dateFormatters";
 import type { CapabilityQuestion, Attachment } from "../../types";
 
 interface AttachmentHandlers {
@@ -41,6 +51,8 @@ interface QuestionCardProps {
   onDirty: () => void;
   readOnly?: boolean;
   attachmentHandlers: AttachmentHandlers;
+  excludedFromScoring?: boolean; // Custom question that does not count toward the score
+  onEditQuestion?: () => void; // Edit a custom question's text and levels
 }
 
 export function QuestionCard({
@@ -50,8 +62,11 @@ export function QuestionCard({
   onDirty,
   readOnly = false,
   attachmentHandlers,
+  excludedFromScoring = false,
+  onEditQuestion,
 }: QuestionCardProps) {
-  const { getRating, saveRating } = useRatings(assessmentId);
+  const { getRating, saveRating, markNotApplicable, clearNotApplicable, saveTarget } =
+    useRatings(assessmentId);
   const rating = getRating(questionIndex);
 
   // Use rating notes as source of truth, local state only for editing
@@ -71,6 +86,11 @@ export function QuestionCard({
   const [attachmentsManuallyExpanded, setAttachmentsManuallyExpanded] = useState(false);
   const attachmentsExpanded = attachments.length > 0 || attachmentsManuallyExpanded;
 
+  const [timelineOpen, setTimelineOpen] = useState(false);
+
+  // Not-applicable justification editing (null when not editing)
+  const [notApplicableReason, setNotApplicableReason] = useState<string | null>(null);
+
   const handleLevelChange = async (level: 1 | 2 | 3 | 4 | 5) => {
     if (readOnly) return;
     onDirty();
@@ -94,6 +114,32 @@ export function QuestionCard({
     setIsEditingNotes(false);
   };
 
+  const handleSaveNotApplicable = async () => {
+    if (readOnly || notApplicableReason === null || !notApplicableReason.trim()) return;
+    onDirty();
+    await markNotApplicable(questionIndex, notApplicableReason);
+    setNotApplicableReason(null);
+  };
+
+  const handleClearNotApplicable = () => {
+    if (readOnly) return;
+    onDirty();
+    clearNotApplicable(questionIndex);
+  };
+
+  const handleTargetLevelChange = (value: string) => {
+    if (readOnly) return;
+    onDirty();
+    const targetLevel = value ? (Number(value) as 1 | 2 | 3 | 4 | 5) : undefined;
+    saveTarget(questionIndex, targetLevel, rating?.targetDate);
+  };
+
+  const handleTargetDateChange = (value: string) => {
+    if (readOnly || !rating?.targetLevel) return;
+    onDirty();
+    saveTarget(questionIndex, rating.targetLevel, value ? fromDateInputValue(value) : undefined);
+  };
+
   const handleUpload = async (file: File, description?: string) => {
     if (!rating?.id) {
       // Need to create a rating first - saveRating returns the new rating ID
@@ -126,15 +172,23 @@ export function QuestionCard({
             color="text.secondary"
             sx={{ minWidth: QUESTION_NUMBER_MIN_WIDTH }}
           >
-            Q{questionIndex + 1}
+            {getQuestionLabel(questionIndex)}
           </Typography>
           <Box sx={{ flex: 1 }}>
             <Typography variant="subtitle1" sx={{ lineHeight: 1.3 }}>
               {question.question}
             </Typography>
-            <Typography variant="caption" color="text.secondary">
-              {question.category}
-            </Typography>
+            <Box sx={{ display: "flex", alignItems: "center", gap: 0.5, flexWrap: "wrap" }}>
+              <Typography variant="caption" color="text.secondary">
+                {question.category}
+              </Typography>
+              {isCustomQuestionIndex(questionIndex) && (
+                <Chip label="Custom" size="small" color="secondary" sx={compactChipSx} />
+              )}
+              {excludedFromScoring && (
+                <Chip label="Not scored" size="small" variant="outlined" sx={compactChipSx} />
+              )}
+            </Box>
           </Box>
           {attachments.length > 0 && (
             <Chip
@@ -154,7 +208,35 @@ export function QuestionCard({
               color="info"
             />
           )}
-          {rating?.level && <CheckCircleIcon color="success" fontSize="small" />}
+          {rating?.notApplicable && (
+            <Chip
+              icon={<DoNotDisturbIcon />}
+              label="Not applicable"
+              size="small"
+              variant="outlined"
+            />
+          )}
+          {(rating?.level || rating?.notApplicable) && (
+            <CheckCircleIcon color="success" fontSize="small" />
+          )}
+          {onEditQuestion && !readOnly && (
+            <IconButton
+              size="small"
+              onClick={onEditQuestion}
+              title="Edit custom question"
+              sx={{ mt: -0.5 }}
+            >
+              <EditIcon fontSize="small" />
+            </IconButton>
+          )}
+          <IconButton
+            size="small"
+            onClick={() => setTimelineOpen(true)}
+            title="View change history"
+            sx={{ mt: -0.5 }}
+          >
+            <TimelineIcon fontSize="small" />
+          </IconButton>
         </Box>
 
         <FormControl component="fieldset" sx={{ width: "100%" }}>
@@ -224,6 +306,129 @@ export function QuestionCard({
           </RadioGroup>
         </FormControl>
 
+        {/* Not applicable section */}
+        <Box sx={{ mt: 1 }}>
+          {notApplicableReason !== null ? (
+            <Box sx={{ display: "flex", flexDirection: "column", gap: 1 }}>
+              <TextField
+                autoFocus
+                fullWidth
+                multiline
+                size="small"
+                rows={2}
+                label="Justification (required)"
+                placeholder="Explain why this question does not apply to your state..."
+                value={notApplicableReason}
+                onChange={(e) => setNotApplicableReason(e.target.value)}
+              />
+              <Box sx={{ display: "flex", gap: 1 }}>
+                <Button
+                  size="small"
+                  variant="contained"
+                  onClick={handleSaveNotApplicable}
+                  disabled={!notApplicableReason.trim()}
+                >
+                  Mark Not Applicable
+                </Button>
+                <Button size="small" onClick={() => setNotApplicableReason(null)}>
+                  Cancel
+                </Button>
+              </Box>
+            </Box>
+          ) : rating?.notApplicable ? (
+            <Box
+              sx={{
+                py: 1,
+                px: 1.5,
+                borderRadius: 1,
+                border: 2,
+                borderStyle: "dashed",
+                borderColor: "grey.400",
+                backgroundColor: "grey.50",
+              }}
+            >
+              <Typography variant="body2">
+                <strong>Not applicable:</strong> {rating.notApplicableReason}
+              </Typography>
+              {!readOnly && (
+                <Box sx={{ display: "flex", gap: 1, mt: 0.5 }}>
+                  <Button
+                    size="small"
+                    onClick={() => setNotApplicableReason(rating.notApplicableReason || "")}
+                  >
+                    Edit Justification
+                  </Button>
+                  <Button size="small" onClick={handleClearNotApplicable}>
+                    Clear
+                  </Button>
+                </Box>
+              )}
+            </Box>
+          ) : (
+            !readOnly && (
+              <Button
+                size="small"
+                startIcon={<DoNotDisturbIcon />}
+                onClick={() => setNotApplicableReason("")}
+              >
+                Not Applicable
+              </Button>
+            )
+          )}
+        </Box>
+
+        {/* Target section */}
+        <Box sx={{ mt: 1.5 }}>
+          {readOnly ? (
+            rating?.targetLevel ? (
+              <Chip
+                icon={<FlagIcon />}
+                label={`Target: Level ${rating.targetLevel}${
+                  rating.targetDate ? ` by ${formatDate(rating.targetDate)}` : ""
+                }`}
+                size="small"
+                variant="outlined"
+                color="secondary"
+              />
+            ) : null
+          ) : (
+            <Box sx={{ display: "flex", gap: 1.5, alignItems: "center" }}>
+              <TextField
+                select
+                size="small"
+                label="Target Level"
+                value={rating?.targetLevel?.toString() || ""}
+                onChange={(e) => handleTargetLevelChange(e.target.value)}
+                sx={{ minWidth: 140 }}
+              >
+                <MenuItem value="">
+                  <em>No target</em>
+                </MenuItem>
+                {[1, 2, 3, 4, 5].map((level) => (
+                  <MenuItem key={level} value={level.toString()}>
+                    Level {level}
+                  </MenuItem>
+                ))}
+              </TextField>
+              <TextField
+                size="small"
+                type="date"
+                label="Target Date"
+                value={rating?.targetDate ? toDateInputValue(rating.targetDate) : ""}
+                onChange={(e) => handleTargetDateChange(e.target.value)}
+                disabled={!rating?.targetLevel}
+                slotProps={{ inputLabel: { shrink: true } }}
+              />
+              {rating?.targetLevel && rating.level && rating.targetLevel > rating.level && (
+                <Typography variant="caption" color="text.secondary">
+                  Gap: {rating.targetLevel - rating.level} level
+                  {rating.targetLevel - rating.level === 1 ? "" : "s"}
+                </Typography>
+              )}
+            </Box>
+          )}
+        </Box>
+
         {/* Notes section */}
         <Box sx={{ mt: 1.5 }}>
           {!readOnly && (
@@ -298,6 +503,12 @@ export function QuestionCard({
           )}
         </Box>
       </CardContent>
+      <RatingTimelineDialog
+        open={timelineOpen}
+        assessmentId={assessmentId}
+        questionIndex={questionIndex}
+        onClose={() => setTimelineOpen(false)}
+      />
     </Card>
   );
 }
@@ -0,0 +1,113 @@
+/**
+ * Rating Timeline Dialog Component
+ *
+ * Shows the audit trail for a single question: who changed what, and when.
+ */
+
+import { useState } from "react";
+import {
+  Box,
+  Button,
+  Chip,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  TextField,
+  Typography,
+} from "@mui/material";
+import { useRatingAudit } from "../../hooks/useRatingAudit";
+import { AUDIT_ACTION_LABELS, getAuditActor, setAuditActor } from "../../services/auditLog";
+import { getQuestionLabel } from "../../services/customQuestions";
+import { compactChipSx } from "../../theme/sharedStyles";
+import { formatDateTime } from "../../utils/dateFormatters";
+
+interface RatingTimelineDialogProps {
+  open: boolean;
+  assessmentId: string;
+  questionIndex: number;
+  onClose: () => void;
+}
+
+export function RatingTimelineDialog({
+  open,
+  assessmentId,
+  questionIndex,
+  onClose,
+}: RatingTimelineDialogProps) {
+  const { entries } = useRatingAudit(assessmentId, questionIndex, open);
+  const [editorName, setEditorName] = useState(getAuditActor);
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>Change History — {getQuestionLabel(questionIndex)}</DialogTitle>
+      <DialogContent dividers>
+        <TextField
+          fullWidth
+          size="small"
+          label="Your Name"
+          value={editorName}
+          onChange={(e) => setEditorName(e.target.value)}
+          onBlur={() => setAuditActor(editorName)}
+          helperText="Recorded on the changes you make from this browser"
+          sx={{ mb: 3 }}
+        />
+        {entries.length === 0 ? (
+          <Typography variant="body2" color="text.secondary">
+            No changes have been recorded for this question yet.
+          </Typography>
+        ) : (
+          entries.map((entry) => (
+            <Box
+              key={entry.id}
+              sx={{
+                pl: 2,
+                pb: 2,
+                borderLeft: 2,
+                borderColor: "divider",
+                position: "relative",
+              }}
+            >
+              <Box
+                sx={{
+                  position: "absolute",
+                  left: -5,
+                  top: 4,
+                  width: 8,
+                  height: 8,
+                  borderRadius: "50%",
+                  backgroundColor: "primary.main",
+                }}
+              />
+              <Box sx={{ display: "flex", alignItems: "center", gap: 1, mb: 0.5 }}>
+                <Chip
+                  label={AUDIT_ACTION_LABELS[entry.action]}
+                  size="small"
+                  variant="outlined"
+                  sx={compactChipSx}
+                />
+                <Typography variant="caption" color="text.secondary">
+                  {formatDateTime(entry.changedAt)}
+                  {entry.changedBy ? ` · ${entry.changedBy}` : ""}
+                </Typography>
+              </Box>
+              <Typography variant="body2" sx={{ whiteSpace: "pre-wrap" }}>
+                {entry.previousValue ?? "—"} → {entry.newValue ?? "—"}
+              </Typography>
+            </Box>
+          ))
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button
+          onClick={() => {
+            setAuditActor(editorName);
+            onClose();
+          }}
+        >
+          Close
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
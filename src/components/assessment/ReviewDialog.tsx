@@ -0,0 +1,89 @@
+/**
+ * Review Dialog Component
+ *
+ * Collects reviewer name and comments when returning or approving an assessment.
+ */
+
+import { useState } from "react";
+import {
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogContentText,
+  DialogTitle,
+  TextField,
+} from "@mui/material";
+import { NOTES_TEXTAREA_ROWS } from "../../constants/ui";
+
+interface ReviewDialogProps {
+  open: boolean;
+  mode: "return" | "approve";
+  capabilityName: string;
+  onClose: () => void;
+  onConfirm: (reviewerName: string, comments: string) => Promise<void>;
+}
+
+export function ReviewDialog({
+  open,
+  mode,
+  capabilityName,
+  onClose,
+  onConfirm,
+}: ReviewDialogProps) {
+  const [reviewerName, setReviewerName] = useState("");
+  const [comments, setComments] = useState("");
+
+  const isReturn = mode === "return";
+  const canConfirm = !isReturn || comments.trim().length > 0;
+
+  const handleClose = () => {
+    setComments("");
+    onClose();
+  };
+
+  const handleConfirm = async () => {
+    await onConfirm(reviewerName, comments);
+    setComments("");
+  };
+
+  return (
+    <Dialog open={open} onClose={handleClose} maxWidth="sm" fullWidth>
+      <DialogTitle>{isReturn ? "Return with Comments" : "Approve Assessment"}</DialogTitle>
+      <DialogContent>
+        <DialogContentText sx={{ mb: 2 }}>
+          {isReturn
+            ? `Send "${capabilityName}" back to the analyst for revision. Explain what needs to change.`
+            : `Approve "${capabilityName}"? Once approved it can be finalized.`}
+        </DialogContentText>
+        <TextField
+          autoFocus
+          fullWidth
+          label="Reviewer Name"
+          value={reviewerName}
+          onChange={(e) => setReviewerName(e.target.value)}
+          sx={{ mb: 2 }}
+        />
+        <TextField
+          fullWidth
+          multiline
+          rows={NOTES_TEXTAREA_ROWS}
+          label={isReturn ? "Comments (required)" : "Comments (optional)"}
+          value={comments}
+          onChange={(e) => setComments(e.target.value)}
+        />
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={handleClose}>Back</Button>
+        <Button
+          onClick={handleConfirm}
+          variant="contained"
+          color={isReturn ? "warning" : "primary"}
+          disabled={!canConfirm}
+        >
+          {isReturn ? "Return" : "Approve"}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
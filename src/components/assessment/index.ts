@@ -1,4 +1,8 @@
 export { AttachmentUpload } from "./AttachmentUpload";
+export { BlueprintMigrationDialog } from "./BlueprintMigrationDialog";
 export { BptSidebar } from "./BptSidebar";
+export { CustomQuestionDialog } from "./CustomQuestionDialog";
 export { QuestionCard } from "./QuestionCard";
+export { RatingTimelineDialog } from "./RatingTimelineDialog";
+export { ReviewDialog } from "./ReviewDialog";
 export { TagInput } from "./TagInput";
@@ -3,21 +3,30 @@
  *
  * Displays a simple progress bar for individual capability rows.
  * Shows completion percentage with different styles for finalized vs in-progress.
+ * Questions answered as not applicable are shown as a separate grey segment.
  */
 
 import { Box } from "@mui/material";
 import { getInProgressGradient } from "../../theme/sharedStyles";
 import { PROGRESS_BAR_HEIGHT_SMALL, PROGRESS_STRIPE_WIDTH } from "../../constants/ui";
+import type { CapabilityStatus } from "../../types";
 
 interface CapabilityProgressBarProps {
-  status: "not_assessed" | "in_progress" | "finalized";
-  progress: number; // 0-100 for question completion
+  status: CapabilityStatus;
+  progress: number; // 0-100 for question completion (including not-applicable answers)
+  notApplicableProgress?: number; // 0-100 share of questions answered as not applicable
 }
 
-export function CapabilityProgressBar({ status, progress }: CapabilityProgressBarProps) {
+export function CapabilityProgressBar({
+  status,
+  progress,
+  notApplicableProgress = 0,
+}: CapabilityProgressBarProps) {
   const isFinalized = status === "finalized";
-  const isInProgress = status === "in_progress";
+  const isInProgress = status !== "finalized" && status !== "not_assessed";
   const displayProgress = isFinalized ? 100 : progress;
+  const notApplicableWidth = Math.min(notApplicableProgress, displayProgress);
+  const ratedWidth = displayProgress - notApplicableWidth;
 
   return (
     <Box
@@ -26,12 +35,16 @@ export function CapabilityProgressBar({ status, progress }: CapabilityProgressBa
         borderRadius: 1,
         overflow: "hidden",
         backgroundColor: "grey.200",
+        display: "flex",
       }}
+      title={
+        notApplicableWidth > 0 ? `${notApplicableWidth}% of questions not applicable` : undefined
+      }
     >
-      {displayProgress > 0 && (
+      {ratedWidth > 0 && (
         <Box
           sx={{
-            width: `${displayProgress}%`,
+            width: `${ratedWidth}%`,
             height: "100%",
             ...(isFinalized
               ? {
@@ -47,6 +60,15 @@ export function CapabilityProgressBar({ status, progress }: CapabilityProgressBa
           }}
         />
       )}
+      {notApplicableWidth > 0 && (
+        <Box
+          sx={{
+            width: `${notApplicableWidth}%`,
+            height: "100%",
+            backgroundColor: "grey.400",
+          }}
+        />
+      )}
     </Box>
   );
 }
@@ -0,0 +1,282 @@
+/**
+ * Cycle Dialog Component
+ *
+ * Modal dialog for creating, editing, and deleting assessment cycles.
+ * A cycle groups capability assessments into a named campaign (e.g. an annual SS-A submission).
+ */
+
+import { useMemo, useState } from "react";
+import {
+  Alert,
+  Autocomplete,
+  Box,
+  Button,
+  Chip,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogContentText,
+  DialogTitle,
+  IconButton,
+  List,
+  ListItem,
+  ListItemText,
+  TextField,
+  Typography,
+} from "@mui/material";
+import EditIcon from "@mui/icons-material/Edit";
+import DeleteIcon from "@mui/icons-material/Delete";
+import AddIcon from "@mui/icons-material/Add";
+import { useAssessmentCycles } from "../../hooks/useAssessmentCycles";
+import { getCapabilities } from "../../services/blueprint";
+import { compactChipSx } from "../../theme/sharedStyles";
+import { formatDate, fromDateInputValue, toDateInputValue } from "../../utils/dateFormatters";
+import type { AssessmentCycle, Capability } from "../../types";
+
+interface CycleDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+interface CycleFormState {
+  id: string | null;
+  name: string;
+  startDate: string;
+  endDate: string;
+  capabilityCodes: string[];
+}
+
+const EMPTY_FORM: CycleFormState = {
+  id: null,
+  name: "",
+  startDate: "",
+  endDate: "",
+  capabilityCodes: [],
+};
+
+export function CycleDialog({ open, onClose }: CycleDialogProps) {
+  const { cycles, createCycle, updateCycle, deleteCycle } = useAssessmentCycles();
+  const capabilities = useMemo(() => getCapabilities(), []);
+
+  const [form, setForm] = useState<CycleFormState | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [pendingDelete, setPendingDelete] = useState<AssessmentCycle | null>(null);
+
+  const handleEdit = (cycle: AssessmentCycle) => {
+    setError(null);
+    setForm({
+      id: cycle.id,
+      name: cycle.name,
+      startDate: toDateInputValue(cycle.startDate),
+      endDate: toDateInputValue(cycle.endDate),
+      capabilityCodes: cycle.capabilityCodes,
+    });
+  };
+
+  const handleSave = async () => {
+    if (!form) return;
+
+    if (!form.startDate || !form.endDate) {
+      setError("Start and end dates are required");
+      return;
+    }
+
+    const input = {
+      name: form.name,
+      startDate: fromDateInputValue(form.startDate),
+      endDate: fromDateInputValue(form.endDate),
+      capabilityCodes: form.capabilityCodes,
+    };
+
+    try {
+      if (form.id) {
+        await updateCycle(form.id, input);
+      } else {
+        await createCycle(input);
+      }
+      setForm(null);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save cycle");
+    }
+  };
+
+  const handleConfirmDelete = async () => {
+    if (!pendingDelete) return;
+    setError(null);
+    try {
+      await deleteCycle(pendingDelete.id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to delete cycle");
+    } finally {
+      setPendingDelete(null);
+    }
+  };
+
+  const handleClose = () => {
+    setForm(null);
+    setError(null);
+    onClose();
+  };
+
+  const selectedCapabilities = form
+    ? capabilities.filter((c) => form.capabilityCodes.includes(c.code))
+    : [];
+
+  return (
+    <Dialog open={open} onClose={handleClose} maxWidth="sm" fullWidth>
+      <DialogTitle>Assessment Cycles</DialogTitle>
+      <DialogContent dividers>
+        {form ? (
+          <Box sx={{ display: "flex", flexDirection: "column", gap: 2 }}>
+            <TextField
+              autoFocus
+              label="Cycle Name"
+              placeholder="e.g., FY2026 SS-A Submission"
+              value={form.name}
+              onChange={(e) => setForm({ ...form, name: e.target.value })}
+              fullWidth
+            />
+            <Box sx={{ display: "flex", gap: 2 }}>
+              <TextField
+                label="Start Date"
+                type="date"
+                value={form.startDate}
+                onChange={(e) => setForm({ ...form, startDate: e.target.value })}
+                slotProps={{ inputLabel: { shrink: true } }}
+                fullWidth
+              />
+              <TextField
+                label="End Date"
+                type="date"
+                value={form.endDate}
+                onChange={(e) => setForm({ ...form, endDate: e.target.value })}
+                slotProps={{ inputLabel: { shrink: true } }}
+                fullWidth
+              />
+            </Box>
+            <Autocomplete
+              multiple
+              options={capabilities}
+              value={selectedCapabilities}
+              groupBy={(option: Capability) => option.businessArea}
+              getOptionLabel={(option: Capability) => option.processName}
+              isOptionEqualToValue={(option, value) => option.code === value.code}
+              onChange={(_, newValue) =>
+                setForm({ ...form, capabilityCodes: newValue.map((c) => c.code) })
+              }
+              renderInput={(params) => (
+                <TextField
+                  {...params}
+                  label="Capabilities in Scope"
+                  placeholder={form.capabilityCodes.length === 0 ? "All capabilities" : ""}
+                  helperText="Leave empty to include every capability"
+                />
+              )}
+            />
+            {error && <Alert severity="error">{error}</Alert>}
+          </Box>
+        ) : cycles.length === 0 ? (
+          <Typography variant="body2" color="text.secondary">
+            No assessment cycles yet. Create one to group assessments into a named campaign such as
+            an annual SS-A submission.
+          </Typography>
+        ) : (
+          <>
+            {error && (
+              <Alert severity="error" sx={{ mb: 2 }}>
+                {error}
+              </Alert>
+            )}
+            <List dense disablePadding>
+              {cycles.map((cycle) => (
+                <ListItem
+                  key={cycle.id}
+                  disableGutters
+                  secondaryAction={
+                    <Box sx={{ display: "flex", gap: 0.5 }}>
+                      <IconButton size="small" onClick={() => handleEdit(cycle)} title="Edit cycle">
+                        <EditIcon fontSize="small" />
+                      </IconButton>
+                      <IconButton
+                        size="small"
+                        color="error"
+                        onClick={() => {
+                          setError(null);
+                          setPendingDelete(cycle);
+                        }}
+                        title="Delete cycle"
+                      >
+                        <DeleteIcon fontSize="small" />
+                      </IconButton>
+                    </Box>
+                  }
+                >
+                  <ListItemText
+                    primary={cycle.name}
+                    secondary={
+                      <Box component="span" sx={{ display: "flex", gap: 1, alignItems: "center" }}>
+                        {formatDate(cycle.startDate)} – {formatDate(cycle.endDate)}
+                        <Chip
+                          component="span"
+                          label={
+                            cycle.capabilityCodes.length === 0
+                              ? "All capabilities"
+                              : `${cycle.capabilityCodes.length} capabilities`
+                          }
+                          size="small"
+                          variant="outlined"
+                          sx={compactChipSx}
+                        />
+                      </Box>
+                    }
+                  />
+                </ListItem>
+              ))}
+            </List>
+          </>
+        )}
+      </DialogContent>
+      <DialogActions>
+        {form ? (
+          <>
+            <Button onClick={() => setForm(null)}>Back</Button>
+            <Button onClick={handleSave} variant="contained">
+              {form.id ? "Save" : "Create"}
+            </Button>
+          </>
+        ) : (
+          <>
+            <Button
+              startIcon={<AddIcon />}
+              onClick={() => {
+                setError(null);
+                setForm(EMPTY_FORM);
+              }}
+            >
+              New Cycle
+            </Button>
+            <Button onClick={handleClose} variant="contained">
+              Done
+            </Button>
+          </>
+        )}
+      </DialogActions>
+
+      <Dialog open={pendingDelete !== null} onClose={() => setPendingDelete(null)}>
+        <DialogTitle>Delete Cycle?</DialogTitle>
+        <DialogContent>
+          <DialogContentText>
+            {`Are you sure you want to delete the cycle "${pendingDelete?.name}"? Its assessments and history entries are kept but will no longer belong to a cycle. This cannot be undone.`}
+          </DialogContentText>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setPendingDelete(null)}>Cancel</Button>
+          <Button onClick={handleConfirmDelete} color="error" variant="contained">
+            Delete
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Dialog>
+  );
+}
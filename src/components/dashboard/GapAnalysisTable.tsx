@@ -0,0 +1,130 @@
+/**
+ * Gap Analysis Table Component
+ *
+ * Shows current vs. target maturity per business area and capability,
+ * highlighting where improvement is needed.
+ */
+
+import React from "react";
+import {
+  Chip,
+  Paper,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Typography,
+} from "@mui/material";
+import { useGapAnalysis } from "../../hooks/useGapAnalysis";
+import { compactChipSx } from "../../theme/sharedStyles";
+import { formatDate } from "../../utils/dateFormatters";
+import type { BusinessArea } from "../../types";
+
+interface GapAnalysisTableProps {
+  businessAreas: BusinessArea[];
+  cycleId?: string;
+  isCapabilityVisible?: (capabilityCode: string) => boolean;
+}
+
+function formatLevel(value: number | null): string {
+  return value !== null ? value.toFixed(1) : "—";
+}
+
+function GapChip({ gap }: { gap: number | null }) {
+  if (gap === null) {
+    return (
+      <Typography variant="body2" color="text.secondary">
+        —
+      </Typography>
+    );
+  }
+  const color = gap > 0 ? "warning" : "success";
+  const label = gap > 0 ? `+${gap.toFixed(1)}` : gap.toFixed(1);
+  return <Chip label={label} size="small" color={color} variant="outlined" sx={compactChipSx} />;
+}
+
+export function GapAnalysisTable({
+  businessAreas,
+  cycleId,
+  isCapabilityVisible = () => true,
+}: GapAnalysisTableProps) {
+  const { getCapabilityGap, getBusinessAreaGap, getOverallGap } = useGapAnalysis(cycleId);
+  const overall = getOverallGap();
+
+  return (
+    <TableContainer component={Paper} variant="outlined">
+      <Table size="small">
+        <TableHead>
+          <TableRow sx={{ backgroundColor: "grey.50" }}>
+            <TableCell>Business Area / Capability</TableCell>
+            <TableCell align="center" width={90}>
+              Current
+            </TableCell>
+            <TableCell align="center" width={90}>
+              Target
+            </TableCell>
+            <TableCell align="center" width={90}>
+              Gap
+            </TableCell>
+            <TableCell align="center" width={120}>
+              Target Date
+            </TableCell>
+          </TableRow>
+        </TableHead>
+        <TableBody>
+          <TableRow sx={{ backgroundColor: "grey.100" }}>
+            <TableCell sx={{ fontWeight: 600 }}>Overall</TableCell>
+            <TableCell align="center">{formatLevel(overall.current)}</TableCell>
+            <TableCell align="center">{formatLevel(overall.target)}</TableCell>
+            <TableCell align="center">
+              <GapChip gap={overall.gap} />
+            </TableCell>
+            <TableCell />
+          </TableRow>
+          {businessAreas.map((area) => {
+            const capabilities = area.capabilities.filter((c) => isCapabilityVisible(c.code));
+            if (capabilities.length === 0) return null;
+
+            const areaGap = getBusinessAreaGap(capabilities.map((c) => c.code));
+
+            return (
+              <React.Fragment key={area.name}>
+                <TableRow sx={{ backgroundColor: "grey.50" }}>
+                  <TableCell sx={{ fontWeight: 500 }}>{area.name}</TableCell>
+                  <TableCell align="center">{formatLevel(areaGap.current)}</TableCell>
+                  <TableCell align="center">{formatLevel(areaGap.target)}</TableCell>
+                  <TableCell align="center">
+                    <GapChip gap={areaGap.gap} />
+                  </TableCell>
+                  <TableCell />
+                </TableRow>
+                {capabilities.map((cap) => {
+                  const gap = getCapabilityGap(cap.code);
+                  return (
+                    <TableRow key={cap.code}>
+                      <TableCell sx={{ pl: 4 }}>
+                        <Typography variant="body2">{cap.processName}</Typography>
+                      </TableCell>
+                      <TableCell align="center">{formatLevel(gap?.current ?? null)}</TableCell>
+                      <TableCell align="center">{formatLevel(gap?.target ?? null)}</TableCell>
+                      <TableCell align="center">
+                        <GapChip gap={gap?.gap ?? null} />
+                      </TableCell>
+                      <TableCell align="center">
+                        <Typography variant="body2" color="text.secondary">
+                          {gap?.earliestTargetDate ? formatDate(gap.earliestTargetDate) : "—"}
+                        </Typography>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </React.Fragment>
+            );
+          })}
+        </TableBody>
+      </Table>
+    </TableContainer>
+  );
+}
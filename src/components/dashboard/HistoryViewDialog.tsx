@@ -16,6 +16,9 @@ import {
   Typography,
 } from "@mui/material";
 import { getCapabilityByCode } from "../../services/blueprint";
+import { findAssessmentQuestion, getQuestionLabel } from "../../services/customQuestions";
+import { useCustomQuestions } from "../../hooks/useCustomQuestions";
+import { describeScoringStrategy } from "../../services/scoring";
 import { formatDate } from "../../utils/dateFormatters";
 import { LEVEL_BADGE_MIN_WIDTH } from "../../constants/ui";
 import type { AssessmentHistory } from "../../types";
@@ -27,9 +30,10 @@ interface HistoryViewDialogProps {
 }
 
 export function HistoryViewDialog({ entry, open, onClose }: HistoryViewDialogProps) {
+  const { customQuestions } = useCustomQuestions(entry?.capabilityCode);
   if (!entry) return null;
 
-  const capability = getCapabilityByCode(entry.capabilityCode);
+  const capability = getCapabilityByCode(entry.capabilityCode, entry.blueprintVersion);
   const questions = capability?.bcm.maturity_model.capability_questions || [];
 
   return (
@@ -61,6 +65,14 @@ export function HistoryViewDialog({ entry, open, onClose }: HistoryViewDialogPro
                 {entry.score.toFixed(1)} / 5.0
               </Typography>
             </Box>
+            <Box>
+              <Typography variant="caption" color="text.secondary">
+                Scoring Method
+              </Typography>
+              <Typography variant="body2" fontWeight={500}>
+                {describeScoringStrategy(entry.scoringStrategy)}
+              </Typography>
+            </Box>
             <Box>
               <Typography variant="caption" color="text.secondary">
                 Blueprint Version
@@ -92,7 +104,11 @@ export function HistoryViewDialog({ entry, open, onClose }: HistoryViewDialogPro
           {[...entry.ratings]
             .sort((a, b) => a.questionIndex - b.questionIndex)
             .map((rating) => {
-              const question = questions[rating.questionIndex];
+              const question = findAssessmentQuestion(
+                questions,
+                customQuestions,
+                rating.questionIndex
+              );
               return (
                 <Paper key={rating.questionIndex} variant="outlined" sx={{ p: 1.5 }}>
                   <Box
@@ -104,24 +120,43 @@ export function HistoryViewDialog({ entry, open, onClose }: HistoryViewDialogPro
                     }}
                   >
                     <Typography variant="body2" sx={{ flex: 1, pr: 2 }}>
-                      <strong>Q{rating.questionIndex + 1}:</strong>{" "}
+                      <strong>{getQuestionLabel(rating.questionIndex)}:</strong>{" "}
                       {question?.question || "Question not found"}
                     </Typography>
-                    <Chip
-                      label={`Level ${rating.level}`}
-                      size="small"
-                      color="primary"
-                      sx={{ minWidth: LEVEL_BADGE_MIN_WIDTH }}
-                    />
+                    {rating.notApplicable ? (
+                      <Chip
+                        label="N/A"
+                        size="small"
+                        variant="outlined"
+                        sx={{ minWidth: LEVEL_BADGE_MIN_WIDTH }}
+                      />
+                    ) : (
+                      <Chip
+                        label={`Level ${rating.level}`}
+                        size="small"
+                        color="primary"
+                        sx={{ minWidth: LEVEL_BADGE_MIN_WIDTH }}
+                      />
+                    )}
                   </Box>
-                  {question && (
+                  {rating.notApplicable ? (
                     <Typography
                       variant="caption"
                       color="text.secondary"
-                      sx={{ display: "block", mb: 0.5 }}
+                      sx={{ display: "block", mb: 0.5, fontStyle: "italic" }}
                     >
-                      {question.levels[`level_${rating.level}` as keyof typeof question.levels]}
+                      Not applicable: {rating.notApplicableReason || "No justification recorded"}
                     </Typography>
+                  ) : (
+                    question && (
+                      <Typography
+                        variant="caption"
+                        color="text.secondary"
+                        sx={{ display: "block", mb: 0.5 }}
+                      >
+                        {question.levels[`level_${rating.level}` as keyof typeof question.levels]}
+                      </Typography>
+                    )
                   )}
                   {rating.notes && (
                     <Box
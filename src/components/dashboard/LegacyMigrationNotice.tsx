@@ -0,0 +1,55 @@
+/**
+ * Legacy Migration Notice
+ *
+ * Reports, once, what was converted when a v1.0 database was upgraded to the v2.0 model.
+ */
+
+import { useState } from "react";
+import { Alert, AlertTitle, Box, Button, Collapse } from "@mui/material";
+import {
+  dismissLegacyMigrationReport,
+  getLegacyMigrationReport,
+} from "../../services/legacyMigration";
+
+function plural(count: number, singular: string, pluralForm = `${singular}s`): string {
+  return `${count} ${count === 1 ? singular : pluralForm}`;
+}
+
+export function LegacyMigrationNotice() {
+  const [report, setReport] = useState(getLegacyMigrationReport);
+  const [showDetails, setShowDetails] = useState(false);
+
+  if (!report) return null;
+
+  const handleDismiss = () => {
+    dismissLegacyMigrationReport();
+    setReport(null);
+  };
+
+  return (
+    <Alert severity="info" sx={{ mb: 2 }} onClose={handleDismiss}>
+      <AlertTitle>Your v1.0 assessments were converted</AlertTitle>
+      {plural(report.legacyAssessments, "v1.0 assessment")} became{" "}
+      {plural(report.currentAssessments, "capability assessment")} and{" "}
+      {plural(report.historyEntries, "history entry", "history entries")}, with{" "}
+      {plural(report.ratings, "rating")}. Each v1.0 assessment name is kept as a tag.
+      <Box>
+        <Button
+          color="inherit"
+          size="small"
+          onClick={() => setShowDetails((show) => !show)}
+          sx={{ mt: 0.5, px: 0 }}
+        >
+          {showDetails ? "Hide details" : "Show details"}
+        </Button>
+      </Box>
+      <Collapse in={showDetails}>
+        <Box component="ul" sx={{ m: 0, mt: 1, pl: 2 }}>
+          {report.changes.map((change) => (
+            <li key={change}>{change}</li>
+          ))}
+        </Box>
+      </Collapse>
+    </Alert>
+  );
+}
@@ -0,0 +1,159 @@
+/**
+ * Scoring Strategy Dialog Component
+ *
+ * Lets the user choose how question levels are combined into capability scores
+ * (mean, median, or weakest link) and weight question categories for the mean.
+ * The strategy applies to assessments finalized afterwards and to aggregate scores.
+ */
+
+import { useMemo, useState } from "react";
+import {
+  Alert,
+  Box,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogContentText,
+  DialogTitle,
+  FormControlLabel,
+  Radio,
+  RadioGroup,
+  TextField,
+  Typography,
+} from "@mui/material";
+import { useScoringStrategy } from "../../hooks/useScoringStrategy";
+import { getCapabilities } from "../../services/blueprint";
+import { SCORING_METHOD_LABELS } from "../../services/scoring";
+import type { ScoringMethod, ScoringStrategy } from "../../types";
+
+interface ScoringStrategyDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+const METHOD_DESCRIPTIONS: Record<ScoringMethod, string> = {
+  mean: "Average of the answered levels. Question categories can be weighted.",
+  median: "Middle value of the answered levels; less sensitive to outliers.",
+  minimum: "Lowest answered level; a capability is only as mature as its weakest area.",
+};
+
+export function ScoringStrategyDialog({ open, onClose }: ScoringStrategyDialogProps) {
+  const { strategy, saveStrategy } = useScoringStrategy();
+  const [draft, setDraft] = useState<ScoringStrategy | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // All question categories used in the blueprint, alphabetically
+  const categories = useMemo(() => {
+    const set = new Set<string>();
+    for (const capability of getCapabilities()) {
+      for (const question of capability.bcm.maturity_model.capability_questions) {
+        set.add(question.category);
+      }
+    }
+    return [...set].sort();
+  }, []);
+
+  const current = draft ?? strategy;
+
+  const handleWeightChange = (category: string, value: string) => {
+    const weights = { ...current.categoryWeights };
+    if (value === "") {
+      delete weights[category];
+    } else {
+      weights[category] = Number(value);
+    }
+    setDraft({ ...current, categoryWeights: weights });
+  };
+
+  const handleClose = () => {
+    setDraft(null);
+    setError(null);
+    onClose();
+  };
+
+  const handleSave = async () => {
+    try {
+      await saveStrategy(current);
+      handleClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save scoring strategy");
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={handleClose} maxWidth="sm" fullWidth>
+      <DialogTitle>Scoring Strategy</DialogTitle>
+      <DialogContent dividers>
+        <DialogContentText sx={{ mb: 2 }}>
+          Applies to assessments finalized from now on and to business area and overall scores.
+          Existing finalized scores keep the strategy they were calculated with.
+        </DialogContentText>
+        <RadioGroup
+          value={current.method}
+          onChange={(e) => setDraft({ ...current, method: e.target.value as ScoringMethod })}
+        >
+          {(Object.keys(SCORING_METHOD_LABELS) as ScoringMethod[]).map((method) => (
+            <FormControlLabel
+              key={method}
+              value={method}
+              control={<Radio size="small" />}
+              label={
+                <Box>
+                  <Typography variant="body2" fontWeight={500}>
+                    {SCORING_METHOD_LABELS[method]}
+                  </Typography>
+                  <Typography variant="caption" color="text.secondary">
+                    {METHOD_DESCRIPTIONS[method]}
+                  </Typography>
+                </Box>
+              }
+              sx={{ mb: 1, alignItems: "flex-start" }}
+            />
+          ))}
+        </RadioGroup>
+
+        {current.method === "mean" && (
+          <Box sx={{ mt: 2 }}>
+            <Typography variant="subtitle2" gutterBottom>
+              Category Weights
+            </Typography>
+            <Typography variant="caption" color="text.secondary" sx={{ display: "block", mb: 1 }}>
+              Leave blank for the default weight of 1. A weight of 0 excludes the category.
+            </Typography>
+            <Box sx={{ display: "flex", flexDirection: "column", gap: 1 }}>
+              {categories.map((category) => (
+                <Box key={category} sx={{ display: "flex", alignItems: "center", gap: 2 }}>
+                  <Typography variant="body2" sx={{ flex: 1 }}>
+                    {category}
+                  </Typography>
+                  <TextField
+                    size="small"
+                    type="number"
+                    placeholder="1"
+                    value={current.categoryWeights[category] ?? ""}
+                    onChange={(e) => handleWeightChange(category, e.target.value)}
+                    slotProps={{ htmlInput: { min: 0, step: 0.5 } }}
+                    sx={{ width: 100 }}
+                  />
+                </Box>
+              ))}
+            </Box>
+          </Box>
+        )}
+
+        {error && (
+          <Alert severity="error" sx={{ mt: 2 }}>
+            {error}
+          </Alert>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={handleClose}>Cancel</Button>
+        <Button onClick={handleSave} variant="contained">
+          Save
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
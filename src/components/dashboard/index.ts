@@ -3,6 +3,10 @@
  */
 
 export { CapabilityProgressBar } from "./CapabilityProgressBar";
+export { CycleDialog } from "./CycleDialog";
+export { GapAnalysisTable } from "./GapAnalysisTable";
 export { HistoryPanel } from "./HistoryPanel";
 export { HistoryViewDialog } from "./HistoryViewDialog";
+export { LegacyMigrationNotice } from "./LegacyMigrationNotice";
+export { ScoringStrategyDialog } from "./ScoringStrategyDialog";
 export { StackedProgressBar } from "./StackedProgressBar";
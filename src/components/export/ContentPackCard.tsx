@@ -0,0 +1,186 @@
+/**
+ * Content Pack Card
+ *
+ * Imports ZIP files of BCM/BPT JSON documents that extend or revise the built-in blueprint,
+ * and lists the installed packs. The blueprint is re-merged right after a change.
+ */
+
+import { useState } from "react";
+import {
+  Alert,
+  Box,
+  Button,
+  Card,
+  CardActions,
+  CardContent,
+  Chip,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogContentText,
+  DialogTitle,
+  IconButton,
+  List,
+  ListItem,
+  ListItemText,
+  Typography,
+} from "@mui/material";
+import ExtensionIcon from "@mui/icons-material/Extension";
+import DeleteIcon from "@mui/icons-material/Delete";
+import { Link as RouterLink } from "react-router-dom";
+import { useContentPacks } from "../../hooks/useContentPacks";
+import { getContentPackVersions } from "../../services/contentPacks";
+import { compactChipSx } from "../../theme/sharedStyles";
+import { formatDate } from "../../utils/dateFormatters";
+import type { ContentPack } from "../../types";
+
+export function ContentPackCard() {
+  const { packs, importPack, deletePack } = useContentPacks();
+  const [importing, setImporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [packToDelete, setPackToDelete] = useState<ContentPack | null>(null);
+
+  const handleFile = async (file: File) => {
+    if (!file.name.toLowerCase().endsWith(".zip")) {
+      setError("Please select a .zip file");
+      return;
+    }
+    setImporting(true);
+    setError(null);
+    setMessage(null);
+    try {
+      const pack = await importPack(file, file.name);
+      const versions = getContentPackVersions(pack).map((v) => `v${v}`);
+      setMessage(
+        `Installed "${pack.name}" (${versions.join(", ")}). The blueprint now includes its files.`
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to import content pack");
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!packToDelete) return;
+    setError(null);
+    setMessage(null);
+    try {
+      await deletePack(packToDelete.id);
+      setMessage(`Removed "${packToDelete.name}". The blueprint no longer includes its files.`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to remove content pack");
+    } finally {
+      setPackToDelete(null);
+    }
+  };
+
+  return (
+    <Card sx={{ mb: 3 }}>
+      <CardContent>
+        <Box sx={{ display: "flex", alignItems: "center", gap: 1, mb: 1 }}>
+          <ExtensionIcon color="primary" />
+          <Typography variant="h6" component="h3">
+            Blueprint Content Packs
+          </Typography>
+        </Box>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          Add BCM and BPT files without rebuilding the app, such as a revised CMS release or a state
+          overlay. Upload a ZIP of files named like <code>CM_Establish_Case_BCM_v3.1.json</code>.
+          Pack files replace built-in files for the same capability and version; see{" "}
+          <RouterLink to="/diagnostics">blueprint diagnostics</RouterLink> for what was merged.
+        </Typography>
+
+        {packs.length === 0 ? (
+          <Typography variant="body2" color="text.secondary">
+            No content packs installed.
+          </Typography>
+        ) : (
+          <List dense disablePadding>
+            {packs.map((pack) => (
+              <ListItem
+                key={pack.id}
+                disableGutters
+                secondaryAction={
+                  <IconButton
+                    size="small"
+                    onClick={() => setPackToDelete(pack)}
+                    title="Remove content pack"
+                  >
+                    <DeleteIcon fontSize="small" />
+                  </IconButton>
+                }
+              >
+                <ListItemText
+                  primary={pack.name}
+                  secondary={
+                    <Box component="span" sx={{ display: "flex", gap: 0.5, flexWrap: "wrap" }}>
+                      <span>
+                        {pack.files.length} file{pack.files.length === 1 ? "" : "s"}, imported{" "}
+                        {formatDate(pack.importedAt)}
+                      </span>
+                      {getContentPackVersions(pack).map((version) => (
+                        <Chip
+                          key={version}
+                          component="span"
+                          label={`v${version}`}
+                          size="small"
+                          variant="outlined"
+                          sx={compactChipSx}
+                        />
+                      ))}
+                    </Box>
+                  }
+                />
+              </ListItem>
+            ))}
+          </List>
+        )}
+
+        {message && (
+          <Alert severity="success" sx={{ mt: 2 }} onClose={() => setMessage(null)}>
+            {message}
+          </Alert>
+        )}
+        {error && (
+          <Alert severity="error" sx={{ mt: 2 }} onClose={() => setError(null)}>
+            {error}
+          </Alert>
+        )}
+      </CardContent>
+      <CardActions>
+        <Button component="label" startIcon={<ExtensionIcon />} disabled={importing}>
+          {importing ? "Importing..." : "Import Content Pack"}
+          <input
+            type="file"
+            accept=".zip,application/zip"
+            hidden
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) handleFile(file);
+              e.target.value = "";
+            }}
+          />
+        </Button>
+      </CardActions>
+
+      <Dialog open={packToDelete !== null} onClose={() => setPackToDelete(null)}>
+        <DialogTitle>Remove Content Pack?</DialogTitle>
+        <DialogContent>
+          <DialogContentText>
+            Remove "{packToDelete?.name}"? Capabilities return to the built-in content, and
+            assessments on a blueprint version only this pack provided use the nearest older
+            version.
+          </DialogContentText>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setPackToDelete(null)}>Back</Button>
+          <Button onClick={handleDelete} color="error" variant="contained">
+            Remove
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Card>
+  );
+}
@@ -1,10 +1,12 @@
 /**
  * Import Dialog
  *
- * Handles file selection and import process for ZIP and JSON files.
+ * Handles file selection and import process for ZIP and JSON files. The file is previewed
+ * first, showing local vs incoming data per capability so each conflict can be resolved as
+ * keep local, take incoming, or keep both before anything is written.
  */
 
-import { useState, useCallback } from "react";
+import { Fragment, useState, useCallback } from "react";
 import {
   Dialog,
   DialogTitle,
@@ -21,6 +23,14 @@ import {
   ListItemIcon,
   ListItemText,
   Chip,
+  MenuItem,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
 } from "@mui/material";
 import CloudUploadIcon from "@mui/icons-material/CloudUpload";
 import FolderZipIcon from "@mui/icons-material/FolderZip";
@@ -29,8 +39,27 @@ import CheckCircleIcon from "@mui/icons-material/CheckCircle";
 import ErrorIcon from "@mui/icons-material/Error";
 import HistoryIcon from "@mui/icons-material/History";
 import SkipNextIcon from "@mui/icons-material/SkipNext";
-import { importFromJson, importFromZip, readFileAsText } from "../../services/export";
-import type { ImportResult } from "../../services/export";
+import LockIcon from "@mui/icons-material/Lock";
+import {
+  applyImport,
+  describeIntegrityProblems,
+  describeMigration,
+  ENCRYPTED_EXTENSION,
+  isEncryptedExport,
+  previewImport,
+} from "../../services/export";
+import type {
+  ImportAssessmentSummary,
+  ImportPreview,
+  ImportResolution,
+  ImportResult,
+  IntegrityReport,
+  RatingMergeAnswer,
+  RatingMergeConflict,
+  RatingMergeSide,
+} from "../../services/export";
+import { STATUS_LABELS } from "../../services/workflow";
+import { formatDate, formatDateTime } from "../../utils/dateFormatters";
 
 interface ImportDialogProps {
   open: boolean;
@@ -38,69 +67,228 @@ interface ImportDialogProps {
   onImportComplete: () => void;
 }
 
+const RESOLUTION_LABELS: Record<ImportResolution, string> = {
+  keep_local: "Keep local",
+  take_incoming: "Take incoming",
+  keep_both: "Keep both",
+  merge: "Merge questions",
+};
+
+// Status, score and date of one side of a conflict, or a dash when there is none
+function AssessmentSummary({ summary }: { summary?: ImportAssessmentSummary }) {
+  if (!summary) {
+    return (
+      <Typography variant="body2" color="text.secondary">
+        -
+      </Typography>
+    );
+  }
+  return (
+    <>
+      <Typography variant="body2">
+        {STATUS_LABELS[summary.status]}
+        {summary.score !== undefined && ` · ${summary.score.toFixed(1)}`}
+      </Typography>
+      <Typography variant="caption" color="text.secondary">
+        {formatDate(summary.updatedAt)}
+      </Typography>
+    </>
+  );
+}
+
+// Outcome of checking a ZIP backup against its manifest checksums
+function IntegrityAlert({ report }: { report: IntegrityReport }) {
+  if (report.status === "verified") {
+    return (
+      <Alert severity="success" sx={{ mb: 2 }}>
+        Integrity verified: {report.checkedFiles} file{report.checkedFiles === 1 ? "" : "s"} match
+        the checksums recorded at export.
+      </Alert>
+    );
+  }
+  if (report.status === "unverified") {
+    return (
+      <Alert severity="warning" sx={{ mb: 2 }}>
+        This backup was created before checksums were added, so its integrity cannot be verified.
+      </Alert>
+    );
+  }
+  return (
+    <Alert severity="error" sx={{ mb: 2 }}>
+      Integrity check failed: this backup was altered or corrupted after export and cannot be
+      imported.
+      <Box component="ul" sx={{ m: 0, pl: 2 }}>
+        {describeIntegrityProblems(report).map((problem) => (
+          <li key={problem}>{problem}</li>
+        ))}
+      </Box>
+    </Alert>
+  );
+}
+
+// One side's answer to a conflicting question
+function MergeAnswer({ answer }: { answer: RatingMergeAnswer }) {
+  return (
+    <>
+      <Typography variant="body2">
+        {answer.notApplicable ? "N/A" : answer.level ? `Level ${answer.level}` : "Not rated"}
+      </Typography>
+      {answer.notes.trim() && (
+        <Typography variant="caption" color="text.secondary" sx={{ display: "block" }}>
+          {answer.notes}
+        </Typography>
+      )}
+      <Typography variant="caption" color="text.secondary">
+        {formatDateTime(answer.updatedAt)}
+      </Typography>
+    </>
+  );
+}
+
+interface MergeConflictsProps {
+  conflicts: RatingMergeConflict[];
+  choices: Record<number, RatingMergeSide>;
+  onChoose: (questionIndex: number, side: RatingMergeSide) => void;
+  disabled: boolean;
+}
+
+// Tie-break for questions answered differently on both sides of a merge
+function MergeConflicts({ conflicts, choices, onChoose, disabled }: MergeConflictsProps) {
+  return (
+    <Box sx={{ pl: 2, borderLeft: 2, borderColor: "warning.main" }}>
+      <Typography variant="caption" color="text.secondary">
+        {conflicts.length} question{conflicts.length === 1 ? " was" : "s were"} answered differently
+        on both sides. Choose which answer to keep:
+      </Typography>
+      <Table size="small">
+        <TableBody>
+          {conflicts.map((conflict) => (
+            <TableRow key={conflict.questionIndex}>
+              <TableCell sx={{ width: 60 }}>{conflict.questionLabel}</TableCell>
+              <TableCell>
+                <MergeAnswer answer={conflict.local} />
+              </TableCell>
+              <TableCell>
+                <MergeAnswer answer={conflict.incoming} />
+              </TableCell>
+              <TableCell sx={{ width: 170 }}>
+                <TextField
+                  select
+                  size="small"
+                  fullWidth
+                  value={choices[conflict.questionIndex] ?? conflict.suggested}
+                  onChange={(e) =>
+                    onChoose(conflict.questionIndex, e.target.value as RatingMergeSide)
+                  }
+                  disabled={disabled}
+                >
+                  <MenuItem value="local">Keep local</MenuItem>
+                  <MenuItem value="incoming">Take incoming</MenuItem>
+                </TextField>
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </Box>
+  );
+}
+
 export function ImportDialog({ open, onClose, onImportComplete }: ImportDialogProps) {
   const [file, setFile] = useState<File | null>(null);
+  const [encrypted, setEncrypted] = useState(false);
+  const [passphrase, setPassphrase] = useState("");
   const [importing, setImporting] = useState(false);
   const [progress, setProgress] = useState(0);
   const [progressMessage, setProgressMessage] = useState("");
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [resolutions, setResolutions] = useState<Record<string, ImportResolution>>({});
+  const [mergeChoices, setMergeChoices] = useState<Record<string, Record<number, RatingMergeSide>>>(
+    {}
+  );
   const [result, setResult] = useState<ImportResult | null>(null);
   const [error, setError] = useState<string | null>(null);
 
-  const handleFileSelect = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
-    const selectedFile = event.target.files?.[0];
-    if (selectedFile) {
-      const isValid = selectedFile.name.endsWith(".zip") || selectedFile.name.endsWith(".json");
-      if (isValid) {
-        setFile(selectedFile);
-        setError(null);
-        setResult(null);
-      } else {
-        setError("Please select a .zip or .json file");
-      }
+  const chooseFile = useCallback((chosenFile: File) => {
+    const isValid = [".zip", ".json", `.${ENCRYPTED_EXTENSION}`].some((extension) =>
+      chosenFile.name.endsWith(extension)
+    );
+    if (isValid) {
+      setFile(chosenFile);
+      setError(null);
+      setPreview(null);
+      setResult(null);
+      setEncrypted(false);
+      setPassphrase("");
+      // Encrypted exports need their passphrase before they can be previewed
+      isEncryptedExport(chosenFile)
+        .then(setEncrypted)
+        .catch(() => setEncrypted(false));
+    } else {
+      setError(`Please select a .zip, .json or .${ENCRYPTED_EXTENSION} file`);
     }
-    event.target.value = "";
   }, []);
 
-  const handleDrop = useCallback((event: React.DragEvent<HTMLDivElement>) => {
-    event.preventDefault();
-    const droppedFile = event.dataTransfer.files[0];
-    if (droppedFile) {
-      const isValid = droppedFile.name.endsWith(".zip") || droppedFile.name.endsWith(".json");
-      if (isValid) {
-        setFile(droppedFile);
-        setError(null);
-        setResult(null);
-      } else {
-        setError("Please select a .zip or .json file");
+  const handleFileSelect = useCallback(
+    (event: React.ChangeEvent<HTMLInputElement>) => {
+      const selectedFile = event.target.files?.[0];
+      if (selectedFile) {
+        chooseFile(selectedFile);
       }
-    }
-  }, []);
+      event.target.value = "";
+    },
+    [chooseFile]
+  );
+
+  const handleDrop = useCallback(
+    (event: React.DragEvent<HTMLDivElement>) => {
+      event.preventDefault();
+      const droppedFile = event.dataTransfer.files[0];
+      if (droppedFile) {
+        chooseFile(droppedFile);
+      }
+    },
+    [chooseFile]
+  );
 
   const handleDragOver = (event: React.DragEvent<HTMLDivElement>) => {
     event.preventDefault();
   };
 
-  const handleImport = async () => {
+  const handlePreview = async () => {
     if (!file) return;
 
     setImporting(true);
     setError(null);
-    setResult(null);
 
     try {
-      let importResult: ImportResult;
+      const importPreview = await previewImport(file, encrypted ? passphrase : undefined);
+      setPreview(importPreview);
+      setResolutions(
+        Object.fromEntries(
+          importPreview.items.map((item) => [item.importedAssessmentId, item.suggested])
+        )
+      );
+      setMergeChoices({});
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to read file");
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!preview) return;
+
+    setImporting(true);
+    setError(null);
+    setResult(null);
 
-      const onProgress = (p: number, message: string) => {
+    try {
+      const importResult = await applyImport(preview, resolutions, mergeChoices, (p, message) => {
         setProgress(p);
         setProgressMessage(message);
-      };
-
-      if (file.name.endsWith(".zip")) {
-        importResult = await importFromZip(file, onProgress);
-      } else {
-        const jsonString = await readFileAsText(file);
-        importResult = await importFromJson(jsonString, onProgress);
-      }
+      });
 
       setResult(importResult);
 
@@ -119,6 +307,11 @@ export function ImportDialog({ open, onClose, onImportComplete }: ImportDialogPr
   const handleClose = () => {
     if (!importing) {
       setFile(null);
+      setEncrypted(false);
+      setPassphrase("");
+      setPreview(null);
+      setResolutions({});
+      setMergeChoices({});
       setResult(null);
       setError(null);
       onClose();
@@ -127,6 +320,9 @@ export function ImportDialog({ open, onClose, onImportComplete }: ImportDialogPr
 
   const getFileIcon = () => {
     if (!file) return null;
+    if (encrypted) {
+      return <LockIcon sx={{ fontSize: 48, color: "primary.main" }} />;
+    }
     if (file.name.endsWith(".zip")) {
       return <FolderZipIcon sx={{ fontSize: 48, color: "primary.main" }} />;
     }
@@ -134,10 +330,130 @@ export function ImportDialog({ open, onClose, onImportComplete }: ImportDialogPr
   };
 
   return (
-    <Dialog open={open} onClose={handleClose} maxWidth="sm" fullWidth>
+    <Dialog open={open} onClose={handleClose} maxWidth={preview && !result ? "md" : "sm"} fullWidth>
       <DialogTitle>Import Assessment Data</DialogTitle>
       <DialogContent>
-        {!result ? (
+        {preview && !result ? (
+          <>
+            <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+              Review what {preview.fileName} contains and choose, for each capability, whether to
+              keep your local assessment, take the incoming one, keep both (the newer becomes
+              current and the older finalized one is kept in history), or merge the two question by
+              question into a local assessment that is still in progress. Nothing has been imported
+              yet.
+            </Typography>
+
+            {preview.integrity && <IntegrityAlert report={preview.integrity} />}
+
+            {preview.migration && (
+              <Alert severity="info" sx={{ mb: 2 }}>
+                This export uses format version {preview.migration.fromVersion} and will be upgraded
+                to version {preview.migration.toVersion}:
+                <Box component="ul" sx={{ m: 0, pl: 2 }}>
+                  {describeMigration(preview.migration).map((change) => (
+                    <li key={change}>{change}</li>
+                  ))}
+                </Box>
+              </Alert>
+            )}
+
+            {preview.items.length === 0 ? (
+              <Alert severity="info">This file contains no assessments.</Alert>
+            ) : (
+              <TableContainer sx={{ maxHeight: 400 }}>
+                <Table size="small" stickyHeader>
+                  <TableHead>
+                    <TableRow>
+                      <TableCell>Capability</TableCell>
+                      <TableCell>Local</TableCell>
+                      <TableCell>Incoming</TableCell>
+                      <TableCell sx={{ width: 170 }}>Resolution</TableCell>
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {preview.items.map((item) => (
+                      <Fragment key={item.importedAssessmentId}>
+                        <TableRow>
+                          <TableCell>
+                            <Typography variant="body2">{item.capabilityName}</Typography>
+                            <Typography variant="caption" color="text.secondary">
+                              {item.reason}
+                            </Typography>
+                          </TableCell>
+                          <TableCell>
+                            <AssessmentSummary summary={item.local} />
+                          </TableCell>
+                          <TableCell>
+                            <AssessmentSummary summary={item.incoming} />
+                          </TableCell>
+                          <TableCell>
+                            <TextField
+                              select
+                              size="small"
+                              fullWidth
+                              value={resolutions[item.importedAssessmentId] ?? item.suggested}
+                              onChange={(e) =>
+                                setResolutions((current) => ({
+                                  ...current,
+                                  [item.importedAssessmentId]: e.target.value as ImportResolution,
+                                }))
+                              }
+                              disabled={importing}
+                            >
+                              {item.allowed.map((resolution) => (
+                                <MenuItem key={resolution} value={resolution}>
+                                  {!item.local && resolution === "keep_local"
+                                    ? "Skip"
+                                    : RESOLUTION_LABELS[resolution]}
+                                </MenuItem>
+                              ))}
+                            </TextField>
+                          </TableCell>
+                        </TableRow>
+                        {resolutions[item.importedAssessmentId] === "merge" &&
+                          item.conflicts.length > 0 && (
+                            <TableRow>
+                              <TableCell colSpan={4}>
+                                <MergeConflicts
+                                  conflicts={item.conflicts}
+                                  choices={mergeChoices[item.importedAssessmentId] ?? {}}
+                                  onChoose={(questionIndex, side) =>
+                                    setMergeChoices((current) => ({
+                                      ...current,
+                                      [item.importedAssessmentId]: {
+                                        ...current[item.importedAssessmentId],
+                                        [questionIndex]: side,
+                                      },
+                                    }))
+                                  }
+                                  disabled={importing}
+                                />
+                              </TableCell>
+                            </TableRow>
+                          )}
+                      </Fragment>
+                    ))}
+                  </TableBody>
+                </Table>
+              </TableContainer>
+            )}
+
+            {importing && (
+              <Box sx={{ mt: 2 }}>
+                <LinearProgress variant="determinate" value={progress} />
+                <Typography variant="caption" color="text.secondary" sx={{ mt: 0.5 }}>
+                  {progressMessage || "Processing..."}
+                </Typography>
+              </Box>
+            )}
+
+            {error && (
+              <Alert severity="error" sx={{ mt: 2 }}>
+                {error}
+              </Alert>
+            )}
+          </>
+        ) : !result ? (
           <>
             <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
               Select a backup file to import. Supports ZIP (complete backup with attachments) and
@@ -161,7 +477,7 @@ export function ImportDialog({ open, onClose, onImportComplete }: ImportDialogPr
               <input
                 type="file"
                 id="import-file-input"
-                accept=".zip,.json"
+                accept={`.zip,.json,.${ENCRYPTED_EXTENSION}`}
                 onChange={handleFileSelect}
                 disabled={importing}
                 style={{ display: "none" }}
@@ -183,6 +499,7 @@ export function ImportDialog({ open, onClose, onImportComplete }: ImportDialogPr
                       </Typography>
                       <Typography variant="caption" color="text.secondary">
                         {(file.size / 1024).toFixed(1)} KB
+                        {encrypted && " · Encrypted"}
                       </Typography>
                     </>
                   ) : (
@@ -190,7 +507,7 @@ export function ImportDialog({ open, onClose, onImportComplete }: ImportDialogPr
                       <CloudUploadIcon sx={{ fontSize: 48, color: "action.active" }} />
                       <Typography variant="body1">Drop file here or click to select</Typography>
                       <Typography variant="caption" color="text.secondary">
-                        Supports .zip and .json files
+                        {`Supports .zip, .json and .${ENCRYPTED_EXTENSION} files`}
                       </Typography>
                     </>
                   )}
@@ -198,6 +515,29 @@ export function ImportDialog({ open, onClose, onImportComplete }: ImportDialogPr
               </label>
             </Paper>
 
+            {encrypted && (
+              <TextField
+                fullWidth
+                type="password"
+                label="Passphrase"
+                value={passphrase}
+                onChange={(e) => setPassphrase(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter" && passphrase) {
+                    handlePreview();
+                  }
+                }}
+                helperText="This export is encrypted. Enter the passphrase it was exported with."
+                disabled={importing}
+                slotProps={{
+                  input: {
+                    startAdornment: <LockIcon fontSize="small" color="action" sx={{ mr: 1 }} />,
+                  },
+                }}
+                sx={{ mt: 2 }}
+              />
+            )}
+
             {importing && (
               <Box sx={{ mt: 2 }}>
                 <LinearProgress variant="determinate" value={progress} />
@@ -291,13 +631,30 @@ export function ImportDialog({ open, onClose, onImportComplete }: ImportDialogPr
         )}
       </DialogContent>
       <DialogActions>
-        {!result ? (
+        {preview && !result ? (
+          <>
+            <Button onClick={() => setPreview(null)} disabled={importing}>
+              Back
+            </Button>
+            <Button
+              onClick={handleImport}
+              variant="contained"
+              disabled={importing || preview.integrity?.status === "failed"}
+            >
+              {importing ? "Importing..." : "Import"}
+            </Button>
+          </>
+        ) : !result ? (
           <>
             <Button onClick={handleClose} disabled={importing}>
               Cancel
             </Button>
-            <Button onClick={handleImport} variant="contained" disabled={!file || importing}>
-              {importing ? "Importing..." : "Import"}
+            <Button
+              onClick={handlePreview}
+              variant="contained"
+              disabled={!file || importing || (encrypted && !passphrase)}
+            >
+              {importing ? "Reading..." : "Review Import"}
             </Button>
           </>
         ) : (
@@ -0,0 +1,97 @@
+/**
+ * Passphrase Dialog
+ *
+ * Asks for the passphrase an export is encrypted with, entered twice since it cannot be
+ * recovered later.
+ */
+
+import { useState } from "react";
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  TextField,
+  Button,
+  Typography,
+  Alert,
+} from "@mui/material";
+import { MIN_PASSPHRASE_LENGTH } from "../../services/export";
+
+interface PassphraseDialogProps {
+  open: boolean;
+  onClose: () => void;
+  onConfirm: (passphrase: string) => void;
+  exportType: string;
+}
+
+export function PassphraseDialog({ open, onClose, onConfirm, exportType }: PassphraseDialogProps) {
+  const [passphrase, setPassphrase] = useState("");
+  const [confirmation, setConfirmation] = useState("");
+
+  const tooShort = passphrase.length < MIN_PASSPHRASE_LENGTH;
+  const mismatch = confirmation !== "" && confirmation !== passphrase;
+  const canConfirm = !tooShort && confirmation === passphrase;
+
+  const reset = () => {
+    setPassphrase("");
+    setConfirmation("");
+  };
+
+  const handleConfirm = () => {
+    if (!canConfirm) return;
+    onConfirm(passphrase);
+    reset();
+  };
+
+  const handleClose = () => {
+    reset();
+    onClose();
+  };
+
+  return (
+    <Dialog open={open} onClose={handleClose} maxWidth="sm" fullWidth>
+      <DialogTitle>Encrypt Export</DialogTitle>
+      <DialogContent>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          The {exportType} will be encrypted with this passphrase. Share the passphrase with the
+          recipient separately from the file, for example by phone.
+        </Typography>
+        <Alert severity="warning" sx={{ mb: 2 }}>
+          The passphrase cannot be recovered. Without it the export cannot be imported.
+        </Alert>
+        <TextField
+          autoFocus
+          fullWidth
+          type="password"
+          label="Passphrase"
+          value={passphrase}
+          onChange={(e) => setPassphrase(e.target.value)}
+          helperText={`At least ${MIN_PASSPHRASE_LENGTH} characters`}
+          error={passphrase !== "" && tooShort}
+          sx={{ mb: 2 }}
+        />
+        <TextField
+          fullWidth
+          type="password"
+          label="Confirm Passphrase"
+          value={confirmation}
+          onChange={(e) => setConfirmation(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") {
+              handleConfirm();
+            }
+          }}
+          helperText={mismatch ? "Passphrases do not match" : " "}
+          error={mismatch}
+        />
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={handleClose}>Cancel</Button>
+        <Button onClick={handleConfirm} variant="contained" disabled={!canConfirm}>
+          Encrypt and Export
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
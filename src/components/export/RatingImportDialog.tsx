@@ -0,0 +1,260 @@
+/**
+ * Rating Import Dialog
+ *
+ * Imports ratings captured in a CSV or XLSX spreadsheet into open assessments. The file is
+ * validated and previewed first; nothing is written until the preview is confirmed.
+ */
+
+import { useState } from "react";
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  List,
+  ListItem,
+  ListItemText,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Typography,
+} from "@mui/material";
+import TableChartIcon from "@mui/icons-material/TableChart";
+import { applyRatingImport, previewRatingImport } from "../../services/export";
+import type { RatingImportAction, RatingImportPreview } from "../../services/export";
+import { compactChipSx } from "../../theme/sharedStyles";
+
+interface RatingImportDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+const ACTION_LABELS: Record<RatingImportAction, string> = {
+  create: "New",
+  overwrite: "Overwrite",
+  unchanged: "Unchanged",
+};
+
+const ACTION_COLORS: Record<RatingImportAction, "success" | "warning" | "default"> = {
+  create: "success",
+  overwrite: "warning",
+  unchanged: "default",
+};
+
+// Rows shown in the preview table; the counts always cover the whole file
+const MAX_PREVIEW_ROWS = 200;
+
+export function RatingImportDialog({ open, onClose }: RatingImportDialogProps) {
+  const [preview, setPreview] = useState<RatingImportPreview | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [importedCount, setImportedCount] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const countOf = (action: RatingImportAction) =>
+    preview?.changes.filter((c) => c.action === action).length ?? 0;
+  const pendingCount = countOf("create") + countOf("overwrite");
+
+  const handleFile = async (file: File) => {
+    setLoading(true);
+    setError(null);
+    setPreview(null);
+    try {
+      setPreview(await previewRatingImport(file));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to read spreadsheet");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!preview) return;
+    setLoading(true);
+    setError(null);
+    try {
+      setImportedCount(await applyRatingImport(preview));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Import failed");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleClose = () => {
+    if (loading) return;
+    setPreview(null);
+    setImportedCount(null);
+    setError(null);
+    onClose();
+  };
+
+  return (
+    <Dialog open={open} onClose={handleClose} maxWidth="md" fullWidth>
+      <DialogTitle>Import Ratings from Spreadsheet</DialogTitle>
+      <DialogContent>
+        {importedCount !== null ? (
+          <Alert severity="success">
+            {importedCount} rating{importedCount === 1 ? "" : "s"} imported from {preview?.fileName}
+            .
+          </Alert>
+        ) : (
+          <>
+            <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+              Select a .csv or .xlsx file with a header row containing <b>Capability Code</b>,{" "}
+              <b>Question #</b> (Q1, Q2, ... or C1 for custom questions) or <b>Question</b> text,{" "}
+              <b>Level</b> (1-5) and optionally <b>Notes</b>. A ratings matrix exported from this
+              page works as-is. Ratings go into each capability's in-progress assessment; blank
+              notes keep the existing notes.
+            </Typography>
+
+            <Button
+              component="label"
+              variant="outlined"
+              startIcon={<TableChartIcon />}
+              disabled={loading}
+            >
+              {preview ? "Choose Another File" : "Choose File"}
+              <input
+                type="file"
+                accept=".csv,.xlsx"
+                hidden
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) handleFile(file);
+                  e.target.value = "";
+                }}
+              />
+            </Button>
+
+            {preview && (
+              <Box sx={{ mt: 3 }}>
+                <Typography variant="subtitle2" sx={{ mb: 1 }}>
+                  {preview.fileName}
+                </Typography>
+                <Box sx={{ display: "flex", gap: 1, flexWrap: "wrap", mb: 2 }}>
+                  <Chip label={`${countOf("create")} new`} color="success" variant="outlined" />
+                  <Chip
+                    label={`${countOf("overwrite")} overwritten`}
+                    color="warning"
+                    variant="outlined"
+                  />
+                  <Chip label={`${countOf("unchanged")} unchanged`} variant="outlined" />
+                  <Chip
+                    label={`${preview.issues.length} skipped`}
+                    color={preview.issues.length > 0 ? "error" : "default"}
+                    variant="outlined"
+                  />
+                </Box>
+
+                {preview.changes.length > 0 && (
+                  <TableContainer sx={{ maxHeight: 320, mb: 2 }}>
+                    <Table size="small" stickyHeader>
+                      <TableHead>
+                        <TableRow>
+                          <TableCell>Source</TableCell>
+                          <TableCell>Capability</TableCell>
+                          <TableCell>Question</TableCell>
+                          <TableCell>Level</TableCell>
+                          <TableCell>Change</TableCell>
+                        </TableRow>
+                      </TableHead>
+                      <TableBody>
+                        {preview.changes.slice(0, MAX_PREVIEW_ROWS).map((change) => (
+                          <TableRow
+                            key={`${change.capabilityAssessmentId}:${change.questionIndex}`}
+                          >
+                            <TableCell sx={{ whiteSpace: "nowrap" }}>{change.source}</TableCell>
+                            <TableCell>{change.processName}</TableCell>
+                            <TableCell title={change.question}>{change.questionLabel}</TableCell>
+                            <TableCell sx={{ whiteSpace: "nowrap" }}>
+                              {change.action === "overwrite" && change.previousLevel
+                                ? `${change.previousLevel} → ${change.level}`
+                                : change.level}
+                            </TableCell>
+                            <TableCell>
+                              <Chip
+                                label={ACTION_LABELS[change.action]}
+                                color={ACTION_COLORS[change.action]}
+                                size="small"
+                                variant="outlined"
+                                sx={compactChipSx}
+                              />
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </TableContainer>
+                )}
+                {preview.changes.length > MAX_PREVIEW_ROWS && (
+                  <Typography variant="caption" color="text.secondary">
+                    Showing the first {MAX_PREVIEW_ROWS} of {preview.changes.length} ratings.
+                  </Typography>
+                )}
+
+                {preview.issues.length > 0 && (
+                  <>
+                    <Typography variant="subtitle2" sx={{ mt: 2 }}>
+                      Skipped Rows
+                    </Typography>
+                    <Box sx={{ maxHeight: 160, overflow: "auto" }}>
+                      <List dense disablePadding>
+                        {preview.issues.map((issue, index) => (
+                          <ListItem key={index} disableGutters>
+                            <ListItemText
+                              primary={issue.message}
+                              secondary={issue.source}
+                              slotProps={{
+                                primary: { variant: "body2" },
+                                secondary: { variant: "caption" },
+                              }}
+                            />
+                          </ListItem>
+                        ))}
+                      </List>
+                    </Box>
+                  </>
+                )}
+              </Box>
+            )}
+          </>
+        )}
+
+        {error && (
+          <Alert severity="error" sx={{ mt: 2 }}>
+            {error}
+          </Alert>
+        )}
+      </DialogContent>
+      <DialogActions>
+        {importedCount !== null ? (
+          <Button onClick={handleClose} variant="contained">
+            Done
+          </Button>
+        ) : (
+          <>
+            <Button onClick={handleClose} disabled={loading}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleImport}
+              variant="contained"
+              disabled={!preview || pendingCount === 0 || loading}
+            >
+              {loading && preview
+                ? "Importing..."
+                : `Import ${pendingCount} Rating${pendingCount === 1 ? "" : "s"}`}
+            </Button>
+          </>
+        )}
+      </DialogActions>
+    </Dialog>
+  );
+}
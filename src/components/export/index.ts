@@ -1,2 +1,5 @@
+export { ContentPackCard } from "./ContentPackCard";
 export { ImportDialog } from "./ImportDialog";
+export { PassphraseDialog } from "./PassphraseDialog";
+export { RatingImportDialog } from "./RatingImportDialog";
 export { StateNameDialog } from "./StateNameDialog";
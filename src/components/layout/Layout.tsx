@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { Outlet, useNavigate, useLocation } from "react-router-dom";
 import {
   AppBar,
@@ -6,11 +6,14 @@ import {
   Button,
   Drawer,
   IconButton,
+  Divider,
   List,
   ListItem,
   ListItemButton,
   ListItemIcon,
   ListItemText,
+  Menu,
+  MenuItem,
   Toolbar,
   Typography,
   useMediaQuery,
@@ -21,6 +24,13 @@ import DashboardIcon from "@mui/icons-material/Dashboard";
 import AccountTreeIcon from "@mui/icons-material/AccountTree";
 import ImportExportIcon from "@mui/icons-material/ImportExport";
 import InfoOutlinedIcon from "@mui/icons-material/InfoOutlined";
+import DeleteOutlineIcon from "@mui/icons-material/DeleteOutline";
+import WorkspacesIcon from "@mui/icons-material/Workspaces";
+import CheckIcon from "@mui/icons-material/Check";
+import SettingsIcon from "@mui/icons-material/Settings";
+import { useWorkspaces } from "../../hooks/useWorkspaces";
+import { purgeExpiredTrash } from "../../services/trash";
+import { WorkspaceDialog } from "./WorkspaceDialog";
 
 const navItems = [
   { label: "Dashboard", path: "/dashboard", icon: <DashboardIcon /> },
@@ -30,6 +40,7 @@ const navItems = [
     path: "/import-export",
     icon: <ImportExportIcon />,
   },
+  { label: "Trash", path: "/trash", icon: <DeleteOutlineIcon /> },
   { label: "Guide", path: "/guide", icon: <InfoOutlinedIcon /> },
 ];
 
@@ -39,6 +50,14 @@ export default function Layout() {
   const [mobileOpen, setMobileOpen] = useState(false);
   const navigate = useNavigate();
   const location = useLocation();
+  const { workspaces, activeWorkspace, activeWorkspaceId, switchWorkspace } = useWorkspaces();
+  const [workspaceMenuAnchor, setWorkspaceMenuAnchor] = useState<HTMLElement | null>(null);
+  const [workspaceDialogOpen, setWorkspaceDialogOpen] = useState(false);
+
+  // Auto-purge trashed items past the retention period on startup
+  useEffect(() => {
+    purgeExpiredTrash().catch((error) => console.error("Failed to purge trash:", error));
+  }, []);
 
   const handleDrawerToggle = () => {
     setMobileOpen(!mobileOpen);
@@ -115,6 +134,52 @@ export default function Layout() {
             MITA 3.0 SS-A
           </Typography>
 
+          {/* Workspace switcher */}
+          <Button
+            color="inherit"
+            startIcon={<WorkspacesIcon />}
+            onClick={(e) => setWorkspaceMenuAnchor(e.currentTarget)}
+            sx={{ textTransform: "none", maxWidth: 240 }}
+            title="Switch workspace"
+          >
+            <Typography variant="body2" noWrap>
+              {activeWorkspace?.name ?? "Workspace"}
+            </Typography>
+          </Button>
+          <Menu
+            anchorEl={workspaceMenuAnchor}
+            open={Boolean(workspaceMenuAnchor)}
+            onClose={() => setWorkspaceMenuAnchor(null)}
+          >
+            {workspaces.map((workspace) => (
+              <MenuItem
+                key={workspace.id}
+                selected={workspace.id === activeWorkspaceId}
+                onClick={() => {
+                  setWorkspaceMenuAnchor(null);
+                  if (workspace.id !== activeWorkspaceId) switchWorkspace(workspace.id);
+                }}
+              >
+                <ListItemIcon>
+                  {workspace.id === activeWorkspaceId && <CheckIcon fontSize="small" />}
+                </ListItemIcon>
+                <ListItemText primary={workspace.name} />
+              </MenuItem>
+            ))}
+            <Divider />
+            <MenuItem
+              onClick={() => {
+                setWorkspaceMenuAnchor(null);
+                setWorkspaceDialogOpen(true);
+              }}
+            >
+              <ListItemIcon>
+                <SettingsIcon fontSize="small" />
+              </ListItemIcon>
+              <ListItemText primary="Manage workspaces…" />
+            </MenuItem>
+          </Menu>
+
           {/* Desktop navigation - right aligned */}
           {!isMobile && (
             <Box sx={{ display: "flex", gap: 1, ml: "auto" }}>
@@ -167,6 +232,8 @@ export default function Layout() {
       >
         <Outlet />
       </Box>
+
+      <WorkspaceDialog open={workspaceDialogOpen} onClose={() => setWorkspaceDialogOpen(false)} />
     </Box>
   );
 }
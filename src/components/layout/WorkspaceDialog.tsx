@@ -0,0 +1,253 @@
+/**
+ * Workspace Dialog Component
+ *
+ * Modal dialog for creating, renaming, duplicating, switching, and deleting workspaces.
+ * Each workspace keeps its assessments in a separate browser database.
+ */
+
+import { useState } from "react";
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  IconButton,
+  List,
+  ListItem,
+  ListItemText,
+  TextField,
+  Typography,
+} from "@mui/material";
+import EditIcon from "@mui/icons-material/Edit";
+import DeleteIcon from "@mui/icons-material/Delete";
+import AddIcon from "@mui/icons-material/Add";
+import ContentCopyIcon from "@mui/icons-material/ContentCopy";
+import { useWorkspaces } from "../../hooks/useWorkspaces";
+import { DEFAULT_WORKSPACE_ID } from "../../services/db";
+import { compactChipSx } from "../../theme/sharedStyles";
+import type { Workspace } from "../../types";
+
+interface WorkspaceDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+interface WorkspaceFormState {
+  mode: "create" | "rename" | "duplicate";
+  workspace: Workspace | null; // Workspace being renamed or duplicated
+  name: string;
+}
+
+const FORM_TITLES: Record<WorkspaceFormState["mode"], string> = {
+  create: "New Workspace",
+  rename: "Rename Workspace",
+  duplicate: "Duplicate Workspace",
+};
+
+export function WorkspaceDialog({ open, onClose }: WorkspaceDialogProps) {
+  const {
+    workspaces,
+    activeWorkspaceId,
+    createWorkspace,
+    renameWorkspace,
+    duplicateWorkspace,
+    deleteWorkspace,
+    switchWorkspace,
+  } = useWorkspaces();
+
+  const [form, setForm] = useState<WorkspaceFormState | null>(null);
+  const [deleteTarget, setDeleteTarget] = useState<Workspace | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const openForm = (mode: WorkspaceFormState["mode"], workspace: Workspace | null = null) => {
+    setError(null);
+    setForm({
+      mode,
+      workspace,
+      name:
+        mode === "rename"
+          ? (workspace?.name ?? "")
+          : mode === "duplicate"
+            ? `${workspace?.name} (copy)`
+            : "",
+    });
+  };
+
+  const handleSave = async () => {
+    if (!form) return;
+    setSaving(true);
+    try {
+      if (form.mode === "create") {
+        await createWorkspace(form.name);
+      } else if (form.mode === "rename" && form.workspace) {
+        await renameWorkspace(form.workspace.id, form.name);
+      } else if (form.mode === "duplicate" && form.workspace) {
+        await duplicateWorkspace(form.workspace.id, form.name);
+      }
+      setForm(null);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save workspace");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deleteTarget) return;
+    try {
+      await deleteWorkspace(deleteTarget.id);
+      setDeleteTarget(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to delete workspace");
+      setDeleteTarget(null);
+    }
+  };
+
+  const handleClose = () => {
+    setForm(null);
+    setDeleteTarget(null);
+    setError(null);
+    onClose();
+  };
+
+  return (
+    <Dialog open={open} onClose={handleClose} maxWidth="sm" fullWidth>
+      <DialogTitle>{form ? FORM_TITLES[form.mode] : "Workspaces"}</DialogTitle>
+      <DialogContent dividers>
+        {form ? (
+          <Box sx={{ display: "flex", flexDirection: "column", gap: 2 }}>
+            {form.mode === "duplicate" && (
+              <Typography variant="body2" color="text.secondary">
+                Copies every assessment, rating, attachment, and history entry from "
+                {form.workspace?.name}" into a new workspace.
+              </Typography>
+            )}
+            <TextField
+              autoFocus
+              fullWidth
+              label="Workspace Name"
+              placeholder="e.g., Ohio Medicaid, Provider Management"
+              value={form.name}
+              onChange={(e) => setForm({ ...form, name: e.target.value })}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") handleSave();
+              }}
+            />
+          </Box>
+        ) : deleteTarget ? (
+          <Typography variant="body2">
+            Permanently delete the workspace "{deleteTarget.name}" and all of its assessments? This
+            cannot be undone.
+          </Typography>
+        ) : (
+          <>
+            <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+              Each workspace keeps a separate set of assessments, for example one per state or
+              program area. Switching workspaces reloads the app.
+            </Typography>
+            <List dense disablePadding>
+              {workspaces.map((workspace) => {
+                const isActive = workspace.id === activeWorkspaceId;
+                return (
+                  <ListItem
+                    key={workspace.id}
+                    disableGutters
+                    secondaryAction={
+                      <Box sx={{ display: "flex", gap: 0.5 }}>
+                        {!isActive && (
+                          <Button size="small" onClick={() => switchWorkspace(workspace.id)}>
+                            Switch
+                          </Button>
+                        )}
+                        <IconButton
+                          size="small"
+                          onClick={() => openForm("rename", workspace)}
+                          title="Rename workspace"
+                        >
+                          <EditIcon fontSize="small" />
+                        </IconButton>
+                        <IconButton
+                          size="small"
+                          onClick={() => openForm("duplicate", workspace)}
+                          title="Duplicate workspace"
+                        >
+                          <ContentCopyIcon fontSize="small" />
+                        </IconButton>
+                        <IconButton
+                          size="small"
+                          color="error"
+                          onClick={() => setDeleteTarget(workspace)}
+                          disabled={isActive || workspace.id === DEFAULT_WORKSPACE_ID}
+                          title="Delete workspace"
+                        >
+                          <DeleteIcon fontSize="small" />
+                        </IconButton>
+                      </Box>
+                    }
+                  >
+                    <ListItemText
+                      primary={
+                        <Box
+                          component="span"
+                          sx={{ display: "flex", gap: 1, alignItems: "center" }}
+                        >
+                          {workspace.name}
+                          {isActive && (
+                            <Chip
+                              component="span"
+                              label="Active"
+                              size="small"
+                              color="primary"
+                              sx={compactChipSx}
+                            />
+                          )}
+                        </Box>
+                      }
+                    />
+                  </ListItem>
+                );
+              })}
+            </List>
+          </>
+        )}
+        {error && (
+          <Alert severity="error" sx={{ mt: 2 }}>
+            {error}
+          </Alert>
+        )}
+      </DialogContent>
+      <DialogActions>
+        {form ? (
+          <>
+            <Button onClick={() => setForm(null)}>Back</Button>
+            <Button onClick={handleSave} variant="contained" disabled={saving}>
+              {form.mode === "create" ? "Create" : form.mode === "rename" ? "Save" : "Duplicate"}
+            </Button>
+          </>
+        ) : deleteTarget ? (
+          <>
+            <Button onClick={() => setDeleteTarget(null)}>Back</Button>
+            <Button onClick={handleDelete} variant="contained" color="error">
+              Delete
+            </Button>
+          </>
+        ) : (
+          <>
+            <Button startIcon={<AddIcon />} onClick={() => openForm("create")}>
+              New Workspace
+            </Button>
+            <Button onClick={handleClose} variant="contained">
+              Done
+            </Button>
+          </>
+        )}
+      </DialogActions>
+    </Dialog>
+  );
+}
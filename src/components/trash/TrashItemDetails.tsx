@@ -0,0 +1,132 @@
+/**
+ * Trash Item Details Component
+ *
+ * Shows the ratings and attachments stored with a deleted assessment or history entry,
+ * so users can check what a restore would bring back. Attachments can be downloaded
+ * directly from the trash.
+ */
+
+import {
+  Box,
+  Chip,
+  IconButton,
+  List,
+  ListItem,
+  ListItemText,
+  Paper,
+  Typography,
+} from "@mui/material";
+import DownloadIcon from "@mui/icons-material/Download";
+import { getCapabilityByCode } from "../../services/blueprint";
+import { findAssessmentQuestion, getQuestionLabel } from "../../services/customQuestions";
+import { useCustomQuestions } from "../../hooks/useCustomQuestions";
+import { downloadBlob } from "../../utils/downloadHelpers";
+import { formatFileSize } from "../../utils/fileFormatters";
+import { LEVEL_BADGE_MIN_WIDTH } from "../../constants/ui";
+import type { HistoricalRating, TrashItem } from "../../types";
+
+interface TrashItemDetailsProps {
+  item: TrashItem;
+}
+
+export function TrashItemDetails({ item }: TrashItemDetailsProps) {
+  const blueprintVersion = item.assessment?.blueprintVersion ?? item.historyEntry?.blueprintVersion;
+  const questions =
+    getCapabilityByCode(item.capabilityCode, blueprintVersion)?.bcm.maturity_model
+      .capability_questions ?? [];
+  const { customQuestions } = useCustomQuestions(item.capabilityCode);
+
+  // Live ratings and history snapshots share the fields shown here
+  const ratings: HistoricalRating[] =
+    item.type === "history"
+      ? (item.historyEntry?.ratings ?? [])
+      : (item.ratings ?? []).filter((r) => r.level !== null || r.notApplicable || r.notes);
+  const attachments = item.attachments ?? [];
+
+  return (
+    <Box sx={{ display: "flex", flexDirection: "column", gap: 2 }}>
+      <Box>
+        <Typography variant="subtitle2" gutterBottom>
+          Ratings ({ratings.length})
+        </Typography>
+        {ratings.length === 0 ? (
+          <Typography variant="body2" color="text.secondary">
+            No questions were answered.
+          </Typography>
+        ) : (
+          <Box sx={{ display: "flex", flexDirection: "column", gap: 1 }}>
+            {[...ratings]
+              .sort((a, b) => a.questionIndex - b.questionIndex)
+              .map((rating) => (
+                <Paper key={rating.questionIndex} variant="outlined" sx={{ p: 1.5 }}>
+                  <Box sx={{ display: "flex", justifyContent: "space-between", gap: 2 }}>
+                    <Typography variant="body2" sx={{ flex: 1 }}>
+                      <strong>{getQuestionLabel(rating.questionIndex)}:</strong>{" "}
+                      {findAssessmentQuestion(questions, customQuestions, rating.questionIndex)
+                        ?.question || "Question not found"}
+                    </Typography>
+                    {rating.notApplicable ? (
+                      <Chip
+                        label="N/A"
+                        size="small"
+                        variant="outlined"
+                        sx={{ minWidth: LEVEL_BADGE_MIN_WIDTH }}
+                      />
+                    ) : rating.level !== null ? (
+                      <Chip
+                        label={`Level ${rating.level}`}
+                        size="small"
+                        color="primary"
+                        sx={{ minWidth: LEVEL_BADGE_MIN_WIDTH }}
+                      />
+                    ) : null}
+                  </Box>
+                  {rating.notes && (
+                    <Typography variant="caption" color="text.secondary" sx={{ display: "block" }}>
+                      Notes: {rating.notes}
+                    </Typography>
+                  )}
+                </Paper>
+              ))}
+          </Box>
+        )}
+      </Box>
+
+      {item.type === "assessment" && (
+        <Box>
+          <Typography variant="subtitle2" gutterBottom>
+            Attachments ({attachments.length})
+          </Typography>
+          {attachments.length === 0 ? (
+            <Typography variant="body2" color="text.secondary">
+              No attachments.
+            </Typography>
+          ) : (
+            <List dense disablePadding>
+              {attachments.map((attachment) => (
+                <ListItem
+                  key={attachment.id}
+                  disableGutters
+                  secondaryAction={
+                    <IconButton
+                      size="small"
+                      onClick={() => downloadBlob(attachment.blob, attachment.fileName)}
+                      title="Download attachment"
+                    >
+                      <DownloadIcon fontSize="small" />
+                    </IconButton>
+                  }
+                >
+                  <ListItemText
+                    primary={attachment.fileName}
+                    secondary={formatFileSize(attachment.fileSize)}
+                  />
+                </ListItem>
+              ))}
+            </List>
+          )}
+        </Box>
+      )}
+    </Box>
+  );
+}
@@ -0,0 +1,5 @@
+/**
+ * Trash components barrel export
+ */
+
+export { TrashItemDetails } from "./TrashItemDetails";
@@ -0,0 +1,118 @@
+import { useLiveQuery } from "dexie-react-hooks";
+import { v4 as uuidv4 } from "uuid";
+import { db } from "../services/db";
+import type { AssessmentCycle } from "../types";
+
+/**
+ * Input for creating or updating an assessment cycle
+ */
+export interface AssessmentCycleInput {
+  name: string;
+  startDate: Date;
+  endDate: Date;
+  capabilityCodes: string[];
+}
+
+/**
+ * Check whether a capability is in scope for a cycle
+ * An empty capability list means the cycle covers every capability
+ */
+export function isCapabilityInCycle(
+  cycle: AssessmentCycle | undefined,
+  capabilityCode: string
+): boolean {
+  if (!cycle) return true;
+  return cycle.capabilityCodes.length === 0 || cycle.capabilityCodes.includes(capabilityCode);
+}
+
+/**
+ * Hook for managing assessment cycles (named assessment campaigns)
+ */
+export function useAssessmentCycles() {
+  // Get all cycles, most recent first
+  const cycles = useLiveQuery(
+    () => db.assessmentCycles.orderBy("startDate").reverse().toArray(),
+    []
+  );
+
+  /**
+   * Create a new cycle
+   */
+  const createCycle = async (input: AssessmentCycleInput): Promise<string> => {
+    validateCycleInput(input);
+
+    const now = new Date();
+    const id = uuidv4();
+
+    await db.assessmentCycles.add({
+      id,
+      name: input.name.trim(),
+      startDate: input.startDate,
+      endDate: input.endDate,
+      capabilityCodes: input.capabilityCodes,
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    return id;
+  };
+
+  /**
+   * Update an existing cycle
+   */
+  const updateCycle = async (id: string, input: AssessmentCycleInput): Promise<void> => {
+    validateCycleInput(input);
+
+    await db.assessmentCycles.update(id, {
+      name: input.name.trim(),
+      startDate: input.startDate,
+      endDate: input.endDate,
+      capabilityCodes: input.capabilityCodes,
+      updatedAt: new Date(),
+    });
+  };
+
+  /**
+   * Delete a cycle
+   * Assessments and history entries are kept but detached from the cycle
+   */
+  const deleteCycle = async (id: string): Promise<void> => {
+    await db.transaction(
+      "rw",
+      [db.assessmentCycles, db.capabilityAssessments, db.assessmentHistory],
+      async () => {
+        await db.capabilityAssessments.where("cycleId").equals(id).modify({ cycleId: undefined });
+        await db.assessmentHistory.where("cycleId").equals(id).modify({ cycleId: undefined });
+        await db.assessmentCycles.delete(id);
+      }
+    );
+  };
+
+  /**
+   * Get a cycle by ID
+   */
+  const getCycle = (id: string | undefined): AssessmentCycle | undefined => {
+    if (!id) return undefined;
+    return cycles?.find((c) => c.id === id);
+  };
+
+  return {
+    cycles: cycles || [],
+    createCycle,
+    updateCycle,
+    deleteCycle,
+    getCycle,
+  };
+}
+
+/**
+ * Validate cycle input before saving
+ */
+function validateCycleInput(input: AssessmentCycleInput): void {
+  if (!input.name.trim()) {
+    throw new Error("Cycle name is required");
+  }
+  if (input.endDate < input.startDate) {
+    throw new Error("Cycle end date must be on or after the start date");
+  }
+}
@@ -7,6 +7,7 @@
 import { useLiveQuery } from "dexie-react-hooks";
 import { v4 as uuidv4 } from "uuid";
 import { db } from "../services/db";
+import { recordAttachmentChange } from "../services/auditLog";
 import { downloadBlob } from "../utils/downloadHelpers";
 import type { Attachment } from "../types";
 
@@ -74,21 +75,28 @@ export function useAttachments(capabilityAssessmentId: string | undefined): UseA
       uploadedAt: now,
     };
 
-    await db.attachments.add(attachment);
-
-    // Update the rating's attachmentIds array
-    const rating = await db.ratings.get(ratingId);
-    if (rating) {
-      await db.ratings.update(ratingId, {
-        attachmentIds: [...(rating.attachmentIds || []), attachmentId],
-        updatedAt: now,
-      });
-    }
-
-    // Update assessment timestamp
-    await db.capabilityAssessments.update(capabilityAssessmentId, {
-      updatedAt: now,
-    });
+    await db.transaction(
+      "rw",
+      [db.attachments, db.ratings, db.capabilityAssessments, db.ratingAudit],
+      async () => {
+        await db.attachments.add(attachment);
+
+        // Update the rating's attachmentIds array
+        const rating = await db.ratings.get(ratingId);
+        if (rating) {
+          await db.ratings.update(ratingId, {
+            attachmentIds: [...(rating.attachmentIds || []), attachmentId],
+            updatedAt: now,
+          });
+          await recordAttachmentChange(rating, "attachment_added", file.name, now);
+        }
+
+        // Update assessment timestamp
+        await db.capabilityAssessments.update(capabilityAssessmentId, {
+          updatedAt: now,
+        });
+      }
+    );
 
     return attachmentId;
   };
@@ -100,24 +108,33 @@ export function useAttachments(capabilityAssessmentId: string | undefined): UseA
     const attachment = await db.attachments.get(attachmentId);
     if (!attachment) return;
 
-    // Remove from rating's attachmentIds
-    const rating = await db.ratings.get(attachment.ratingId);
-    if (rating) {
-      await db.ratings.update(attachment.ratingId, {
-        attachmentIds: (rating.attachmentIds || []).filter((id) => id !== attachmentId),
-        updatedAt: new Date(),
-      });
-    }
-
-    // Delete the attachment
-    await db.attachments.delete(attachmentId);
+    const now = new Date();
 
-    // Update assessment timestamp
-    if (capabilityAssessmentId) {
-      await db.capabilityAssessments.update(capabilityAssessmentId, {
-        updatedAt: new Date(),
-      });
-    }
+    await db.transaction(
+      "rw",
+      [db.attachments, db.ratings, db.capabilityAssessments, db.ratingAudit],
+      async () => {
+        // Remove from rating's attachmentIds
+        const rating = await db.ratings.get(attachment.ratingId);
+        if (rating) {
+          await db.ratings.update(attachment.ratingId, {
+            attachmentIds: (rating.attachmentIds || []).filter((id) => id !== attachmentId),
+            updatedAt: now,
+          });
+          await recordAttachmentChange(rating, "attachment_removed", attachment.fileName, now);
+        }
+
+        // Delete the attachment
+        await db.attachments.delete(attachmentId);
+
+        // Update assessment timestamp
+        if (capabilityAssessmentId) {
+          await db.capabilityAssessments.update(capabilityAssessmentId, {
+            updatedAt: now,
+          });
+        }
+      }
+    );
   };
 
   /**
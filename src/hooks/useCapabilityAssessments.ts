@@ -2,31 +2,84 @@ import { useLiveQuery } from "dexie-react-hooks";
 import { v4 as uuidv4 } from "uuid";
 import { db } from "../services/db";
 import { getBlueprintVersion, getCapabilityByCode } from "../services/blueprint";
-import type { CapabilityAssessment, Rating, AssessmentHistory } from "../types";
+import { canTransition, isOpenStatus, STATUS_LABELS } from "../services/workflow";
+import { calculateCapabilityScore, toHistoricalRatings } from "../services/scoring";
+import { getCustomQuestions } from "../services/customQuestions";
+import { getScoringStrategy } from "../services/settings";
+import { moveAssessmentToTrash } from "../services/trash";
+import { retireFinalizedAssessment } from "../services/assessments";
+import { CLEARED_RATING, recordRatingChanges } from "../services/auditLog";
+import { isCapabilityInCycle } from "./useAssessmentCycles";
+import type {
+  AssessmentStatus,
+  CapabilityAssessment,
+  CapabilityStatus,
+  Rating,
+  AssessmentHistory,
+} from "../types";
 
 /**
  * Hook for managing capability assessments (v2.0 model)
  * Each capability is assessed independently as a standalone record
+ * When a cycle ID is given, the assessment list and status lookups are scoped to that cycle
  */
-export function useCapabilityAssessments() {
-  // Get all capability assessments
+export function useCapabilityAssessments(cycleId?: string) {
+  // Get all capability assessments (optionally scoped to a cycle)
   const assessments = useLiveQuery(
-    () => db.capabilityAssessments.orderBy("updatedAt").reverse().toArray(),
-    []
+    () =>
+      db.capabilityAssessments
+        .orderBy("updatedAt")
+        .reverse()
+        .filter((a) => !cycleId || a.cycleId === cycleId)
+        .toArray(),
+    [cycleId]
+  );
+
+  // Open assessments outside the cycle; a capability can only have one open assessment, so
+  // these block starting another one in the cycle
+  const openInOtherCycles = useLiveQuery(
+    () =>
+      cycleId
+        ? db.capabilityAssessments
+            .filter((a) => a.cycleId !== cycleId && isOpenStatus(a.status))
+            .toArray()
+        : [],
+    [cycleId]
   );
 
   /**
    * Start a new assessment for a capability
+   * Optionally assigns the assessment to an assessment cycle
    */
   const startAssessment = async (
     capabilityCode: string,
-    initialTags: string[] = []
+    initialTags: string[] = [],
+    cycleId?: string
   ): Promise<string> => {
     const capability = getCapabilityByCode(capabilityCode);
     if (!capability) {
       throw new Error(`Capability not found: ${capabilityCode}`);
     }
 
+    const existingInProgress = await db.capabilityAssessments
+      .where("capabilityCode")
+      .equals(capabilityCode)
+      .filter((a) => isOpenStatus(a.status))
+      .first();
+    if (existingInProgress) {
+      throw new Error(`An assessment for ${capability.processName} is already in progress`);
+    }
+
+    if (cycleId) {
+      const cycle = await db.assessmentCycles.get(cycleId);
+      if (!cycle) {
+        throw new Error(`Assessment cycle not found: ${cycleId}`);
+      }
+      if (!isCapabilityInCycle(cycle, capabilityCode)) {
+        throw new Error(`${capability.processName} is not in scope for cycle "${cycle.name}"`);
+      }
+    }
+
     const now = new Date();
     const assessmentId = uuidv4();
 
@@ -41,6 +94,7 @@ export function useCapabilityAssessments() {
       blueprintVersion: getBlueprintVersion(),
       createdAt: now,
       updatedAt: now,
+      cycleId,
     };
 
     await db.capabilityAssessments.add(assessment);
@@ -82,32 +136,30 @@ export function useCapabilityAssessments() {
         snapshotDate: assessment.finalizedAt || assessment.updatedAt,
         tags: assessment.tags,
         score: assessment.score,
-        ratings: currentRatings
-          .filter((r) => r.level !== null)
-          .map((r) => ({
-            questionIndex: r.questionIndex,
-            level: r.level as 1 | 2 | 3 | 4 | 5,
-            notes: r.notes,
-            attachmentIds: r.attachmentIds || [],
-          })),
+        scoringStrategy: assessment.scoringStrategy,
+        ratings: toHistoricalRatings(currentRatings),
         blueprintVersion: assessment.blueprintVersion,
+        cycleId: assessment.cycleId,
       };
 
-      await db.assessmentHistory.add(historyEntry);
-
-      // Convert ratings to "suggestion" format
-      // Move current level to previousLevel, set level to null
-      const now = new Date();
-      for (const rating of currentRatings) {
-        if (rating.level !== null) {
-          await db.ratings.update(rating.id, {
-            previousLevel: rating.level,
-            level: null,
-            carriedForward: true,
-            updatedAt: now,
-          });
+      await db.transaction("rw", [db.assessmentHistory, db.ratings, db.ratingAudit], async () => {
+        await db.assessmentHistory.add(historyEntry);
+
+        // Convert ratings to "suggestion" format
+        // Move current level to previousLevel, set level to null
+        const now = new Date();
+        for (const rating of currentRatings) {
+          if (rating.level !== null) {
+            await db.ratings.update(rating.id, {
+              previousLevel: rating.level,
+              level: null,
+              carriedForward: true,
+              updatedAt: now,
+            });
+            await recordRatingChanges(rating, rating, { level: null }, now);
+          }
         }
-      }
+      });
     }
 
     await db.capabilityAssessments.update(assessmentId, {
@@ -117,8 +169,59 @@ export function useCapabilityAssessments() {
   };
 
   /**
-   * Finalize an assessment
-   * Snapshots any existing finalized assessment to history first
+   * Submit an assessment for review
+   * Ratings are locked until a reviewer returns or approves it
+   */
+  const submitForReview = async (assessmentId: string): Promise<void> => {
+    const now = new Date();
+    await transitionAssessment(assessmentId, "submitted", {
+      submittedAt: now,
+      updatedAt: now,
+    });
+  };
+
+  /**
+   * Return a submitted or approved assessment to the analyst with comments
+   */
+  const returnAssessment = async (
+    assessmentId: string,
+    reviewerName: string,
+    comments: string
+  ): Promise<void> => {
+    if (!comments.trim()) {
+      throw new Error("Review comments are required when returning an assessment");
+    }
+
+    const now = new Date();
+    await transitionAssessment(assessmentId, "returned", {
+      reviewerName: reviewerName.trim() || undefined,
+      reviewComments: comments.trim(),
+      reviewedAt: now,
+      updatedAt: now,
+    });
+  };
+
+  /**
+   * Approve a submitted assessment so it can be finalized
+   */
+  const approveAssessment = async (
+    assessmentId: string,
+    reviewerName: string,
+    comments: string = ""
+  ): Promise<void> => {
+    const now = new Date();
+    await transitionAssessment(assessmentId, "approved", {
+      reviewerName: reviewerName.trim() || undefined,
+      reviewComments: comments.trim() || undefined,
+      reviewedAt: now,
+      updatedAt: now,
+    });
+  };
+
+  /**
+   * Finalize an approved assessment
+   * Snapshots the existing finalized assessment of the same cycle to history first, then moves it
+   * to the trash
    */
   const finalizeAssessment = async (assessmentId: string): Promise<void> => {
     const assessment = await db.capabilityAssessments.get(assessmentId);
@@ -127,56 +230,28 @@ export function useCapabilityAssessments() {
       throw new Error(`Assessment not found: ${assessmentId}`);
     }
 
+    if (!canTransition(assessment.status, "finalized")) {
+      throw new Error(
+        `Cannot finalize an assessment that is ${STATUS_LABELS[assessment.status].toLowerCase()}; it must be approved first`
+      );
+    }
+
     const now = new Date();
 
     // Get ratings for this assessment
     const ratings = await db.ratings.where("capabilityAssessmentId").equals(assessmentId).toArray();
 
-    // Calculate score
-    const answeredRatings = ratings.filter((r) => r.level !== null);
+    // Calculate score with the configured strategy (not-applicable answers are excluded)
+    const scoringStrategy = await getScoringStrategy();
+    const questions =
+      getCapabilityByCode(assessment.capabilityCode, assessment.blueprintVersion)?.bcm
+        .maturity_model.capability_questions ?? [];
+    const customQuestions = await getCustomQuestions(assessment.capabilityCode);
     const score =
-      answeredRatings.length > 0
-        ? answeredRatings.reduce((sum, r) => sum + (r.level || 0), 0) / answeredRatings.length
-        : undefined;
-
-    // Check for existing finalized assessment (different from current)
-    const existingFinalized = await db.capabilityAssessments
-      .where("capabilityCode")
-      .equals(assessment.capabilityCode)
-      .filter((a) => a.status === "finalized" && a.id !== assessmentId)
-      .first();
+      calculateCapabilityScore(ratings, questions, scoringStrategy, customQuestions) ?? undefined;
 
-    // Snapshot existing finalized to history before replacing
-    if (existingFinalized && existingFinalized.score !== undefined) {
-      const existingRatings = await db.ratings
-        .where("capabilityAssessmentId")
-        .equals(existingFinalized.id)
-        .toArray();
-
-      const historyEntry: AssessmentHistory = {
-        id: uuidv4(),
-        capabilityCode: existingFinalized.capabilityCode,
-        snapshotDate: existingFinalized.finalizedAt || existingFinalized.updatedAt,
-        tags: existingFinalized.tags,
-        score: existingFinalized.score,
-        ratings: existingRatings
-          .filter((r) => r.level !== null)
-          .map((r) => ({
-            questionIndex: r.questionIndex,
-            level: r.level as 1 | 2 | 3 | 4 | 5,
-            notes: r.notes,
-            attachmentIds: r.attachmentIds || [],
-          })),
-        blueprintVersion: existingFinalized.blueprintVersion,
-      };
-
-      await db.assessmentHistory.add(historyEntry);
-
-      // Delete the old finalized assessment and its ratings and attachments
-      await db.attachments.where("capabilityAssessmentId").equals(existingFinalized.id).delete();
-      await db.ratings.where("capabilityAssessmentId").equals(existingFinalized.id).delete();
-      await db.capabilityAssessments.delete(existingFinalized.id);
-    }
+    // Snapshot the cycle's existing finalized assessment to history before replacing it
+    await retireFinalizedAssessment(assessment);
 
     // Update current assessment to finalized
     const updateData = {
@@ -184,6 +259,7 @@ export function useCapabilityAssessments() {
       finalizedAt: now,
       updatedAt: now,
       score: score ? Math.round(score * 10) / 10 : undefined,
+      scoringStrategy,
     };
 
     await db.capabilityAssessments.update(assessmentId, updateData);
@@ -210,26 +286,19 @@ export function useCapabilityAssessments() {
   };
 
   /**
-   * Delete an assessment and its ratings and attachments
+   * Delete an assessment
+   * Moves it to the trash with its ratings and attachments so it can be restored
    */
   const deleteAssessment = async (assessmentId: string): Promise<void> => {
-    await db.transaction("rw", [db.capabilityAssessments, db.ratings, db.attachments], async () => {
-      await db.attachments.where("capabilityAssessmentId").equals(assessmentId).delete();
-      await db.ratings.where("capabilityAssessmentId").equals(assessmentId).delete();
-      await db.capabilityAssessments.delete(assessmentId);
-    });
+    await moveAssessmentToTrash(assessmentId);
   };
 
   /**
    * Discard an in-progress assessment (for new assessments that were never finalized)
-   * Deletes the assessment and all its ratings and attachments
+   * Moves the assessment and all its ratings and attachments to the trash
    */
   const discardAssessment = async (assessmentId: string): Promise<void> => {
-    await db.transaction("rw", [db.capabilityAssessments, db.ratings, db.attachments], async () => {
-      await db.attachments.where("capabilityAssessmentId").equals(assessmentId).delete();
-      await db.ratings.where("capabilityAssessmentId").equals(assessmentId).delete();
-      await db.capabilityAssessments.delete(assessmentId);
-    });
+    await moveAssessmentToTrash(assessmentId);
   };
 
   /**
@@ -262,10 +331,14 @@ export function useCapabilityAssessments() {
 
     await db.transaction(
       "rw",
-      [db.capabilityAssessments, db.ratings, db.assessmentHistory],
+      [db.capabilityAssessments, db.ratings, db.assessmentHistory, db.ratingAudit],
       async () => {
         // Delete current ratings
-        await db.ratings.where("capabilityAssessmentId").equals(assessmentId).delete();
+        const currentRatings = db.ratings.where("capabilityAssessmentId").equals(assessmentId);
+        const currentByQuestion = new Map(
+          (await currentRatings.toArray()).map((r) => [r.questionIndex, r])
+        );
+        await currentRatings.delete();
 
         // Restore ratings from history
         const now = new Date();
@@ -274,6 +347,10 @@ export function useCapabilityAssessments() {
           capabilityAssessmentId: assessmentId,
           questionIndex: r.questionIndex,
           level: r.level,
+          notApplicable: r.notApplicable,
+          notApplicableReason: r.notApplicableReason,
+          targetLevel: r.targetLevel,
+          targetDate: r.targetDate,
           notes: r.notes,
           carriedForward: false,
           attachmentIds: r.attachmentIds || [],
@@ -284,11 +361,27 @@ export function useCapabilityAssessments() {
           await db.ratings.bulkAdd(restoredRatings);
         }
 
+        // Record the reverted values against each question's timeline
+        for (const rating of restoredRatings) {
+          await recordRatingChanges(
+            rating,
+            currentByQuestion.get(rating.questionIndex),
+            rating,
+            now
+          );
+          currentByQuestion.delete(rating.questionIndex);
+        }
+        for (const rating of currentByQuestion.values()) {
+          await recordRatingChanges(rating, rating, CLEARED_RATING, now);
+        }
+
         // Restore assessment to finalized state
         await db.capabilityAssessments.update(assessmentId, {
           status: "finalized",
           tags: latestHistory.tags,
           score: latestHistory.score,
+          scoringStrategy: latestHistory.scoringStrategy,
+          blueprintVersion: latestHistory.blueprintVersion,
           finalizedAt: latestHistory.snapshotDate,
           updatedAt: now,
         });
@@ -305,11 +398,11 @@ export function useCapabilityAssessments() {
   const getAssessmentForCapability = async (
     capabilityCode: string
   ): Promise<CapabilityAssessment | undefined> => {
-    // First check for in-progress
+    // First check for an open (in-progress or under review) assessment
     const inProgress = await db.capabilityAssessments
       .where("capabilityCode")
       .equals(capabilityCode)
-      .filter((a) => a.status === "in_progress")
+      .filter((a) => isOpenStatus(a.status))
       .first();
 
     if (inProgress) return inProgress;
@@ -325,15 +418,13 @@ export function useCapabilityAssessments() {
   /**
    * Get assessment status for a capability
    */
-  const getCapabilityStatus = (
-    capabilityCode: string
-  ): "not_assessed" | "in_progress" | "finalized" => {
+  const getCapabilityStatus = (capabilityCode: string): CapabilityStatus => {
     if (!assessments) return "not_assessed";
 
     const inProgress = assessments.find(
-      (a) => a.capabilityCode === capabilityCode && a.status === "in_progress"
+      (a) => a.capabilityCode === capabilityCode && isOpenStatus(a.status)
     );
-    if (inProgress) return "in_progress";
+    if (inProgress) return inProgress.status;
 
     const finalized = assessments.find(
       (a) => a.capabilityCode === capabilityCode && a.status === "finalized"
@@ -353,18 +444,27 @@ export function useCapabilityAssessments() {
   };
 
   /**
-   * Get in-progress assessment for a capability
+   * Get the open (in-progress or under review) assessment for a capability
    */
   const getInProgress = (capabilityCode: string): CapabilityAssessment | undefined => {
-    return assessments?.find(
-      (a) => a.capabilityCode === capabilityCode && a.status === "in_progress"
-    );
+    return assessments?.find((a) => a.capabilityCode === capabilityCode && isOpenStatus(a.status));
+  };
+
+  /**
+   * Get the open assessment for a capability that belongs to another cycle (or to none),
+   * when the hook is scoped to a cycle
+   */
+  const getOpenInOtherCycle = (capabilityCode: string): CapabilityAssessment | undefined => {
+    return openInOtherCycles?.find((a) => a.capabilityCode === capabilityCode);
   };
 
   return {
     assessments: assessments || [],
     startAssessment,
     editAssessment,
+    submitForReview,
+    returnAssessment,
+    approveAssessment,
     finalizeAssessment,
     updateTags,
     deleteAssessment,
@@ -374,6 +474,7 @@ export function useCapabilityAssessments() {
     getCapabilityStatus,
     getLatestFinalized,
     getInProgress,
+    getOpenInOtherCycle,
   };
 }
 
@@ -389,6 +490,29 @@ export function useCapabilityAssessment(assessmentId: string | undefined) {
   return { assessment };
 }
 
+/**
+ * Helper to move an assessment to a new workflow status
+ * Throws if the transition is not allowed from the current status
+ */
+async function transitionAssessment(
+  assessmentId: string,
+  to: AssessmentStatus,
+  changes: Partial<CapabilityAssessment>
+): Promise<void> {
+  const assessment = await db.capabilityAssessments.get(assessmentId);
+  if (!assessment) {
+    throw new Error(`Assessment not found: ${assessmentId}`);
+  }
+
+  if (!canTransition(assessment.status, to)) {
+    throw new Error(
+      `Cannot move assessment from ${STATUS_LABELS[assessment.status]} to ${STATUS_LABELS[to]}`
+    );
+  }
+
+  await db.capabilityAssessments.update(assessmentId, { ...changes, status: to });
+}
+
 /**
  * Helper to update tag usage count
  */
@@ -0,0 +1,17 @@
+import { useLiveQuery } from "dexie-react-hooks";
+import { db } from "../services/db";
+import { deleteContentPack, importContentPack } from "../services/contentPacks";
+
+/**
+ * Hook for listing, importing, and removing blueprint content packs
+ */
+export function useContentPacks() {
+  const packs = useLiveQuery(() => db.contentPacks.orderBy("importedAt").toArray(), []);
+
+  return {
+    packs: packs ?? [],
+    importPack: importContentPack,
+    deletePack: deleteContentPack,
+    isLoading: packs === undefined,
+  };
+}
@@ -0,0 +1,31 @@
+import { useLiveQuery } from "dexie-react-hooks";
+import {
+  createCustomQuestion,
+  deleteCustomQuestion,
+  getCustomQuestions,
+  updateCustomQuestion,
+  type CustomQuestionInput,
+} from "../services/customQuestions";
+
+/**
+ * Hook for the state-specific custom questions of a capability
+ */
+export function useCustomQuestions(capabilityCode: string | undefined) {
+  const customQuestions = useLiveQuery(
+    () => (capabilityCode ? getCustomQuestions(capabilityCode) : []),
+    [capabilityCode]
+  );
+
+  const addQuestion = async (input: CustomQuestionInput) => {
+    if (!capabilityCode) return;
+    await createCustomQuestion(capabilityCode, input);
+  };
+
+  return {
+    customQuestions: customQuestions ?? [],
+    addQuestion,
+    updateQuestion: updateCustomQuestion,
+    deleteQuestion: deleteCustomQuestion,
+    isLoading: customQuestions === undefined,
+  };
+}
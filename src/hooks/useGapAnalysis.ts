@@ -0,0 +1,92 @@
+import { useLiveQuery } from "dexie-react-hooks";
+import { db } from "../services/db";
+import {
+  combineGapSummaries,
+  summarizeCapabilityGap,
+  type GapSummary,
+} from "../services/gapAnalysis";
+import { isOpenStatus } from "../services/workflow";
+import type { CapabilityAssessment } from "../types";
+
+export interface CapabilityGapData extends GapSummary {
+  capabilityCode: string;
+  earliestTargetDate: Date | null; // Soonest target date across the capability's questions
+}
+
+/**
+ * Hook for comparing current maturity against target maturity
+ * Uses the finalized score as the current level when available, otherwise the
+ * average of the open assessment's answered questions
+ */
+export function useGapAnalysis(cycleId?: string) {
+  const gapData = useLiveQuery(async () => {
+    const assessments = cycleId
+      ? await db.capabilityAssessments.where("cycleId").equals(cycleId).toArray()
+      : await db.capabilityAssessments.toArray();
+
+    // Prefer the finalized assessment per capability, then the open one
+    const byCapability = new Map<string, CapabilityAssessment>();
+    for (const assessment of assessments) {
+      const existing = byCapability.get(assessment.capabilityCode);
+      if (assessment.status === "finalized" || (!existing && isOpenStatus(assessment.status))) {
+        byCapability.set(assessment.capabilityCode, assessment);
+      }
+    }
+
+    const ratings = await db.ratings
+      .where("capabilityAssessmentId")
+      .anyOf([...byCapability.values()].map((a) => a.id))
+      .toArray();
+
+    const capabilityGaps = new Map<string, CapabilityGapData>();
+    for (const [capabilityCode, assessment] of byCapability) {
+      const capRatings = ratings.filter((r) => r.capabilityAssessmentId === assessment.id);
+      const targetDates = capRatings
+        .filter((r) => r.targetLevel && r.targetDate)
+        .map((r) => r.targetDate as Date)
+        .sort((a, b) => a.getTime() - b.getTime());
+
+      capabilityGaps.set(capabilityCode, {
+        capabilityCode,
+        ...summarizeCapabilityGap(
+          capRatings,
+          assessment.status === "finalized" ? assessment.score : null
+        ),
+        earliestTargetDate: targetDates[0] ?? null,
+      });
+    }
+
+    return capabilityGaps;
+  }, [cycleId]);
+
+  /**
+   * Get gap data for a capability (undefined if never assessed)
+   */
+  const getCapabilityGap = (capabilityCode: string): CapabilityGapData | undefined => {
+    return gapData?.get(capabilityCode);
+  };
+
+  /**
+   * Get the combined gap for a set of capabilities (e.g. a business area)
+   */
+  const getBusinessAreaGap = (capabilityCodes: string[]): GapSummary => {
+    const summaries = capabilityCodes
+      .map((code) => gapData?.get(code))
+      .filter((g): g is CapabilityGapData => g !== undefined);
+    return combineGapSummaries(summaries);
+  };
+
+  /**
+   * Get the combined gap across every assessed capability
+   */
+  const getOverallGap = (): GapSummary => {
+    return combineGapSummaries(gapData ? [...gapData.values()] : []);
+  };
+
+  return {
+    getCapabilityGap,
+    getBusinessAreaGap,
+    getOverallGap,
+    isLoading: gapData === undefined,
+  };
+}
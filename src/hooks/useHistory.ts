@@ -1,5 +1,6 @@
 import { useLiveQuery } from "dexie-react-hooks";
 import { db } from "../services/db";
+import { moveHistoryEntryToTrash } from "../services/trash";
 import type { AssessmentHistory } from "../types";
 
 /**
@@ -37,17 +38,10 @@ export function useHistory(capabilityCode?: string) {
   };
 
   /**
-   * Delete a history entry
+   * Delete a history entry (moves it to the trash so it can be restored)
    */
   const deleteHistoryEntry = async (id: string): Promise<void> => {
-    await db.assessmentHistory.delete(id);
-  };
-
-  /**
-   * Clear all history for a capability
-   */
-  const clearCapabilityHistory = async (code: string): Promise<void> => {
-    await db.assessmentHistory.where("capabilityCode").equals(code).delete();
+    await moveHistoryEntryToTrash(id);
   };
 
   return {
@@ -55,7 +49,6 @@ export function useHistory(capabilityCode?: string) {
     getCapabilityHistory,
     getHistoryEntry,
     deleteHistoryEntry,
-    clearCapabilityHistory,
   };
 }
 
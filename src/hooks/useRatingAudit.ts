@@ -0,0 +1,29 @@
+import { useLiveQuery } from "dexie-react-hooks";
+import { db } from "../services/db";
+import type { RatingAuditEntry } from "../types";
+
+/**
+ * Hook for reading the audit log of a single question, newest first
+ * Looks entries up by question rather than rating ID so the timeline survives
+ * ratings being recreated (e.g. when an edit is reverted)
+ */
+export function useRatingAudit(
+  capabilityAssessmentId: string | undefined,
+  questionIndex: number,
+  enabled: boolean = true
+) {
+  const entries = useLiveQuery(async (): Promise<RatingAuditEntry[]> => {
+    if (!capabilityAssessmentId || !enabled) return [];
+    const all = await db.ratingAudit
+      .where("capabilityAssessmentId")
+      .equals(capabilityAssessmentId)
+      .filter((e) => e.questionIndex === questionIndex && !e.discardedFromVersion)
+      .toArray();
+    return all.sort((a, b) => b.changedAt.getTime() - a.changedAt.getTime());
+  }, [capabilityAssessmentId, questionIndex, enabled]);
+
+  return {
+    entries: entries ?? [],
+    isLoading: entries === undefined,
+  };
+}
@@ -1,10 +1,18 @@
 import { useLiveQuery } from "dexie-react-hooks";
 import { v4 as uuidv4 } from "uuid";
 import { db } from "../services/db";
-import type { Rating } from "../types";
+import { recordRatingChanges } from "../services/auditLog";
+import { assertRatingsEditable, saveRating as saveRatingAnswer } from "../services/ratings";
+import {
+  calculateCapabilityScore,
+  DEFAULT_SCORING_STRATEGY,
+  isRatingAnswered,
+} from "../services/scoring";
+import type { CapabilityQuestion, CustomQuestion, Rating, ScoringStrategy } from "../types";
 
 /**
  * Hook for managing ratings within a capability assessment (v2.0)
+ * Every write throws when the assessment is locked by the review workflow.
  */
 export function useRatings(capabilityAssessmentId: string | undefined) {
   const ratings = useLiveQuery(
@@ -17,6 +25,7 @@ export function useRatings(capabilityAssessmentId: string | undefined) {
 
   /**
    * Save a rating for a question
+   * Choosing a level replaces a not-applicable answer; saving notes alone keeps it
    * Returns the rating ID (useful for attachments)
    */
   const saveRating = async (
@@ -26,43 +35,148 @@ export function useRatings(capabilityAssessmentId: string | undefined) {
   ): Promise<string | undefined> => {
     if (!capabilityAssessmentId) return undefined;
 
+    return saveRatingAnswer(capabilityAssessmentId, questionIndex, level, notes);
+  };
+
+  /**
+   * Mark a question as not applicable to the state
+   * A justification is required; the question counts as answered but is excluded from scoring
+   */
+  const markNotApplicable = async (
+    questionIndex: number,
+    reason: string
+  ): Promise<string | undefined> => {
+    if (!capabilityAssessmentId) return undefined;
+
+    const justification = reason.trim();
+    if (!justification) {
+      throw new Error("A justification is required to mark a question as not applicable");
+    }
+
     const now = new Date();
     let ratingId: string | undefined;
 
-    // Use transaction to prevent race conditions creating duplicate ratings
-    await db.transaction("rw", [db.ratings, db.capabilityAssessments], async () => {
-      // Check if rating exists for this question using compound index
+    await db.transaction("rw", [db.ratings, db.capabilityAssessments, db.ratingAudit], async () => {
+      await assertRatingsEditable(capabilityAssessmentId);
+
       const existing = await db.ratings
         .where("[capabilityAssessmentId+questionIndex]")
         .equals([capabilityAssessmentId, questionIndex])
         .first();
 
+      const answer = {
+        level: null,
+        notApplicable: true,
+        notApplicableReason: justification,
+      };
+
       if (existing) {
-        // Update existing rating
         await db.ratings.update(existing.id, {
-          level,
-          notes,
-          carriedForward: false, // Clear carried forward flag on edit
+          ...answer,
+          carriedForward: false,
           updatedAt: now,
         });
+        await recordRatingChanges(existing, existing, answer, now);
+        ratingId = existing.id;
+      } else {
+        const rating: Rating = {
+          id: uuidv4(),
+          capabilityAssessmentId,
+          questionIndex,
+          ...answer,
+          notes: "",
+          carriedForward: false,
+          attachmentIds: [],
+          updatedAt: now,
+        };
+        await db.ratings.add(rating);
+        await recordRatingChanges(rating, undefined, answer, now);
+        ratingId = rating.id;
+      }
+
+      await db.capabilityAssessments.update(capabilityAssessmentId, {
+        updatedAt: now,
+      });
+    });
+
+    return ratingId;
+  };
+
+  /**
+   * Clear a not-applicable answer, leaving the question unanswered
+   */
+  const clearNotApplicable = async (questionIndex: number): Promise<void> => {
+    if (!capabilityAssessmentId) return;
+
+    const now = new Date();
+
+    await db.transaction("rw", [db.ratings, db.capabilityAssessments, db.ratingAudit], async () => {
+      await assertRatingsEditable(capabilityAssessmentId);
+
+      const existing = await db.ratings
+        .where("[capabilityAssessmentId+questionIndex]")
+        .equals([capabilityAssessmentId, questionIndex])
+        .first();
+      if (!existing?.notApplicable) return;
+
+      await db.ratings.update(existing.id, {
+        notApplicable: false,
+        notApplicableReason: undefined,
+        updatedAt: now,
+      });
+      await recordRatingChanges(existing, existing, { level: null, notApplicable: false }, now);
+
+      await db.capabilityAssessments.update(capabilityAssessmentId, {
+        updatedAt: now,
+      });
+    });
+  };
+
+  /**
+   * Save the target (to-be) level and optional target date for a question
+   * Leaves the current level and notes untouched
+   */
+  const saveTarget = async (
+    questionIndex: number,
+    targetLevel: 1 | 2 | 3 | 4 | 5 | undefined,
+    targetDate?: Date
+  ): Promise<string | undefined> => {
+    if (!capabilityAssessmentId) return undefined;
+
+    const now = new Date();
+    let ratingId: string | undefined;
+
+    await db.transaction("rw", [db.ratings, db.capabilityAssessments, db.ratingAudit], async () => {
+      await assertRatingsEditable(capabilityAssessmentId);
+
+      const existing = await db.ratings
+        .where("[capabilityAssessmentId+questionIndex]")
+        .equals([capabilityAssessmentId, questionIndex])
+        .first();
+
+      const target = { targetLevel, targetDate: targetLevel ? targetDate : undefined };
+
+      if (existing) {
+        await db.ratings.update(existing.id, { ...target, updatedAt: now });
+        await recordRatingChanges(existing, existing, target, now);
         ratingId = existing.id;
       } else {
-        // Create new rating
-        ratingId = uuidv4();
         const rating: Rating = {
-          id: ratingId,
+          id: uuidv4(),
           capabilityAssessmentId,
           questionIndex,
-          level,
-          notes,
+          level: null,
+          ...target,
+          notes: "",
           carriedForward: false,
-          attachmentIds: [], // Initialize empty attachments array
+          attachmentIds: [],
           updatedAt: now,
         };
         await db.ratings.add(rating);
+        await recordRatingChanges(rating, undefined, target, now);
+        ratingId = rating.id;
       }
 
-      // Update assessment timestamp
       await db.capabilityAssessments.update(capabilityAssessmentId, {
         updatedAt: now,
       });
@@ -79,19 +193,19 @@ export function useRatings(capabilityAssessmentId: string | undefined) {
   };
 
   /**
-   * Get progress (percentage of questions answered)
+   * Get progress (percentage of questions answered, including not-applicable answers)
    */
   const getProgress = (totalQuestions: number): number => {
     if (!ratings || totalQuestions === 0) return 0;
-    const answered = ratings.filter((r) => r.level !== null).length;
+    const answered = ratings.filter(isRatingAnswered).length;
     return Math.round((answered / totalQuestions) * 100);
   };
 
   /**
-   * Get count of answered questions
+   * Get count of answered questions (including not-applicable answers)
    */
   const getAnsweredCount = (): number => {
-    return ratings?.filter((r) => r.level !== null).length || 0;
+    return ratings?.filter(isRatingAnswered).length || 0;
   };
 
   /**
@@ -102,19 +216,25 @@ export function useRatings(capabilityAssessmentId: string | undefined) {
   };
 
   /**
-   * Calculate average score
+   * Calculate the score with a scoring strategy (plain mean by default)
+   * Not-applicable answers, and custom questions not included in scoring, are excluded
    */
-  const getAverageScore = (): number | null => {
+  const getAverageScore = (
+    questions: CapabilityQuestion[] = [],
+    strategy: ScoringStrategy = DEFAULT_SCORING_STRATEGY,
+    customQuestions: CustomQuestion[] = []
+  ): number | null => {
     if (!ratings) return null;
-    const answered = ratings.filter((r) => r.level !== null);
-    if (answered.length === 0) return null;
-    const sum = answered.reduce((acc, r) => acc + (r.level || 0), 0);
-    return Math.round((sum / answered.length) * 10) / 10;
+    const score = calculateCapabilityScore(ratings, questions, strategy, customQuestions);
+    return score !== null ? Math.round(score * 10) / 10 : null;
   };
 
   return {
     ratings: ratings || [],
     saveRating,
+    markNotApplicable,
+    clearNotApplicable,
+    saveTarget,
     getRating,
     getProgress,
     getAnsweredCount,
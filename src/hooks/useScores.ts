@@ -1,35 +1,59 @@
 import { useLiveQuery } from "dexie-react-hooks";
 import { db } from "../services/db";
 import { getCapabilityByCode, getCapabilities } from "../services/blueprint";
-import type { CapabilityAssessment } from "../types";
+import { isCapabilityInCycle } from "./useAssessmentCycles";
+import { isOpenStatus } from "../services/workflow";
+import { aggregateScores, DEFAULT_SCORING_STRATEGY, isRatingAnswered } from "../services/scoring";
+import { getScoringStrategy } from "../services/settings";
+import type { CapabilityAssessment, CapabilityStatus, ScoringStrategy } from "../types";
 
 export interface CapabilityScoreData {
   capabilityCode: string;
   score: number | null;
+  scoringStrategy?: ScoringStrategy; // Strategy that produced the finalized score
   assessmentId: string | null;
   assessmentDate: Date | null;
   tags: string[];
-  status: "not_assessed" | "in_progress" | "finalized";
-  questionProgress: number; // 0-100 percentage of questions answered
+  status: CapabilityStatus;
+  questionProgress: number; // 0-100 percentage of questions answered (including N/A)
+  notApplicableProgress: number; // 0-100 percentage of questions answered as not applicable
 }
 
 /**
  * Hook for accessing maturity scores (v2.0)
  * Simplified since each capability now has its own assessment record
+ * When a cycle ID is given, only assessments belonging to that cycle are counted
  */
-export function useScores() {
+export function useScores(cycleId?: string) {
   const scoreData = useLiveQuery(async () => {
-    // Get all capability assessments
-    const assessments = await db.capabilityAssessments.toArray();
+    // Get capability assessments (scoped to the cycle if one is selected)
+    const assessments = cycleId
+      ? await db.capabilityAssessments.where("cycleId").equals(cycleId).toArray()
+      : await db.capabilityAssessments.toArray();
+    const cycle = cycleId ? await db.assessmentCycles.get(cycleId) : undefined;
+    const scoringStrategy = await getScoringStrategy();
+
+    // Custom questions add to each capability's question count
+    const customQuestionCounts = new Map<string, number>();
+    for (const question of await db.customQuestions.toArray()) {
+      const count = customQuestionCounts.get(question.capabilityCode) || 0;
+      customQuestionCounts.set(question.capabilityCode, count + 1);
+    }
 
     // Get all ratings for progress calculation
+    // Not-applicable answers count as answered, and are also tallied separately for display
     const allRatings = await db.ratings.toArray();
     const ratingsByAssessment = new Map<string, number>();
+    const notApplicableByAssessment = new Map<string, number>();
     for (const rating of allRatings) {
-      if (rating.level !== null) {
+      if (isRatingAnswered(rating)) {
         const count = ratingsByAssessment.get(rating.capabilityAssessmentId) || 0;
         ratingsByAssessment.set(rating.capabilityAssessmentId, count + 1);
       }
+      if (rating.notApplicable) {
+        const count = notApplicableByAssessment.get(rating.capabilityAssessmentId) || 0;
+        notApplicableByAssessment.set(rating.capabilityAssessmentId, count + 1);
+      }
     }
 
     // Build a map of capability code -> score data
@@ -47,41 +71,51 @@ export function useScores() {
 
     // For each capability, determine the score data
     for (const [capabilityCode, capAssessments] of byCapability) {
-      // Prefer finalized, then in-progress
+      // Prefer finalized, then open (in-progress or under review)
       const finalized = capAssessments.find((a) => a.status === "finalized");
-      const inProgress = capAssessments.find((a) => a.status === "in_progress");
+      const inProgress = capAssessments.find((a) => isOpenStatus(a.status));
 
-      // Get total questions for this capability
-      const capability = getCapabilityByCode(capabilityCode);
-      const totalQuestions = capability?.bcm.maturity_model.capability_questions.length || 1;
+      // Get total questions for this capability, as of the assessment's pinned blueprint
+      const capability = getCapabilityByCode(
+        capabilityCode,
+        (finalized ?? inProgress)?.blueprintVersion
+      );
+      const blueprintQuestions = capability?.bcm.maturity_model.capability_questions.length || 0;
+      const customQuestions = customQuestionCounts.get(capabilityCode) || 0;
+      const totalQuestions = blueprintQuestions + customQuestions || 1;
 
       if (finalized) {
         const answeredCount = ratingsByAssessment.get(finalized.id) || 0;
+        const notApplicableCount = notApplicableByAssessment.get(finalized.id) || 0;
         capabilityScores.set(capabilityCode, {
           capabilityCode,
           score: finalized.score ?? null,
+          scoringStrategy: finalized.scoringStrategy,
           assessmentId: finalized.id,
           assessmentDate: finalized.finalizedAt || finalized.updatedAt,
           tags: finalized.tags,
           status: "finalized",
           questionProgress: Math.round((answeredCount / totalQuestions) * 100),
+          notApplicableProgress: Math.round((notApplicableCount / totalQuestions) * 100),
         });
       } else if (inProgress) {
         const answeredCount = ratingsByAssessment.get(inProgress.id) || 0;
+        const notApplicableCount = notApplicableByAssessment.get(inProgress.id) || 0;
         capabilityScores.set(capabilityCode, {
           capabilityCode,
           score: null, // In-progress doesn't have a finalized score
           assessmentId: inProgress.id,
           assessmentDate: inProgress.updatedAt,
           tags: inProgress.tags,
-          status: "in_progress",
+          status: inProgress.status,
           questionProgress: Math.round((answeredCount / totalQuestions) * 100),
+          notApplicableProgress: Math.round((notApplicableCount / totalQuestions) * 100),
         });
       }
     }
 
-    return { capabilityScores };
-  }, []);
+    return { capabilityScores, cycle, scoringStrategy };
+  }, [cycleId]);
 
   /**
    * Get score data for a specific capability
@@ -98,7 +132,8 @@ export function useScores() {
   };
 
   /**
-   * Get average score for a business area
+   * Get the score for a business area, combining capability scores with the
+   * configured scoring method
    */
   const getBusinessAreaScore = (capabilityCodes: string[]): number | null => {
     if (!scoreData) return null;
@@ -111,18 +146,14 @@ export function useScores() {
       }
     }
 
-    if (scores.length === 0) return null;
-
-    const avg = scores.reduce((a, b) => a + b, 0) / scores.length;
-    return Math.round(avg * 10) / 10;
+    const combined = aggregateScores(scores, scoreData.scoringStrategy.method);
+    return combined !== null ? Math.round(combined * 10) / 10 : null;
   };
 
   /**
    * Get status for a capability
    */
-  const getCapabilityStatus = (
-    capabilityCode: string
-  ): "not_assessed" | "in_progress" | "finalized" => {
+  const getCapabilityStatus = (capabilityCode: string): CapabilityStatus => {
     return scoreData?.capabilityScores.get(capabilityCode)?.status ?? "not_assessed";
   };
 
@@ -133,6 +164,13 @@ export function useScores() {
     return scoreData?.capabilityScores.get(capabilityCode)?.questionProgress ?? 0;
   };
 
+  /**
+   * Get the share of questions answered as not applicable for a capability (0-100)
+   */
+  const getCapabilityNotApplicableProgress = (capabilityCode: string): number => {
+    return scoreData?.capabilityScores.get(capabilityCode)?.notApplicableProgress ?? 0;
+  };
+
   /**
    * Get tags for a capability (from latest finalized)
    */
@@ -185,33 +223,61 @@ export function useScores() {
   const getStatusCounts = (): {
     total: number;
     finalized: number;
-    inProgress: number;
+    inProgress: number; // All open assessments, including those under review
+    submitted: number;
+    returned: number;
+    approved: number;
     notAssessed: number;
   } => {
-    const totalCapabilities = getCapabilities().length;
+    const totalCapabilities = getCapabilities().filter((c) =>
+      isCapabilityInCycle(scoreData?.cycle, c.code)
+    ).length;
 
     if (!scoreData)
       return {
         total: totalCapabilities,
         finalized: 0,
         inProgress: 0,
+        submitted: 0,
+        returned: 0,
+        approved: 0,
         notAssessed: totalCapabilities,
       };
 
     let finalized = 0;
     let inProgress = 0;
+    let submitted = 0;
+    let returned = 0;
+    let approved = 0;
 
     for (const data of scoreData.capabilityScores.values()) {
-      if (data.status === "finalized") finalized++;
-      else if (data.status === "in_progress") inProgress++;
+      if (data.status === "finalized") {
+        finalized++;
+        continue;
+      }
+      if (data.status === "not_assessed") continue;
+
+      inProgress++;
+      if (data.status === "submitted") submitted++;
+      else if (data.status === "returned") returned++;
+      else if (data.status === "approved") approved++;
     }
 
     const notAssessed = totalCapabilities - finalized - inProgress;
-    return { total: totalCapabilities, finalized, inProgress, notAssessed };
+    return {
+      total: totalCapabilities,
+      finalized,
+      inProgress,
+      submitted,
+      returned,
+      approved,
+      notAssessed,
+    };
   };
 
   /**
-   * Get overall average score across all finalized assessments
+   * Get the overall score across all finalized assessments, combined with the
+   * configured scoring method
    */
   const getOverallScore = (): number | null => {
     if (!scoreData) return null;
@@ -223,19 +289,19 @@ export function useScores() {
       }
     }
 
-    if (scores.length === 0) return null;
-
-    const avg = scores.reduce((a, b) => a + b, 0) / scores.length;
-    return Math.round(avg * 10) / 10;
+    const combined = aggregateScores(scores, scoreData.scoringStrategy.method);
+    return combined !== null ? Math.round(combined * 10) / 10 : null;
   };
 
   return {
     capabilityScores: scoreData?.capabilityScores ?? new Map(),
+    scoringStrategy: scoreData?.scoringStrategy ?? DEFAULT_SCORING_STRATEGY,
     getCapabilityScoreData,
     getCapabilityScore,
     getBusinessAreaScore,
     getCapabilityStatus,
     getCapabilityProgress,
+    getCapabilityNotApplicableProgress,
     getCapabilityTags,
     getAllTagsInUse,
     getCapabilitiesByTag,
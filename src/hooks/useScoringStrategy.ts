@@ -0,0 +1,16 @@
+import { useLiveQuery } from "dexie-react-hooks";
+import { getScoringStrategy, saveScoringStrategy } from "../services/settings";
+import { DEFAULT_SCORING_STRATEGY } from "../services/scoring";
+
+/**
+ * Hook for reading and updating the configured scoring strategy
+ */
+export function useScoringStrategy() {
+  const strategy = useLiveQuery(() => getScoringStrategy(), []);
+
+  return {
+    strategy: strategy ?? DEFAULT_SCORING_STRATEGY,
+    saveStrategy: saveScoringStrategy,
+    isLoading: strategy === undefined,
+  };
+}
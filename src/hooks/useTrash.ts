@@ -0,0 +1,27 @@
+import { useLiveQuery } from "dexie-react-hooks";
+import { db } from "../services/db";
+import { emptyTrash, purgeExpiredTrash, purgeTrashItem, restoreTrashItem } from "../services/trash";
+import {
+  DEFAULT_TRASH_RETENTION_DAYS,
+  getTrashRetentionDays,
+  saveTrashRetentionDays,
+} from "../services/settings";
+
+/**
+ * Hook for listing, restoring, and purging soft-deleted items
+ */
+export function useTrash() {
+  const items = useLiveQuery(() => db.trash.orderBy("deletedAt").reverse().toArray(), []);
+  const retentionDays = useLiveQuery(() => getTrashRetentionDays(), []);
+
+  return {
+    items: items ?? [],
+    retentionDays: retentionDays ?? DEFAULT_TRASH_RETENTION_DAYS,
+    restoreItem: restoreTrashItem,
+    purgeItem: purgeTrashItem,
+    emptyTrash,
+    purgeExpired: purgeExpiredTrash,
+    saveRetentionDays: saveTrashRetentionDays,
+    isLoading: items === undefined,
+  };
+}
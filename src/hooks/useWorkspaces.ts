@@ -0,0 +1,30 @@
+import { useLiveQuery } from "dexie-react-hooks";
+import {
+  createWorkspace,
+  deleteWorkspace,
+  duplicateWorkspace,
+  getActiveWorkspace,
+  listWorkspaces,
+  renameWorkspace,
+  switchWorkspace,
+} from "../services/workspaces";
+import { getActiveWorkspaceId } from "../services/db";
+
+/**
+ * Hook for listing and managing workspaces
+ */
+export function useWorkspaces() {
+  const workspaces = useLiveQuery(() => listWorkspaces(), []);
+  const activeWorkspace = useLiveQuery(() => getActiveWorkspace(), []);
+
+  return {
+    workspaces: workspaces ?? [],
+    activeWorkspace,
+    activeWorkspaceId: getActiveWorkspaceId(),
+    createWorkspace,
+    renameWorkspace,
+    duplicateWorkspace,
+    deleteWorkspace,
+    switchWorkspace,
+  };
+}
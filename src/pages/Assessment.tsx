@@ -1,6 +1,7 @@
 import { useState, useMemo, useEffect, useCallback } from "react";
 import { useParams, useNavigate, useSearchParams } from "react-router-dom";
 import {
+  Alert,
   Box,
   Button,
   Chip,
@@ -16,15 +17,28 @@ import {
 } from "@mui/material";
 import MenuIcon from "@mui/icons-material/Menu";
 import EditIcon from "@mui/icons-material/Edit";
+import AddIcon from "@mui/icons-material/Add";
 import {
   useCapabilityAssessment,
   useCapabilityAssessments,
 } from "../hooks/useCapabilityAssessments";
 import { useRatings } from "../hooks/useRatings";
 import { useAttachments } from "../hooks/useAttachments";
-import { getCapabilityByCode } from "../services/blueprint";
+import { useScoringStrategy } from "../hooks/useScoringStrategy";
+import { useCustomQuestions } from "../hooks/useCustomQuestions";
+import { getBlueprintVersion, getCapabilityByCode, hasNewerQuestions } from "../services/blueprint";
 import { db } from "../services/db";
-import { BptSidebar, QuestionCard, TagInput } from "../components/assessment";
+import { isEditableStatus, STATUS_LABELS } from "../services/workflow";
+import { describeScoringStrategy } from "../services/scoring";
+import { buildAssessmentQuestions } from "../services/customQuestions";
+import {
+  BlueprintMigrationDialog,
+  BptSidebar,
+  CustomQuestionDialog,
+  QuestionCard,
+  ReviewDialog,
+  TagInput,
+} from "../components/assessment";
 import { formatDate } from "../utils/dateFormatters";
 import {
   HEADER_HEIGHT,
@@ -34,6 +48,7 @@ import {
   SIDEBAR_DEFAULT_WIDTH,
   STICKY_HEADER_Z_INDEX,
 } from "../constants/ui";
+import type { AssessmentStatus, CustomQuestion } from "../types";
 
 export default function Assessment() {
   const { id } = useParams<{ id: string }>();
@@ -46,9 +61,20 @@ export default function Assessment() {
   const isViewMode = searchParams.get("mode") === "view";
 
   const { assessment } = useCapabilityAssessment(id);
-  const { finalizeAssessment, updateTags, discardAssessment, revertEdit } =
-    useCapabilityAssessments();
-  const { getProgress, getAnsweredCount, getAverageScore } = useRatings(id);
+  const {
+    submitForReview,
+    returnAssessment,
+    approveAssessment,
+    finalizeAssessment,
+    updateTags,
+    discardAssessment,
+    revertEdit,
+  } = useCapabilityAssessments();
+  const { ratings, getProgress, getAnsweredCount, getAverageScore } = useRatings(id);
+  const { strategy } = useScoringStrategy();
+  const { customQuestions, addQuestion, updateQuestion, deleteQuestion } = useCustomQuestions(
+    assessment?.capabilityCode
+  );
   const { getAttachmentsForRating, uploadAttachment, deleteAttachment, downloadAttachment } =
     useAttachments(id);
 
@@ -57,6 +83,14 @@ export default function Assessment() {
   const [sidebarCollapsed, setSidebarCollapsed] = useState(false);
   const [finalizeDialogOpen, setFinalizeDialogOpen] = useState(false);
   const [cancelDialogOpen, setCancelDialogOpen] = useState(false);
+  const [submitDialogOpen, setSubmitDialogOpen] = useState(false);
+  const [reviewMode, setReviewMode] = useState<"return" | "approve" | null>(null);
+  const [migrationDialogOpen, setMigrationDialogOpen] = useState(false);
+  // Custom question being added (null question) or edited; undefined when the dialog is closed
+  const [editingCustomQuestion, setEditingCustomQuestion] = useState<
+    CustomQuestion | null | undefined
+  >(undefined);
+  const [actionError, setActionError] = useState<string | null>(null);
 
   // Track if user has made any changes (dirty state)
   const [isDirty, setIsDirty] = useState(false);
@@ -66,7 +100,7 @@ export default function Assessment() {
   // Track original status - captured on first render when assessment is available
   // Using a key pattern: store the assessment ID we captured status for
   const [capturedAssessmentId, setCapturedAssessmentId] = useState<string | null>(null);
-  const [originalStatus, setOriginalStatus] = useState<"in_progress" | "finalized" | null>(null);
+  const [originalStatus, setOriginalStatus] = useState<AssessmentStatus | null>(null);
 
   // Track tags - captured on first render when assessment is available
   const [capturedTagsForId, setCapturedTagsForId] = useState<string | null>(null);
@@ -75,13 +109,34 @@ export default function Assessment() {
   // Get capability data
   const capability = useMemo(() => {
     if (!assessment) return null;
-    return getCapabilityByCode(assessment.capabilityCode);
+    return getCapabilityByCode(assessment.capabilityCode, assessment.blueprintVersion);
   }, [assessment]);
 
-  const totalQuestions = capability?.bcm.maturity_model.capability_questions.length || 0;
+  // Blueprint questions followed by the state's custom questions
+  const questions = useMemo(
+    () =>
+      buildAssessmentQuestions(
+        capability?.bcm.maturity_model.capability_questions ?? [],
+        customQuestions
+      ),
+    [capability, customQuestions]
+  );
+
+  const totalQuestions = questions.length;
   const progress = getProgress(totalQuestions);
   const answeredCount = getAnsweredCount();
 
+  // Finalized assessments show their recorded score; others preview the configured strategy
+  const isFinalizedScore = assessment?.status === "finalized" && assessment.score !== undefined;
+  const displayScore = isFinalizedScore
+    ? assessment.score
+    : getAverageScore(
+        capability?.bcm.maturity_model.capability_questions,
+        strategy,
+        customQuestions
+      );
+  const displayStrategy = isFinalizedScore ? assessment.scoringStrategy : strategy;
+
   // Capture original status when assessment first loads (or when ID changes)
   // This is a "sync external state" pattern - we're syncing from the database
   if (assessment && capturedAssessmentId !== assessment.id) {
@@ -127,16 +182,48 @@ export default function Assessment() {
     }
   };
 
-  const handleFinalize = async () => {
-    if (id) {
-      // Save tags one more time before finalizing to ensure they're persisted
-      await updateTags(id, localTags);
-      await finalizeAssessment(id);
-      setFinalizeDialogOpen(false);
-      navigate("/dashboard");
+  // Run a workflow action, surfacing transition errors instead of failing silently
+  const runWorkflowAction = async (action: () => Promise<void>): Promise<boolean> => {
+    try {
+      setActionError(null);
+      await action();
+      return true;
+    } catch (err) {
+      setActionError(err instanceof Error ? err.message : "Action failed");
+      return false;
     }
   };
 
+  const handleSubmitForReview = async () => {
+    if (!id) return;
+    setSubmitDialogOpen(false);
+    const ok = await runWorkflowAction(async () => {
+      // Save tags one more time before submitting to ensure they're persisted
+      await updateTags(id, localTags);
+      await submitForReview(id);
+    });
+    if (ok) navigate("/dashboard");
+  };
+
+  const handleReviewConfirm = async (reviewerName: string, comments: string) => {
+    if (!id || !reviewMode) return;
+    const mode = reviewMode;
+    setReviewMode(null);
+    const ok = await runWorkflowAction(() =>
+      mode === "return"
+        ? returnAssessment(id, reviewerName, comments)
+        : approveAssessment(id, reviewerName, comments)
+    );
+    if (ok && mode === "return") navigate("/dashboard");
+  };
+
+  const handleFinalize = async () => {
+    if (!id) return;
+    setFinalizeDialogOpen(false);
+    const ok = await runWorkflowAction(() => finalizeAssessment(id));
+    if (ok) navigate("/dashboard");
+  };
+
   const handleClose = () => {
     // Close just navigates back - changes are already auto-saved
     navigate("/dashboard");
@@ -170,11 +257,22 @@ export default function Assessment() {
     if (hasHistory) {
       return "Discard all changes made during this edit session? The assessment will be restored to its previous finalized state.";
     }
-    return "Discard this assessment? All ratings and notes will be permanently deleted.";
+    return "Discard this assessment? It will be moved to the Trash with its ratings, notes, and attachments, where it can be restored.";
   };
 
   const showCancelWarning = true; // Always show warning since cancel has consequences
 
+  // Submitted and approved assessments are locked while under review
+  const isLocked = !isEditableStatus(assessment.status);
+  const isReadOnly = isViewMode || isLocked;
+
+  // Assessments stay pinned to the blueprint they were started on until migrated
+  const currentBlueprintVersion = getBlueprintVersion();
+  const canMigrateBlueprint = hasNewerQuestions(
+    assessment.capabilityCode,
+    assessment.blueprintVersion
+  );
+
   return (
     <Box sx={{ display: "flex", height: `calc(100vh - ${HEADER_HEIGHT}px)` }}>
       {/* BPT Sidebar */}
@@ -248,9 +346,17 @@ export default function Assessment() {
                 {capability.processName}
               </Typography>
               {isViewMode && <Chip label="View Only" size="small" sx={{ flexShrink: 0 }} />}
+              {assessment.status !== "in_progress" && assessment.status !== "finalized" && (
+                <Chip
+                  label={STATUS_LABELS[assessment.status]}
+                  size="small"
+                  color={assessment.status === "returned" ? "warning" : "info"}
+                  sx={{ flexShrink: 0 }}
+                />
+              )}
               {/* Tags inline */}
               <Box sx={{ flex: 1, minWidth: 0 }}>
-                {isViewMode ? (
+                {isReadOnly ? (
                   localTags.length > 0 ? (
                     <Box sx={{ display: "flex", gap: 0.5, flexWrap: "wrap" }}>
                       {localTags.map((tag) => (
@@ -275,11 +381,15 @@ export default function Assessment() {
                 }}
               >
                 <Box sx={{ textAlign: "right" }}>
-                  <Typography variant="caption" color="text.secondary">
+                  <Typography
+                    variant="caption"
+                    color="text.secondary"
+                    title={`Scoring: ${describeScoringStrategy(displayStrategy)}`}
+                  >
                     Score
                   </Typography>
                   <Typography variant="h6" color="primary">
-                    {getAverageScore()?.toFixed(1) || "—"} / 5.0
+                    {displayScore?.toFixed(1) || "—"} / 5.0
                   </Typography>
                 </Box>
                 <Box sx={{ textAlign: "right" }}>
@@ -329,27 +439,79 @@ export default function Assessment() {
 
         {/* Scrollable content */}
         <Box sx={{ flex: 1, p: 3 }}>
+          {assessment.status === "returned" && assessment.reviewComments && (
+            <Alert severity="warning" sx={{ mb: 2 }}>
+              <strong>
+                Returned{assessment.reviewerName ? ` by ${assessment.reviewerName}` : ""}
+                {assessment.reviewedAt ? ` on ${formatDate(assessment.reviewedAt)}` : ""}:
+              </strong>{" "}
+              {assessment.reviewComments}
+            </Alert>
+          )}
+
+          {canMigrateBlueprint && (
+            <Alert
+              severity="info"
+              sx={{ mb: 2 }}
+              action={
+                !isReadOnly && (
+                  <Button color="inherit" size="small" onClick={() => setMigrationDialogOpen(true)}>
+                    Migrate
+                  </Button>
+                )
+              }
+            >
+              This assessment uses blueprint v{assessment.blueprintVersion}. Questions for this
+              capability changed in v{currentBlueprintVersion}.
+              {isReadOnly && " Edit the assessment to migrate its ratings."}
+            </Alert>
+          )}
+
+          {actionError && (
+            <Alert severity="error" sx={{ mb: 2 }} onClose={() => setActionError(null)}>
+              {actionError}
+            </Alert>
+          )}
+
           <Typography variant="h6" gutterBottom>
             Maturity Assessment
           </Typography>
 
-          {capability.bcm.maturity_model.capability_questions.map((question, index) => (
+          {questions.map((question) => (
             <QuestionCard
-              key={index}
+              key={question.questionIndex}
               question={question}
-              questionIndex={index}
+              questionIndex={question.questionIndex}
               assessmentId={id!}
               onDirty={markDirty}
-              readOnly={isViewMode}
+              readOnly={isReadOnly}
               attachmentHandlers={{
                 getAttachmentsForRating,
                 uploadAttachment,
                 deleteAttachment,
                 downloadAttachment,
               }}
+              excludedFromScoring={
+                question.customQuestion ? !question.customQuestion.includeInScoring : false
+              }
+              onEditQuestion={
+                question.customQuestion
+                  ? () => setEditingCustomQuestion(question.customQuestion)
+                  : undefined
+              }
             />
           ))}
 
+          {!isReadOnly && (
+            <Button
+              startIcon={<AddIcon />}
+              onClick={() => setEditingCustomQuestion(null)}
+              sx={{ mb: 2 }}
+            >
+              Add Custom Question
+            </Button>
+          )}
+
           {/* Action buttons */}
           {isViewMode ? (
             <Box
@@ -372,6 +534,34 @@ export default function Assessment() {
                 Switch to Edit
               </Button>
             </Box>
+          ) : isLocked ? (
+            <Box
+              sx={{
+                display: "flex",
+                justifyContent: "space-between",
+                mt: 4,
+                mb: 2,
+                gap: 2,
+              }}
+            >
+              <Button variant="outlined" onClick={handleClose}>
+                Close
+              </Button>
+              <Box sx={{ display: "flex", gap: 1 }}>
+                <Button variant="outlined" color="warning" onClick={() => setReviewMode("return")}>
+                  Return with Comments
+                </Button>
+                {assessment.status === "submitted" ? (
+                  <Button variant="contained" onClick={() => setReviewMode("approve")}>
+                    Approve
+                  </Button>
+                ) : (
+                  <Button variant="contained" onClick={() => setFinalizeDialogOpen(true)}>
+                    Finalize Assessment
+                  </Button>
+                )}
+              </Box>
+            </Box>
           ) : (
             <>
               <Box
@@ -399,10 +589,10 @@ export default function Assessment() {
                 </Box>
                 <Button
                   variant="contained"
-                  onClick={() => setFinalizeDialogOpen(true)}
+                  onClick={() => setSubmitDialogOpen(true)}
                   disabled={progress < 100}
                 >
-                  Finalize Assessment
+                  Submit for Review
                 </Button>
               </Box>
 
@@ -412,7 +602,7 @@ export default function Assessment() {
                   color="text.secondary"
                   sx={{ display: "block", textAlign: "center" }}
                 >
-                  Answer all questions to finalize the assessment
+                  Answer all questions to submit the assessment for review
                 </Typography>
               )}
 
@@ -429,16 +619,77 @@ export default function Assessment() {
         </Box>
       </Box>
 
-      {/* Finalize Dialog */}
-      <Dialog open={finalizeDialogOpen} onClose={() => setFinalizeDialogOpen(false)}>
-        <DialogTitle>Finalize Assessment?</DialogTitle>
+      {/* Submit for Review Dialog */}
+      <Dialog open={submitDialogOpen} onClose={() => setSubmitDialogOpen(false)}>
+        <DialogTitle>Submit for Review?</DialogTitle>
         <DialogContent>
           <DialogContentText>
-            Finalize this assessment for "{capability.processName}"?
+            Submit this assessment for "{capability.processName}" for review?
             {localTags.length > 0 && (
               <> This assessment will be tagged with: {localTags.join(", ")}.</>
             )}{" "}
-            You can edit it later if needed.
+            Ratings are locked until a reviewer returns or approves it.
+          </DialogContentText>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setSubmitDialogOpen(false)}>Back</Button>
+          <Button onClick={handleSubmitForReview} variant="contained">
+            Submit
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      {/* Review Dialog */}
+      <ReviewDialog
+        open={reviewMode !== null}
+        mode={reviewMode ?? "approve"}
+        capabilityName={capability.processName}
+        onClose={() => setReviewMode(null)}
+        onConfirm={handleReviewConfirm}
+      />
+
+      {/* Blueprint Migration Dialog */}
+      {migrationDialogOpen && (
+        <BlueprintMigrationDialog
+          open
+          assessment={assessment}
+          ratings={ratings}
+          toVersion={currentBlueprintVersion}
+          onClose={() => setMigrationDialogOpen(false)}
+          onMigrated={() => {
+            setMigrationDialogOpen(false);
+            markDirty();
+          }}
+        />
+      )}
+
+      {/* Custom Question Dialog */}
+      {editingCustomQuestion !== undefined && (
+        <CustomQuestionDialog
+          open
+          capabilityName={capability.processName}
+          question={editingCustomQuestion ?? undefined}
+          onClose={() => setEditingCustomQuestion(undefined)}
+          onSave={async (input) => {
+            if (editingCustomQuestion) {
+              await updateQuestion(editingCustomQuestion.id, input);
+            } else {
+              await addQuestion(input);
+            }
+          }}
+          onDelete={
+            editingCustomQuestion ? () => deleteQuestion(editingCustomQuestion.id) : undefined
+          }
+        />
+      )}
+
+      {/* Finalize Dialog */}
+      <Dialog open={finalizeDialogOpen} onClose={() => setFinalizeDialogOpen(false)}>
+        <DialogTitle>Finalize Assessment?</DialogTitle>
+        <DialogContent>
+          <DialogContentText>
+            Finalize the approved assessment for "{capability.processName}"? You can edit it later
+            if needed.
           </DialogContentText>
         </DialogContent>
         <DialogActions>
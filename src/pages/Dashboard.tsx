@@ -1,6 +1,7 @@
 import React, { useMemo, useState } from "react";
 import { useNavigate } from "react-router-dom";
 import {
+  Alert,
   Autocomplete,
   Box,
   Button,
@@ -15,6 +16,7 @@ import {
   Menu,
   MenuItem,
   Paper,
+  Select,
   Table,
   TableBody,
   TableCell,
@@ -22,6 +24,8 @@ import {
   TableHead,
   TableRow,
   TextField,
+  ToggleButton,
+  ToggleButtonGroup,
   Typography,
 } from "@mui/material";
 import KeyboardArrowDownIcon from "@mui/icons-material/KeyboardArrowDown";
@@ -32,14 +36,21 @@ import PlayArrowIcon from "@mui/icons-material/PlayArrow";
 import EditIcon from "@mui/icons-material/Edit";
 import DeleteIcon from "@mui/icons-material/Delete";
 import VisibilityIcon from "@mui/icons-material/Visibility";
+import EventNoteIcon from "@mui/icons-material/EventNote";
+import RateReviewIcon from "@mui/icons-material/RateReview";
 import { useCapabilityAssessments } from "../hooks/useCapabilityAssessments";
+import { isCapabilityInCycle, useAssessmentCycles } from "../hooks/useAssessmentCycles";
 import { useScores } from "../hooks/useScores";
 import { useHistory } from "../hooks/useHistory";
 import { getBusinessAreas, getCapabilityByCode } from "../services/blueprint";
 import {
   CapabilityProgressBar,
+  CycleDialog,
+  GapAnalysisTable,
   HistoryPanel,
   HistoryViewDialog,
+  LegacyMigrationNotice,
+  ScoringStrategyDialog,
   StackedProgressBar,
 } from "../components/dashboard";
 import { compactChipSx, getInProgressGradient } from "../theme/sharedStyles";
@@ -50,11 +61,16 @@ import {
   PROGRESS_STRIPE_WIDTH,
   TAG_FILTER_MIN_WIDTH,
 } from "../constants/ui";
-import type { AssessmentHistory } from "../types";
+import { isInReviewStatus, STATUS_LABELS } from "../services/workflow";
+import { describeScoringStrategy } from "../services/scoring";
+import type { AssessmentHistory, CapabilityStatus } from "../types";
 
 export default function Dashboard() {
   const navigate = useNavigate();
   const businessAreas = useMemo(() => getBusinessAreas(), []);
+  const { cycles, getCycle } = useAssessmentCycles();
+  const [selectedCycleId, setSelectedCycleId] = useState<string>("");
+  const selectedCycle = getCycle(selectedCycleId);
   const {
     startAssessment,
     editAssessment,
@@ -62,26 +78,38 @@ export default function Dashboard() {
     getCapabilityStatus,
     getLatestFinalized,
     getInProgress,
-  } = useCapabilityAssessments();
+    getOpenInOtherCycle,
+  } = useCapabilityAssessments(selectedCycleId || undefined);
   const { deleteHistoryEntry } = useHistory();
   const {
+    scoringStrategy,
     getCapabilityScore,
+    getCapabilityScoreData,
     getBusinessAreaScore,
     getCapabilityTags,
     getCapabilityProgress,
+    getCapabilityNotApplicableProgress,
     getAllTagsInUse,
-  } = useScores();
+    getStatusCounts,
+  } = useScores(selectedCycleId || undefined);
+  const statusCounts = getStatusCounts();
+  const awaitingReview = statusCounts.submitted + statusCounts.approved;
 
   const [expandedAreas, setExpandedAreas] = useState<Set<string>>(new Set());
   const [expandedCapabilities, setExpandedCapabilities] = useState<Set<string>>(new Set());
   const [selectedTags, setSelectedTags] = useState<string[]>([]);
+  const [cycleDialogOpen, setCycleDialogOpen] = useState(false);
+  const [view, setView] = useState<"scores" | "gaps">("scores");
+  const [scoringDialogOpen, setScoringDialogOpen] = useState(false);
+  const [actionError, setActionError] = useState<string | null>(null);
 
   // Menu state for action dropdown
   const [menuAnchorEl, setMenuAnchorEl] = useState<null | HTMLElement>(null);
   const [menuCapabilityCode, setMenuCapabilityCode] = useState<string | null>(null);
-  const [menuCapabilityStatus, setMenuCapabilityStatus] = useState<
-    "not_assessed" | "in_progress" | "finalized"
-  >("not_assessed");
+  const [menuCapabilityStatus, setMenuCapabilityStatus] =
+    useState<CapabilityStatus>("not_assessed");
+  const isMenuStatusOpen =
+    menuCapabilityStatus !== "not_assessed" && menuCapabilityStatus !== "finalized";
 
   // Dialog states
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
@@ -132,7 +160,7 @@ export default function Dashboard() {
   const handleMenuOpen = (
     event: React.MouseEvent<HTMLElement>,
     capabilityCode: string,
-    status: "not_assessed" | "in_progress" | "finalized"
+    status: CapabilityStatus
   ) => {
     event.stopPropagation();
     setMenuAnchorEl(event.currentTarget);
@@ -153,7 +181,7 @@ export default function Dashboard() {
         if (finalized) {
           navigate(`/assessment/${finalized.id}?mode=view`);
         }
-      } else if (menuCapabilityStatus === "in_progress") {
+      } else if (isMenuStatusOpen) {
         const inProgress = getInProgress(menuCapabilityCode);
         if (inProgress) {
           navigate(`/assessment/${inProgress.id}?mode=view`);
@@ -196,7 +224,7 @@ export default function Dashboard() {
           });
           setDeleteDialogOpen(true);
         }
-      } else if (menuCapabilityStatus === "in_progress") {
+      } else if (isMenuStatusOpen) {
         const inProgress = getInProgress(menuCapabilityCode);
         if (inProgress) {
           setDeleteTarget({
@@ -247,38 +275,37 @@ export default function Dashboard() {
     let inProgress = 0;
 
     for (const cap of area.capabilities) {
-      if (selectedTags.length > 0) {
-        const capTags = getCapabilityTags(cap.code);
-        if (!selectedTags.some((t) => capTags.includes(t))) {
-          continue;
-        }
-      }
+      if (!shouldShowCapability(cap.code)) continue;
 
       const status = getCapabilityStatus(cap.code);
       if (status === "finalized") {
         finalized++;
-      } else if (status === "in_progress") {
+      } else if (status !== "not_assessed") {
         inProgress++;
       }
     }
 
-    let total = area.capabilities.length;
-    if (selectedTags.length > 0) {
-      total = area.capabilities.filter((cap) => {
-        const capTags = getCapabilityTags(cap.code);
-        return selectedTags.some((t) => capTags.includes(t));
-      }).length;
-    }
+    const total = area.capabilities.filter((cap) => shouldShowCapability(cap.code)).length;
 
     return { finalized, total, inProgress };
   };
 
   const shouldShowCapability = (capabilityCode: string): boolean => {
+    if (!isCapabilityInCycle(selectedCycle, capabilityCode)) return false;
     if (selectedTags.length === 0) return true;
     const capTags = getCapabilityTags(capabilityCode);
     return selectedTags.some((t) => capTags.includes(t));
   };
 
+  const handleStartAssessment = async (capabilityCode: string) => {
+    try {
+      const assessmentId = await startAssessment(capabilityCode, [], selectedCycleId || undefined);
+      navigate(`/assessment/${assessmentId}`);
+    } catch (err) {
+      setActionError(err instanceof Error ? err.message : "Failed to start assessment");
+    }
+  };
+
   const overallStats = useMemo(() => {
     let totalFinalized = 0;
     let totalCapabilities = 0;
@@ -296,7 +323,7 @@ export default function Dashboard() {
 
     return { finalized: totalFinalized, total: totalCapabilities };
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [businessAreas, selectedTags, getCapabilityStatus]);
+  }, [businessAreas, selectedTags, selectedCycle, getCapabilityStatus]);
 
   return (
     <Container maxWidth="lg" sx={{ py: 3 }}>
@@ -319,6 +346,32 @@ export default function Dashboard() {
           </Typography>
         </Box>
         <Box sx={{ display: "flex", alignItems: "center", gap: 2 }}>
+          <ToggleButtonGroup
+            size="small"
+            exclusive
+            value={view}
+            onChange={(_, value) => value && setView(value)}
+          >
+            <ToggleButton value="scores">Scores</ToggleButton>
+            <ToggleButton value="gaps">Gap Analysis</ToggleButton>
+          </ToggleButtonGroup>
+          <Select
+            size="small"
+            value={selectedCycleId}
+            onChange={(e) => setSelectedCycleId(e.target.value)}
+            displayEmpty
+            sx={{ minWidth: TAG_FILTER_MIN_WIDTH }}
+          >
+            <MenuItem value="">All assessments</MenuItem>
+            {cycles.map((cycle) => (
+              <MenuItem key={cycle.id} value={cycle.id}>
+                {cycle.name}
+              </MenuItem>
+            ))}
+          </Select>
+          <IconButton onClick={() => setCycleDialogOpen(true)} title="Manage assessment cycles">
+            <EventNoteIcon />
+          </IconButton>
           {allTags.length > 0 && (
             <Autocomplete
               multiple
@@ -340,6 +393,18 @@ export default function Dashboard() {
               }
             />
           )}
+          <Chip
+            label={`Scoring: ${describeScoringStrategy(scoringStrategy)}`}
+            variant="outlined"
+            onClick={() => setScoringDialogOpen(true)}
+            title="Change scoring strategy"
+          />
+          {awaitingReview > 0 && (
+            <Chip label={`${awaitingReview} awaiting review`} color="info" variant="outlined" />
+          )}
+          {statusCounts.returned > 0 && (
+            <Chip label={`${statusCounts.returned} returned`} color="warning" variant="outlined" />
+          )}
           <Chip
             label={`${overallStats.finalized} of ${overallStats.total} finalized`}
             color={
@@ -352,295 +417,381 @@ export default function Dashboard() {
         </Box>
       </Box>
 
-      <TableContainer component={Paper} variant="outlined">
-        <Table size="small">
-          <TableHead>
-            <TableRow sx={{ backgroundColor: "grey.50" }}>
-              <TableCell>Business Area / Capability</TableCell>
-              <TableCell align="center" width={70}>
-                Score
-              </TableCell>
-              <TableCell align="center" width={180}>
-                Tags
-              </TableCell>
-              <TableCell align="center" width={120}>
-                Status
-              </TableCell>
-              <TableCell align="center" width={70}>
-                Completion
-              </TableCell>
-              <TableCell align="center" width={80}>
-                Action
-              </TableCell>
-            </TableRow>
-          </TableHead>
-          <TableBody>
-            {businessAreas.map((area) => {
-              const stats = getAreaStats(area.name);
-              const isExpanded = expandedAreas.has(area.name);
-              const areaScore = getBusinessAreaScore(area.capabilities.map((c) => c.code));
-              const areaTags = getAreaTags(area.name);
-
-              if (selectedTags.length > 0 && stats.total === 0) return null;
-
-              return (
-                <React.Fragment key={area.name}>
-                  <TableRow hover onClick={() => toggleArea(area.name)} sx={{ cursor: "pointer" }}>
-                    <TableCell>
-                      <Box sx={{ display: "flex", alignItems: "center", gap: 0.5 }}>
-                        <IconButton size="small" sx={{ p: 0.25 }}>
-                          {isExpanded ? (
-                            <KeyboardArrowDownIcon fontSize="small" />
-                          ) : (
-                            <KeyboardArrowRightIcon fontSize="small" />
-                          )}
-                        </IconButton>
-                        <Typography variant="body2" fontWeight={600}>
-                          {area.name}
-                        </Typography>
-                      </Box>
-                    </TableCell>
-                    <TableCell align="center">
-                      <Typography
-                        variant="body2"
-                        fontWeight={areaScore !== null ? 600 : 400}
-                        color={areaScore !== null ? "text.primary" : "text.disabled"}
-                      >
-                        {areaScore !== null ? areaScore.toFixed(1) : "—"}
-                      </Typography>
-                    </TableCell>
-                    <TableCell align="center">
-                      <Box
-                        sx={{
-                          display: "flex",
-                          gap: 0.5,
-                          flexWrap: "wrap",
-                          justifyContent: "center",
-                        }}
+      <LegacyMigrationNotice />
+
+      {actionError && (
+        <Alert severity="error" sx={{ mb: 2 }} onClose={() => setActionError(null)}>
+          {actionError}
+        </Alert>
+      )}
+
+      {view === "gaps" ? (
+        <GapAnalysisTable
+          businessAreas={businessAreas}
+          cycleId={selectedCycleId || undefined}
+          isCapabilityVisible={shouldShowCapability}
+        />
+      ) : (
+        <>
+          <TableContainer component={Paper} variant="outlined">
+            <Table size="small">
+              <TableHead>
+                <TableRow sx={{ backgroundColor: "grey.50" }}>
+                  <TableCell>Business Area / Capability</TableCell>
+                  <TableCell align="center" width={70}>
+                    Score
+                  </TableCell>
+                  <TableCell align="center" width={180}>
+                    Tags
+                  </TableCell>
+                  <TableCell align="center" width={120}>
+                    Status
+                  </TableCell>
+                  <TableCell align="center" width={70}>
+                    Completion
+                  </TableCell>
+                  <TableCell align="center" width={80}>
+                    Action
+                  </TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {businessAreas.map((area) => {
+                  const stats = getAreaStats(area.name);
+                  const isExpanded = expandedAreas.has(area.name);
+                  const areaScore = getBusinessAreaScore(area.capabilities.map((c) => c.code));
+                  const areaTags = getAreaTags(area.name);
+
+                  if (selectedTags.length > 0 && stats.total === 0) return null;
+
+                  return (
+                    <React.Fragment key={area.name}>
+                      <TableRow
+                        hover
+                        onClick={() => toggleArea(area.name)}
+                        sx={{ cursor: "pointer" }}
                       >
-                        {areaTags.slice(0, MAX_VISIBLE_TAGS).map((tag) => (
-                          <Chip
-                            key={tag}
-                            label={tag}
-                            size="small"
-                            variant="outlined"
-                            sx={compactChipSx}
-                          />
-                        ))}
-                        {areaTags.length > MAX_VISIBLE_TAGS && (
-                          <Chip
-                            label={`+${areaTags.length - MAX_VISIBLE_TAGS}`}
-                            size="small"
-                            variant="outlined"
-                            sx={compactChipSx}
+                        <TableCell>
+                          <Box sx={{ display: "flex", alignItems: "center", gap: 0.5 }}>
+                            <IconButton size="small" sx={{ p: 0.25 }}>
+                              {isExpanded ? (
+                                <KeyboardArrowDownIcon fontSize="small" />
+                              ) : (
+                                <KeyboardArrowRightIcon fontSize="small" />
+                              )}
+                            </IconButton>
+                            <Typography variant="body2" fontWeight={600}>
+                              {area.name}
+                            </Typography>
+                          </Box>
+                        </TableCell>
+                        <TableCell align="center">
+                          <Typography
+                            variant="body2"
+                            fontWeight={areaScore !== null ? 600 : 400}
+                            color={areaScore !== null ? "text.primary" : "text.disabled"}
+                          >
+                            {areaScore !== null ? areaScore.toFixed(1) : "—"}
+                          </Typography>
+                        </TableCell>
+                        <TableCell align="center">
+                          <Box
+                            sx={{
+                              display: "flex",
+                              gap: 0.5,
+                              flexWrap: "wrap",
+                              justifyContent: "center",
+                            }}
+                          >
+                            {areaTags.slice(0, MAX_VISIBLE_TAGS).map((tag) => (
+                              <Chip
+                                key={tag}
+                                label={tag}
+                                size="small"
+                                variant="outlined"
+                                sx={compactChipSx}
+                              />
+                            ))}
+                            {areaTags.length > MAX_VISIBLE_TAGS && (
+                              <Chip
+                                label={`+${areaTags.length - MAX_VISIBLE_TAGS}`}
+                                size="small"
+                                variant="outlined"
+                                sx={compactChipSx}
+                              />
+                            )}
+                          </Box>
+                        </TableCell>
+                        <TableCell>
+                          <StackedProgressBar
+                            finalized={stats.finalized}
+                            inProgress={stats.inProgress}
+                            total={stats.total}
                           />
-                        )}
-                      </Box>
-                    </TableCell>
-                    <TableCell>
-                      <StackedProgressBar
-                        finalized={stats.finalized}
-                        inProgress={stats.inProgress}
-                        total={stats.total}
-                      />
-                    </TableCell>
-                    <TableCell align="center">
-                      <Typography
-                        variant="body2"
-                        sx={{
-                          fontWeight: 500,
-                          color:
-                            stats.total > 0 && stats.finalized === stats.total
-                              ? "success.main"
-                              : "text.secondary",
-                        }}
-                      >
-                        {stats.total > 0
-                          ? `${Math.round((stats.finalized / stats.total) * 100)}%`
-                          : "—"}
-                      </Typography>
-                    </TableCell>
-                    <TableCell></TableCell>
-                  </TableRow>
-
-                  {isExpanded &&
-                    area.capabilities.map((cap) => {
-                      if (!shouldShowCapability(cap.code)) return null;
-
-                      const status = getCapabilityStatus(cap.code);
-                      const score = getCapabilityScore(cap.code);
-                      const tags = getCapabilityTags(cap.code);
-                      const progress = getCapabilityProgress(cap.code);
-                      const isCapExpanded = expandedCapabilities.has(cap.code);
-
-                      return (
-                        <React.Fragment key={cap.code}>
-                          <TableRow hover sx={{ backgroundColor: "grey.50" }}>
-                            <TableCell>
-                              <Box
-                                sx={{
-                                  display: "flex",
-                                  alignItems: "center",
-                                  gap: 0.5,
-                                  pl: 4,
-                                  cursor: "pointer",
-                                }}
-                                onClick={(e) => toggleCapability(cap.code, e)}
-                              >
-                                <IconButton size="small" sx={{ p: 0.25 }}>
-                                  {isCapExpanded ? (
-                                    <KeyboardArrowDownIcon fontSize="small" />
+                        </TableCell>
+                        <TableCell align="center">
+                          <Typography
+                            variant="body2"
+                            sx={{
+                              fontWeight: 500,
+                              color:
+                                stats.total > 0 && stats.finalized === stats.total
+                                  ? "success.main"
+                                  : "text.secondary",
+                            }}
+                          >
+                            {stats.total > 0
+                              ? `${Math.round((stats.finalized / stats.total) * 100)}%`
+                              : "—"}
+                          </Typography>
+                        </TableCell>
+                        <TableCell></TableCell>
+                      </TableRow>
+
+                      {isExpanded &&
+                        area.capabilities.map((cap) => {
+                          if (!shouldShowCapability(cap.code)) return null;
+
+                          const status = getCapabilityStatus(cap.code);
+                          const score = getCapabilityScore(cap.code);
+                          const tags = getCapabilityTags(cap.code);
+                          const progress = getCapabilityProgress(cap.code);
+                          const notApplicableProgress = getCapabilityNotApplicableProgress(
+                            cap.code
+                          );
+                          const isCapExpanded = expandedCapabilities.has(cap.code);
+                          const openElsewhere =
+                            status === "not_assessed" ? getOpenInOtherCycle(cap.code) : undefined;
+
+                          return (
+                            <React.Fragment key={cap.code}>
+                              <TableRow hover sx={{ backgroundColor: "grey.50" }}>
+                                <TableCell>
+                                  <Box
+                                    sx={{
+                                      display: "flex",
+                                      alignItems: "center",
+                                      gap: 0.5,
+                                      pl: 4,
+                                      cursor: "pointer",
+                                    }}
+                                    onClick={(e) => toggleCapability(cap.code, e)}
+                                  >
+                                    <IconButton size="small" sx={{ p: 0.25 }}>
+                                      {isCapExpanded ? (
+                                        <KeyboardArrowDownIcon fontSize="small" />
+                                      ) : (
+                                        <KeyboardArrowRightIcon fontSize="small" />
+                                      )}
+                                    </IconButton>
+                                    <Typography variant="body2">{cap.processName}</Typography>
+                                  </Box>
+                                </TableCell>
+                                <TableCell align="center">
+                                  <Typography
+                                    variant="body2"
+                                    fontWeight={score !== null ? 500 : 400}
+                                    color={score !== null ? "text.primary" : "text.disabled"}
+                                    title={
+                                      score !== null
+                                        ? `Scored by ${describeScoringStrategy(
+                                            getCapabilityScoreData(cap.code)?.scoringStrategy
+                                          )}`
+                                        : undefined
+                                    }
+                                  >
+                                    {score !== null ? score.toFixed(1) : "—"}
+                                  </Typography>
+                                </TableCell>
+                                <TableCell align="center">
+                                  <Box
+                                    sx={{
+                                      display: "flex",
+                                      gap: 0.5,
+                                      flexWrap: "wrap",
+                                      justifyContent: "center",
+                                    }}
+                                  >
+                                    {tags.map((tag) => (
+                                      <Chip key={tag} label={tag} size="small" sx={compactChipSx} />
+                                    ))}
+                                  </Box>
+                                </TableCell>
+                                <TableCell>
+                                  <CapabilityProgressBar
+                                    status={status}
+                                    progress={progress}
+                                    notApplicableProgress={notApplicableProgress}
+                                  />
+                                  {(status === "returned" || isInReviewStatus(status)) && (
+                                    <Chip
+                                      label={STATUS_LABELS[status]}
+                                      size="small"
+                                      color={status === "returned" ? "warning" : "info"}
+                                      sx={{ ...compactChipSx, mt: 0.5 }}
+                                    />
+                                  )}
+                                </TableCell>
+                                <TableCell align="center">
+                                  <Typography
+                                    variant="body2"
+                                    sx={{
+                                      fontWeight: status === "finalized" ? 500 : 400,
+                                      color:
+                                        status === "finalized"
+                                          ? "success.main"
+                                          : status === "not_assessed"
+                                            ? "text.disabled"
+                                            : "text.secondary",
+                                    }}
+                                  >
+                                    {status === "not_assessed"
+                                      ? "—"
+                                      : `${status === "finalized" ? 100 : progress}%`}
+                                  </Typography>
+                                </TableCell>
+                                <TableCell align="center">
+                                  {openElsewhere ? (
+                                    <Button
+                                      size="small"
+                                      variant="outlined"
+                                      onClick={() => navigate(`/assessment/${openElsewhere.id}`)}
+                                      title={`Already ${STATUS_LABELS[openElsewhere.status].toLowerCase()} in ${
+                                        getCycle(openElsewhere.cycleId)?.name ??
+                                        "no assessment cycle"
+                                      }; finish it before starting one in this cycle`}
+                                      sx={{
+                                        textTransform: "none",
+                                        width: ACTION_BUTTON_WIDTH,
+                                        py: 0.25,
+                                        fontSize: "0.75rem",
+                                      }}
+                                    >
+                                      Open
+                                    </Button>
+                                  ) : status === "not_assessed" ? (
+                                    <Button
+                                      size="small"
+                                      variant="contained"
+                                      onClick={() => handleStartAssessment(cap.code)}
+                                      sx={{
+                                        textTransform: "none",
+                                        width: ACTION_BUTTON_WIDTH,
+                                        py: 0.25,
+                                        fontSize: "0.75rem",
+                                      }}
+                                    >
+                                      Start
+                                    </Button>
                                   ) : (
-                                    <KeyboardArrowRightIcon fontSize="small" />
+                                    <Button
+                                      size="small"
+                                      variant="outlined"
+                                      onClick={(e) => handleMenuOpen(e, cap.code, status)}
+                                      sx={{
+                                        textTransform: "none",
+                                        width: ACTION_BUTTON_WIDTH,
+                                        py: 0.25,
+                                        fontSize: "0.75rem",
+                                      }}
+                                    >
+                                      •••
+                                    </Button>
                                   )}
-                                </IconButton>
-                                <Typography variant="body2">{cap.processName}</Typography>
-                              </Box>
-                            </TableCell>
-                            <TableCell align="center">
-                              <Typography
-                                variant="body2"
-                                fontWeight={score !== null ? 500 : 400}
-                                color={score !== null ? "text.primary" : "text.disabled"}
-                              >
-                                {score !== null ? score.toFixed(1) : "—"}
-                              </Typography>
-                            </TableCell>
-                            <TableCell align="center">
-                              <Box
-                                sx={{
-                                  display: "flex",
-                                  gap: 0.5,
-                                  flexWrap: "wrap",
-                                  justifyContent: "center",
-                                }}
-                              >
-                                {tags.map((tag) => (
-                                  <Chip key={tag} label={tag} size="small" sx={compactChipSx} />
-                                ))}
-                              </Box>
-                            </TableCell>
-                            <TableCell>
-                              <CapabilityProgressBar status={status} progress={progress} />
-                            </TableCell>
-                            <TableCell align="center">
-                              <Typography
-                                variant="body2"
-                                sx={{
-                                  fontWeight: status === "finalized" ? 500 : 400,
-                                  color:
-                                    status === "finalized"
-                                      ? "success.main"
-                                      : status === "not_assessed"
-                                        ? "text.disabled"
-                                        : "text.secondary",
-                                }}
-                              >
-                                {status === "not_assessed"
-                                  ? "—"
-                                  : `${status === "finalized" ? 100 : progress}%`}
-                              </Typography>
-                            </TableCell>
-                            <TableCell align="center">
-                              {status === "not_assessed" ? (
-                                <Button
-                                  size="small"
-                                  variant="contained"
-                                  onClick={async () => {
-                                    const assessmentId = await startAssessment(cap.code);
-                                    navigate(`/assessment/${assessmentId}`);
-                                  }}
-                                  sx={{
-                                    textTransform: "none",
-                                    width: ACTION_BUTTON_WIDTH,
-                                    py: 0.25,
-                                    fontSize: "0.75rem",
-                                  }}
-                                >
-                                  Start
-                                </Button>
-                              ) : (
-                                <Button
-                                  size="small"
-                                  variant="outlined"
-                                  onClick={(e) => handleMenuOpen(e, cap.code, status)}
-                                  sx={{
-                                    textTransform: "none",
-                                    width: ACTION_BUTTON_WIDTH,
-                                    py: 0.25,
-                                    fontSize: "0.75rem",
-                                  }}
-                                >
-                                  •••
-                                </Button>
+                                </TableCell>
+                              </TableRow>
+
+                              {isCapExpanded && (
+                                <TableRow>
+                                  <TableCell
+                                    colSpan={6}
+                                    sx={{ backgroundColor: "grey.100", py: 1 }}
+                                  >
+                                    <HistoryPanel
+                                      capabilityCode={cap.code}
+                                      currentAssessment={getLatestFinalized(cap.code)}
+                                      onViewHistory={handleViewHistory}
+                                      onDeleteHistory={handleDeleteHistory}
+                                    />
+                                  </TableCell>
+                                </TableRow>
                               )}
-                            </TableCell>
-                          </TableRow>
-
-                          {isCapExpanded && (
-                            <TableRow>
-                              <TableCell colSpan={6} sx={{ backgroundColor: "grey.100", py: 1 }}>
-                                <HistoryPanel
-                                  capabilityCode={cap.code}
-                                  currentAssessment={getLatestFinalized(cap.code)}
-                                  onViewHistory={handleViewHistory}
-                                  onDeleteHistory={handleDeleteHistory}
-                                />
-                              </TableCell>
-                            </TableRow>
-                          )}
-                        </React.Fragment>
-                      );
-                    })}
-                </React.Fragment>
-              );
-            })}
-          </TableBody>
-        </Table>
-      </TableContainer>
-
-      <Box sx={{ mt: 1, display: "flex", gap: 3 }}>
-        <Box sx={{ display: "flex", alignItems: "center", gap: 0.5 }}>
-          <RadioButtonUncheckedIcon fontSize="small" color="disabled" />
-          <Typography variant="caption" color="text.secondary">
-            Not assessed
-          </Typography>
-        </Box>
-        <Box sx={{ display: "flex", alignItems: "center", gap: 0.5 }}>
-          <Box
-            sx={{
-              width: LEGEND_INDICATOR_SIZE,
-              height: LEGEND_INDICATOR_SIZE,
-              borderRadius: 0.5,
-              background: getInProgressGradient(PROGRESS_STRIPE_WIDTH.small),
-            }}
-          />
-          <Typography variant="caption" color="text.secondary">
-            In progress
-          </Typography>
-        </Box>
-        <Box sx={{ display: "flex", alignItems: "center", gap: 0.5 }}>
-          <CheckCircleIcon fontSize="small" color="success" />
-          <Typography variant="caption" color="text.secondary">
-            Finalized
-          </Typography>
-        </Box>
-      </Box>
+                            </React.Fragment>
+                          );
+                        })}
+                    </React.Fragment>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </TableContainer>
+
+          <Box sx={{ mt: 1, display: "flex", gap: 3 }}>
+            <Box sx={{ display: "flex", alignItems: "center", gap: 0.5 }}>
+              <RadioButtonUncheckedIcon fontSize="small" color="disabled" />
+              <Typography variant="caption" color="text.secondary">
+                Not assessed
+              </Typography>
+            </Box>
+            <Box sx={{ display: "flex", alignItems: "center", gap: 0.5 }}>
+              <Box
+                sx={{
+                  width: LEGEND_INDICATOR_SIZE,
+                  height: LEGEND_INDICATOR_SIZE,
+                  borderRadius: 0.5,
+                  background: getInProgressGradient(PROGRESS_STRIPE_WIDTH.small),
+                }}
+              />
+              <Typography variant="caption" color="text.secondary">
+                In progress
+              </Typography>
+            </Box>
+            <Box sx={{ display: "flex", alignItems: "center", gap: 0.5 }}>
+              <Box
+                sx={{
+                  width: LEGEND_INDICATOR_SIZE,
+                  height: LEGEND_INDICATOR_SIZE,
+                  borderRadius: 0.5,
+                  backgroundColor: "grey.400",
+                }}
+              />
+              <Typography variant="caption" color="text.secondary">
+                Not applicable
+              </Typography>
+            </Box>
+            <Box sx={{ display: "flex", alignItems: "center", gap: 0.5 }}>
+              <CheckCircleIcon fontSize="small" color="success" />
+              <Typography variant="caption" color="text.secondary">
+                Finalized
+              </Typography>
+            </Box>
+          </Box>
+        </>
+      )}
 
       <Menu anchorEl={menuAnchorEl} open={Boolean(menuAnchorEl)} onClose={handleMenuClose}>
-        {menuCapabilityStatus === "in_progress" && (
+        {isMenuStatusOpen && (
           <MenuItem onClick={handleViewFromMenu}>
             <VisibilityIcon fontSize="small" sx={{ mr: 1 }} />
             View
           </MenuItem>
         )}
-        {menuCapabilityStatus === "in_progress" && (
+        {isMenuStatusOpen && (
           <MenuItem onClick={handleResumeFromMenu}>
-            <PlayArrowIcon fontSize="small" sx={{ mr: 1 }} />
-            Resume
+            {isInReviewStatus(menuCapabilityStatus) ? (
+              <>
+                <RateReviewIcon fontSize="small" sx={{ mr: 1 }} />
+                Review
+              </>
+            ) : (
+              <>
+                <PlayArrowIcon fontSize="small" sx={{ mr: 1 }} />
+                Resume
+              </>
+            )}
           </MenuItem>
         )}
-        {menuCapabilityStatus === "in_progress" && (
+        {isMenuStatusOpen && (
           <MenuItem onClick={handleDeleteFromMenu} sx={{ color: "error.main" }}>
             <DeleteIcon fontSize="small" sx={{ mr: 1 }} />
             Delete
@@ -673,8 +824,8 @@ export default function Dashboard() {
         <DialogContent>
           <DialogContentText>
             {deleteTarget?.type === "assessment"
-              ? `Are you sure you want to delete the assessment for "${deleteTarget?.name}"? This will permanently remove all ratings and notes. This cannot be undone.`
-              : `Are you sure you want to delete this history entry for "${deleteTarget?.name}"? This cannot be undone.`}
+              ? `Are you sure you want to delete the assessment for "${deleteTarget?.name}"? It will be moved to the Trash with its ratings, notes, and attachments, where it can be restored.`
+              : `Are you sure you want to delete this history entry for "${deleteTarget?.name}"? It will be moved to the Trash, where it can be restored.`}
           </DialogContentText>
         </DialogContent>
         <DialogActions>
@@ -685,6 +836,19 @@ export default function Dashboard() {
         </DialogActions>
       </Dialog>
 
+      <CycleDialog
+        open={cycleDialogOpen}
+        onClose={() => {
+          setCycleDialogOpen(false);
+          // Clear the filter if the selected cycle was deleted
+          if (selectedCycleId && !getCycle(selectedCycleId)) {
+            setSelectedCycleId("");
+          }
+        }}
+      />
+
+      <ScoringStrategyDialog open={scoringDialogOpen} onClose={() => setScoringDialogOpen(false)} />
+
       <HistoryViewDialog
         entry={historyViewEntry}
         open={Boolean(historyViewEntry)}
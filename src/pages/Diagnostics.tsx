@@ -0,0 +1,153 @@
+/**
+ * Diagnostics page - Problems found while loading the BCM/BPT blueprint files and content packs
+ */
+
+import { useMemo, useState } from "react";
+import {
+  Alert,
+  Box,
+  Chip,
+  Container,
+  Paper,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  ToggleButton,
+  ToggleButtonGroup,
+  Typography,
+} from "@mui/material";
+import ErrorOutlineIcon from "@mui/icons-material/ErrorOutline";
+import WarningAmberIcon from "@mui/icons-material/WarningAmber";
+import {
+  getBlueprintDiagnostics,
+  getBlueprintVersions,
+  getCapabilities,
+} from "../services/blueprint";
+import type { BlueprintDiagnosticKind } from "../types";
+
+const KIND_LABELS: Record<BlueprintDiagnosticKind, string> = {
+  invalid_document: "Invalid files",
+  unrecognized_file: "Unrecognized filenames",
+  orphan: "Orphans",
+  mismatch: "Mismatches",
+  unresolved_link: "Unresolved links",
+  override: "Content pack overrides",
+};
+
+const KIND_ORDER = Object.keys(KIND_LABELS) as BlueprintDiagnosticKind[];
+
+export default function Diagnostics() {
+  const diagnostics = useMemo(() => getBlueprintDiagnostics(), []);
+  const versions = getBlueprintVersions();
+  const capabilityCount = getCapabilities().length;
+  const [kindFilter, setKindFilter] = useState<BlueprintDiagnosticKind | "all">("all");
+
+  const errorCount = diagnostics.filter((d) => d.severity === "error").length;
+  const warningCount = diagnostics.length - errorCount;
+  const countsByKind = KIND_ORDER.map((kind) => ({
+    kind,
+    count: diagnostics.filter((d) => d.kind === kind).length,
+  }));
+  const visible = diagnostics.filter((d) => kindFilter === "all" || d.kind === kindFilter);
+
+  return (
+    <Container maxWidth="lg" sx={{ py: 4 }}>
+      <Typography variant="h4" component="h1" gutterBottom>
+        Blueprint Diagnostics
+      </Typography>
+      <Typography variant="body1" color="text.secondary" sx={{ mb: 3 }}>
+        Every BCM and BPT file, built in or from a content pack, is validated as the app loads.
+        Files with errors are skipped, so their capabilities are missing from the dashboard and
+        process browser. Warnings do not affect assessments but point at content worth correcting.
+      </Typography>
+
+      <Paper sx={{ p: 2, mb: 3, display: "flex", gap: 1, flexWrap: "wrap" }}>
+        <Chip label={`Blueprint versions: ${versions.join(", ") || "none"}`} />
+        <Chip label={`${capabilityCount} capabilities loaded`} />
+        <Chip
+          icon={<ErrorOutlineIcon />}
+          label={`${errorCount} error${errorCount === 1 ? "" : "s"}`}
+          color={errorCount > 0 ? "error" : "default"}
+        />
+        <Chip
+          icon={<WarningAmberIcon />}
+          label={`${warningCount} warning${warningCount === 1 ? "" : "s"}`}
+          color={warningCount > 0 ? "warning" : "default"}
+        />
+      </Paper>
+
+      {diagnostics.length === 0 ? (
+        <Alert severity="success">All blueprint files passed validation.</Alert>
+      ) : (
+        <>
+          <ToggleButtonGroup
+            size="small"
+            exclusive
+            value={kindFilter}
+            onChange={(_, value) => value && setKindFilter(value)}
+            sx={{ mb: 2, flexWrap: "wrap" }}
+          >
+            <ToggleButton value="all">All ({diagnostics.length})</ToggleButton>
+            {countsByKind.map(({ kind, count }) => (
+              <ToggleButton key={kind} value={kind} disabled={count === 0}>
+                {KIND_LABELS[kind]} ({count})
+              </ToggleButton>
+            ))}
+          </ToggleButtonGroup>
+
+          <TableContainer component={Paper} variant="outlined">
+            <Table size="small">
+              <TableHead>
+                <TableRow sx={{ backgroundColor: "grey.50" }}>
+                  <TableCell width={40} />
+                  <TableCell width={160}>Type</TableCell>
+                  <TableCell width={260}>Capability / File</TableCell>
+                  <TableCell>Problem</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {visible.map((diagnostic, index) => (
+                  <TableRow key={index}>
+                    <TableCell>
+                      {diagnostic.severity === "error" ? (
+                        <ErrorOutlineIcon fontSize="small" color="error" />
+                      ) : (
+                        <WarningAmberIcon fontSize="small" color="warning" />
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Typography variant="body2">{KIND_LABELS[diagnostic.kind]}</Typography>
+                    </TableCell>
+                    <TableCell>
+                      <Box sx={{ wordBreak: "break-all" }}>
+                        {diagnostic.capabilityCode && (
+                          <Typography variant="body2">{diagnostic.capabilityCode}</Typography>
+                        )}
+                        {diagnostic.file && (
+                          <Typography variant="caption" color="text.secondary">
+                            {diagnostic.file}
+                          </Typography>
+                        )}
+                        {diagnostic.version && !diagnostic.file && (
+                          <Typography variant="caption" color="text.secondary">
+                            v{diagnostic.version}
+                          </Typography>
+                        )}
+                      </Box>
+                    </TableCell>
+                    <TableCell>
+                      <Typography variant="body2">{diagnostic.message}</Typography>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        </>
+      )}
+    </Container>
+  );
+}
@@ -57,9 +57,9 @@ export default function Guide() {
     },
     {
       icon: <SaveIcon color="primary" />,
-      title: "Finalize Your Assessment",
+      title: "Review and Finalize",
       description:
-        'Once all questions are answered, click "Finalize Assessment" to lock in your ratings. You can edit finalized assessments later if needed — previous versions are saved to history.',
+        'Once all questions are answered, click "Submit for Review" to lock your ratings for a second look. A reviewer can return the assessment with comments or approve it; approved assessments can then be finalized. You can edit finalized assessments later if needed — previous versions are saved to history.',
     },
     {
       icon: <FileDownloadIcon color="primary" />,
@@ -4,6 +4,7 @@
 
 import { useState } from "react";
 import {
+  Autocomplete,
   Box,
   Container,
   Typography,
@@ -13,13 +14,17 @@ import {
   Card,
   CardContent,
   CardActions,
+  Checkbox,
   Chip,
+  FormControlLabel,
   List,
   ListItem,
   ListItemIcon,
   ListItemText,
   LinearProgress,
   Grid,
+  MenuItem,
+  TextField,
 } from "@mui/material";
 import UploadFileIcon from "@mui/icons-material/UploadFile";
 import DownloadIcon from "@mui/icons-material/Download";
@@ -31,34 +36,109 @@ import CheckCircleIcon from "@mui/icons-material/CheckCircle";
 import DescriptionIcon from "@mui/icons-material/Description";
 import AttachFileIcon from "@mui/icons-material/AttachFile";
 import HistoryIcon from "@mui/icons-material/History";
-import { ImportDialog, StateNameDialog } from "../components/export";
+import TableChartIcon from "@mui/icons-material/TableChart";
+import LockIcon from "@mui/icons-material/Lock";
+import {
+  ContentPackCard,
+  ImportDialog,
+  PassphraseDialog,
+  RatingImportDialog,
+  StateNameDialog,
+} from "../components/export";
 import { useScores } from "../hooks/useScores";
+import { useAssessmentCycles } from "../hooks/useAssessmentCycles";
+import { useTags } from "../hooks/useTags";
+import { getBusinessAreas, getCapabilities } from "../services/blueprint";
+import { STATUS_LABELS } from "../services/workflow";
+import { fromDateInputValue } from "../utils/dateFormatters";
 import {
+  exportAsCsv,
+  exportAsDocx,
   exportAsJson,
+  exportAsXlsx,
   exportAsZip,
   exportAsPdf,
   downloadBlob,
   downloadText,
   generateFilename,
+  ENCRYPTED_EXTENSION,
+  type ExportOptions,
+  type ExportScope,
 } from "../services/export";
+import type { AssessmentStatus } from "../types";
+
+type PendingExport = { type: "zip" } | { type: "pdf" } | { type: "docx" };
+type PendingEncryptedExport = { type: "zip"; stateName: string } | { type: "json" };
 
-type PendingExport = { type: "zip" } | { type: "pdf" };
+const STATUSES = Object.keys(STATUS_LABELS) as AssessmentStatus[];
+
+/**
+ * Statuses picked in the multiple select (autofill can report them as a comma-separated string)
+ */
+function toStatuses(value: string | string[]): AssessmentStatus[] {
+  const selected = typeof value === "string" ? value.split(",") : value;
+  return STATUSES.filter((status) => selected.includes(status));
+}
 
 export default function ImportExport() {
   const [importDialogOpen, setImportDialogOpen] = useState(false);
+  const [ratingImportOpen, setRatingImportOpen] = useState(false);
   const [importSuccess, setImportSuccess] = useState(false);
   const [stateNameDialogOpen, setStateNameDialogOpen] = useState(false);
   const [pendingExport, setPendingExport] = useState<PendingExport | null>(null);
+  const [encryptExports, setEncryptExports] = useState(false);
+  const [pendingEncryption, setPendingEncryption] = useState<PendingEncryptedExport | null>(null);
   const [exporting, setExporting] = useState<string | null>(null);
   const [exportProgress, setExportProgress] = useState(0);
   const [error, setError] = useState<string | null>(null);
+  const [cycleId, setCycleId] = useState("");
+  const [includeAuditLog, setIncludeAuditLog] = useState(false);
+  const [includeEvidence, setIncludeEvidence] = useState(false);
+  const [scope, setScope] = useState<ExportScope>("full");
+  const [businessArea, setBusinessArea] = useState("");
+  const [capabilityCode, setCapabilityCode] = useState("");
+  const [tagFilter, setTagFilter] = useState<string[]>([]);
+  const [statusFilter, setStatusFilter] = useState<AssessmentStatus[]>([]);
+  const [changedFrom, setChangedFrom] = useState("");
+  const [changedTo, setChangedTo] = useState("");
 
-  const { getStatusCounts, getOverallScore } = useScores();
+  const businessAreas = getBusinessAreas();
+  const capabilities = getCapabilities();
+
+  const { cycles } = useAssessmentCycles();
+  const { tags } = useTags();
+  const { getStatusCounts, getOverallScore } = useScores(cycleId || undefined);
   const statusCounts = getStatusCounts();
   const overallScore = getOverallScore();
 
   const hasData = statusCounts.finalized > 0 || statusCounts.inProgress > 0;
 
+  // Scope, cycle, tag, status and date filters shared by every export format
+  const scopeOptions: Omit<ExportOptions, "format"> = {
+    scope,
+    businessArea: scope === "business_area" ? businessArea : undefined,
+    capabilityCode: scope === "capability" ? capabilityCode : undefined,
+    cycleId: cycleId || undefined,
+    tags: tagFilter,
+    statuses: statusFilter,
+    updatedSince: changedFrom ? fromDateInputValue(changedFrom) : undefined,
+    updatedBefore: changedTo ? getNextDay(fromDateInputValue(changedTo)) : undefined,
+  };
+  // Date inputs are yyyy-mm-dd, so they compare as strings
+  const isDateRangeValid = !changedFrom || !changedTo || changedFrom <= changedTo;
+  const isScopeComplete =
+    (scope !== "business_area" || !!businessArea) &&
+    (scope !== "capability" || !!capabilityCode) &&
+    isDateRangeValid;
+
+  // Filename suffix identifying a partial export, e.g. "CM" or "CM_Establish_Case"
+  const scopeSuffix =
+    scope === "business_area"
+      ? businessAreas.find((area) => area.name === businessArea)?.code
+      : scope === "capability"
+        ? capabilityCode
+        : undefined;
+
   const handleImportComplete = () => {
     setImportSuccess(true);
     setTimeout(() => setImportSuccess(false), 5000);
@@ -78,22 +158,52 @@ export default function ImportExport() {
 
     switch (exportType.type) {
       case "zip":
-        await handleExportZip(stateName);
+        if (encryptExports) {
+          setPendingEncryption({ type: "zip", stateName });
+        } else {
+          await handleExportZip(stateName);
+        }
         break;
       case "pdf":
         await handleExportPdf(stateName);
         break;
+      case "docx":
+        await handleExportDocx(stateName);
+        break;
+    }
+  };
+
+  const handlePassphraseConfirm = async (passphrase: string) => {
+    if (!pendingEncryption) return;
+
+    const exportType = pendingEncryption;
+    setPendingEncryption(null);
+
+    if (exportType.type === "zip") {
+      await handleExportZip(exportType.stateName, passphrase);
+    } else {
+      await handleExportJson(passphrase);
     }
   };
 
-  const handleExportZip = async (stateName: string) => {
+  const handleExportZip = async (stateName: string, passphrase?: string) => {
     setExporting("zip");
     setError(null);
     try {
-      const blob = await exportAsZip({ scope: "full", format: "zip", stateName }, (p) =>
-        setExportProgress(p)
+      const blob = await exportAsZip(
+        {
+          ...scopeOptions,
+          format: "zip",
+          stateName,
+          includeAuditLog,
+          passphrase,
+        },
+        (p) => setExportProgress(p)
+      );
+      downloadBlob(
+        blob,
+        generateFilename("backup", passphrase ? ENCRYPTED_EXTENSION : "zip", scopeSuffix)
       );
-      downloadBlob(blob, generateFilename("backup", "zip"));
     } catch (err) {
       setError(err instanceof Error ? err.message : "Export failed");
     } finally {
@@ -102,12 +212,16 @@ export default function ImportExport() {
     }
   };
 
-  const handleExportJson = async () => {
+  const handleExportJson = async (passphrase?: string) => {
     setExporting("json");
     setError(null);
     try {
-      const json = await exportAsJson({ scope: "full", format: "json" });
-      downloadText(json, generateFilename("data", "json"), "application/json");
+      const json = await exportAsJson({ ...scopeOptions, format: "json", passphrase });
+      downloadText(
+        json,
+        generateFilename("data", passphrase ? ENCRYPTED_EXTENSION : "json", scopeSuffix),
+        "application/json"
+      );
     } catch (err) {
       setError(err instanceof Error ? err.message : "Export failed");
     } finally {
@@ -119,10 +233,56 @@ export default function ImportExport() {
     setExporting("pdf");
     setError(null);
     try {
-      const blob = await exportAsPdf({ scope: "full", format: "pdf", stateName }, (p) =>
+      const blob = await exportAsPdf(
+        { ...scopeOptions, format: "pdf", stateName, includeEvidenceAppendix: includeEvidence },
+        (p) => setExportProgress(p)
+      );
+      downloadBlob(blob, generateFilename("report", "pdf", scopeSuffix));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Export failed");
+    } finally {
+      setExporting(null);
+      setExportProgress(0);
+    }
+  };
+
+  const handleExportDocx = async (stateName: string) => {
+    setExporting("docx");
+    setError(null);
+    try {
+      const blob = await exportAsDocx({ ...scopeOptions, format: "docx", stateName }, (p) =>
         setExportProgress(p)
       );
-      downloadBlob(blob, generateFilename("report", "pdf"));
+      downloadBlob(blob, generateFilename("report", "docx", scopeSuffix));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Export failed");
+    } finally {
+      setExporting(null);
+      setExportProgress(0);
+    }
+  };
+
+  const handleExportCsv = async () => {
+    setExporting("csv");
+    setError(null);
+    try {
+      const csv = await exportAsCsv({ ...scopeOptions, format: "csv" });
+      downloadText(csv, generateFilename("ratings", "csv", scopeSuffix), "text/csv;charset=utf-8");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Export failed");
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  const handleExportXlsx = async () => {
+    setExporting("xlsx");
+    setError(null);
+    try {
+      const blob = await exportAsXlsx({ ...scopeOptions, format: "xlsx" }, (p) =>
+        setExportProgress(p)
+      );
+      downloadBlob(blob, generateFilename("ratings", "xlsx", scopeSuffix));
     } catch (err) {
       setError(err instanceof Error ? err.message : "Export failed");
     } finally {
@@ -200,6 +360,151 @@ export default function ImportExport() {
               </Typography>
             </Box>
 
+            <Box sx={{ display: "flex", gap: 2, flexWrap: "wrap", mb: 3 }}>
+              <TextField
+                select
+                size="small"
+                label="Scope"
+                value={scope}
+                onChange={(e) => setScope(e.target.value as ExportScope)}
+                sx={{ minWidth: 180 }}
+              >
+                <MenuItem value="full">All capabilities</MenuItem>
+                <MenuItem value="business_area">One business area</MenuItem>
+                <MenuItem value="capability">One capability</MenuItem>
+              </TextField>
+              {scope === "business_area" && (
+                <TextField
+                  select
+                  size="small"
+                  label="Business Area"
+                  value={businessArea}
+                  onChange={(e) => setBusinessArea(e.target.value)}
+                  sx={{ minWidth: 280 }}
+                >
+                  {businessAreas.map((area) => (
+                    <MenuItem key={area.code} value={area.name}>
+                      {area.name}
+                    </MenuItem>
+                  ))}
+                </TextField>
+              )}
+              {scope === "capability" && (
+                <TextField
+                  select
+                  size="small"
+                  label="Capability"
+                  value={capabilityCode}
+                  onChange={(e) => setCapabilityCode(e.target.value)}
+                  sx={{ minWidth: 280 }}
+                >
+                  {capabilities.map((capability) => (
+                    <MenuItem key={capability.code} value={capability.code}>
+                      {capability.processName} ({capability.businessArea})
+                    </MenuItem>
+                  ))}
+                </TextField>
+              )}
+              {cycles.length > 0 && (
+                <TextField
+                  select
+                  size="small"
+                  label="Assessment Cycle"
+                  value={cycleId}
+                  onChange={(e) => setCycleId(e.target.value)}
+                  helperText="Limit exports to assessments belonging to one cycle"
+                  sx={{ minWidth: 280 }}
+                >
+                  <MenuItem value="">All assessments</MenuItem>
+                  {cycles.map((cycle) => (
+                    <MenuItem key={cycle.id} value={cycle.id}>
+                      {cycle.name}
+                    </MenuItem>
+                  ))}
+                </TextField>
+              )}
+            </Box>
+            <Box sx={{ display: "flex", gap: 2, flexWrap: "wrap", mb: 3 }}>
+              <Autocomplete
+                multiple
+                size="small"
+                options={(tags ?? []).map((tag) => tag.name)}
+                value={tagFilter}
+                onChange={(_, value) => setTagFilter(value)}
+                renderInput={(params) => (
+                  <TextField
+                    {...params}
+                    label="Tags"
+                    placeholder={tagFilter.length === 0 ? "Any tag" : ""}
+                  />
+                )}
+                sx={{ minWidth: 280 }}
+              />
+              <TextField
+                select
+                size="small"
+                label="Status"
+                value={statusFilter}
+                onChange={(e) => setStatusFilter(toStatuses(e.target.value))}
+                slotProps={{
+                  select: {
+                    multiple: true,
+                    displayEmpty: true,
+                    renderValue: (selected) =>
+                      (selected as AssessmentStatus[]).length === 0
+                        ? "Any status"
+                        : (selected as AssessmentStatus[])
+                            .map((status) => STATUS_LABELS[status])
+                            .join(", "),
+                  },
+                  inputLabel: { shrink: true },
+                }}
+                sx={{ minWidth: 180 }}
+              >
+                {STATUSES.map((status) => (
+                  <MenuItem key={status} value={status}>
+                    <Checkbox size="small" checked={statusFilter.includes(status)} />
+                    {STATUS_LABELS[status]}
+                  </MenuItem>
+                ))}
+              </TextField>
+              <TextField
+                size="small"
+                label="Changed From"
+                type="date"
+                value={changedFrom}
+                onChange={(e) => setChangedFrom(e.target.value)}
+                slotProps={{ inputLabel: { shrink: true } }}
+              />
+              <TextField
+                size="small"
+                label="Changed To"
+                type="date"
+                value={changedTo}
+                onChange={(e) => setChangedTo(e.target.value)}
+                error={!isDateRangeValid}
+                helperText={!isDateRangeValid ? "Must be on or after the start date" : undefined}
+                slotProps={{ inputLabel: { shrink: true } }}
+              />
+            </Box>
+            <FormControlLabel
+              control={
+                <Checkbox
+                  size="small"
+                  checked={encryptExports}
+                  onChange={(e) => setEncryptExports(e.target.checked)}
+                />
+              }
+              label={
+                <Box sx={{ display: "flex", alignItems: "center", gap: 0.5 }}>
+                  <LockIcon fontSize="small" color="action" />
+                  Encrypt ZIP and JSON exports with a passphrase
+                </Box>
+              }
+              slotProps={{ typography: { variant: "body2" } }}
+              sx={{ mt: -1, mb: 2 }}
+            />
+
             {/* Primary Export: Complete Backup */}
             <Card sx={{ mb: 3, border: "2px solid", borderColor: "primary.main" }}>
               <CardContent>
@@ -234,6 +539,18 @@ export default function ImportExport() {
                     />
                   </ListItem>
                 </List>
+                <FormControlLabel
+                  control={
+                    <Checkbox
+                      size="small"
+                      checked={includeAuditLog}
+                      onChange={(e) => setIncludeAuditLog(e.target.checked)}
+                    />
+                  }
+                  label="Include change audit log appendix"
+                  slotProps={{ typography: { variant: "body2" } }}
+                  sx={{ mt: 1 }}
+                />
                 {exporting === "zip" && (
                   <LinearProgress variant="determinate" value={exportProgress} sx={{ mt: 2 }} />
                 )}
@@ -243,7 +560,7 @@ export default function ImportExport() {
                   variant="contained"
                   startIcon={<FolderZipIcon />}
                   onClick={() => startExportWithStateName({ type: "zip" })}
-                  disabled={!hasData || exporting !== null}
+                  disabled={!hasData || !isScopeComplete || exporting !== null}
                   size="large"
                 >
                   {exporting === "zip" ? "Exporting..." : "Download ZIP Backup"}
@@ -257,7 +574,7 @@ export default function ImportExport() {
             </Typography>
 
             <Grid container spacing={2}>
-              {/* PDF Report */}
+              {/* PDF and Word Report */}
               <Grid size={{ xs: 12, sm: 6 }}>
                 <Card variant="outlined" sx={{ height: "100%" }}>
                   <CardContent>
@@ -271,14 +588,27 @@ export default function ImportExport() {
                     >
                       <PictureAsPdfIcon color="error" />
                       <Typography variant="subtitle1" component="h3">
-                        PDF Report
+                        Assessment Report
                       </Typography>
                     </Box>
                     <Typography variant="body2" color="text.secondary">
                       Professional report for stakeholder review and CMS submission. Includes
-                      summary statistics, business area scores, and assessment details.
+                      summary statistics, business area scores, and assessment details. The Word
+                      version can be edited and reviewed with tracked changes.
                     </Typography>
-                    {exporting === "pdf" && (
+                    <FormControlLabel
+                      control={
+                        <Checkbox
+                          size="small"
+                          checked={includeEvidence}
+                          onChange={(e) => setIncludeEvidence(e.target.checked)}
+                        />
+                      }
+                      label="Include evidence appendix in the PDF (image thumbnails and PDF attachment pages)"
+                      slotProps={{ typography: { variant: "body2" } }}
+                      sx={{ mt: 1 }}
+                    />
+                    {(exporting === "pdf" || exporting === "docx") && (
                       <LinearProgress variant="determinate" value={exportProgress} sx={{ mt: 2 }} />
                     )}
                   </CardContent>
@@ -286,10 +616,21 @@ export default function ImportExport() {
                     <Button
                       startIcon={<PictureAsPdfIcon />}
                       onClick={() => startExportWithStateName({ type: "pdf" })}
-                      disabled={statusCounts.finalized === 0 || exporting !== null}
+                      disabled={
+                        statusCounts.finalized === 0 || !isScopeComplete || exporting !== null
+                      }
                     >
                       {exporting === "pdf" ? "Generating..." : "Export PDF"}
                     </Button>
+                    <Button
+                      startIcon={<DescriptionIcon />}
+                      onClick={() => startExportWithStateName({ type: "docx" })}
+                      disabled={
+                        statusCounts.finalized === 0 || !isScopeComplete || exporting !== null
+                      }
+                    >
+                      {exporting === "docx" ? "Generating..." : "Export Word"}
+                    </Button>
                   </CardActions>
                 </Card>
               </Grid>
@@ -319,14 +660,61 @@ export default function ImportExport() {
                   <CardActions>
                     <Button
                       startIcon={<DataObjectIcon />}
-                      onClick={handleExportJson}
-                      disabled={!hasData || exporting !== null}
+                      onClick={() =>
+                        encryptExports ? setPendingEncryption({ type: "json" }) : handleExportJson()
+                      }
+                      disabled={!hasData || !isScopeComplete || exporting !== null}
                     >
                       {exporting === "json" ? "Exporting..." : "Export JSON"}
                     </Button>
                   </CardActions>
                 </Card>
               </Grid>
+
+              {/* Ratings Spreadsheet */}
+              <Grid size={{ xs: 12 }}>
+                <Card variant="outlined">
+                  <CardContent>
+                    <Box
+                      sx={{
+                        display: "flex",
+                        alignItems: "center",
+                        gap: 1,
+                        mb: 1,
+                      }}
+                    >
+                      <TableChartIcon color="success" />
+                      <Typography variant="subtitle1" component="h3">
+                        Ratings Spreadsheet
+                      </Typography>
+                    </Box>
+                    <Typography variant="body2" color="text.secondary">
+                      One row per capability question with its level, previous level, notes, tags,
+                      attachment names, status, and dates, for pivoting in a spreadsheet. The Excel
+                      workbook has one sheet per business area.
+                    </Typography>
+                    {exporting === "xlsx" && (
+                      <LinearProgress variant="determinate" value={exportProgress} sx={{ mt: 2 }} />
+                    )}
+                  </CardContent>
+                  <CardActions>
+                    <Button
+                      startIcon={<TableChartIcon />}
+                      onClick={handleExportXlsx}
+                      disabled={!hasData || !isScopeComplete || exporting !== null}
+                    >
+                      {exporting === "xlsx" ? "Exporting..." : "Export Excel"}
+                    </Button>
+                    <Button
+                      startIcon={<DataObjectIcon />}
+                      onClick={handleExportCsv}
+                      disabled={!hasData || !isScopeComplete || exporting !== null}
+                    >
+                      {exporting === "csv" ? "Exporting..." : "Export CSV"}
+                    </Button>
+                  </CardActions>
+                </Card>
+              </Grid>
             </Grid>
           </Paper>
         </Grid>
@@ -370,6 +758,15 @@ export default function ImportExport() {
                     </ListItemIcon>
                     <ListItemText primary=".json" secondary="Data-only backup" />
                   </ListItem>
+                  <ListItem disableGutters>
+                    <ListItemIcon sx={{ minWidth: 32 }}>
+                      <LockIcon fontSize="small" />
+                    </ListItemIcon>
+                    <ListItemText
+                      primary={`.${ENCRYPTED_EXTENSION}`}
+                      secondary="Either format protected with a passphrase, which you will be asked for"
+                    />
+                  </ListItem>
                 </List>
               </CardContent>
               <CardActions>
@@ -384,6 +781,29 @@ export default function ImportExport() {
               </CardActions>
             </Card>
 
+            <Card sx={{ mb: 3 }}>
+              <CardContent>
+                <Box sx={{ display: "flex", alignItems: "center", gap: 1, mb: 1 }}>
+                  <TableChartIcon color="primary" />
+                  <Typography variant="h6" component="h3">
+                    Import Ratings from Spreadsheet
+                  </Typography>
+                </Box>
+                <Typography variant="body2" color="text.secondary">
+                  Load ratings captured in interviews from a CSV or Excel file with capability
+                  codes, question numbers, levels, and notes. You can review which ratings will be
+                  created or overwritten before anything is saved.
+                </Typography>
+              </CardContent>
+              <CardActions>
+                <Button startIcon={<TableChartIcon />} onClick={() => setRatingImportOpen(true)}>
+                  Import Ratings
+                </Button>
+              </CardActions>
+            </Card>
+
+            <ContentPackCard />
+
             {/* How Import Works */}
             <Box
               sx={{
@@ -457,7 +877,21 @@ export default function ImportExport() {
           setPendingExport(null);
         }}
         onConfirm={handleStateNameConfirm}
-        exportType={pendingExport?.type === "pdf" ? "PDF report" : "export"}
+        exportType={
+          pendingExport?.type === "pdf"
+            ? "PDF report"
+            : pendingExport?.type === "docx"
+              ? "Word report"
+              : "export"
+        }
+      />
+
+      {/* Passphrase Dialog */}
+      <PassphraseDialog
+        open={pendingEncryption !== null}
+        onClose={() => setPendingEncryption(null)}
+        onConfirm={handlePassphraseConfirm}
+        exportType={pendingEncryption?.type === "zip" ? "ZIP backup" : "JSON export"}
       />
 
       {/* Import Dialog */}
@@ -466,6 +900,16 @@ export default function ImportExport() {
         onClose={() => setImportDialogOpen(false)}
         onImportComplete={handleImportComplete}
       />
+
+      {/* Rating Import Dialog */}
+      <RatingImportDialog open={ratingImportOpen} onClose={() => setRatingImportOpen(false)} />
     </Container>
   );
 }
+
+/**
+ * Midnight at the start of the following day, so a "changed to" date includes that whole day
+ */
+function getNextDay(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + 1);
+}
@@ -14,6 +14,7 @@ import {
   Container,
   Drawer,
   IconButton,
+  Link,
   List,
   ListItemButton,
   ListItemIcon,
@@ -29,7 +30,11 @@ import KeyboardArrowRightIcon from "@mui/icons-material/KeyboardArrowRight";
 import DescriptionOutlinedIcon from "@mui/icons-material/DescriptionOutlined";
 import FolderOutlinedIcon from "@mui/icons-material/FolderOutlined";
 import FolderOpenIcon from "@mui/icons-material/FolderOpen";
-import { getBusinessAreas, getCapabilityByCode } from "../services/blueprint";
+import {
+  getBlueprintDiagnostics,
+  getBusinessAreas,
+  getCapabilityByCode,
+} from "../services/blueprint";
 import { BptContent } from "../components/bpt";
 import { HEADER_HEIGHT } from "../constants/ui";
 
@@ -44,6 +49,7 @@ export default function Processes() {
   const isMobile = useMediaQuery(theme.breakpoints.down("md"));
 
   const businessAreas = useMemo(() => getBusinessAreas(), []);
+  const diagnosticCount = useMemo(() => getBlueprintDiagnostics().length, []);
 
   // Track expanded business areas
   const [expandedAreas, setExpandedAreas] = useState<Set<string>>(() => {
@@ -129,6 +135,16 @@ export default function Processes() {
           {businessAreas.reduce((sum, area) => sum + area.capabilities.length, 0)} processes in{" "}
           {businessAreas.length} areas
         </Typography>
+        {diagnosticCount > 0 && (
+          <Link
+            component="button"
+            variant="caption"
+            onClick={() => navigate("/diagnostics")}
+            sx={{ display: "block", mt: 0.5 }}
+          >
+            {diagnosticCount} blueprint diagnostic{diagnosticCount === 1 ? "" : "s"}
+          </Link>
+        )}
       </Box>
 
       {/* Tree navigation */}
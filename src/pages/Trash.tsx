@@ -0,0 +1,273 @@
+/**
+ * Trash page - Restore or permanently delete removed assessments and history entries
+ */
+
+import { useEffect, useState } from "react";
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  Collapse,
+  Container,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogContentText,
+  DialogTitle,
+  IconButton,
+  Paper,
+  TextField,
+  Typography,
+} from "@mui/material";
+import RestoreFromTrashIcon from "@mui/icons-material/RestoreFromTrash";
+import DeleteForeverIcon from "@mui/icons-material/DeleteForever";
+import ExpandMoreIcon from "@mui/icons-material/ExpandMore";
+import ExpandLessIcon from "@mui/icons-material/ExpandLess";
+import { TrashItemDetails } from "../components/trash";
+import { useTrash } from "../hooks/useTrash";
+import { getCapabilityByCode } from "../services/blueprint";
+import { STATUS_LABELS } from "../services/workflow";
+import { getPurgeDate } from "../services/trash";
+import { compactChipSx } from "../theme/sharedStyles";
+import { formatDate, formatDateTime } from "../utils/dateFormatters";
+import type { TrashItem } from "../types";
+
+type PendingPurge = { type: "item"; item: TrashItem } | { type: "all" };
+
+function getItemName(item: TrashItem): string {
+  return (
+    item.assessment?.processName ??
+    getCapabilityByCode(item.capabilityCode)?.processName ??
+    item.capabilityCode
+  );
+}
+
+function getItemSummary(item: TrashItem): string {
+  if (item.type === "history" && item.historyEntry) {
+    return `Snapshot from ${formatDate(item.historyEntry.snapshotDate)} · Score ${item.historyEntry.score.toFixed(1)}`;
+  }
+  const answered = (item.ratings ?? []).filter((r) => r.level !== null || r.notApplicable).length;
+  const attachments = item.attachments?.length ?? 0;
+  return `${answered} answered · ${attachments} attachment${attachments === 1 ? "" : "s"}`;
+}
+
+export default function Trash() {
+  const {
+    items,
+    retentionDays,
+    restoreItem,
+    purgeItem,
+    emptyTrash,
+    purgeExpired,
+    saveRetentionDays,
+  } = useTrash();
+
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const [pendingPurge, setPendingPurge] = useState<PendingPurge | null>(null);
+  const [retentionInput, setRetentionInput] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  // Clear out anything past the retention period when the page opens
+  useEffect(() => {
+    purgeExpired().catch((err) =>
+      setError(err instanceof Error ? err.message : "Failed to purge expired items")
+    );
+  }, [purgeExpired]);
+
+  const toggleExpanded = (id: string) => {
+    const next = new Set(expanded);
+    if (next.has(id)) {
+      next.delete(id);
+    } else {
+      next.add(id);
+    }
+    setExpanded(next);
+  };
+
+  const handleRestore = async (item: TrashItem) => {
+    setError(null);
+    setMessage(null);
+    try {
+      await restoreItem(item.id);
+      setMessage(`Restored ${getItemName(item)}`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Restore failed");
+    }
+  };
+
+  const handleConfirmPurge = async () => {
+    if (!pendingPurge) return;
+    setError(null);
+    setMessage(null);
+    try {
+      if (pendingPurge.type === "all") {
+        await emptyTrash();
+      } else {
+        await purgeItem(pendingPurge.item.id);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Delete failed");
+    } finally {
+      setPendingPurge(null);
+    }
+  };
+
+  const handleSaveRetention = async () => {
+    if (retentionInput === null) return;
+    setError(null);
+    setMessage(null);
+    try {
+      await saveRetentionDays(Number(retentionInput));
+      setRetentionInput(null);
+      await purgeExpired();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save retention period");
+    }
+  };
+
+  return (
+    <Container maxWidth="lg" sx={{ py: 4 }}>
+      <Typography variant="h4" component="h1" gutterBottom>
+        Trash
+      </Typography>
+      <Typography variant="body1" color="text.secondary" sx={{ mb: 3 }}>
+        Deleted assessments and history entries are kept here with their ratings, notes, and
+        attachments. Restore an item to put it back, or delete it permanently. Items are removed
+        automatically after the retention period.
+      </Typography>
+
+      <Paper sx={{ p: 2, mb: 3, display: "flex", alignItems: "center", gap: 2, flexWrap: "wrap" }}>
+        <TextField
+          size="small"
+          type="number"
+          label="Keep deleted items for (days)"
+          value={retentionInput ?? String(retentionDays)}
+          onChange={(e) => setRetentionInput(e.target.value)}
+          slotProps={{ htmlInput: { min: 1, max: 3650 } }}
+          sx={{ width: 240 }}
+        />
+        <Button
+          variant="outlined"
+          onClick={handleSaveRetention}
+          disabled={retentionInput === null || retentionInput === String(retentionDays)}
+        >
+          Save
+        </Button>
+        <Box sx={{ flex: 1 }} />
+        <Button
+          color="error"
+          startIcon={<DeleteForeverIcon />}
+          onClick={() => setPendingPurge({ type: "all" })}
+          disabled={items.length === 0}
+        >
+          Empty Trash
+        </Button>
+      </Paper>
+
+      {message && (
+        <Alert severity="success" sx={{ mb: 3 }} onClose={() => setMessage(null)}>
+          {message}
+        </Alert>
+      )}
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 3 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+
+      {items.length === 0 ? (
+        <Paper sx={{ p: 4, textAlign: "center" }}>
+          <Typography color="text.secondary">The trash is empty.</Typography>
+        </Paper>
+      ) : (
+        <Box sx={{ display: "flex", flexDirection: "column", gap: 1.5 }}>
+          {items.map((item) => {
+            const isExpanded = expanded.has(item.id);
+            return (
+              <Paper key={item.id} variant="outlined">
+                <Box sx={{ display: "flex", alignItems: "center", gap: 2, p: 2 }}>
+                  <IconButton
+                    size="small"
+                    onClick={() => toggleExpanded(item.id)}
+                    title={isExpanded ? "Hide details" : "Show details"}
+                  >
+                    {isExpanded ? <ExpandLessIcon /> : <ExpandMoreIcon />}
+                  </IconButton>
+                  <Box sx={{ flex: 1, minWidth: 0 }}>
+                    <Box sx={{ display: "flex", alignItems: "center", gap: 1 }}>
+                      <Typography variant="subtitle1" fontWeight={500} noWrap>
+                        {getItemName(item)}
+                      </Typography>
+                      <Chip
+                        label={item.type === "assessment" ? "Assessment" : "History"}
+                        size="small"
+                        variant="outlined"
+                        sx={compactChipSx}
+                      />
+                      {item.assessment && (
+                        <Chip
+                          label={STATUS_LABELS[item.assessment.status]}
+                          size="small"
+                          sx={compactChipSx}
+                        />
+                      )}
+                    </Box>
+                    <Typography variant="body2" color="text.secondary">
+                      {getItemSummary(item)}
+                    </Typography>
+                    <Typography variant="caption" color="text.secondary">
+                      Deleted {formatDateTime(item.deletedAt)} · Removed permanently on{" "}
+                      {formatDate(getPurgeDate(item, retentionDays))}
+                    </Typography>
+                  </Box>
+                  <Button
+                    size="small"
+                    startIcon={<RestoreFromTrashIcon />}
+                    onClick={() => handleRestore(item)}
+                  >
+                    Restore
+                  </Button>
+                  <Button
+                    size="small"
+                    color="error"
+                    startIcon={<DeleteForeverIcon />}
+                    onClick={() => setPendingPurge({ type: "item", item })}
+                  >
+                    Delete
+                  </Button>
+                </Box>
+                <Collapse in={isExpanded} unmountOnExit>
+                  <Box sx={{ px: 2, pb: 2 }}>
+                    <TrashItemDetails item={item} />
+                  </Box>
+                </Collapse>
+              </Paper>
+            );
+          })}
+        </Box>
+      )}
+
+      <Dialog open={pendingPurge !== null} onClose={() => setPendingPurge(null)}>
+        <DialogTitle>
+          {pendingPurge?.type === "all" ? "Empty Trash?" : "Delete Permanently?"}
+        </DialogTitle>
+        <DialogContent>
+          <DialogContentText>
+            {pendingPurge?.type === "all"
+              ? `Permanently delete all ${items.length} items in the trash, including their attachments? This cannot be undone.`
+              : `Permanently delete "${pendingPurge ? getItemName(pendingPurge.item) : ""}" and everything stored with it? This cannot be undone.`}
+          </DialogContentText>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setPendingPurge(null)}>Cancel</Button>
+          <Button onClick={handleConfirmPurge} color="error" variant="contained">
+            Delete
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Container>
+  );
+}
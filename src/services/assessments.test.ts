@@ -0,0 +1,86 @@
+import "fake-indexeddb/auto";
+import { beforeEach, describe, expect, it } from "vitest";
+import { retireFinalizedAssessment } from "./assessments";
+import { db } from "./db";
+import type { CapabilityAssessment } from "../types";
+
+const CODE = "CM_Establish_Case";
+
+function assessment(id: string, cycleId: string | undefined, score?: number): CapabilityAssessment {
+  return {
+    id,
+    capabilityCode: CODE,
+    businessArea: "Care Management",
+    processName: "Establish Case",
+    status: "finalized",
+    tags: [],
+    blueprintVersion: "3.0",
+    createdAt: new Date("2026-01-01"),
+    updatedAt: new Date("2026-06-01"),
+    finalizedAt: new Date("2026-06-01"),
+    score,
+    cycleId,
+  };
+}
+
+describe("retireFinalizedAssessment", () => {
+  beforeEach(async () => {
+    await Promise.all(db.tables.map((table) => table.clear()));
+  });
+
+  it("keeps the finalized assessment of another cycle", async () => {
+    await db.capabilityAssessments.add(assessment("fy26", "cycle-fy26", 3));
+
+    const retired = await retireFinalizedAssessment(assessment("fy27", "cycle-fy27"));
+
+    expect(retired).toBeUndefined();
+    expect(await db.capabilityAssessments.get("fy26")).toBeDefined();
+    expect(await db.assessmentHistory.count()).toBe(0);
+    expect(await db.trash.count()).toBe(0);
+  });
+
+  it("snapshots the same cycle's finalized assessment and moves it to the trash", async () => {
+    await db.capabilityAssessments.add(assessment("first", "cycle-fy26", 3));
+    await db.ratings.add({
+      id: "r1",
+      capabilityAssessmentId: "first",
+      questionIndex: 0,
+      level: 3,
+      notes: "",
+      carriedForward: false,
+      attachmentIds: [],
+      updatedAt: new Date(),
+    });
+
+    const retired = await retireFinalizedAssessment(assessment("second", "cycle-fy26"));
+
+    expect(retired?.id).toBe("first");
+    expect(await db.capabilityAssessments.get("first")).toBeUndefined();
+    expect(await db.ratings.count()).toBe(0);
+    const [history] = await db.assessmentHistory.toArray();
+    expect(history).toMatchObject({ capabilityCode: CODE, score: 3, cycleId: "cycle-fy26" });
+    expect(history.ratings).toHaveLength(1);
+    expect(await db.trash.get("first")).toMatchObject({ type: "assessment" });
+  });
+
+  it("retires assessments outside cycles only for another outside cycles", async () => {
+    await db.capabilityAssessments.bulkAdd([
+      assessment("no-cycle", undefined, 2),
+      assessment("in-cycle", "cycle-fy26", 4),
+    ]);
+
+    const retired = await retireFinalizedAssessment(assessment("new", undefined));
+
+    expect(retired?.id).toBe("no-cycle");
+    expect(await db.capabilityAssessments.get("in-cycle")).toBeDefined();
+  });
+
+  it("trashes an unscored finalized assessment without a history snapshot", async () => {
+    await db.capabilityAssessments.add(assessment("unscored", undefined));
+
+    await retireFinalizedAssessment(assessment("new", undefined));
+
+    expect(await db.assessmentHistory.count()).toBe(0);
+    expect(await db.trash.get("unscored")).toBeDefined();
+  });
+});
@@ -0,0 +1,52 @@
+/**
+ * Assessment lifecycle
+ *
+ * Writes to capability assessments shared by the hooks and the import, so that finalizing in
+ * the app and importing a finalized assessment replace the previous result the same way.
+ */
+
+import { v4 as uuidv4 } from "uuid";
+import { db } from "./db";
+import { toHistoricalRatings } from "./scoring";
+import { moveAssessmentToTrash } from "./trash";
+import type { CapabilityAssessment } from "../types";
+
+/**
+ * Retire the finalized assessment a newly finalized one replaces
+ * Each cycle keeps its own finalized assessment, so only the one for the same capability in the
+ * same cycle (or, outside cycles, the one outside cycles) is retired: a scored one is snapshotted
+ * to history, then it is moved to the trash with its ratings and attachments.
+ * Returns the retired assessment, if any.
+ */
+export async function retireFinalizedAssessment(
+  replacement: Pick<CapabilityAssessment, "id" | "capabilityCode" | "cycleId">
+): Promise<CapabilityAssessment | undefined> {
+  const existing = await db.capabilityAssessments
+    .where("capabilityCode")
+    .equals(replacement.capabilityCode)
+    .filter(
+      (a) =>
+        a.status === "finalized" && a.id !== replacement.id && a.cycleId === replacement.cycleId
+    )
+    .first();
+  if (!existing) return undefined;
+
+  if (existing.score !== undefined) {
+    const ratings = await db.ratings.where("capabilityAssessmentId").equals(existing.id).toArray();
+    await db.assessmentHistory.add({
+      id: uuidv4(),
+      capabilityCode: existing.capabilityCode,
+      snapshotDate: existing.finalizedAt || existing.updatedAt,
+      tags: existing.tags,
+      score: existing.score,
+      scoringStrategy: existing.scoringStrategy,
+      ratings: toHistoricalRatings(ratings),
+      blueprintVersion: existing.blueprintVersion,
+      cycleId: existing.cycleId,
+    });
+  }
+
+  // The trash keeps the evidence behind the history snapshot restorable
+  await moveAssessmentToTrash(existing.id);
+  return existing;
+}
@@ -0,0 +1,164 @@
+/**
+ * Rating audit log
+ *
+ * Append-only record of every level (or not-applicable), notes, target, and attachment change
+ * made to a rating.
+ * Entries are never removed, not even when their assessment is deleted or purged. The only
+ * edit is on a blueprint migration, which re-keys entries to their new question or marks those
+ * of a discarded question.
+ */
+
+import { v4 as uuidv4 } from "uuid";
+import { db } from "./db";
+import type { Rating, RatingAuditAction, RatingAuditEntry } from "../types";
+
+/** localStorage key for the editor name recorded on audit entries */
+const AUDIT_ACTOR_STORAGE_KEY = "mita-ssa-editor-name";
+
+/** Display labels for each audit action */
+export const AUDIT_ACTION_LABELS: Record<RatingAuditAction, string> = {
+  level_changed: "Level changed",
+  notes_changed: "Notes changed",
+  target_changed: "Target changed",
+  attachment_added: "Attachment added",
+  attachment_removed: "Attachment removed",
+};
+
+/**
+ * Get the editor name recorded on new audit entries (empty if not set)
+ */
+export function getAuditActor(): string {
+  try {
+    return localStorage.getItem(AUDIT_ACTOR_STORAGE_KEY) ?? "";
+  } catch {
+    return "";
+  }
+}
+
+/**
+ * Set the editor name recorded on new audit entries
+ */
+export function setAuditActor(name: string): void {
+  try {
+    if (name.trim()) {
+      localStorage.setItem(AUDIT_ACTOR_STORAGE_KEY, name.trim());
+    } else {
+      localStorage.removeItem(AUDIT_ACTOR_STORAGE_KEY);
+    }
+  } catch {
+    // Storage unavailable (e.g. private mode) - entries are recorded without a name
+  }
+}
+
+type RatingRef = Pick<Rating, "id" | "capabilityAssessmentId" | "questionIndex">;
+type RatingValues = Pick<
+  Rating,
+  "level" | "notes" | "targetLevel" | "targetDate" | "notApplicable" | "notApplicableReason"
+>;
+
+/** Values a removed rating is recorded as changing to */
+export const CLEARED_RATING: Partial<RatingValues> = {
+  level: null,
+  notApplicable: false,
+  notes: "",
+  targetLevel: undefined,
+};
+
+function formatAnswer(values: Partial<RatingValues> | undefined): string | undefined {
+  if (values?.notApplicable) {
+    return values.notApplicableReason
+      ? `Not applicable (${values.notApplicableReason})`
+      : "Not applicable";
+  }
+  return values?.level ? `Level ${values.level}` : undefined;
+}
+
+function formatTarget(values: Partial<RatingValues>): string | undefined {
+  if (!values.targetLevel) return undefined;
+  const by = values.targetDate ? ` by ${values.targetDate.toLocaleDateString()}` : "";
+  return `Level ${values.targetLevel}${by}`;
+}
+
+function createEntry(
+  rating: RatingRef,
+  action: RatingAuditAction,
+  previousValue: string | undefined,
+  newValue: string | undefined,
+  changedAt: Date
+): RatingAuditEntry {
+  const changedBy = getAuditActor();
+  return {
+    id: uuidv4(),
+    ratingId: rating.id,
+    capabilityAssessmentId: rating.capabilityAssessmentId,
+    questionIndex: rating.questionIndex,
+    action,
+    previousValue,
+    newValue,
+    changedBy: changedBy || undefined,
+    changedAt,
+  };
+}
+
+/**
+ * Record the differences between a rating's previous and new values
+ * Pass undefined as the previous values for a newly created rating.
+ * Must be called inside a transaction that includes db.ratingAudit.
+ */
+export async function recordRatingChanges(
+  rating: RatingRef,
+  previous: Partial<RatingValues> | undefined,
+  next: Partial<RatingValues>,
+  changedAt: Date
+): Promise<void> {
+  const entries: RatingAuditEntry[] = [];
+
+  if ("level" in next || "notApplicable" in next) {
+    const before = formatAnswer(previous);
+    const after = formatAnswer(next);
+    if (before !== after) {
+      entries.push(createEntry(rating, "level_changed", before, after, changedAt));
+    }
+  }
+
+  if ("notes" in next && (previous?.notes ?? "") !== (next.notes ?? "")) {
+    entries.push(
+      createEntry(
+        rating,
+        "notes_changed",
+        previous?.notes || undefined,
+        next.notes || undefined,
+        changedAt
+      )
+    );
+  }
+
+  if ("targetLevel" in next) {
+    const before = previous ? formatTarget(previous) : undefined;
+    const after = formatTarget(next);
+    if (before !== after) {
+      entries.push(createEntry(rating, "target_changed", before, after, changedAt));
+    }
+  }
+
+  if (entries.length > 0) {
+    await db.ratingAudit.bulkAdd(entries);
+  }
+}
+
+/**
+ * Record an attachment being added to or removed from a rating
+ * Must be called inside a transaction that includes db.ratingAudit.
+ */
+export async function recordAttachmentChange(
+  rating: RatingRef,
+  action: "attachment_added" | "attachment_removed",
+  fileName: string,
+  changedAt: Date
+): Promise<void> {
+  const entry =
+    action === "attachment_added"
+      ? createEntry(rating, action, undefined, fileName, changedAt)
+      : createEntry(rating, action, fileName, undefined, changedAt);
+  await db.ratingAudit.add(entry);
+}
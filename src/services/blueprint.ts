@@ -1,61 +1,244 @@
-import type { BCM, BPT, Capability, BusinessArea } from "../types";
+import { validateBcm, validateBpt } from "./blueprintValidation";
+import type {
+  BCM,
+  BPT,
+  BlueprintDiagnostic,
+  Capability,
+  BusinessArea,
+  ContentPack,
+} from "../types";
 
 // Import all BCM files using Vite's glob import
-const bcmModules = import.meta.glob<BCM>("../data/bcm/**/*.json", {
+// Typed as unknown until validated
+const bcmModules = import.meta.glob<unknown>("../data/bcm/**/*.json", {
   eager: true,
   import: "default",
 });
 
 // Import all BPT files using Vite's glob import
-const bptModules = import.meta.glob<BPT>("../data/bpt/**/*.json", {
+const bptModules = import.meta.glob<unknown>("../data/bpt/**/*.json", {
   eager: true,
   import: "default",
 });
 
+// Content pack files, merged over the built-in files in import order
+let packFiles: { path: string; document: unknown }[] = [];
+
 // Extract capability code from filename (e.g., "CM_Establish_Case" from "CM_Establish_Case_BCM_v3.0.json")
-function extractCapabilityCode(filename: string): string {
+export function extractCapabilityCode(filename: string): string {
   const match = filename.match(/([A-Z]{2}_[^_]+(?:_[^_]+)*?)_(?:BCM|BPT)_v/);
   return match ? match[1] : "";
 }
 
-// Build the capabilities map
-function buildCapabilitiesMap(): Map<string, { bcm?: BCM; bpt?: BPT }> {
-  const capMap = new Map<string, { bcm?: BCM; bpt?: BPT }>();
+// Tell BCM and BPT files apart by name, for files that do not come from the bcm/bpt folders
+export function getBlueprintFileType(filename: string): "BCM" | "BPT" | null {
+  const match = filename.match(/_(BCM|BPT)_v[^/]*\.json$/);
+  return match ? (match[1] as "BCM" | "BPT") : null;
+}
 
-  // Process BCM files
-  for (const [path, bcm] of Object.entries(bcmModules)) {
+// Compare dotted version strings numerically (e.g. "3.0" < "3.1" < "3.10")
+export function compareBlueprintVersions(a: string, b: string): number {
+  const aParts = a.split(".").map(Number);
+  const bParts = b.split(".").map(Number);
+  for (let i = 0; i < Math.max(aParts.length, bParts.length); i++) {
+    const diff = (aParts[i] || 0) - (bParts[i] || 0);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+}
+
+type VersionedDocuments = Map<string, Map<string, { bcm?: BCM; bpt?: BPT }>>;
+
+// Path relative to src/data, as shown in diagnostics
+function toDataPath(path: string): string {
+  return path.replace(/^\.\.\/data\//, "");
+}
+
+// Group BCM/BPT documents by capability code, then by the version declared in each file
+// Files that fail validation or cannot be attributed to a capability are skipped and reported
+// Content pack files replace built-in files for the same capability, version, and type
+function buildDocumentsMap(): {
+  documents: VersionedDocuments;
+  diagnostics: BlueprintDiagnostic[];
+} {
+  const docMap: VersionedDocuments = new Map();
+  const diagnostics: BlueprintDiagnostic[] = [];
+
+  const addDocument = (
+    path: string,
+    type: "BCM" | "BPT",
+    doc: unknown,
+    fromPack: boolean = false
+  ) => {
+    const file = toDataPath(path);
     const code = extractCapabilityCode(path);
-    if (code) {
-      const existing = capMap.get(code) || {};
-      capMap.set(code, { ...existing, bcm });
+    if (!code) {
+      diagnostics.push({
+        severity: "error",
+        kind: "unrecognized_file",
+        message: `Filename does not match <CODE>_${type}_v<version>.json; file skipped`,
+        file,
+      });
+      return;
+    }
+
+    const problems = type === "BCM" ? validateBcm(doc) : validateBpt(doc);
+    if (problems.length > 0) {
+      for (const problem of problems) {
+        diagnostics.push({
+          severity: "error",
+          kind: "invalid_document",
+          message: `${problem}; file skipped`,
+          file,
+          capabilityCode: code,
+        });
+      }
+      return;
+    }
+
+    const document = doc as BCM | BPT;
+    const { version } = document;
+    const fileVersion = path.match(/_v([^_/]+)\.json$/)?.[1];
+    if (fileVersion && fileVersion !== version) {
+      diagnostics.push({
+        severity: "warning",
+        kind: "mismatch",
+        message: `Filename says v${fileVersion} but the document declares version ${version}`,
+        file,
+        capabilityCode: code,
+        version,
+      });
+    }
+    if (!code.startsWith(`${document.process_code}_`)) {
+      diagnostics.push({
+        severity: "warning",
+        kind: "mismatch",
+        message: `process_code "${document.process_code}" does not match the filename prefix`,
+        file,
+        capabilityCode: code,
+        version,
+      });
+    }
+
+    const versions = docMap.get(code) || new Map<string, { bcm?: BCM; bpt?: BPT }>();
+    const existing = versions.get(version) || {};
+    const key = type === "BCM" ? "bcm" : "bpt";
+    if (existing[key] && fromPack) {
+      diagnostics.push({
+        severity: "warning",
+        kind: "override",
+        message: `Replaces the previously loaded ${type} for version ${version}`,
+        file,
+        capabilityCode: code,
+        version,
+      });
+    } else if (existing[key]) {
+      diagnostics.push({
+        severity: "error",
+        kind: "mismatch",
+        message: `Duplicate ${type} for version ${version}; file skipped`,
+        file,
+        capabilityCode: code,
+        version,
+      });
+      return;
     }
+    versions.set(version, { ...existing, [key]: document });
+    docMap.set(code, versions);
+  };
+
+  // Process BCM files
+  for (const [path, bcm] of Object.entries(bcmModules)) {
+    addDocument(path, "BCM", bcm);
   }
 
   // Process BPT files
   for (const [path, bpt] of Object.entries(bptModules)) {
-    const code = extractCapabilityCode(path);
-    if (code) {
-      const existing = capMap.get(code) || {};
-      capMap.set(code, { ...existing, bpt });
+    addDocument(path, "BPT", bpt);
+  }
+
+  // Process content pack files last so they win over the built-in content
+  for (const { path, document } of packFiles) {
+    const type = getBlueprintFileType(path);
+    if (!type) {
+      diagnostics.push({
+        severity: "error",
+        kind: "unrecognized_file",
+        message: "Filename does not match <CODE>_<BCM|BPT>_v<version>.json; file skipped",
+        file: path,
+      });
+      continue;
+    }
+    addDocument(path, type, document, true);
+  }
+
+  // Report capabilities that cannot be built, and BCM/BPT pairs that disagree
+  for (const [code, versions] of docMap.entries()) {
+    const pairs = [...versions.entries()];
+    const hasBcm = pairs.some(([, docs]) => docs.bcm);
+    const hasBpt = pairs.some(([, docs]) => docs.bpt);
+    if (!hasBcm || !hasBpt) {
+      diagnostics.push({
+        severity: "error",
+        kind: "orphan",
+        message: `${hasBcm ? "BCM" : "BPT"} has no matching ${hasBcm ? "BPT" : "BCM"}; capability skipped`,
+        capabilityCode: code,
+      });
+    }
+
+    for (const [version, { bcm, bpt }] of pairs) {
+      if (!bcm || !bpt) continue;
+      for (const field of ["process_name", "business_area", "sub_category"] as const) {
+        if (bcm[field] !== bpt[field]) {
+          diagnostics.push({
+            severity: "warning",
+            kind: "mismatch",
+            message: `BCM and BPT disagree on ${field}: "${bcm[field]}" vs "${bpt[field]}"`,
+            capabilityCode: code,
+            version,
+          });
+        }
+      }
     }
   }
 
-  return capMap;
+  return { documents: docMap, diagnostics };
 }
 
-// Build the full capabilities list
-function buildCapabilities(): Capability[] {
-  const capMap = buildCapabilitiesMap();
+let cachedDocuments: ReturnType<typeof buildDocumentsMap> | null = null;
+
+function getDocuments(): VersionedDocuments {
+  if (!cachedDocuments) {
+    cachedDocuments = buildDocumentsMap();
+  }
+  return cachedDocuments.documents;
+}
+
+// Build the full capabilities list for a blueprint version
+// A version only needs to ship the files that changed: each capability uses its newest
+// BCM and BPT at or below the requested version, falling back to the oldest available
+function buildCapabilities(version: string): Capability[] {
   const capabilities: Capability[] = [];
 
-  for (const [code, data] of capMap.entries()) {
-    if (data.bcm && data.bpt) {
+  for (const [code, versions] of getDocuments().entries()) {
+    const sorted = [...versions.keys()].sort(compareBlueprintVersions);
+    const eligible = sorted.filter((v) => compareBlueprintVersions(v, version) <= 0);
+    const candidates = eligible.length > 0 ? eligible : sorted.slice(0, 1);
+    const pick = (key: "bcm" | "bpt") =>
+      candidates
+        .map((v) => versions.get(v)?.[key])
+        .filter((doc) => doc !== undefined)
+        .pop();
+
+    const bcm = pick("bcm") as BCM | undefined;
+    const bpt = pick("bpt") as BPT | undefined;
+    if (bcm && bpt) {
       capabilities.push({
         code,
-        processName: data.bcm.process_name,
-        businessArea: data.bcm.business_area,
-        bcm: data.bcm,
-        bpt: data.bpt,
+        processName: bcm.process_name,
+        businessArea: bcm.business_area,
+        bcm,
+        bpt,
       });
     }
   }
@@ -69,8 +252,8 @@ function buildCapabilities(): Capability[] {
 }
 
 // Build business areas with their capabilities
-function buildBusinessAreas(): BusinessArea[] {
-  const capabilities = buildCapabilities();
+function buildBusinessAreas(version: string): BusinessArea[] {
+  const capabilities = getCapabilities(version);
   const areaMap = new Map<string, Capability[]>();
 
   for (const cap of capabilities) {
@@ -104,27 +287,74 @@ function buildBusinessAreas(): BusinessArea[] {
   return businessAreas.sort((a, b) => a.name.localeCompare(b.name));
 }
 
-// Cached data
-let cachedCapabilities: Capability[] | null = null;
-let cachedBusinessAreas: BusinessArea[] | null = null;
+// Cached data, per blueprint version
+const cachedCapabilities = new Map<string, Capability[]>();
+const cachedBusinessAreas = new Map<string, BusinessArea[]>();
+let cachedVersions: string[] | null = null;
 
 // Public API
-export function getCapabilities(): Capability[] {
-  if (!cachedCapabilities) {
-    cachedCapabilities = buildCapabilities();
+
+/**
+ * Merge content packs with the built-in blueprint, replacing any previously registered packs
+ * Packs are applied in the order given, so later packs win over earlier ones
+ */
+export function registerContentPacks(packs: ContentPack[]): void {
+  packFiles = packs.flatMap((pack) =>
+    pack.files.map((f) => ({ path: `packs/${pack.name}/${f.path}`, document: f.document }))
+  );
+  cachedDocuments = null;
+  cachedCapabilities.clear();
+  cachedBusinessAreas.clear();
+  cachedVersions = null;
+  cachedDiagnostics = null;
+}
+
+/**
+ * Get every blueprint version bundled with the app or added by a content pack, oldest first
+ */
+export function getBlueprintVersions(): string[] {
+  if (!cachedVersions) {
+    const versions = new Set<string>();
+    for (const docVersions of getDocuments().values()) {
+      for (const version of docVersions.keys()) versions.add(version);
+    }
+    cachedVersions = [...versions].sort(compareBlueprintVersions);
+  }
+  return cachedVersions;
+}
+
+/**
+ * Get the current blueprint version (the newest available), used for new assessments
+ */
+export function getBlueprintVersion(): string {
+  const versions = getBlueprintVersions();
+  return versions.length > 0 ? versions[versions.length - 1] : "3.0";
+}
+
+export function getCapabilities(version: string = getBlueprintVersion()): Capability[] {
+  let capabilities = cachedCapabilities.get(version);
+  if (!capabilities) {
+    capabilities = buildCapabilities(version);
+    cachedCapabilities.set(version, capabilities);
   }
-  return cachedCapabilities;
+  return capabilities;
 }
 
-export function getBusinessAreas(): BusinessArea[] {
-  if (!cachedBusinessAreas) {
-    cachedBusinessAreas = buildBusinessAreas();
+export function getBusinessAreas(version: string = getBlueprintVersion()): BusinessArea[] {
+  let businessAreas = cachedBusinessAreas.get(version);
+  if (!businessAreas) {
+    businessAreas = buildBusinessAreas(version);
+    cachedBusinessAreas.set(version, businessAreas);
   }
-  return cachedBusinessAreas;
+  return businessAreas;
 }
 
-export function getCapabilityByCode(code: string): Capability | undefined {
-  return getCapabilities().find((c) => c.code === code);
+/**
+ * Get a capability as defined in a blueprint version (the current version by default)
+ * Pass an assessment's pinned blueprintVersion to get the questions it was rated against.
+ */
+export function getCapabilityByCode(code: string, version?: string): Capability | undefined {
+  return getCapabilities(version).find((c) => c.code === code);
 }
 
 export function getCapabilityByProcessName(processName: string): Capability | undefined {
@@ -133,9 +363,13 @@ export function getCapabilityByProcessName(processName: string): Capability | un
   return getCapabilities().find((c) => c.processName.toLowerCase() === normalized);
 }
 
-export function getBlueprintVersion(): string {
-  const capabilities = getCapabilities();
-  return capabilities.length > 0 ? capabilities[0].bcm.version : "3.0";
+/**
+ * Check whether a capability's questions differ between a pinned version and the current one
+ */
+export function hasNewerQuestions(code: string, pinnedVersion: string): boolean {
+  const pinned = getCapabilityByCode(code, pinnedVersion);
+  const current = getCapabilityByCode(code);
+  return pinned !== undefined && current !== undefined && pinned.bcm !== current.bcm;
 }
 
 export function getTotalQuestionCount(capabilityCodes: string[]): number {
@@ -144,3 +378,40 @@ export function getTotalQuestionCount(capabilityCodes: string[]): number {
     return total + (cap?.bcm.maturity_model.capability_questions.length || 0);
   }, 0);
 }
+
+let cachedDiagnostics: BlueprintDiagnostic[] | null = null;
+
+/**
+ * Get every problem found in the bundled blueprint files and content packs: skipped files, orphaned
+ * capabilities, BCM/BPT mismatches, and predecessor/successor names that do not resolve
+ * to a capability in the current version
+ */
+export function getBlueprintDiagnostics(): BlueprintDiagnostic[] {
+  if (!cachedDiagnostics) {
+    getDocuments();
+    const diagnostics = [...(cachedDocuments?.diagnostics ?? [])];
+    const version = getBlueprintVersion();
+
+    for (const capability of getCapabilities(version)) {
+      const { predecessor_processes, successor_processes } = capability.bpt.process_details;
+      const links = [
+        ...predecessor_processes.map((name) => ({ name, relation: "Predecessor" })),
+        ...successor_processes.map((name) => ({ name, relation: "Successor" })),
+      ];
+      for (const { name, relation } of links) {
+        if (!getCapabilityByProcessName(name)) {
+          diagnostics.push({
+            severity: "warning",
+            kind: "unresolved_link",
+            message: `${relation} "${name}" does not match any capability`,
+            capabilityCode: capability.code,
+            version,
+          });
+        }
+      }
+    }
+
+    cachedDiagnostics = diagnostics;
+  }
+  return cachedDiagnostics;
+}
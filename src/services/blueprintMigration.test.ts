@@ -0,0 +1,139 @@
+import "fake-indexeddb/auto";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { migrateAssessment, proposeQuestionMapping } from "./blueprintMigration";
+import { db } from "./db";
+import type { BlueprintMapping, Capability } from "../types";
+
+// Question text per blueprint version; 3.1 reorders the 3.0 questions and replaces the last one
+const QUESTIONS = vi.hoisted<Record<string, string[]>>(() => ({
+  "3.0": ["Is the case established?", "  ARE RECORDS KEPT? ", "Is data shared?"],
+  "3.1": ["Are records kept?", "Is the case established?", "Is a new question answered?"],
+}));
+
+vi.mock("./blueprint", () => ({
+  getBlueprintVersions: () => Object.keys(QUESTIONS),
+  getCapabilityByCode: (_code: string, version: string) =>
+    ({
+      bcm: {
+        maturity_model: {
+          capability_questions: (QUESTIONS[version] ?? []).map((question) => ({
+            category: "Business",
+            question,
+          })),
+        },
+      },
+    }) as unknown as Capability,
+}));
+
+const CODE = "CM_Establish_Case";
+
+describe("proposeQuestionMapping", () => {
+  it("matches questions by text, ignoring case and surrounding whitespace", () => {
+    const proposal = proposeQuestionMapping(CODE, "3.0", "3.1");
+
+    expect(proposal.source).toBe("text");
+    expect(proposal.map).toEqual({ 0: 1, 1: 0, 2: null });
+  });
+
+  it("prefers mapping file entries and text-matches the rest", () => {
+    const mapping: BlueprintMapping = {
+      fromVersion: "3.0",
+      toVersion: "3.1",
+      capabilities: { [CODE]: { "2": 2 } },
+    };
+    const proposal = proposeQuestionMapping(CODE, "3.0", "3.1", mapping);
+
+    expect(proposal.source).toBe("file");
+    expect(proposal.map).toEqual({ 0: 1, 1: 0, 2: 2 });
+  });
+
+  it("does not map two old questions onto the same new question", () => {
+    const mapping: BlueprintMapping = {
+      fromVersion: "3.0",
+      toVersion: "3.1",
+      capabilities: { [CODE]: { "2": 1 } },
+    };
+    const proposal = proposeQuestionMapping(CODE, "3.0", "3.1", mapping);
+
+    // Question 0's text matches new question 1, which the file already assigned to question 2
+    expect(proposal.map).toEqual({ 0: null, 1: 0, 2: 1 });
+  });
+
+  it("ignores a mapping file for other versions", () => {
+    const mapping: BlueprintMapping = {
+      fromVersion: "2.0",
+      toVersion: "3.1",
+      capabilities: { [CODE]: { "0": 2 } },
+    };
+    const proposal = proposeQuestionMapping(CODE, "3.0", "3.1", mapping);
+
+    expect(proposal.source).toBe("text");
+    expect(proposal.map[0]).toBe(1);
+  });
+});
+
+describe("migrateAssessment", () => {
+  beforeEach(async () => {
+    await Promise.all(db.tables.map((table) => table.clear()));
+    await db.capabilityAssessments.add({
+      id: "assessment-1",
+      capabilityCode: CODE,
+      businessArea: "Care Management",
+      processName: "Establish Case",
+      status: "in_progress",
+      tags: [],
+      blueprintVersion: "3.0",
+      createdAt: new Date("2026-01-01"),
+      updatedAt: new Date("2026-01-01"),
+    });
+    for (const [questionIndex, level] of [
+      [0, 2],
+      [2, 4],
+    ] as const) {
+      await db.ratings.add({
+        id: `r${questionIndex}`,
+        capabilityAssessmentId: "assessment-1",
+        questionIndex,
+        level,
+        notes: "",
+        carriedForward: false,
+        attachmentIds: [],
+        updatedAt: new Date("2026-01-01"),
+      });
+      await db.ratingAudit.add({
+        id: `audit-${questionIndex}`,
+        ratingId: `r${questionIndex}`,
+        capabilityAssessmentId: "assessment-1",
+        questionIndex,
+        action: "level_changed",
+        newValue: `Level ${level}`,
+        changedAt: new Date("2026-01-01"),
+      });
+    }
+  });
+
+  it("keeps the audit log of discarded questions", async () => {
+    await migrateAssessment("assessment-1", "3.1", { 0: 1, 1: 0, 2: null });
+
+    expect(await db.ratings.get("r2")).toBeUndefined();
+    expect(await db.ratingAudit.get("audit-0")).toMatchObject({ questionIndex: 1 });
+    expect(await db.ratingAudit.get("audit-2")).toMatchObject({
+      questionIndex: 2,
+      discardedFromVersion: "3.0",
+    });
+
+    const cleared = await db.ratingAudit
+      .where("ratingId")
+      .equals("r2")
+      .filter((e) => e.id !== "audit-2")
+      .toArray();
+    expect(cleared).toEqual([
+      expect.objectContaining({
+        action: "level_changed",
+        previousValue: "Level 4",
+        newValue: undefined,
+        discardedFromVersion: "3.0",
+      }),
+    ]);
+  });
+});
@@ -0,0 +1,252 @@
+/**
+ * Blueprint migration
+ *
+ * Moves an assessment pinned to an older blueprint version onto a newer one by mapping
+ * each old questionIndex to a question in the new version. Mappings come from a mapping
+ * file (uploaded, or bundled under src/data/mappings/), falling back to matching questions
+ * by their text. Ratings whose question has no counterpart are discarded after review.
+ * Ratings for custom questions are not part of the blueprint and stay where they are.
+ */
+
+import { db } from "./db";
+import { CLEARED_RATING, recordRatingChanges } from "./auditLog";
+import { getBlueprintVersions, getCapabilityByCode } from "./blueprint";
+import { isCustomQuestionIndex } from "./customQuestions";
+import { isEditableStatus, STATUS_LABELS } from "./workflow";
+import type { BlueprintMapping, Rating } from "../types";
+
+/** Old questionIndex -> new questionIndex (null when the rating is discarded) */
+export type QuestionIndexMap = Record<number, number | null>;
+
+/** Where a proposed question mapping came from */
+export type MappingSource = "file" | "bundled" | "text";
+
+export interface QuestionMappingProposal {
+  map: QuestionIndexMap;
+  source: MappingSource;
+}
+
+// Mapping files shipped with the app, e.g. src/data/mappings/3.0_to_3.1.json
+const bundledMappings = Object.values(
+  import.meta.glob<BlueprintMapping>("../data/mappings/*.json", {
+    eager: true,
+    import: "default",
+  })
+);
+
+/**
+ * Parse and validate the contents of a mapping file
+ */
+export function parseBlueprintMapping(text: string): BlueprintMapping {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("Mapping file is not valid JSON");
+  }
+
+  const mapping = data as Partial<BlueprintMapping> | null;
+  if (
+    !mapping ||
+    typeof mapping.fromVersion !== "string" ||
+    typeof mapping.toVersion !== "string" ||
+    typeof mapping.capabilities !== "object" ||
+    mapping.capabilities === null
+  ) {
+    throw new Error("Mapping file must have fromVersion, toVersion, and capabilities");
+  }
+
+  for (const [code, questions] of Object.entries(mapping.capabilities)) {
+    if (typeof questions !== "object" || questions === null) {
+      throw new Error(`Mapping for ${code} must map question indexes`);
+    }
+    for (const [from, to] of Object.entries(questions)) {
+      if (!/^\d+$/.test(from) || (to !== null && !(Number.isInteger(to) && to >= 0))) {
+        throw new Error(
+          `Mapping for ${code} has an invalid entry "${from}": ${JSON.stringify(to)}; ` +
+            "use zero-based question indexes or null"
+        );
+      }
+    }
+  }
+
+  return mapping as BlueprintMapping;
+}
+
+/**
+ * Propose a question mapping for a capability between two blueprint versions
+ * Entries from the mapping file (or a bundled mapping) win; remaining questions are matched
+ * by identical question text.
+ */
+export function proposeQuestionMapping(
+  capabilityCode: string,
+  fromVersion: string,
+  toVersion: string,
+  mappingFile?: BlueprintMapping
+): QuestionMappingProposal {
+  const oldQuestions =
+    getCapabilityByCode(capabilityCode, fromVersion)?.bcm.maturity_model.capability_questions ?? [];
+  const newQuestions =
+    getCapabilityByCode(capabilityCode, toVersion)?.bcm.maturity_model.capability_questions ?? [];
+
+  const isApplicable = (m: BlueprintMapping) =>
+    m.fromVersion === fromVersion && m.toVersion === toVersion && !!m.capabilities[capabilityCode];
+  const fileEntries =
+    mappingFile && isApplicable(mappingFile) ? mappingFile.capabilities[capabilityCode] : undefined;
+  const bundled = fileEntries ? undefined : bundledMappings.find(isApplicable);
+  const explicit = fileEntries ?? bundled?.capabilities[capabilityCode] ?? {};
+
+  const normalize = (text: string) => text.trim().toLowerCase();
+  const used = new Set(Object.values(explicit).filter((index): index is number => index !== null));
+  const map: QuestionIndexMap = {};
+
+  oldQuestions.forEach((question, oldIndex) => {
+    if (String(oldIndex) in explicit) {
+      map[oldIndex] = explicit[String(oldIndex)];
+      return;
+    }
+    const match = newQuestions.findIndex(
+      (q, newIndex) => !used.has(newIndex) && normalize(q.question) === normalize(question.question)
+    );
+    map[oldIndex] = match >= 0 ? match : null;
+    if (match >= 0) used.add(match);
+  });
+
+  return { map, source: fileEntries ? "file" : bundled ? "bundled" : "text" };
+}
+
+/**
+ * Whether a rating holds anything worth carrying over to the new blueprint
+ */
+export function hasRatingContent(rating: Rating): boolean {
+  return (
+    rating.level !== null ||
+    !!rating.notApplicable ||
+    !!rating.notes ||
+    rating.targetLevel !== undefined ||
+    rating.previousLevel !== undefined ||
+    (rating.attachmentIds?.length ?? 0) > 0
+  );
+}
+
+/**
+ * Whether a rating is for a blueprint question, and so needs mapping on migration
+ */
+export function isBlueprintRating(rating: Pick<Rating, "questionIndex">): boolean {
+  return !isCustomQuestionIndex(rating.questionIndex);
+}
+
+/**
+ * List the problems that prevent a mapping from being applied (empty when it can be)
+ */
+export function getMappingIssues(
+  ratings: Rating[],
+  map: QuestionIndexMap,
+  newQuestionCount: number
+): string[] {
+  const issues: string[] = [];
+  const targets = new Map<number, number>();
+
+  for (const rating of [...ratings].sort((a, b) => a.questionIndex - b.questionIndex)) {
+    if (!isBlueprintRating(rating) || !hasRatingContent(rating)) continue;
+    const target = map[rating.questionIndex] ?? null;
+    const label = `Q${rating.questionIndex + 1}`;
+
+    if (target === null) {
+      const attachmentCount = rating.attachmentIds?.length ?? 0;
+      if (attachmentCount > 0) {
+        issues.push(
+          `${label} has ${attachmentCount} attachment${attachmentCount === 1 ? "" : "s"}; map it to a new question or remove the attachments first`
+        );
+      }
+      continue;
+    }
+
+    if (target >= newQuestionCount) {
+      issues.push(`${label} maps to Q${target + 1}, which does not exist in the new blueprint`);
+    } else if (targets.has(target)) {
+      issues.push(
+        `Q${targets.get(target)! + 1} and ${label} both map to new Q${target + 1}; choose one`
+      );
+    } else {
+      targets.set(target, rating.questionIndex);
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Migrate an editable assessment to a newer blueprint version
+ * Ratings (with their attachments and audit log) move to their mapped question; unmapped
+ * ratings are discarded, recording the cleared answer in the audit log.
+ */
+export async function migrateAssessment(
+  assessmentId: string,
+  toVersion: string,
+  map: QuestionIndexMap
+): Promise<void> {
+  await db.transaction("rw", [db.capabilityAssessments, db.ratings, db.ratingAudit], async () => {
+    const assessment = await db.capabilityAssessments.get(assessmentId);
+    if (!assessment) {
+      throw new Error(`Assessment not found: ${assessmentId}`);
+    }
+    if (!isEditableStatus(assessment.status)) {
+      throw new Error(
+        `Cannot migrate an assessment that is ${STATUS_LABELS[assessment.status].toLowerCase()}`
+      );
+    }
+    if (!getBlueprintVersions().includes(toVersion)) {
+      throw new Error(`Blueprint version not found: ${toVersion}`);
+    }
+
+    const capability = getCapabilityByCode(assessment.capabilityCode, toVersion);
+    if (!capability) {
+      throw new Error(`${assessment.processName} is not part of blueprint v${toVersion}`);
+    }
+
+    const ratings = await db.ratings.where("capabilityAssessmentId").equals(assessmentId).toArray();
+    const issues = getMappingIssues(
+      ratings,
+      map,
+      capability.bcm.maturity_model.capability_questions.length
+    );
+    if (issues.length > 0) {
+      throw new Error(issues[0]);
+    }
+
+    const now = new Date();
+    for (const rating of ratings.filter(isBlueprintRating)) {
+      const target = map[rating.questionIndex] ?? null;
+      if (target === null || !hasRatingContent(rating)) {
+        await recordRatingChanges(rating, rating, CLEARED_RATING, now);
+        await db.ratings.delete(rating.id);
+      } else if (target !== rating.questionIndex) {
+        await db.ratings.update(rating.id, { questionIndex: target, updatedAt: now });
+      }
+    }
+
+    // Keep each question's timeline with the question it moved to. The log is append-only, so
+    // entries of discarded questions are kept but no longer shown under any question.
+    const auditEntries = await db.ratingAudit
+      .where("capabilityAssessmentId")
+      .equals(assessmentId)
+      .filter((entry) => !entry.discardedFromVersion)
+      .toArray();
+    for (const entry of auditEntries.filter(isBlueprintRating)) {
+      const target = map[entry.questionIndex] ?? null;
+      if (target === null) {
+        await db.ratingAudit.update(entry.id, {
+          discardedFromVersion: assessment.blueprintVersion,
+        });
+      } else if (target !== entry.questionIndex) {
+        await db.ratingAudit.update(entry.id, { questionIndex: target });
+      }
+    }
+
+    await db.capabilityAssessments.update(assessmentId, {
+      blueprintVersion: toVersion,
+      updatedAt: now,
+    });
+  });
+}
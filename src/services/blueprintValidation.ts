@@ -0,0 +1,128 @@
+/**
+ * Blueprint validation
+ *
+ * Structural checks for BCM and BPT documents, applied to every file as the blueprint loads.
+ * Each function returns a list of problems; an empty list means the document can be used.
+ */
+
+type JsonObject = Record<string, unknown>;
+
+const LEVEL_KEYS = ["level_1", "level_2", "level_3", "level_4", "level_5"] as const;
+
+const BPT_LIST_FIELDS = [
+  "results",
+  "process_steps",
+  "diagrams",
+  "shared_data",
+  "predecessor_processes",
+  "successor_processes",
+  "failures",
+  "performance_measures",
+] as const;
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === "string" && value.trim().length > 0;
+}
+
+// Check the header fields shared by BCM and BPT documents
+function validateHeader(doc: JsonObject, documentType: "BCM" | "BPT"): string[] {
+  const problems: string[] = [];
+  if (doc.document_type !== documentType) {
+    problems.push(
+      `document_type must be "${documentType}" (found ${JSON.stringify(doc.document_type)})`
+    );
+  }
+  for (const field of [
+    "version",
+    "business_area",
+    "process_name",
+    "process_code",
+    "sub_category",
+  ]) {
+    if (!isNonEmptyString(doc[field])) {
+      problems.push(`${field} is missing or empty`);
+    }
+  }
+  return problems;
+}
+
+/**
+ * Validate a BCM document: header fields and a question list where every question has a
+ * category, question text, and all five level descriptors
+ */
+export function validateBcm(doc: unknown): string[] {
+  if (!isObject(doc)) return ["Document is not a JSON object"];
+
+  const problems = validateHeader(doc, "BCM");
+  const questions = isObject(doc.maturity_model)
+    ? doc.maturity_model.capability_questions
+    : undefined;
+
+  if (!Array.isArray(questions) || questions.length === 0) {
+    problems.push("maturity_model.capability_questions must be a non-empty list");
+    return problems;
+  }
+
+  questions.forEach((question: unknown, index) => {
+    const label = `Question ${index + 1}`;
+    if (!isObject(question)) {
+      problems.push(`${label} is not an object`);
+      return;
+    }
+    if (!isNonEmptyString(question.question)) {
+      problems.push(`${label} has no question text`);
+    }
+    if (typeof question.category !== "string") {
+      problems.push(`${label} has no category`);
+    }
+    const levels = isObject(question.levels) ? question.levels : {};
+    const missing = LEVEL_KEYS.filter((key) => !isNonEmptyString(levels[key]));
+    if (missing.length > 0) {
+      problems.push(`${label} is missing level descriptors: ${missing.join(", ")}`);
+    }
+  });
+
+  return problems;
+}
+
+/**
+ * Validate a BPT document: header fields and the process detail lists the sidebar renders
+ */
+export function validateBpt(doc: unknown): string[] {
+  if (!isObject(doc)) return ["Document is not a JSON object"];
+
+  const problems = validateHeader(doc, "BPT");
+  const details = doc.process_details;
+  if (!isObject(details)) {
+    problems.push("process_details is missing");
+    return problems;
+  }
+
+  if (typeof details.description !== "string") {
+    problems.push("process_details.description is missing");
+  }
+  if (typeof details.constraints !== "string") {
+    problems.push("process_details.constraints is missing");
+  }
+  for (const field of BPT_LIST_FIELDS) {
+    if (!Array.isArray(details[field])) {
+      problems.push(`process_details.${field} must be a list`);
+    }
+  }
+  const triggers = details.trigger_events;
+  if (
+    !isObject(triggers) ||
+    !Array.isArray(triggers.environment_based) ||
+    !Array.isArray(triggers.interaction_based)
+  ) {
+    problems.push(
+      "process_details.trigger_events must list environment_based and interaction_based events"
+    );
+  }
+
+  return problems;
+}
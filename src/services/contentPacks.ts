@@ -0,0 +1,149 @@
+/**
+ * Content packs
+ *
+ * Runtime additions to the blueprint: a ZIP of BCM/BPT JSON files (for example a revised CMS
+ * release or a state overlay) is validated, stored in IndexedDB, and merged with the built-in
+ * files when the app starts and whenever a pack is imported or removed. Files are named like the built-in ones
+ * (<CODE>_<BCM|BPT>_v<version>.json) and may sit in any folder inside the ZIP.
+ */
+
+import JSZip from "jszip";
+import { v4 as uuidv4 } from "uuid";
+
+import { db } from "./db";
+import {
+  compareBlueprintVersions,
+  extractCapabilityCode,
+  getBlueprintFileType,
+  getBlueprintVersions,
+  getCapabilityByCode,
+  registerContentPacks,
+} from "./blueprint";
+import { validateBcm, validateBpt } from "./blueprintValidation";
+import type { BCM, BPT, ContentPack, ContentPackFile } from "../types";
+
+/** Most problems listed in the error for a rejected pack */
+const MAX_REPORTED_PROBLEMS = 5;
+
+/**
+ * Load the stored content packs and merge them into the blueprint
+ * Called before the app renders, and again after each pack import or removal. Pages read the
+ * blueprint when they mount, so they pick up the change the next time they are opened.
+ */
+export async function loadContentPacks(): Promise<void> {
+  registerContentPacks(await db.contentPacks.orderBy("importedAt").toArray());
+}
+
+/**
+ * Read and validate the BCM/BPT files in a content pack ZIP
+ * Throws when the ZIP holds no blueprint files, or any file is misnamed, invalid, or
+ * introduces a capability without both a BCM and a BPT.
+ */
+export async function readContentPack(zipBlob: Blob): Promise<ContentPackFile[]> {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(zipBlob);
+  } catch {
+    throw new Error("Invalid ZIP file");
+  }
+
+  const entries: JSZip.JSZipObject[] = [];
+  zip.forEach((path, entry) => {
+    const fileName = path.split("/").pop() ?? "";
+    if (!entry.dir && fileName.endsWith(".json") && !fileName.startsWith(".")) {
+      entries.push(entry);
+    }
+  });
+
+  const files: ContentPackFile[] = [];
+  const problems: string[] = [];
+  const typesByCode = new Map<string, Set<"BCM" | "BPT">>();
+
+  for (const entry of entries) {
+    const type = getBlueprintFileType(entry.name);
+    const code = extractCapabilityCode(entry.name);
+    if (!type || !code) {
+      problems.push(`${entry.name}: filename does not match <CODE>_<BCM|BPT>_v<version>.json`);
+      continue;
+    }
+
+    let document: unknown;
+    try {
+      document = JSON.parse(await entry.async("string"));
+    } catch {
+      problems.push(`${entry.name}: not valid JSON`);
+      continue;
+    }
+
+    const documentProblems = type === "BCM" ? validateBcm(document) : validateBpt(document);
+    if (documentProblems.length > 0) {
+      problems.push(...documentProblems.map((problem) => `${entry.name}: ${problem}`));
+      continue;
+    }
+
+    files.push({ path: entry.name, document: document as BCM | BPT });
+    const types = typesByCode.get(code) ?? new Set();
+    typesByCode.set(code, types.add(type));
+  }
+
+  // A capability the built-in blueprint does not know needs both documents in the pack
+  const versions = getBlueprintVersions();
+  for (const [code, types] of typesByCode) {
+    const isKnown = versions.some((version) => getCapabilityByCode(code, version));
+    if (!isKnown && types.size < 2) {
+      const [type] = types;
+      problems.push(
+        `${code}: new capability has a ${type} but no ${type === "BCM" ? "BPT" : "BCM"}`
+      );
+    }
+  }
+
+  if (problems.length > 0) {
+    const more = problems.length - MAX_REPORTED_PROBLEMS;
+    throw new Error(
+      `Content pack rejected: ${problems.slice(0, MAX_REPORTED_PROBLEMS).join("; ")}` +
+        (more > 0 ? `; and ${more} more problem${more === 1 ? "" : "s"}` : "")
+    );
+  }
+  if (files.length === 0) {
+    throw new Error("Content pack contains no BCM or BPT files");
+  }
+
+  return files;
+}
+
+/**
+ * Validate and store a content pack ZIP
+ * The pack is named after the ZIP file; importing a pack with the same name replaces it.
+ */
+export async function importContentPack(zipBlob: Blob, fileName: string): Promise<ContentPack> {
+  const files = await readContentPack(zipBlob);
+  const name = fileName.replace(/\.zip$/i, "").trim() || "Content pack";
+
+  const existing = await db.contentPacks.filter((p) => p.name === name).first();
+  const pack: ContentPack = {
+    id: existing?.id ?? uuidv4(),
+    name,
+    importedAt: new Date(),
+    files,
+  };
+  await db.contentPacks.put(pack);
+  await loadContentPacks();
+  return pack;
+}
+
+/**
+ * Remove a content pack
+ * Assessments pinned to a version only the pack provided fall back to the nearest older version.
+ */
+export async function deleteContentPack(id: string): Promise<void> {
+  await db.contentPacks.delete(id);
+  await loadContentPacks();
+}
+
+/**
+ * Blueprint versions a content pack provides, oldest first
+ */
+export function getContentPackVersions(pack: ContentPack): string[] {
+  return [...new Set(pack.files.map((f) => f.document.version))].sort(compareBlueprintVersions);
+}
@@ -0,0 +1,219 @@
+/**
+ * Custom questions
+ *
+ * State-specific questions authored per capability and rated after the blueprint questions.
+ * Ratings, audit entries, and history snapshots refer to them by questionIndex like any other
+ * question; custom indexes start at CUSTOM_QUESTION_INDEX_OFFSET so they can never collide
+ * with blueprint questions, and are never reused within a capability.
+ */
+
+import { v4 as uuidv4 } from "uuid";
+
+import { db } from "./db";
+import type { CapabilityQuestion, CustomQuestion, MaturityLevel } from "../types";
+
+/** First questionIndex used for custom questions */
+export const CUSTOM_QUESTION_INDEX_OFFSET = 1000;
+
+/** Fields a user edits on a custom question */
+export type CustomQuestionInput = Pick<
+  CustomQuestion,
+  "category" | "question" | "levels" | "includeInScoring"
+>;
+
+/**
+ * A question as rated in an assessment: a blueprint question or a custom one
+ */
+export interface AssessmentQuestion extends CapabilityQuestion {
+  questionIndex: number;
+  label: string; // "Q3" for blueprint questions, "C1" for custom questions
+  customQuestion?: CustomQuestion; // Set for custom questions
+}
+
+/**
+ * Whether a questionIndex refers to a custom question
+ */
+export function isCustomQuestionIndex(questionIndex: number): boolean {
+  return questionIndex >= CUSTOM_QUESTION_INDEX_OFFSET;
+}
+
+/**
+ * 1-based number of a question among the blueprint questions or among the custom questions,
+ * e.g. 3 for "Q3" and 1 for "C1"
+ */
+export function getQuestionNumber(questionIndex: number): number {
+  return isCustomQuestionIndex(questionIndex)
+    ? questionIndex - CUSTOM_QUESTION_INDEX_OFFSET + 1
+    : questionIndex + 1;
+}
+
+/**
+ * Display label for a question, e.g. "Q3" or "C1"
+ */
+export function getQuestionLabel(questionIndex: number): string {
+  return `${isCustomQuestionIndex(questionIndex) ? "C" : "Q"}${getQuestionNumber(questionIndex)}`;
+}
+
+/**
+ * Combine a capability's blueprint questions with its custom questions, custom ones last
+ */
+export function buildAssessmentQuestions(
+  questions: CapabilityQuestion[],
+  customQuestions: CustomQuestion[]
+): AssessmentQuestion[] {
+  return [
+    ...questions.map((question, index) => ({
+      ...question,
+      questionIndex: index,
+      label: getQuestionLabel(index),
+    })),
+    ...[...customQuestions]
+      .sort((a, b) => a.questionIndex - b.questionIndex)
+      .map((customQuestion) => ({
+        category: customQuestion.category,
+        question: customQuestion.question,
+        levels: customQuestion.levels,
+        questionIndex: customQuestion.questionIndex,
+        label: getQuestionLabel(customQuestion.questionIndex),
+        customQuestion,
+      })),
+  ];
+}
+
+/**
+ * Find the question a rating refers to, whether blueprint or custom
+ */
+export function findAssessmentQuestion(
+  questions: CapabilityQuestion[],
+  customQuestions: (CapabilityQuestion & Pick<CustomQuestion, "questionIndex">)[],
+  questionIndex: number
+): CapabilityQuestion | undefined {
+  return isCustomQuestionIndex(questionIndex)
+    ? customQuestions.find((q) => q.questionIndex === questionIndex)
+    : questions[questionIndex];
+}
+
+/**
+ * Get the custom questions for a capability, in question order
+ */
+export async function getCustomQuestions(capabilityCode: string): Promise<CustomQuestion[]> {
+  return db.customQuestions.where("capabilityCode").equals(capabilityCode).sortBy("questionIndex");
+}
+
+// Trim the input and check that the question and every level descriptor are filled in
+function normalizeInput(input: CustomQuestionInput): CustomQuestionInput {
+  const question = input.question.trim();
+  if (!question) {
+    throw new Error("Question text is required");
+  }
+
+  const levels = {} as MaturityLevel;
+  for (const level of [1, 2, 3, 4, 5] as const) {
+    const key = `level_${level}` as keyof MaturityLevel;
+    const descriptor = input.levels[key].trim();
+    if (!descriptor) {
+      throw new Error(`A descriptor is required for level ${level}`);
+    }
+    levels[key] = descriptor;
+  }
+
+  return {
+    category: input.category.trim() || "Custom",
+    question,
+    levels,
+    includeInScoring: input.includeInScoring,
+  };
+}
+
+/**
+ * Add a custom question to a capability
+ * The question gets the next unused index for the capability
+ */
+export async function createCustomQuestion(
+  capabilityCode: string,
+  input: CustomQuestionInput
+): Promise<CustomQuestion> {
+  const fields = normalizeInput(input);
+
+  return db.transaction("rw", db.customQuestions, async () => {
+    const existing = await db.customQuestions
+      .where("capabilityCode")
+      .equals(capabilityCode)
+      .toArray();
+    const questionIndex = Math.max(
+      CUSTOM_QUESTION_INDEX_OFFSET,
+      ...existing.map((q) => q.questionIndex + 1)
+    );
+
+    const now = new Date();
+    const customQuestion: CustomQuestion = {
+      id: uuidv4(),
+      capabilityCode,
+      questionIndex,
+      ...fields,
+      createdAt: now,
+      updatedAt: now,
+    };
+    await db.customQuestions.add(customQuestion);
+    return customQuestion;
+  });
+}
+
+/**
+ * Update a custom question's text, levels, category, or scoring flag
+ * Existing ratings stay attached to the question
+ */
+export async function updateCustomQuestion(id: string, input: CustomQuestionInput): Promise<void> {
+  const fields = normalizeInput(input);
+  const updated = await db.customQuestions.update(id, { ...fields, updatedAt: new Date() });
+  if (updated === 0) {
+    throw new Error(`Custom question not found: ${id}`);
+  }
+}
+
+/**
+ * Delete a custom question
+ * Refused while any assessment or history snapshot still holds an answer for it, so that
+ * recorded ratings never lose their question; exclude it from scoring instead.
+ */
+export async function deleteCustomQuestion(id: string): Promise<void> {
+  await db.transaction(
+    "rw",
+    [db.customQuestions, db.capabilityAssessments, db.ratings, db.assessmentHistory],
+    async () => {
+      const customQuestion = await db.customQuestions.get(id);
+      if (!customQuestion) {
+        throw new Error(`Custom question not found: ${id}`);
+      }
+
+      const { capabilityCode, questionIndex } = customQuestion;
+      const label = getQuestionLabel(questionIndex);
+      const assessmentIds = await db.capabilityAssessments
+        .where("capabilityCode")
+        .equals(capabilityCode)
+        .primaryKeys();
+      const ratingCount = await db.ratings
+        .where("[capabilityAssessmentId+questionIndex]")
+        .anyOf(assessmentIds.map((assessmentId) => [assessmentId, questionIndex]))
+        .count();
+      if (ratingCount > 0) {
+        throw new Error(
+          `${label} has been answered in an assessment and cannot be deleted; exclude it from scoring instead`
+        );
+      }
+
+      const inHistory = await db.assessmentHistory
+        .where("capabilityCode")
+        .equals(capabilityCode)
+        .filter((h) => h.ratings.some((r) => r.questionIndex === questionIndex))
+        .count();
+      if (inHistory > 0) {
+        throw new Error(
+          `${label} is part of the assessment history and cannot be deleted; exclude it from scoring instead`
+        );
+      }
+
+      await db.customQuestions.delete(id);
+    }
+  );
+}
@@ -1,41 +1,188 @@
 import Dexie, { type EntityTable } from "dexie";
-import type { CapabilityAssessment, Rating, AssessmentHistory, Tag, Attachment } from "../types";
+import type {
+  CapabilityAssessment,
+  Rating,
+  AssessmentHistory,
+  Tag,
+  Attachment,
+  AssessmentCycle,
+  RatingAuditEntry,
+  AppSetting,
+  TrashItem,
+  CustomQuestion,
+  ContentPack,
+} from "../types";
+import { migrateLegacyDatabase } from "./legacyMigration";
 
 // ============================================
 // Database Definition - v2.0
 // ============================================
 
-const db = new Dexie("MitaSSADatabase") as Dexie & {
+export type MitaDatabase = Dexie & {
   capabilityAssessments: EntityTable<CapabilityAssessment, "id">;
   ratings: EntityTable<Rating, "id">;
   assessmentHistory: EntityTable<AssessmentHistory, "id">;
   tags: EntityTable<Tag, "id">;
   attachments: EntityTable<Attachment, "id">;
+  assessmentCycles: EntityTable<AssessmentCycle, "id">;
+  ratingAudit: EntityTable<RatingAuditEntry, "id">;
+  settings: EntityTable<AppSetting, "key">;
+  trash: EntityTable<TrashItem, "id">;
+  customQuestions: EntityTable<CustomQuestion, "id">;
+  contentPacks: EntityTable<ContentPack, "id">;
 };
 
-// Fresh v2.0 schema - clean slate
-db.version(3).stores({
-  capabilityAssessments: "id, capabilityCode, status, updatedAt",
-  ratings: "id, capabilityAssessmentId, [capabilityAssessmentId+questionIndex]",
-  assessmentHistory: "id, capabilityCode, snapshotDate",
-  tags: "id, name, usageCount, lastUsed",
-});
-
-// v4: Add compound index for ratings to prevent duplicates
-db.version(4).stores({
-  capabilityAssessments: "id, capabilityCode, status, updatedAt",
-  ratings: "id, capabilityAssessmentId, [capabilityAssessmentId+questionIndex]",
-  assessmentHistory: "id, capabilityCode, snapshotDate",
-  tags: "id, name, usageCount, lastUsed",
-});
-
-// v5: Add attachments table for file storage
-db.version(5).stores({
-  capabilityAssessments: "id, capabilityCode, status, updatedAt",
-  ratings: "id, capabilityAssessmentId, [capabilityAssessmentId+questionIndex]",
-  assessmentHistory: "id, capabilityCode, snapshotDate",
-  tags: "id, name, usageCount, lastUsed",
-  attachments: "id, capabilityAssessmentId, ratingId, uploadedAt",
-});
+/**
+ * Create a database instance with the full schema history applied
+ * Each workspace is a separate database created through this function
+ */
+export function createDatabase(name: string): MitaDatabase {
+  const database = new Dexie(name) as MitaDatabase;
+
+  // Fresh v2.0 schema - clean slate; v1.0 data is converted before its tables are dropped
+  database
+    .version(3)
+    .stores({
+      capabilityAssessments: "id, capabilityCode, status, updatedAt",
+      ratings: "id, capabilityAssessmentId, [capabilityAssessmentId+questionIndex]",
+      assessmentHistory: "id, capabilityCode, snapshotDate",
+      tags: "id, name, usageCount, lastUsed",
+    })
+    .upgrade((tx) => migrateLegacyDatabase(tx));
+
+  // v4: Add compound index for ratings to prevent duplicates
+  database.version(4).stores({
+    capabilityAssessments: "id, capabilityCode, status, updatedAt",
+    ratings: "id, capabilityAssessmentId, [capabilityAssessmentId+questionIndex]",
+    assessmentHistory: "id, capabilityCode, snapshotDate",
+    tags: "id, name, usageCount, lastUsed",
+  });
+
+  // v5: Add attachments table for file storage
+  database.version(5).stores({
+    capabilityAssessments: "id, capabilityCode, status, updatedAt",
+    ratings: "id, capabilityAssessmentId, [capabilityAssessmentId+questionIndex]",
+    assessmentHistory: "id, capabilityCode, snapshotDate",
+    tags: "id, name, usageCount, lastUsed",
+    attachments: "id, capabilityAssessmentId, ratingId, uploadedAt",
+  });
+
+  // v6: Add assessment cycles and index assessments by cycle
+  database.version(6).stores({
+    capabilityAssessments: "id, capabilityCode, status, updatedAt, cycleId",
+    ratings: "id, capabilityAssessmentId, [capabilityAssessmentId+questionIndex]",
+    assessmentHistory: "id, capabilityCode, snapshotDate, cycleId",
+    tags: "id, name, usageCount, lastUsed",
+    attachments: "id, capabilityAssessmentId, ratingId, uploadedAt",
+    assessmentCycles: "id, name, startDate",
+  });
+
+  // v7: Add append-only rating audit log
+  database.version(7).stores({
+    capabilityAssessments: "id, capabilityCode, status, updatedAt, cycleId",
+    ratings: "id, capabilityAssessmentId, [capabilityAssessmentId+questionIndex]",
+    assessmentHistory: "id, capabilityCode, snapshotDate, cycleId",
+    tags: "id, name, usageCount, lastUsed",
+    attachments: "id, capabilityAssessmentId, ratingId, uploadedAt",
+    assessmentCycles: "id, name, startDate",
+    ratingAudit: "id, ratingId, capabilityAssessmentId, changedAt",
+  });
+
+  // v8: Add key-value settings (e.g. scoring strategy)
+  database.version(8).stores({
+    capabilityAssessments: "id, capabilityCode, status, updatedAt, cycleId",
+    ratings: "id, capabilityAssessmentId, [capabilityAssessmentId+questionIndex]",
+    assessmentHistory: "id, capabilityCode, snapshotDate, cycleId",
+    tags: "id, name, usageCount, lastUsed",
+    attachments: "id, capabilityAssessmentId, ratingId, uploadedAt",
+    assessmentCycles: "id, name, startDate",
+    ratingAudit: "id, ratingId, capabilityAssessmentId, changedAt",
+    settings: "key",
+  });
+
+  // v9: Add trash for soft-deleted assessments and history entries
+  database.version(9).stores({
+    capabilityAssessments: "id, capabilityCode, status, updatedAt, cycleId",
+    ratings: "id, capabilityAssessmentId, [capabilityAssessmentId+questionIndex]",
+    assessmentHistory: "id, capabilityCode, snapshotDate, cycleId",
+    tags: "id, name, usageCount, lastUsed",
+    attachments: "id, capabilityAssessmentId, ratingId, uploadedAt",
+    assessmentCycles: "id, name, startDate",
+    ratingAudit: "id, ratingId, capabilityAssessmentId, changedAt",
+    settings: "key",
+    trash: "id, type, capabilityCode, deletedAt",
+  });
+
+  // v10: Add state-specific custom questions per capability
+  database.version(10).stores({
+    capabilityAssessments: "id, capabilityCode, status, updatedAt, cycleId",
+    ratings: "id, capabilityAssessmentId, [capabilityAssessmentId+questionIndex]",
+    assessmentHistory: "id, capabilityCode, snapshotDate, cycleId",
+    tags: "id, name, usageCount, lastUsed",
+    attachments: "id, capabilityAssessmentId, ratingId, uploadedAt",
+    assessmentCycles: "id, name, startDate",
+    ratingAudit: "id, ratingId, capabilityAssessmentId, changedAt",
+    settings: "key",
+    trash: "id, type, capabilityCode, deletedAt",
+    customQuestions: "id, capabilityCode, [capabilityCode+questionIndex]",
+  });
+
+  // v11: Add blueprint content packs imported at runtime
+  database.version(11).stores({
+    capabilityAssessments: "id, capabilityCode, status, updatedAt, cycleId",
+    ratings: "id, capabilityAssessmentId, [capabilityAssessmentId+questionIndex]",
+    assessmentHistory: "id, capabilityCode, snapshotDate, cycleId",
+    tags: "id, name, usageCount, lastUsed",
+    attachments: "id, capabilityAssessmentId, ratingId, uploadedAt",
+    assessmentCycles: "id, name, startDate",
+    ratingAudit: "id, ratingId, capabilityAssessmentId, changedAt",
+    settings: "key",
+    trash: "id, type, capabilityCode, deletedAt",
+    customQuestions: "id, capabilityCode, [capabilityCode+questionIndex]",
+    contentPacks: "id, importedAt",
+  });
+
+  return database;
+}
+
+// ============================================
+// Workspaces - one isolated database per workspace
+// ============================================
+
+/** ID of the workspace that uses the original database (pre-workspace installs) */
+export const DEFAULT_WORKSPACE_ID = "default";
+
+/** localStorage key holding the active workspace ID */
+const ACTIVE_WORKSPACE_STORAGE_KEY = "mita-ssa-active-workspace";
+
+/**
+ * Get the database name backing a workspace
+ */
+export function getWorkspaceDatabaseName(workspaceId: string): string {
+  return workspaceId === DEFAULT_WORKSPACE_ID
+    ? "MitaSSADatabase"
+    : `MitaSSADatabase_${workspaceId}`;
+}
+
+/**
+ * Get the ID of the active workspace (the default workspace if none was chosen)
+ */
+export function getActiveWorkspaceId(): string {
+  try {
+    return localStorage.getItem(ACTIVE_WORKSPACE_STORAGE_KEY) ?? DEFAULT_WORKSPACE_ID;
+  } catch {
+    return DEFAULT_WORKSPACE_ID;
+  }
+}
+
+/**
+ * Persist the active workspace ID (takes effect when the app reloads)
+ */
+export function setActiveWorkspaceId(workspaceId: string): void {
+  localStorage.setItem(ACTIVE_WORKSPACE_STORAGE_KEY, workspaceId);
+}
+
+// Database for the active workspace
+const db = createDatabase(getWorkspaceDatabaseName(getActiveWorkspaceId()));
 
 export { db };
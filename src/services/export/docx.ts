@@ -0,0 +1,286 @@
+/**
+ * Word (DOCX) writer for MITA 3.0
+ *
+ * Minimal WordprocessingML generation with JSZip. Documents are built from paragraph and
+ * table fragments that reference named styles (Title, Heading 1-3, Report Table, ...), so
+ * the output can be restyled, navigated and edited with tracked changes in Word.
+ */
+
+import JSZip from "jszip";
+import { escapeXml, XML_DECLARATION } from "./xml";
+
+const W_NAMESPACE = "http://schemas.openxmlformats.org/wordprocessingml/2006/main";
+const R_NAMESPACE = "http://schemas.openxmlformats.org/officeDocument/2006/relationships";
+
+/** A4 page with one-inch margins, in twentieths of a point */
+const PAGE_WIDTH_TWIPS = 11906;
+const PAGE_HEIGHT_TWIPS = 16838;
+const PAGE_MARGIN_TWIPS = 1440;
+const CONTENT_WIDTH_TWIPS = PAGE_WIDTH_TWIPS - 2 * PAGE_MARGIN_TWIPS;
+
+/** Report blue, matching the PDF palette */
+const PRIMARY_COLOR = "005B96";
+const MUTED_COLOR = "646464";
+
+/**
+ * Paragraph style IDs defined in styles.xml
+ */
+export type DocxParagraphStyle =
+  | "Title"
+  | "Subtitle"
+  | "Heading1"
+  | "Heading2"
+  | "Heading3"
+  | "Meta"
+  | "Note";
+
+/**
+ * Options for a single paragraph
+ */
+export interface DocxParagraphOptions {
+  style?: DocxParagraphStyle;
+  bold?: boolean;
+  italic?: boolean;
+  align?: "left" | "center" | "right";
+  pageBreakBefore?: boolean;
+}
+
+// Text run; line breaks in the text become Word line breaks
+function run(text: string, options: Pick<DocxParagraphOptions, "bold" | "italic"> = {}): string {
+  const props =
+    options.bold || options.italic
+      ? `<w:rPr>${options.bold ? "<w:b/>" : ""}${options.italic ? "<w:i/>" : ""}</w:rPr>`
+      : "";
+  const content = text
+    .split("\n")
+    .map((line) => `<w:t xml:space="preserve">${escapeXml(line)}</w:t>`)
+    .join("<w:br/>");
+  return `<w:r>${props}${content}</w:r>`;
+}
+
+/**
+ * Paragraph of plain text
+ */
+export function paragraph(text: string, options: DocxParagraphOptions = {}): string {
+  const props = [
+    options.style ? `<w:pStyle w:val="${options.style}"/>` : "",
+    options.pageBreakBefore ? "<w:pageBreakBefore/>" : "",
+    options.align && options.align !== "left" ? `<w:jc w:val="${options.align}"/>` : "",
+  ].join("");
+  return `<w:p>${props ? `<w:pPr>${props}</w:pPr>` : ""}${text ? run(text, options) : ""}</w:p>`;
+}
+
+/**
+ * Paragraph with a bold label followed by plain text, e.g. "Notes: ..."
+ */
+export function labelledParagraph(label: string, text: string, style?: DocxParagraphStyle): string {
+  const props = style ? `<w:pPr><w:pStyle w:val="${style}"/></w:pPr>` : "";
+  return `<w:p>${props}${run(`${label}: `, { bold: true })}${run(text)}</w:p>`;
+}
+
+/**
+ * Heading paragraph; levels map to Word's built-in outline levels for navigation
+ */
+export function heading(text: string, level: 1 | 2 | 3, pageBreakBefore = false): string {
+  return paragraph(text, { style: `Heading${level}`, pageBreakBefore });
+}
+
+/**
+ * Bulleted list item (a "• " prefix keeps the document free of numbering definitions)
+ */
+export function bullet(text: string): string {
+  return `<w:p><w:pPr><w:ind w:left="360" w:hanging="240"/></w:pPr>${run(`• ${text}`)}</w:p>`;
+}
+
+/**
+ * Table with a repeating header row, using the Report Table style
+ * Column widths are relative weights, scaled to the page width.
+ */
+export function table(head: string[], rows: string[][], columnWeights?: number[]): string {
+  const weights = columnWeights ?? head.map(() => 1);
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+  const widths = weights.map((weight) => Math.floor((weight / totalWeight) * CONTENT_WIDTH_TWIPS));
+
+  const cell = (text: string, i: number) =>
+    `<w:tc><w:tcPr><w:tcW w:w="${widths[i]}" w:type="dxa"/></w:tcPr>${paragraph(text)}</w:tc>`;
+
+  return (
+    "<w:tbl>" +
+    '<w:tblPr><w:tblStyle w:val="ReportTable"/><w:tblW w:w="5000" w:type="pct"/>' +
+    '<w:tblLook w:val="04A0" w:firstRow="1" w:lastRow="0" w:firstColumn="0" w:lastColumn="0" w:noHBand="0" w:noVBand="1"/></w:tblPr>' +
+    `<w:tblGrid>${widths.map((width) => `<w:gridCol w:w="${width}"/>`).join("")}</w:tblGrid>` +
+    `<w:tr><w:trPr><w:tblHeader/></w:trPr>${head.map(cell).join("")}</w:tr>` +
+    rows.map((row) => `<w:tr>${row.map(cell).join("")}</w:tr>`).join("") +
+    "</w:tbl>" +
+    // Word merges a table with one directly following it; an empty paragraph keeps them apart
+    paragraph("")
+  );
+}
+
+function stylesXml(): string {
+  const paragraphStyle = (id: string, name: string, paragraphProps: string, runProps: string) =>
+    `<w:style w:type="paragraph" w:styleId="${id}"><w:name w:val="${name}"/><w:basedOn w:val="Normal"/>` +
+    `<w:next w:val="Normal"/><w:qFormat/><w:pPr>${paragraphProps}</w:pPr><w:rPr>${runProps}</w:rPr></w:style>`;
+
+  const border = (side: string) =>
+    `<w:${side} w:val="single" w:sz="4" w:space="0" w:color="C8C8C8"/>`;
+
+  return (
+    XML_DECLARATION +
+    `<w:styles xmlns:w="${W_NAMESPACE}">` +
+    "<w:docDefaults>" +
+    '<w:rPrDefault><w:rPr><w:rFonts w:ascii="Calibri" w:hAnsi="Calibri" w:eastAsia="Calibri" w:cs="Calibri"/>' +
+    '<w:sz w:val="21"/><w:szCs w:val="21"/><w:color w:val="333333"/><w:lang w:val="en-US"/></w:rPr></w:rPrDefault>' +
+    '<w:pPrDefault><w:pPr><w:spacing w:after="120" w:line="264" w:lineRule="auto"/></w:pPr></w:pPrDefault>' +
+    "</w:docDefaults>" +
+    '<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/><w:qFormat/></w:style>' +
+    paragraphStyle(
+      "Title",
+      "Title",
+      '<w:spacing w:before="2400" w:after="240"/><w:jc w:val="center"/>',
+      `<w:b/><w:color w:val="${PRIMARY_COLOR}"/><w:sz w:val="64"/><w:szCs w:val="64"/>`
+    ) +
+    paragraphStyle(
+      "Subtitle",
+      "Subtitle",
+      '<w:spacing w:after="240"/><w:jc w:val="center"/>',
+      `<w:color w:val="${MUTED_COLOR}"/><w:sz w:val="28"/><w:szCs w:val="28"/>`
+    ) +
+    paragraphStyle(
+      "Heading1",
+      "heading 1",
+      '<w:keepNext/><w:spacing w:before="360" w:after="160"/><w:outlineLvl w:val="0"/>',
+      `<w:b/><w:color w:val="${PRIMARY_COLOR}"/><w:sz w:val="36"/><w:szCs w:val="36"/>`
+    ) +
+    paragraphStyle(
+      "Heading2",
+      "heading 2",
+      '<w:keepNext/><w:spacing w:before="280" w:after="120"/><w:outlineLvl w:val="1"/>',
+      `<w:b/><w:color w:val="${PRIMARY_COLOR}"/><w:sz w:val="28"/><w:szCs w:val="28"/>`
+    ) +
+    paragraphStyle(
+      "Heading3",
+      "heading 3",
+      '<w:keepNext/><w:spacing w:before="200" w:after="80"/><w:outlineLvl w:val="2"/>',
+      '<w:b/><w:sz w:val="22"/><w:szCs w:val="22"/>'
+    ) +
+    paragraphStyle(
+      "Meta",
+      "Report Metadata",
+      "",
+      `<w:i/><w:color w:val="${MUTED_COLOR}"/><w:sz w:val="18"/><w:szCs w:val="18"/>`
+    ) +
+    paragraphStyle(
+      "Note",
+      "Rating Note",
+      '<w:shd w:val="clear" w:color="auto" w:fill="FFFBEB"/><w:ind w:left="113" w:right="113"/>',
+      '<w:sz w:val="19"/><w:szCs w:val="19"/>'
+    ) +
+    '<w:style w:type="table" w:styleId="ReportTable"><w:name w:val="Report Table"/><w:uiPriority w:val="59"/>' +
+    '<w:pPr><w:spacing w:after="0"/></w:pPr>' +
+    "<w:tblPr><w:tblBorders>" +
+    ["top", "left", "bottom", "right", "insideH", "insideV"].map(border).join("") +
+    '</w:tblBorders><w:tblCellMar><w:top w:w="57" w:type="dxa"/><w:left w:w="85" w:type="dxa"/>' +
+    '<w:bottom w:w="57" w:type="dxa"/><w:right w:w="85" w:type="dxa"/></w:tblCellMar></w:tblPr>' +
+    `<w:tblStylePr w:type="firstRow"><w:rPr><w:b/><w:color w:val="FFFFFF"/></w:rPr>` +
+    `<w:tcPr><w:shd w:val="clear" w:color="auto" w:fill="${PRIMARY_COLOR}"/></w:tcPr></w:tblStylePr>` +
+    '<w:tblStylePr w:type="band1Horz"><w:tcPr><w:shd w:val="clear" w:color="auto" w:fill="F5F5F5"/></w:tcPr></w:tblStylePr>' +
+    "</w:style>" +
+    "</w:styles>"
+  );
+}
+
+// Footer with a caption on the left and a PAGE field on the right
+function footerXml(caption: string): string {
+  return (
+    XML_DECLARATION +
+    `<w:ftr xmlns:w="${W_NAMESPACE}"><w:p><w:pPr><w:pStyle w:val="Meta"/>` +
+    `<w:tabs><w:tab w:val="right" w:pos="${CONTENT_WIDTH_TWIPS}"/></w:tabs></w:pPr>` +
+    `${run(caption)}<w:r><w:tab/><w:t xml:space="preserve">Page </w:t></w:r>` +
+    '<w:fldSimple w:instr=" PAGE "><w:r><w:t>1</w:t></w:r></w:fldSimple></w:p></w:ftr>'
+  );
+}
+
+/**
+ * Document-level options
+ */
+export interface DocxOptions {
+  title: string;
+  footer: string;
+  createdAt?: Date;
+}
+
+/**
+ * Build a DOCX file from body fragments (paragraphs, headings and tables)
+ * The first page is the cover: it has no footer, and page numbering starts after it.
+ */
+export async function createDocx(body: string[], options: DocxOptions): Promise<Blob> {
+  const zip = new JSZip();
+  const created = (options.createdAt ?? new Date()).toISOString().replace(/\.\d+Z$/, "Z");
+
+  zip.file(
+    "[Content_Types].xml",
+    XML_DECLARATION +
+      '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+      '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+      '<Default Extension="xml" ContentType="application/xml"/>' +
+      '<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>' +
+      '<Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>' +
+      '<Override PartName="/word/footer1.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.footer+xml"/>' +
+      '<Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/>' +
+      "</Types>"
+  );
+
+  zip.file(
+    "_rels/.rels",
+    XML_DECLARATION +
+      '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+      '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>' +
+      '<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties" Target="docProps/core.xml"/>' +
+      "</Relationships>"
+  );
+
+  zip.file(
+    "docProps/core.xml",
+    XML_DECLARATION +
+      '<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" ' +
+      'xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/" ' +
+      'xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">' +
+      `<dc:title>${escapeXml(options.title)}</dc:title>` +
+      "<dc:creator>MITA 3.0 State Self-Assessment Tool</dc:creator>" +
+      `<dcterms:created xsi:type="dcterms:W3CDTF">${created}</dcterms:created>` +
+      "</cp:coreProperties>"
+  );
+
+  zip.file(
+    "word/_rels/document.xml.rels",
+    XML_DECLARATION +
+      '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+      '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>' +
+      '<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/footer" Target="footer1.xml"/>' +
+      "</Relationships>"
+  );
+
+  zip.file("word/styles.xml", stylesXml());
+  zip.file("word/footer1.xml", footerXml(options.footer));
+
+  const sectionProps =
+    '<w:sectPr><w:footerReference w:type="default" r:id="rId2"/>' +
+    `<w:pgSz w:w="${PAGE_WIDTH_TWIPS}" w:h="${PAGE_HEIGHT_TWIPS}"/>` +
+    `<w:pgMar w:top="${PAGE_MARGIN_TWIPS}" w:right="${PAGE_MARGIN_TWIPS}" w:bottom="${PAGE_MARGIN_TWIPS}" ` +
+    `w:left="${PAGE_MARGIN_TWIPS}" w:header="720" w:footer="720" w:gutter="0"/>` +
+    '<w:pgNumType w:start="0"/><w:titlePg/></w:sectPr>';
+
+  zip.file(
+    "word/document.xml",
+    XML_DECLARATION +
+      `<w:document xmlns:w="${W_NAMESPACE}" xmlns:r="${R_NAMESPACE}">` +
+      `<w:body>${body.join("")}${sectionProps}</w:body></w:document>`
+  );
+
+  return zip.generateAsync({
+    type: "blob",
+    compression: "DEFLATE",
+    mimeType: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  });
+}
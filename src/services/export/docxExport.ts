@@ -0,0 +1,262 @@
+/**
+ * Word Export Service for MITA 3.0
+ *
+ * Generates the assessment report as an editable Word document with the same sections as
+ * the PDF report: cover, executive summary, and a section per business area and capability.
+ */
+
+import { getCapabilityByCode } from "../blueprint";
+import { isInReviewStatus } from "../workflow";
+import { describeScoringStrategy } from "../scoring";
+import { getMaturityLevelName } from "./pdfStyles";
+import { bullet, createDocx, heading, labelledParagraph, paragraph, table } from "./docx";
+import {
+  describeExportFilters,
+  formatGap,
+  getAreaGapRows,
+  getAreaScore,
+  getAreaScoreRows,
+  getFinalizedAssessments,
+  getOverallScore,
+  getReportQuestions,
+  getStatusRows,
+  groupFinalizedByArea,
+} from "./reportData";
+import type { AssessmentExport, ExportData, ExportOptions } from "./types";
+
+/**
+ * Generates the assessment report as a DOCX document
+ */
+export async function generateDocxReport(data: ExportData, options: ExportOptions): Promise<Blob> {
+  const stateName = options.stateName ?? "State";
+
+  const body = [
+    ...generateCoverPage(data, stateName),
+    ...generateExecutiveSummary(data),
+    ...Array.from(groupFinalizedByArea(data)).flatMap(([businessArea, assessments]) =>
+      generateBusinessAreaSection(businessArea, assessments, data)
+    ),
+  ];
+
+  return createDocx(body, {
+    title: `${stateName} - MITA 3.0 Maturity Assessment Report`,
+    footer: `${stateName} - MITA 3.0 Maturity Assessment`,
+    createdAt: new Date(data.exportDate),
+  });
+}
+
+/**
+ * Generates the cover page
+ */
+function generateCoverPage(data: ExportData, stateName: string): string[] {
+  const blocks = [
+    paragraph("MITA 3.0 Maturity Assessment Report", { style: "Title" }),
+    paragraph(stateName, { style: "Subtitle", bold: true }),
+    paragraph("State Medicaid Agency Self-Assessment", { style: "Subtitle" }),
+  ];
+  if (data.workspace) {
+    blocks.push(paragraph(`Workspace: ${data.workspace.name}`, { align: "center" }));
+  }
+  const filterDescription = describeExportFilters(data);
+  if (filterDescription) {
+    blocks.push(paragraph(`Filtered: ${filterDescription}`, { align: "center", italic: true }));
+  }
+
+  const overallScore = getOverallScore(data);
+  if (overallScore !== null) {
+    blocks.push(
+      paragraph(`Overall Maturity Score: ${overallScore.toFixed(1)}`, {
+        style: "Subtitle",
+        bold: true,
+      }),
+      paragraph(`Maturity Level: ${getMaturityLevelName(overallScore)}`, { align: "center" }),
+      paragraph(`Scoring Method: ${describeScoringStrategy(data.scoringStrategy)}`, {
+        align: "center",
+      })
+    );
+  } else {
+    blocks.push(paragraph("No finalized assessments", { align: "center", italic: true }));
+  }
+
+  blocks.push(
+    table(
+      ["Finalized", "In Review", "In Progress", "Attachments"],
+      [
+        [
+          getFinalizedAssessments(data).length.toString(),
+          data.data.assessments.filter((a) => isInReviewStatus(a.status)).length.toString(),
+          data.data.assessments
+            .filter((a) => a.status === "in_progress" || a.status === "returned")
+            .length.toString(),
+          data.metadata.totalAttachments.toString(),
+        ],
+      ]
+    )
+  );
+
+  const exportDate = new Date(data.exportDate).toLocaleDateString("en-US", {
+    year: "numeric",
+    month: "long",
+    day: "numeric",
+  });
+  blocks.push(
+    paragraph(`Report Generated: ${exportDate}`, { align: "center" }),
+    paragraph("MITA 3.0 State Self-Assessment Tool", { style: "Meta", align: "center" })
+  );
+
+  return blocks;
+}
+
+/**
+ * Generates the executive summary section
+ */
+function generateExecutiveSummary(data: ExportData): string[] {
+  const blocks = [
+    heading("Executive Summary", 1, true),
+    paragraph(
+      "This report presents the results of the MITA 3.0 maturity self-assessment. " +
+        "Each capability has been evaluated using the Business Capability Model (BCM) " +
+        "with maturity levels ranging from 1 (Initial) to 5 (Optimized). " +
+        `Business area and overall scores combine capability scores using the ` +
+        `${describeScoringStrategy(data.scoringStrategy).toLowerCase()} method.`
+    ),
+  ];
+
+  const areaScores = getAreaScoreRows(data);
+  if (areaScores.length > 0) {
+    blocks.push(
+      heading("Business Area Maturity Scores", 2),
+      table(
+        ["Business Area", "Score", "Capabilities", "Maturity Level"],
+        areaScores.map((row) => [
+          row.businessArea,
+          row.score.toFixed(1),
+          row.capabilities.toString(),
+          row.maturityLevel,
+        ]),
+        [70, 20, 25, 45]
+      )
+    );
+  }
+
+  const areaGaps = getAreaGapRows(data);
+  if (areaGaps.length > 0) {
+    blocks.push(
+      heading("Target Maturity Gaps", 2),
+      table(
+        ["Business Area", "Current", "Target", "Gap"],
+        areaGaps.map(({ businessArea, gap }) => [
+          businessArea,
+          gap.current?.toFixed(1) ?? "-",
+          gap.target?.toFixed(1) ?? "-",
+          formatGap(gap.gap),
+        ]),
+        [70, 25, 25, 25]
+      )
+    );
+  }
+
+  const statusRows = getStatusRows(data);
+  if (statusRows.length > 0) {
+    blocks.push(
+      heading("Review Status", 2),
+      table(
+        ["Status", "Assessments"],
+        statusRows.map(([label, count]) => [label, String(count)]),
+        [70, 30]
+      )
+    );
+  }
+
+  return blocks;
+}
+
+/**
+ * Generates a detailed section for a business area
+ */
+function generateBusinessAreaSection(
+  businessArea: string,
+  assessments: AssessmentExport[],
+  data: ExportData
+): string[] {
+  const blocks = [heading(businessArea, 1, true)];
+
+  const areaScore = getAreaScore(assessments, data);
+  if (areaScore !== null) {
+    blocks.push(
+      labelledParagraph("Business Area Score", `${areaScore.toFixed(1)} / 5.0`),
+      paragraph(
+        `${assessments.length} capability${assessments.length > 1 ? " assessments" : " assessment"}`,
+        { style: "Meta" }
+      )
+    );
+  }
+
+  for (const assessment of assessments) {
+    blocks.push(...generateCapabilitySection(assessment, data));
+  }
+  return blocks;
+}
+
+/**
+ * Generates a section for a single capability
+ */
+function generateCapabilitySection(assessment: AssessmentExport, data: ExportData): string[] {
+  const scoreText = assessment.score !== undefined ? ` (${assessment.score.toFixed(1)})` : "";
+  const blocks = [heading(`${assessment.processName}${scoreText}`, 2)];
+
+  // Review sign-off
+  if (assessment.reviewerName || assessment.reviewedAt) {
+    const reviewedOn = assessment.reviewedAt
+      ? ` on ${new Date(assessment.reviewedAt).toLocaleDateString("en-US")}`
+      : "";
+    blocks.push(
+      paragraph(`Approved by ${assessment.reviewerName ?? "reviewer"}${reviewedOn}`, {
+        style: "Meta",
+      })
+    );
+  }
+
+  // Scoring method that produced the capability score
+  if (assessment.score !== undefined) {
+    blocks.push(
+      paragraph(`Scored by: ${describeScoringStrategy(assessment.scoringStrategy)}`, {
+        style: "Meta",
+      })
+    );
+  }
+
+  // Capability description from BPT
+  const capability = getCapabilityByCode(assessment.capabilityCode, assessment.blueprintVersion);
+  if (capability) {
+    blocks.push(paragraph(capability.bpt.process_details.description));
+  }
+
+  for (const item of getReportQuestions(assessment, data)) {
+    blocks.push(
+      heading(`${item.label}: ${item.category} - ${item.answer}`, 3),
+      paragraph(item.question, { italic: true }),
+      paragraph(item.description, { italic: item.rating.notApplicable })
+    );
+    if (item.target) {
+      blocks.push(labelledParagraph("Target", item.target));
+    }
+    if (item.rating.notes.trim()) {
+      blocks.push(labelledParagraph("Notes", item.rating.notes, "Note"));
+    }
+    if (item.attachments.length > 0) {
+      blocks.push(
+        paragraph("Attachments:", { bold: true }),
+        ...item.attachments.map((attachment) =>
+          bullet(
+            attachment.description
+              ? `${attachment.fileName} - ${attachment.description}`
+              : attachment.fileName
+          )
+        )
+      );
+    }
+  }
+
+  return blocks;
+}
@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest";
+import {
+  decryptExport,
+  encryptExport,
+  isEncryptedExport,
+  parseEncryptedPackage,
+  readEncryptedPackage,
+} from "./encryption";
+
+const PASSPHRASE = "correct horse battery";
+
+describe("export encryption", () => {
+  it("round trips JSON exports", async () => {
+    const json = JSON.stringify({ exportVersion: "1.1", data: { note: "Établir – ✓" } });
+    const text = await encryptExport(json, "json", PASSPHRASE);
+
+    expect(text).not.toContain("exportVersion");
+    const encrypted = parseEncryptedPackage(text);
+    expect(encrypted).toMatchObject({ version: 1, contentType: "json" });
+
+    const decrypted = await decryptExport(encrypted!, PASSPHRASE);
+    expect(decrypted.type).toBe("application/json");
+    expect(await decrypted.text()).toBe(json);
+  });
+
+  it("round trips ZIP exports as bytes", async () => {
+    const bytes = new Uint8Array([0x50, 0x4b, 0x03, 0x04, 0, 255, 128, 7]);
+    const file = new Blob([await encryptExport(new Blob([bytes]), "zip", PASSPHRASE)]);
+
+    expect(await isEncryptedExport(file)).toBe(true);
+    const encrypted = await readEncryptedPackage(file);
+    const decrypted = await decryptExport(encrypted!, PASSPHRASE);
+    expect(decrypted.type).toBe("application/zip");
+    expect(new Uint8Array(await decrypted.arrayBuffer())).toEqual(bytes);
+  });
+
+  it("rejects a wrong passphrase", async () => {
+    const encrypted = parseEncryptedPackage(await encryptExport("{}", "json", PASSPHRASE));
+    await expect(decryptExport(encrypted!, "wrong passphrase")).rejects.toThrow(
+      "Incorrect passphrase, or the encrypted export is damaged"
+    );
+  });
+
+  it("rejects short passphrases", async () => {
+    await expect(encryptExport("{}", "json", "short")).rejects.toThrow(
+      "Passphrase must be at least 8 characters"
+    );
+  });
+
+  it("leaves plain exports alone", async () => {
+    expect(parseEncryptedPackage('{"exportVersion":"1.1"}')).toBeNull();
+    expect(await readEncryptedPackage(new Blob(['{"exportVersion":"1.1"}']))).toBeNull();
+  });
+
+  it("rejects packages with unsupported parameters", async () => {
+    const text = await encryptExport("{}", "json", PASSPHRASE);
+    const tamper = (
+      change: (pkg: {
+        version: number;
+        kdf: Record<string, unknown>;
+        cipher: Record<string, unknown>;
+      }) => void
+    ) => {
+      const pkg = JSON.parse(text);
+      change(pkg);
+      return () => parseEncryptedPackage(JSON.stringify(pkg));
+    };
+
+    expect(tamper((p) => (p.kdf.iterations = 1))).toThrow("iterations must be between");
+    expect(tamper((p) => (p.kdf.iterations = 50_000_000))).toThrow("iterations must be between");
+    expect(tamper((p) => (p.kdf.hash = "SHA-1"))).toThrow("unsupported key derivation");
+    expect(tamper((p) => (p.cipher.name = "AES-CBC"))).toThrow("unsupported cipher");
+    expect(tamper((p) => delete p.cipher.iv)).toThrow("Encrypted export is damaged");
+    expect(tamper((p) => (p.version = 2))).toThrow("Unsupported encrypted export version: 2");
+  });
+});
@@ -0,0 +1,207 @@
+/**
+ * Export encryption
+ *
+ * Wraps JSON and ZIP exports in a passphrase-protected package (see EncryptedPackage) so they
+ * can be emailed between agencies. Uses Web Crypto: PBKDF2 with SHA-256 derives an AES-GCM
+ * key from the passphrase, and GCM's authentication tag rejects a wrong passphrase or a
+ * damaged file. The passphrase cannot be recovered from the package.
+ */
+
+import type { EncryptedPackage } from "./types";
+
+const ENCRYPTED_FORMAT = "mita-ssa-encrypted";
+
+/** Start of every package, since JSON.stringify keeps the format property first */
+const ENCRYPTED_PREFIX = `{"format":"${ENCRYPTED_FORMAT}"`;
+
+/** PBKDF2 iterations for new packages (OWASP recommendation for SHA-256) */
+const PBKDF2_ITERATIONS = 600_000;
+
+/**
+ * Iteration range accepted when reading a package, so a crafted file can neither weaken the
+ * key derivation nor stall the browser
+ */
+const MIN_PBKDF2_ITERATIONS = 100_000;
+const MAX_PBKDF2_ITERATIONS = 10_000_000;
+
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+
+/** File extension for encrypted exports, whatever their content, since a package is JSON text */
+export const ENCRYPTED_EXTENSION = "mita-enc";
+
+/** Shortest passphrase accepted when encrypting */
+export const MIN_PASSPHRASE_LENGTH = 8;
+
+/**
+ * Encrypts an export with a passphrase, returning the package as JSON text
+ */
+export async function encryptExport(
+  content: string | Blob,
+  contentType: EncryptedPackage["contentType"],
+  passphrase: string
+): Promise<string> {
+  if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+    throw new Error(`Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`);
+  }
+
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+  const plaintext =
+    typeof content === "string" ? new TextEncoder().encode(content) : await content.arrayBuffer();
+  const ciphertext = await crypto.subtle.encrypt({ name: "AES-GCM", iv }, key, plaintext);
+
+  const encrypted: EncryptedPackage = {
+    format: ENCRYPTED_FORMAT,
+    version: 1,
+    contentType,
+    kdf: {
+      name: "PBKDF2",
+      hash: "SHA-256",
+      iterations: PBKDF2_ITERATIONS,
+      salt: toBase64(salt),
+    },
+    cipher: { name: "AES-GCM", iv: toBase64(iv) },
+    data: toBase64(new Uint8Array(ciphertext)),
+  };
+  return JSON.stringify(encrypted);
+}
+
+/**
+ * Whether a file is a passphrase-protected export
+ */
+export async function isEncryptedExport(file: Blob): Promise<boolean> {
+  return (await file.slice(0, ENCRYPTED_PREFIX.length).text()) === ENCRYPTED_PREFIX;
+}
+
+/**
+ * Reads a passphrase-protected export, or returns null when the file is not encrypted
+ */
+export async function readEncryptedPackage(file: Blob): Promise<EncryptedPackage | null> {
+  if (!(await isEncryptedExport(file))) return null;
+  return parseEncryptedPackage(await file.text());
+}
+
+/**
+ * Parses a passphrase-protected export from its JSON text, or returns null when the text is
+ * not an encrypted package
+ */
+export function parseEncryptedPackage(text: string): EncryptedPackage | null {
+  if (!text.startsWith(ENCRYPTED_PREFIX)) return null;
+
+  let encrypted: EncryptedPackage;
+  try {
+    encrypted = JSON.parse(text);
+  } catch {
+    throw new Error("Encrypted export is damaged");
+  }
+  if (encrypted.version !== 1) {
+    throw new Error(`Unsupported encrypted export version: ${encrypted.version}`);
+  }
+  validateEncryptedPackage(encrypted);
+  return encrypted;
+}
+
+/**
+ * Checks that a package uses the algorithms and parameters this app writes
+ * Only the format and version are trusted from the file; everything else is checked before use.
+ */
+function validateEncryptedPackage(encrypted: EncryptedPackage): void {
+  const { contentType, kdf, cipher, data } = encrypted;
+  if (contentType !== "json" && contentType !== "zip") {
+    throw new Error("Encrypted export has an unknown content type");
+  }
+  if (kdf?.name !== "PBKDF2" || kdf.hash !== "SHA-256") {
+    throw new Error("Encrypted export uses an unsupported key derivation");
+  }
+  if (
+    !Number.isInteger(kdf.iterations) ||
+    kdf.iterations < MIN_PBKDF2_ITERATIONS ||
+    kdf.iterations > MAX_PBKDF2_ITERATIONS
+  ) {
+    throw new Error(
+      `Encrypted export key derivation iterations must be between ${MIN_PBKDF2_ITERATIONS.toLocaleString()} and ${MAX_PBKDF2_ITERATIONS.toLocaleString()}`
+    );
+  }
+  if (cipher?.name !== "AES-GCM") {
+    throw new Error("Encrypted export uses an unsupported cipher");
+  }
+  if (!isNonEmptyString(kdf.salt) || !isNonEmptyString(cipher.iv) || !isNonEmptyString(data)) {
+    throw new Error("Encrypted export is damaged");
+  }
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === "string" && value.length > 0;
+}
+
+/**
+ * Decrypts a passphrase-protected export
+ */
+export async function decryptExport(
+  encrypted: EncryptedPackage,
+  passphrase: string
+): Promise<Blob> {
+  let plaintext: ArrayBuffer;
+  try {
+    const key = await deriveKey(
+      passphrase,
+      fromBase64(encrypted.kdf.salt),
+      encrypted.kdf.iterations
+    );
+    plaintext = await crypto.subtle.decrypt(
+      { name: "AES-GCM", iv: fromBase64(encrypted.cipher.iv) },
+      key,
+      fromBase64(encrypted.data)
+    );
+  } catch {
+    throw new Error("Incorrect passphrase, or the encrypted export is damaged");
+  }
+
+  return new Blob([plaintext], {
+    type: encrypted.contentType === "zip" ? "application/zip" : "application/json",
+  });
+}
+
+/**
+ * Derives the AES-GCM key for a passphrase
+ */
+async function deriveKey(
+  passphrase: string,
+  salt: Uint8Array<ArrayBuffer>,
+  iterations: number
+): Promise<CryptoKey> {
+  const baseKey = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(passphrase),
+    "PBKDF2",
+    false,
+    ["deriveKey"]
+  );
+  return crypto.subtle.deriveKey(
+    { name: "PBKDF2", hash: "SHA-256", salt, iterations },
+    baseKey,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt", "decrypt"]
+  );
+}
+
+function toBase64(bytes: Uint8Array): string {
+  // Convert in chunks; spreading a large array into fromCharCode overflows the stack
+  let binary = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+function fromBase64(base64: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
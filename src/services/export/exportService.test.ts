@@ -0,0 +1,57 @@
+import "fake-indexeddb/auto";
+import { beforeEach, describe, expect, it } from "vitest";
+import { db } from "../db";
+import { exportAsJson } from "./exportService";
+import type { ExportData, ExportOptions } from "./types";
+
+const CODE = "CM_Establish_Case";
+
+async function exportHistory(filters: Partial<ExportOptions>): Promise<string[]> {
+  const json = await exportAsJson({ scope: "full", format: "json", ...filters });
+  const data: ExportData = JSON.parse(json);
+  return data.data.history.map((h) => h.id).sort();
+}
+
+describe("exportAsJson", () => {
+  beforeEach(async () => {
+    await Promise.all(db.tables.map((table) => table.clear()));
+    await db.capabilityAssessments.add({
+      id: "current",
+      capabilityCode: CODE,
+      businessArea: "Care Management",
+      processName: "Establish Case",
+      status: "in_progress",
+      tags: ["#fy2026", "#fy2025"],
+      blueprintVersion: "3.0",
+      createdAt: new Date("2026-01-01"),
+      updatedAt: new Date("2026-06-01"),
+    });
+    for (const [id, tag] of [
+      ["fy2025", "#fy2025"],
+      ["fy2026", "#fy2026"],
+    ]) {
+      await db.assessmentHistory.add({
+        id,
+        capabilityCode: CODE,
+        snapshotDate: new Date("2026-01-01"),
+        tags: [tag],
+        score: 3,
+        ratings: [],
+        blueprintVersion: "3.0",
+      });
+    }
+  });
+
+  it("limits history to snapshots with a filtered tag", async () => {
+    expect(await exportHistory({ tags: ["#fy2026"] })).toEqual(["fy2026"]);
+    expect(await exportHistory({})).toEqual(["fy2025", "fy2026"]);
+  });
+
+  it("leaves out history when finalized assessments are filtered out", async () => {
+    expect(await exportHistory({ statuses: ["in_progress"] })).toEqual([]);
+    expect(await exportHistory({ statuses: ["in_progress", "finalized"] })).toEqual([
+      "fy2025",
+      "fy2026",
+    ]);
+  });
+});
@@ -2,32 +2,38 @@
  * Export Service for MITA 3.0
  *
  * Core service for exporting assessment data in various formats.
- * Supports JSON, ZIP (with attachments), and PDF exports.
+ * Supports JSON, ZIP (with attachments), PDF and Word reports, and CSV/XLSX ratings matrix exports.
  */
 
 import JSZip from "jszip";
 
 import { db } from "../db";
-import { getCapabilityByCode } from "../blueprint";
+import { getBlueprintVersion, getCapabilityByCode } from "../blueprint";
+import { getScoringStrategy } from "../settings";
+import { getActiveWorkspace } from "../workspaces";
+import { getQuestionLabel, getQuestionNumber } from "../customQuestions";
 import type {
   ExportOptions,
   ExportData,
+  ExportManifest,
   AttachmentMetadata,
   RatingExport,
   AssessmentExport,
+  AssessmentCycleExport,
+  CustomQuestionExport,
+  RatingAuditExport,
   ExportProgressCallback,
 } from "./types";
 import { generatePdfReport } from "./pdfExport";
-
-/** Current export format version */
-const EXPORT_VERSION = "1.0";
+import { generateDocxReport } from "./docxExport";
+import { generateRatingsCsv, generateRatingsXlsx } from "./spreadsheetExport";
+import { computeZipChecksums } from "./integrity";
+import { encryptExport } from "./encryption";
+import { CURRENT_EXPORT_VERSION } from "./migrations";
 
 /** App version */
 const APP_VERSION = "3.0";
 
-/** Blueprint version */
-const BLUEPRINT_VERSION = "3.0";
-
 /**
  * Generates a unique filename for an attachment in the ZIP export.
  */
@@ -59,13 +65,22 @@ export function extractAttachmentIdFromFileName(uniqueFileName: string): string
 
 /**
  * Collects all data for export based on scope
+ * The cycle, tag, status and date filters narrow the scope further and combine with each other.
+ * They apply to history snapshots as well, which count as finalized.
  */
 async function collectExportData(options: ExportOptions): Promise<ExportData> {
-  const { scope, businessArea, capabilityCode } = options;
+  const { scope, businessArea, capabilityCode, cycleId, tags: tagFilter, statuses } = options;
+  const { updatedSince, updatedBefore } = options;
 
   let assessments = await db.capabilityAssessments.toArray();
   let scopeDetails: ExportData["scopeDetails"];
 
+  // Filter by assessment cycle
+  const cycle = cycleId ? await db.assessmentCycles.get(cycleId) : undefined;
+  if (cycleId) {
+    assessments = assessments.filter((a) => a.cycleId === cycleId);
+  }
+
   // Filter by scope
   if (scope === "capability" && capabilityCode) {
     assessments = assessments.filter((a) => a.capabilityCode === capabilityCode);
@@ -80,6 +95,23 @@ async function collectExportData(options: ExportOptions): Promise<ExportData> {
     scopeDetails = { businessArea };
   }
 
+  if (cycle) {
+    scopeDetails = { ...scopeDetails, cycleId: cycle.id, cycleName: cycle.name };
+  }
+
+  // Filter by tag, status and date changed
+  const filters = getExportFilters(options);
+  if (tagFilter && tagFilter.length > 0) {
+    assessments = assessments.filter((a) => a.tags.some((tag) => tagFilter.includes(tag)));
+  }
+  if (statuses && statuses.length > 0) {
+    assessments = assessments.filter((a) => statuses.includes(a.status));
+  }
+  assessments = assessments.filter((a) => isChangedInRange(a.updatedAt, options));
+  if (filters) {
+    scopeDetails = { ...scopeDetails, filters };
+  }
+
   // Get ratings for these assessments
   const assessmentIds = assessments.map((a) => a.id);
   const ratings =
@@ -89,10 +121,57 @@ async function collectExportData(options: ExportOptions): Promise<ExportData> {
 
   // Get history
   const capabilityCodes = assessments.map((a) => a.capabilityCode);
-  const history =
+  let history =
     capabilityCodes.length > 0
       ? await db.assessmentHistory.where("capabilityCode").anyOf(capabilityCodes).toArray()
       : [];
+  if (cycleId) {
+    history = history.filter((h) => h.cycleId === cycleId);
+  }
+  if (tagFilter && tagFilter.length > 0) {
+    history = history.filter((h) => h.tags.some((tag) => tagFilter.includes(tag)));
+  }
+  // Snapshots are finalized results
+  if (statuses && statuses.length > 0 && !statuses.includes("finalized")) {
+    history = [];
+  }
+  if (updatedSince || updatedBefore) {
+    history = history.filter((h) => isChangedInRange(h.snapshotDate, options));
+  }
+
+  // Get cycles referenced by the exported assessments and history
+  const cycleIds = new Set(
+    [...assessments, ...history].map((a) => a.cycleId).filter((id): id is string => !!id)
+  );
+  const cyclesRaw = cycleIds.size > 0 ? await db.assessmentCycles.bulkGet([...cycleIds]) : [];
+  const cycles: AssessmentCycleExport[] = cyclesRaw
+    .filter((c): c is NonNullable<typeof c> => !!c)
+    .map((c) => ({
+      id: c.id,
+      name: c.name,
+      startDate: c.startDate.toISOString(),
+      endDate: c.endDate.toISOString(),
+      capabilityCodes: c.capabilityCodes,
+      createdAt: c.createdAt.toISOString(),
+      updatedAt: c.updatedAt.toISOString(),
+    }));
+
+  // Get custom questions for the exported capabilities
+  const customQuestionsRaw =
+    capabilityCodes.length > 0
+      ? await db.customQuestions.where("capabilityCode").anyOf(capabilityCodes).toArray()
+      : [];
+  const customQuestions: CustomQuestionExport[] = customQuestionsRaw.map((q) => ({
+    id: q.id,
+    capabilityCode: q.capabilityCode,
+    questionIndex: q.questionIndex,
+    category: q.category,
+    question: q.question,
+    levels: q.levels,
+    includeInScoring: q.includeInScoring,
+    createdAt: q.createdAt.toISOString(),
+    updatedAt: q.updatedAt.toISOString(),
+  }));
 
   // Get all tags
   const tags = await db.tags.toArray();
@@ -127,6 +206,12 @@ async function collectExportData(options: ExportOptions): Promise<ExportData> {
     updatedAt: a.updatedAt.toISOString(),
     finalizedAt: a.finalizedAt?.toISOString(),
     score: a.score,
+    scoringStrategy: a.scoringStrategy,
+    cycleId: a.cycleId,
+    submittedAt: a.submittedAt?.toISOString(),
+    reviewedAt: a.reviewedAt?.toISOString(),
+    reviewerName: a.reviewerName,
+    reviewComments: a.reviewComments,
   }));
 
   // Convert ratings to export format
@@ -136,6 +221,10 @@ async function collectExportData(options: ExportOptions): Promise<ExportData> {
     questionIndex: r.questionIndex,
     level: r.level,
     previousLevel: r.previousLevel,
+    targetLevel: r.targetLevel,
+    targetDate: r.targetDate?.toISOString(),
+    notApplicable: r.notApplicable,
+    notApplicableReason: r.notApplicableReason,
     notes: r.notes,
     carriedForward: r.carriedForward,
     attachmentIds: r.attachmentIds || [],
@@ -145,12 +234,16 @@ async function collectExportData(options: ExportOptions): Promise<ExportData> {
   // Get unique business areas
   const businessAreas = [...new Set(assessments.map((a) => a.businessArea))];
 
+  const workspace = await getActiveWorkspace();
+
   return {
-    exportVersion: EXPORT_VERSION,
+    exportVersion: CURRENT_EXPORT_VERSION,
     exportDate: new Date().toISOString(),
     appVersion: APP_VERSION,
-    blueprintVersion: BLUEPRINT_VERSION,
+    blueprintVersion: getBlueprintVersion(),
     scope,
+    scoringStrategy: await getScoringStrategy(),
+    workspace: { id: workspace.id, name: workspace.name },
     scopeDetails,
     data: {
       assessments: assessmentsExport,
@@ -158,6 +251,8 @@ async function collectExportData(options: ExportOptions): Promise<ExportData> {
       history,
       tags,
       attachments,
+      cycles,
+      customQuestions,
     },
     metadata: {
       totalAssessments: assessments.length,
@@ -171,15 +266,71 @@ async function collectExportData(options: ExportOptions): Promise<ExportData> {
 }
 
 /**
- * Exports data as JSON string
+ * Tag, status and date filters set in the options, as recorded in the export
+ */
+function getExportFilters(
+  options: ExportOptions
+): NonNullable<ExportData["scopeDetails"]>["filters"] {
+  const filters = {
+    tags: options.tags && options.tags.length > 0 ? options.tags : undefined,
+    statuses: options.statuses && options.statuses.length > 0 ? options.statuses : undefined,
+    updatedSince: options.updatedSince?.toISOString(),
+    updatedBefore: options.updatedBefore?.toISOString(),
+  };
+  return Object.values(filters).some((value) => value !== undefined) ? filters : undefined;
+}
+
+/**
+ * Whether a change date falls within the options' date range
+ */
+function isChangedInRange(date: Date, options: ExportOptions): boolean {
+  if (options.updatedSince && date < options.updatedSince) return false;
+  if (options.updatedBefore && date >= options.updatedBefore) return false;
+  return true;
+}
+
+/**
+ * Collects the rating audit log for the exported assessments, oldest first
+ */
+async function collectAuditLog(exportData: ExportData): Promise<RatingAuditExport[]> {
+  const assessmentsById = new Map(exportData.data.assessments.map((a) => [a.id, a]));
+  if (assessmentsById.size === 0) return [];
+
+  const entries = await db.ratingAudit
+    .where("capabilityAssessmentId")
+    .anyOf([...assessmentsById.keys()])
+    .sortBy("changedAt");
+
+  return entries.map((e) => {
+    const assessment = assessmentsById.get(e.capabilityAssessmentId);
+    return {
+      id: e.id,
+      capabilityCode: assessment?.capabilityCode ?? "",
+      processName: assessment?.processName ?? "",
+      capabilityAssessmentId: e.capabilityAssessmentId,
+      ratingId: e.ratingId,
+      questionNumber: getQuestionNumber(e.questionIndex),
+      questionLabel: getQuestionLabel(e.questionIndex),
+      action: e.action,
+      previousValue: e.previousValue,
+      newValue: e.newValue,
+      changedBy: e.changedBy,
+      changedAt: e.changedAt.toISOString(),
+    };
+  });
+}
+
+/**
+ * Exports data as JSON string, encrypted when a passphrase is given
  */
 export async function exportAsJson(options: ExportOptions): Promise<string> {
   const data = await collectExportData(options);
-  return JSON.stringify(data, null, 2);
+  const json = JSON.stringify(data, null, 2);
+  return options.passphrase ? await encryptExport(json, "json", options.passphrase) : json;
 }
 
 /**
- * Exports data as a ZIP file containing JSON and attachments
+ * Exports data as a ZIP file containing JSON and attachments, encrypted when a passphrase is given
  */
 export async function exportAsZip(
   options: ExportOptions,
@@ -222,20 +373,30 @@ export async function exportAsZip(
     }
   }
 
+  // Add audit log appendix if requested
+  if (options.includeAuditLog) {
+    onProgress?.(70, "Adding audit log...");
+    const auditLog = await collectAuditLog(exportData);
+    zip.file("audit-log.json", JSON.stringify(auditLog, null, 2));
+  }
+
   onProgress?.(80, "Creating manifest...");
 
-  // Add manifest
-  const manifest = {
-    exportVersion: EXPORT_VERSION,
+  // Add manifest, with checksums of everything added above
+  const manifest: ExportManifest = {
+    exportVersion: CURRENT_EXPORT_VERSION,
     exportDate: exportData.exportDate,
     appVersion: APP_VERSION,
-    blueprintVersion: BLUEPRINT_VERSION,
+    blueprintVersion: getBlueprintVersion(),
     scope: options.scope,
+    workspace: exportData.workspace,
     contents: {
       dataJson: true,
       attachments: options.includeAttachments !== false,
+      auditLog: options.includeAuditLog === true,
     },
     stats: exportData.metadata,
+    checksums: await computeZipChecksums(zip),
   };
   zip.file("manifest.json", JSON.stringify(manifest, null, 2));
 
@@ -246,6 +407,13 @@ export async function exportAsZip(
     compression: "DEFLATE",
   });
 
+  if (options.passphrase) {
+    onProgress?.(95, "Encrypting...");
+    const encrypted = await encryptExport(blob, "zip", options.passphrase);
+    onProgress?.(100, "Complete");
+    return new Blob([encrypted], { type: "application/json" });
+  }
+
   onProgress?.(100, "Complete");
 
   return blob;
@@ -261,8 +429,63 @@ export async function exportAsPdf(
   onProgress?.(10, "Collecting data...");
   const exportData = await collectExportData(options);
 
+  // Attachment files for the evidence appendix, by attachment ID
+  let evidence: Map<string, Blob> | undefined;
+  if (options.includeEvidenceAppendix) {
+    onProgress?.(30, "Collecting evidence...");
+    const attachmentIds = exportData.data.attachments.map((a) => a.id);
+    const attachments = await db.attachments.bulkGet(attachmentIds);
+    evidence = new Map(
+      attachments
+        .filter((a): a is NonNullable<typeof a> => !!a)
+        .map((attachment) => [attachment.id, attachment.blob])
+    );
+  }
+
   onProgress?.(50, "Generating PDF...");
-  const blob = await generatePdfReport(exportData, options);
+  const blob = await generatePdfReport(exportData, options, evidence);
+
+  onProgress?.(100, "Complete");
+  return blob;
+}
+
+/**
+ * Exports data as an editable Word (DOCX) report with the same sections as the PDF
+ */
+export async function exportAsDocx(
+  options: ExportOptions,
+  onProgress?: ExportProgressCallback
+): Promise<Blob> {
+  onProgress?.(10, "Collecting data...");
+  const exportData = await collectExportData(options);
+
+  onProgress?.(50, "Generating Word document...");
+  const blob = await generateDocxReport(exportData, options);
+
+  onProgress?.(100, "Complete");
+  return blob;
+}
+
+/**
+ * Exports the ratings matrix (one row per capability question) as CSV
+ */
+export async function exportAsCsv(options: ExportOptions): Promise<string> {
+  const data = await collectExportData(options);
+  return generateRatingsCsv(data);
+}
+
+/**
+ * Exports the ratings matrix as an XLSX workbook with one worksheet per business area
+ */
+export async function exportAsXlsx(
+  options: ExportOptions,
+  onProgress?: ExportProgressCallback
+): Promise<Blob> {
+  onProgress?.(10, "Collecting data...");
+  const data = await collectExportData(options);
+
+  onProgress?.(50, "Generating workbook...");
+  const blob = await generateRatingsXlsx(data);
 
   onProgress?.(100, "Complete");
   return blob;
@@ -0,0 +1,105 @@
+import "fake-indexeddb/auto";
+import { beforeEach, describe, expect, it } from "vitest";
+import { db } from "../db";
+import { applyImport } from "./importService";
+import { CURRENT_EXPORT_VERSION } from "./migrations";
+import type { CapabilityAssessment } from "../../types";
+import type { ExportData, ImportPreview } from "./types";
+
+const CODE = "CM_Establish_Case";
+
+function localAssessment(
+  id: string,
+  status: CapabilityAssessment["status"],
+  cycleId: string
+): CapabilityAssessment {
+  return {
+    id,
+    capabilityCode: CODE,
+    businessArea: "Care Management",
+    processName: "Establish Case",
+    status,
+    tags: [],
+    blueprintVersion: "3.0",
+    createdAt: new Date("2026-01-01"),
+    updatedAt: new Date("2026-03-01"),
+    finalizedAt: status === "finalized" ? new Date("2026-02-01") : undefined,
+    score: status === "finalized" ? 2 : undefined,
+    cycleId,
+  };
+}
+
+/** A backup holding one finalized assessment in the given cycle, newer than the local ones */
+function preview(cycleId: string): ImportPreview {
+  const data: ExportData = {
+    exportVersion: CURRENT_EXPORT_VERSION,
+    exportDate: "2026-06-01T00:00:00.000Z",
+    appVersion: "2.0.0",
+    blueprintVersion: "3.0",
+    scope: "full",
+    data: {
+      assessments: [
+        {
+          id: "incoming",
+          capabilityCode: CODE,
+          businessArea: "Care Management",
+          processName: "Establish Case",
+          status: "finalized",
+          tags: [],
+          blueprintVersion: "3.0",
+          createdAt: "2026-01-01T00:00:00.000Z",
+          updatedAt: "2026-05-01T00:00:00.000Z",
+          finalizedAt: "2026-05-01T00:00:00.000Z",
+          score: 4,
+          cycleId,
+        },
+      ],
+      ratings: [],
+      history: [],
+      tags: [],
+      attachments: [],
+      cycles: [],
+      customQuestions: [],
+    },
+    metadata: {
+      totalAssessments: 1,
+      totalRatings: 0,
+      totalHistory: 0,
+      totalAttachments: 0,
+      businessAreas: ["Care Management"],
+      capabilities: [CODE],
+    },
+  };
+  return { fileName: "backup.json", data, items: [] };
+}
+
+describe("applyImport", () => {
+  beforeEach(async () => {
+    await Promise.all(db.tables.map((table) => table.clear()));
+    await db.capabilityAssessments.bulkAdd([
+      localAssessment("open", "in_progress", "cycle-fy26"),
+      localAssessment("finalized", "finalized", "cycle-fy26"),
+    ]);
+  });
+
+  it("retires the local finalized assessment of the cycle a finalized import replaces", async () => {
+    const result = await applyImport(preview("cycle-fy26"), { incoming: "take_incoming" }, {});
+
+    expect(result.success).toBe(true);
+    const finalized = await db.capabilityAssessments
+      .filter((a) => a.status === "finalized")
+      .toArray();
+    expect(finalized).toEqual([expect.objectContaining({ score: 4, cycleId: "cycle-fy26" })]);
+    expect((await db.trash.toArray()).map((item) => item.id).sort()).toEqual(["finalized", "open"]);
+    expect(await db.assessmentHistory.toArray()).toEqual([
+      expect.objectContaining({ score: 2, cycleId: "cycle-fy26" }),
+    ]);
+  });
+
+  it("keeps the finalized assessment of another cycle", async () => {
+    await applyImport(preview("cycle-fy27"), { incoming: "take_incoming" }, {});
+
+    expect(await db.capabilityAssessments.get("finalized")).toBeDefined();
+    expect((await db.trash.toArray()).map((item) => item.id)).toEqual(["open"]);
+  });
+});
@@ -5,23 +5,54 @@
  * Uses "Merge with History" strategy:
  * - Newer imports become current, existing moves to history
  * - Older imports are added to history, existing stays current
+ * Each capability can instead keep the local assessment, take the incoming one, or merge the
+ * two question by question into an editable local assessment.
+ * Custom questions travel with the data and are merged before the assessments.
  */
 
 import JSZip from "jszip";
 import { v4 as uuidv4 } from "uuid";
 
 import { db } from "../db";
+import { isRatingAnswered, toHistoricalRatings } from "../scoring";
+import { CUSTOM_QUESTION_INDEX_OFFSET, getQuestionLabel } from "../customQuestions";
+import { isEditableStatus, isOpenStatus } from "../workflow";
+import { moveAssessmentToTrash } from "../trash";
+import { retireFinalizedAssessment } from "../assessments";
+import { recordRatingChanges } from "../auditLog";
 import { extractAttachmentIdFromFileName } from "./exportService";
-import type { ExportData, ImportResult, ImportItemResult, ImportProgressCallback } from "./types";
+import { describeIntegrityProblems, verifyZipIntegrity } from "./integrity";
+import { decryptExport, parseEncryptedPackage, readEncryptedPackage } from "./encryption";
+import { migrateExportData, migrateLegacyExport } from "./migrations";
+import { readLegacyData } from "../legacyMigration";
+import type {
+  EncryptedPackage,
+  ExportData,
+  ExportMigrationReport,
+  ImportResult,
+  IntegrityReport,
+  ImportItemResult,
+  ImportPreview,
+  ImportPreviewItem,
+  ImportProgressCallback,
+  ImportResolution,
+  RatingMergeConflict,
+  RatingMergeSide,
+} from "./types";
 import type {
   CapabilityAssessment,
   Rating,
   AssessmentHistory,
   HistoricalRating,
   Attachment,
+  CustomQuestion,
 } from "../../types";
 
-const SUPPORTED_VERSIONS = ["1.0"];
+/** Updates closer together than this are treated as the same save */
+const TIMESTAMP_TOLERANCE_MS = 1000;
+
+type ImportedAssessment = ExportData["data"]["assessments"][0];
+type ImportedRating = ExportData["data"]["ratings"][0];
 
 /**
  * Validates export data structure
@@ -50,14 +81,7 @@ function createHistorySnapshot(
   ratings: Rating[],
   score: number
 ): AssessmentHistory {
-  const historicalRatings: HistoricalRating[] = ratings
-    .filter((r) => r.level !== null)
-    .map((r) => ({
-      questionIndex: r.questionIndex,
-      level: r.level as 1 | 2 | 3 | 4 | 5,
-      notes: r.notes,
-      attachmentIds: r.attachmentIds || [],
-    }));
+  const historicalRatings = toHistoricalRatings(ratings);
 
   return {
     id: uuidv4(),
@@ -65,237 +89,777 @@ function createHistorySnapshot(
     snapshotDate: assessment.finalizedAt ?? assessment.updatedAt,
     tags: [...assessment.tags],
     score,
+    scoringStrategy: assessment.scoringStrategy,
     ratings: historicalRatings,
     blueprintVersion: assessment.blueprintVersion,
+    cycleId: assessment.cycleId,
   };
 }
 
 /**
- * Imports data from a JSON string
+ * Converts the review workflow fields of an imported assessment back to Dates
  */
-export async function importFromJson(
-  jsonString: string,
-  onProgress?: ImportProgressCallback
-): Promise<ImportResult> {
-  onProgress?.(10, "Parsing JSON...");
+function getReviewFields(
+  importedAssessment: ImportedAssessment
+): Pick<CapabilityAssessment, "submittedAt" | "reviewedAt" | "reviewerName" | "reviewComments"> {
+  return {
+    submittedAt: importedAssessment.submittedAt
+      ? new Date(importedAssessment.submittedAt)
+      : undefined,
+    reviewedAt: importedAssessment.reviewedAt ? new Date(importedAssessment.reviewedAt) : undefined,
+    reviewerName: importedAssessment.reviewerName,
+    reviewComments: importedAssessment.reviewComments,
+  };
+}
+
+/**
+ * Result for an import that failed before anything was written
+ */
+function failedImport(error: string): ImportResult {
+  return {
+    success: false,
+    importedAsCurrent: 0,
+    importedAsHistory: 0,
+    skipped: 0,
+    attachmentsRestored: 0,
+    errors: [error],
+    details: [],
+  };
+}
 
+/** Export data upgraded to the current format, with what was upgraded */
+type ParsedExport = { data: ExportData; migration?: ExportMigrationReport };
+
+/**
+ * Parses and validates export JSON, upgrading older formats, throwing with a message for the
+ * user
+ */
+function parseExportData(jsonString: string, invalidJsonMessage: string): ParsedExport {
   let data: unknown;
   try {
     data = JSON.parse(jsonString);
   } catch {
-    return {
-      success: false,
-      importedAsCurrent: 0,
-      importedAsHistory: 0,
-      skipped: 0,
-      attachmentsRestored: 0,
-      errors: ["Invalid JSON format"],
-      details: [],
-    };
+    throw new Error(invalidJsonMessage);
+  }
+
+  // Data files from the v1.0 app predate the export format
+  const legacy = readLegacyData(data);
+  if (legacy) {
+    return migrateLegacyExport(legacy);
   }
 
   if (!validateExportData(data)) {
-    return {
-      success: false,
-      importedAsCurrent: 0,
-      importedAsHistory: 0,
-      skipped: 0,
-      attachmentsRestored: 0,
-      errors: ["Invalid export data structure"],
-      details: [],
-    };
+    throw new Error("Invalid export data structure");
   }
 
-  if (!SUPPORTED_VERSIONS.includes(data.exportVersion)) {
-    return {
-      success: false,
-      importedAsCurrent: 0,
-      importedAsHistory: 0,
-      skipped: 0,
-      attachmentsRestored: 0,
-      errors: [`Unsupported export version: ${data.exportVersion}`],
-      details: [],
-    };
+  return migrateExportData(data);
+}
+
+/**
+ * Opens a ZIP backup and parses its data.json
+ */
+async function readZipExport(zipBlob: Blob): Promise<ParsedExport & { zip: JSZip }> {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(zipBlob);
+  } catch {
+    throw new Error("Invalid ZIP file");
+  }
+
+  const dataFile = zip.file("data.json");
+  if (!dataFile) {
+    throw new Error("ZIP file missing data.json");
+  }
+
+  const jsonString = await dataFile.async("string");
+  return { ...parseExportData(jsonString, "Invalid JSON in data.json"), zip };
+}
+
+/**
+ * Result for a ZIP that failed its integrity check, listing every problem found
+ */
+function failedIntegrityImport(report: IntegrityReport): ImportResult {
+  const result = failedImport(
+    "Integrity check failed: the backup was altered or corrupted after export"
+  );
+  result.errors.push(...describeIntegrityProblems(report));
+  return result;
+}
+
+/**
+ * Decrypts a passphrase-protected export, asking for the passphrase when none was given
+ */
+async function decryptPackage(
+  encrypted: EncryptedPackage,
+  passphrase: string | undefined
+): Promise<Blob> {
+  if (!passphrase) {
+    throw new Error("This export is encrypted. Enter its passphrase to import it.");
+  }
+  return await decryptExport(encrypted, passphrase);
+}
+
+/**
+ * Imports data from a JSON string
+ * Encrypted exports (JSON or ZIP) are detected and decrypted with the passphrase.
+ */
+export async function importFromJson(
+  jsonString: string,
+  onProgress?: ImportProgressCallback,
+  passphrase?: string
+): Promise<ImportResult> {
+  try {
+    const encrypted = parseEncryptedPackage(jsonString);
+    if (encrypted) {
+      onProgress?.(5, "Decrypting...");
+      const content = await decryptPackage(encrypted, passphrase);
+      if (encrypted.contentType === "zip") {
+        return await importFromZip(content, onProgress);
+      }
+      jsonString = await content.text();
+    }
+  } catch (error) {
+    return failedImport(error instanceof Error ? error.message : String(error));
+  }
+
+  onProgress?.(10, "Parsing JSON...");
+
+  let parsed: ParsedExport;
+  try {
+    parsed = parseExportData(jsonString, "Invalid JSON format");
+  } catch (error) {
+    return failedImport(error instanceof Error ? error.message : String(error));
   }
 
   onProgress?.(30, "Processing assessments...");
 
-  return await processImport(data, onProgress);
+  const result = await processImport(parsed.data, onProgress);
+  result.migration = parsed.migration;
+  return result;
 }
 
 /**
  * Imports data from a ZIP file
+ * Encrypted exports (JSON or ZIP) are detected and decrypted with the passphrase.
  */
 export async function importFromZip(
   zipBlob: Blob,
+  onProgress?: ImportProgressCallback,
+  passphrase?: string
+): Promise<ImportResult> {
+  let parsed: ParsedExport & { zip: JSZip };
+  try {
+    const encrypted = await readEncryptedPackage(zipBlob);
+    if (encrypted) {
+      onProgress?.(5, "Decrypting...");
+      const content = await decryptPackage(encrypted, passphrase);
+      if (encrypted.contentType === "json") {
+        return await importFromJson(await content.text(), onProgress);
+      }
+      zipBlob = content;
+    }
+
+    onProgress?.(10, "Reading ZIP file...");
+    parsed = await readZipExport(zipBlob);
+  } catch (error) {
+    return failedImport(error instanceof Error ? error.message : String(error));
+  }
+
+  onProgress?.(25, "Verifying checksums...");
+
+  const integrity = await verifyZipIntegrity(parsed.zip);
+  if (integrity.status === "failed") {
+    return failedIntegrityImport(integrity);
+  }
+
+  onProgress?.(40, "Processing assessments...");
+
+  const importedAsCurrent = new Set<string>();
+  const result = await processImport(
+    parsed.data,
+    (p, m) => {
+      onProgress?.(40 + p * 0.3, m);
+    },
+    {},
+    importedAsCurrent
+  );
+
+  result.migration = parsed.migration;
+
+  onProgress?.(70, "Importing attachments...");
+  result.attachmentsRestored = await importAttachments(parsed.zip, parsed.data, importedAsCurrent);
+
+  onProgress?.(100, "Complete");
+
+  return result;
+}
+
+/**
+ * Reads a backup file and works out, per capability, what importing it would do
+ * Nothing is written; pass the preview and the chosen resolutions to applyImport. Encrypted
+ * exports need their passphrase.
+ */
+export async function previewImport(file: File, passphrase?: string): Promise<ImportPreview> {
+  let content: Blob = file;
+  let isZip = file.name.endsWith(".zip");
+
+  const encrypted = await readEncryptedPackage(file);
+  if (encrypted) {
+    content = await decryptPackage(encrypted, passphrase);
+    isZip = encrypted.contentType === "zip";
+  }
+
+  const parsed: ParsedExport & { zip?: JSZip } = isZip
+    ? await readZipExport(content)
+    : parseExportData(await content.text(), "Invalid JSON format");
+
+  const items: ImportPreviewItem[] = [];
+  for (const imported of parsed.data.data.assessments) {
+    const existing = await findLocalAssessment(imported.capabilityCode);
+    const resolution = suggestResolution(existing, imported);
+
+    let conflicts: RatingMergeConflict[] = [];
+    if (existing && resolution.allowed.includes("merge")) {
+      const localRatings = await db.ratings
+        .where("capabilityAssessmentId")
+        .equals(existing.id)
+        .toArray();
+      conflicts = findMergeConflicts(
+        localRatings,
+        parsed.data.data.ratings.filter((r) => r.capabilityAssessmentId === imported.id)
+      );
+    }
+
+    items.push({
+      importedAssessmentId: imported.id,
+      capabilityCode: imported.capabilityCode,
+      capabilityName: imported.processName,
+      local: existing && {
+        status: existing.status,
+        score: existing.score,
+        updatedAt: existing.updatedAt.toISOString(),
+      },
+      incoming: {
+        status: imported.status,
+        score: imported.score,
+        updatedAt: imported.updatedAt,
+      },
+      ...resolution,
+      conflicts,
+    });
+  }
+
+  return {
+    fileName: file.name,
+    data: parsed.data,
+    zip: parsed.zip,
+    migration: parsed.migration,
+    integrity: parsed.zip && (await verifyZipIntegrity(parsed.zip)),
+    items,
+  };
+}
+
+/**
+ * Imports a previewed backup, resolving each capability as chosen
+ * Capabilities without a chosen resolution use the suggested one. Merge conflicts are settled
+ * by mergeChoices (imported assessment ID to question index to side), falling back to the
+ * more recently updated side.
+ */
+export async function applyImport(
+  preview: ImportPreview,
+  resolutions: Record<string, ImportResolution>,
+  mergeChoices: Record<string, Record<number, RatingMergeSide>>,
   onProgress?: ImportProgressCallback
 ): Promise<ImportResult> {
-  onProgress?.(10, "Reading ZIP file...");
+  if (preview.integrity?.status === "failed") {
+    return failedIntegrityImport(preview.integrity);
+  }
 
-  let zip: JSZip;
-  try {
-    zip = await JSZip.loadAsync(zipBlob);
-  } catch {
+  const importedAsCurrent = new Set<string>();
+  const result = await processImport(
+    preview.data,
+    (p, m) => {
+      onProgress?.(p * 0.7, m);
+    },
+    resolutions,
+    importedAsCurrent,
+    mergeChoices
+  );
+  result.migration = preview.migration;
+
+  if (preview.zip) {
+    onProgress?.(70, "Importing attachments...");
+    result.attachmentsRestored = await importAttachments(
+      preview.zip,
+      preview.data,
+      importedAsCurrent
+    );
+  }
+
+  onProgress?.(100, "Complete");
+
+  return result;
+}
+
+/**
+ * Whether an imported assessment matches the local one (same save, same score)
+ */
+function isSameAssessment(existing: CapabilityAssessment, imported: ImportedAssessment): boolean {
+  const timeDiff = Math.abs(new Date(imported.updatedAt).getTime() - existing.updatedAt.getTime());
+  return (
+    timeDiff < TIMESTAMP_TOLERANCE_MS &&
+    imported.score !== undefined &&
+    existing.score !== undefined &&
+    Math.abs(imported.score - existing.score) < 0.01
+  );
+}
+
+/**
+ * The resolutions available for an imported assessment, and the "merge with history" default
+ * Keeping both is only possible when the older of the two is finalized, since it is kept as a
+ * history snapshot. Merging is only possible into a local assessment that is still editable.
+ */
+function suggestResolution(
+  existing: CapabilityAssessment | undefined,
+  imported: ImportedAssessment
+): Pick<ImportPreviewItem, "suggested" | "allowed" | "reason"> {
+  if (!existing) {
     return {
-      success: false,
-      importedAsCurrent: 0,
-      importedAsHistory: 0,
-      skipped: 0,
-      attachmentsRestored: 0,
-      errors: ["Invalid ZIP file"],
-      details: [],
+      suggested: "take_incoming",
+      allowed: ["take_incoming", "keep_local"],
+      reason: "Not yet assessed locally",
     };
   }
 
-  const dataFile = zip.file("data.json");
-  if (!dataFile) {
+  if (isSameAssessment(existing, imported)) {
     return {
-      success: false,
-      importedAsCurrent: 0,
-      importedAsHistory: 0,
-      skipped: 0,
-      attachmentsRestored: 0,
-      errors: ["ZIP file missing data.json"],
-      details: [],
+      suggested: "keep_local",
+      allowed: ["keep_local", "take_incoming"],
+      reason: "Identical to current assessment",
     };
   }
 
-  onProgress?.(20, "Parsing data...");
+  const importedIsNewer = new Date(imported.updatedAt) > existing.updatedAt;
+  const older = importedIsNewer ? existing : imported;
+  const canKeepBoth = older.status === "finalized" && !!older.score;
+  const allowed: ImportResolution[] = canKeepBoth
+    ? ["keep_local", "take_incoming", "keep_both"]
+    : ["keep_local", "take_incoming"];
+  if (isEditableStatus(existing.status)) {
+    allowed.push("merge");
+  }
 
-  const jsonString = await dataFile.async("string");
-  let data: unknown;
-  try {
-    data = JSON.parse(jsonString);
-  } catch {
-    return {
-      success: false,
-      importedAsCurrent: 0,
-      importedAsHistory: 0,
-      skipped: 0,
-      attachmentsRestored: 0,
-      errors: ["Invalid JSON in data.json"],
-      details: [],
-    };
+  if (importedIsNewer) {
+    return canKeepBoth
+      ? { suggested: "keep_both", allowed, reason: "Incoming is newer; local moves to history" }
+      : { suggested: "take_incoming", allowed, reason: "Incoming is newer" };
   }
+  return canKeepBoth
+    ? { suggested: "keep_both", allowed, reason: "Local is newer; incoming is added to history" }
+    : { suggested: "keep_local", allowed, reason: "Local is newer and incoming is not finalized" };
+}
 
-  if (!validateExportData(data)) {
+/**
+ * Whether a rating has a level, a not-applicable answer, or notes
+ */
+function hasAnswer(rating: Pick<Rating, "level" | "notApplicable" | "notes">): boolean {
+  return isRatingAnswered(rating) || rating.notes.trim() !== "";
+}
+
+/**
+ * Whether both copies of a question give the same answer and notes
+ */
+function isSameAnswer(local: Rating, imported: ImportedRating): boolean {
+  return (
+    local.level === imported.level &&
+    !!local.notApplicable === !!imported.notApplicable &&
+    local.notes.trim() === imported.notes.trim()
+  );
+}
+
+/**
+ * Questions answered differently in the local and imported copies of an assessment
+ * A question answered on one side only is not a conflict; the merge takes that answer.
+ */
+function findMergeConflicts(
+  localRatings: Rating[],
+  importedRatings: ImportedRating[]
+): RatingMergeConflict[] {
+  const localByQuestion = new Map(localRatings.map((r) => [r.questionIndex, r]));
+  const conflicts: RatingMergeConflict[] = [];
+
+  for (const imported of importedRatings) {
+    const local = localByQuestion.get(imported.questionIndex);
+    if (!local || !hasAnswer(local) || !hasAnswer(imported) || isSameAnswer(local, imported)) {
+      continue;
+    }
+
+    const importedIsNewer =
+      new Date(imported.updatedAt).getTime() - local.updatedAt.getTime() > TIMESTAMP_TOLERANCE_MS;
+    conflicts.push({
+      questionIndex: imported.questionIndex,
+      questionLabel: getQuestionLabel(imported.questionIndex),
+      local: {
+        level: local.level,
+        notApplicable: local.notApplicable,
+        notes: local.notes,
+        updatedAt: local.updatedAt.toISOString(),
+      },
+      incoming: {
+        level: imported.level,
+        notApplicable: imported.notApplicable,
+        notes: imported.notes,
+        updatedAt: imported.updatedAt,
+      },
+      suggested: importedIsNewer ? "incoming" : "local",
+    });
+  }
+
+  return conflicts.sort((a, b) => a.questionIndex - b.questionIndex);
+}
+
+/**
+ * Merges imported ratings into an editable local assessment, question by question
+ * Questions answered on one side only take that answer; conflicting questions take the side
+ * chosen in choices, or the more recently updated one. Tags are combined. Attachments are
+ * combined by ID when the ZIP attachments are restored.
+ */
+async function mergeAssessment(
+  existingAssessment: CapabilityAssessment,
+  importedAssessment: ImportedAssessment,
+  importedRatings: ImportedRating[],
+  choices: Record<number, RatingMergeSide> = {}
+): Promise<ImportItemResult> {
+  const capabilityCode = importedAssessment.capabilityCode;
+
+  if (!isEditableStatus(existingAssessment.status)) {
     return {
-      success: false,
-      importedAsCurrent: 0,
-      importedAsHistory: 0,
-      skipped: 0,
-      attachmentsRestored: 0,
-      errors: ["Invalid export data structure"],
-      details: [],
+      capabilityCode,
+      capabilityName: importedAssessment.processName,
+      action: "skipped",
+      reason: "Local assessment is no longer editable",
     };
   }
 
-  onProgress?.(40, "Processing assessments...");
+  let questionsTaken = 0;
+
+  await db.transaction("rw", [db.ratings, db.capabilityAssessments, db.ratingAudit], async () => {
+    const localRatings = await db.ratings
+      .where("capabilityAssessmentId")
+      .equals(existingAssessment.id)
+      .toArray();
+    const localByQuestion = new Map(localRatings.map((r) => [r.questionIndex, r]));
+    const conflicts = new Map(
+      findMergeConflicts(localRatings, importedRatings).map((c) => [c.questionIndex, c])
+    );
+    const now = new Date();
+
+    for (const imported of importedRatings) {
+      if (!hasAnswer(imported)) continue;
+
+      const local = localByQuestion.get(imported.questionIndex);
+      if (!local) {
+        const rating = toLocalRating(existingAssessment.id, imported);
+        await db.ratings.add(rating);
+        await recordRatingChanges(rating, undefined, rating, now);
+        questionsTaken++;
+        continue;
+      }
+
+      if (isSameAnswer(local, imported)) continue;
 
-  const result = await processImport(data, (p, m) => {
-    onProgress?.(40 + p * 0.3, m);
+      const conflict = conflicts.get(imported.questionIndex);
+      if (conflict && (choices[imported.questionIndex] ?? conflict.suggested) === "local") {
+        continue;
+      }
+
+      // Take the incoming answer, keeping the local rating (and its attachments)
+      const { level, notApplicable, notApplicableReason, notes, targetLevel, targetDate } =
+        toLocalRating(local.capabilityAssessmentId, imported);
+      const answer = { level, notApplicable, notApplicableReason, notes, targetLevel, targetDate };
+      await db.ratings.update(local.id, {
+        ...answer,
+        carriedForward: imported.carriedForward,
+        updatedAt: new Date(imported.updatedAt),
+      });
+      await recordRatingChanges(local, local, answer, now);
+      questionsTaken++;
+    }
+
+    const importedDate = new Date(importedAssessment.updatedAt);
+    await db.capabilityAssessments.update(existingAssessment.id, {
+      tags: Array.from(new Set([...existingAssessment.tags, ...importedAssessment.tags])),
+      ...(questionsTaken > 0 && importedDate > existingAssessment.updatedAt
+        ? { updatedAt: importedDate }
+        : {}),
+    });
   });
 
-  // Import attachments
-  onProgress?.(70, "Importing attachments...");
+  return {
+    capabilityCode,
+    capabilityName: importedAssessment.processName,
+    action: "imported_current",
+    reason: `Merged into local assessment (${questionsTaken} question${questionsTaken === 1 ? "" : "s"} taken from import)`,
+  };
+}
 
+/**
+ * Restores ZIP attachments for the assessments that were imported as current
+ * Attachments keep their IDs, so one already present locally is not restored twice.
+ */
+async function importAttachments(
+  zip: JSZip,
+  data: ExportData,
+  importedAsCurrent: Set<string>
+): Promise<number> {
   let attachmentsRestored = 0;
   const attachmentsFolder = zip.folder("attachments");
-  if (attachmentsFolder) {
-    const attachmentFiles: { path: string; file: JSZip.JSZipObject }[] = [];
+  if (!attachmentsFolder) return 0;
 
-    attachmentsFolder.forEach((relativePath, file) => {
-      if (!file.dir) {
-        attachmentFiles.push({ path: relativePath, file });
+  const attachmentFiles: { path: string; file: JSZip.JSZipObject }[] = [];
+
+  attachmentsFolder.forEach((relativePath, file) => {
+    if (!file.dir) {
+      attachmentFiles.push({ path: relativePath, file });
+    }
+  });
+
+  for (const { path, file } of attachmentFiles) {
+    try {
+      const fileName = path.split("/").pop() ?? "";
+      const attachmentId = extractAttachmentIdFromFileName(fileName);
+
+      let attachmentMeta = attachmentId
+        ? data.data.attachments.find((a) => a.id === attachmentId)
+        : null;
+
+      if (!attachmentMeta) {
+        attachmentMeta = data.data.attachments.find((a) => a.fileName === fileName);
       }
-    });
 
-    for (const { path, file } of attachmentFiles) {
-      try {
-        const fileName = path.split("/").pop() ?? "";
-        const attachmentId = extractAttachmentIdFromFileName(fileName);
-
-        let attachmentMeta = attachmentId
-          ? data.data.attachments.find((a) => a.id === attachmentId)
-          : null;
-
-        if (!attachmentMeta) {
-          attachmentMeta = data.data.attachments.find((a) => a.fileName === fileName);
-        }
-
-        if (attachmentMeta) {
-          const existing = await db.attachments.get(attachmentMeta.id);
-          if (!existing) {
-            const blob = await file.async("blob");
-
-            // Find the assessment
-            const importedAssessment = data.data.assessments.find(
-              (a) => a.id === attachmentMeta.capabilityAssessmentId
-            );
-
-            if (importedAssessment) {
-              const assessment = await db.capabilityAssessments
-                .where("capabilityCode")
-                .equals(importedAssessment.capabilityCode)
-                .first();
-
-              if (assessment) {
-                // Find the rating
-                const importedRating = data.data.ratings.find(
-                  (r) => r.id === attachmentMeta.ratingId
-                );
-
-                if (importedRating) {
-                  const rating = await db.ratings
-                    .where("[capabilityAssessmentId+questionIndex]")
-                    .equals([assessment.id, importedRating.questionIndex])
-                    .first();
-
-                  if (rating) {
-                    const attachment: Attachment = {
-                      id: uuidv4(),
-                      capabilityAssessmentId: assessment.id,
-                      ratingId: rating.id,
-                      fileName: attachmentMeta.fileName,
-                      fileType: attachmentMeta.fileType,
-                      fileSize: attachmentMeta.fileSize,
-                      blob,
-                      description: attachmentMeta.description,
-                      uploadedAt: new Date(attachmentMeta.uploadedAt),
-                    };
-
-                    await db.attachments.add(attachment);
-
-                    await db.ratings.update(rating.id, {
-                      attachmentIds: [...(rating.attachmentIds || []), attachment.id],
-                    });
-
-                    attachmentsRestored++;
-                  }
-                }
-              }
-            }
-          }
-        }
-      } catch (error) {
-        console.error("Failed to import attachment:", path, error);
+      if (!attachmentMeta || !importedAsCurrent.has(attachmentMeta.capabilityAssessmentId)) {
+        continue;
+      }
+
+      const existing = await db.attachments.get(attachmentMeta.id);
+      if (existing) continue;
+
+      const blob = await file.async("blob");
+
+      // Find the assessment
+      const importedAssessment = data.data.assessments.find(
+        (a) => a.id === attachmentMeta.capabilityAssessmentId
+      );
+      if (!importedAssessment) continue;
+
+      const assessment = await findLocalAssessment(importedAssessment.capabilityCode);
+      if (!assessment) continue;
+
+      // Find the rating
+      const importedRating = data.data.ratings.find((r) => r.id === attachmentMeta.ratingId);
+      if (!importedRating) continue;
+
+      const rating = await db.ratings
+        .where("[capabilityAssessmentId+questionIndex]")
+        .equals([assessment.id, importedRating.questionIndex])
+        .first();
+      if (!rating) continue;
+
+      const attachment: Attachment = {
+        id: attachmentMeta.id,
+        capabilityAssessmentId: assessment.id,
+        ratingId: rating.id,
+        fileName: attachmentMeta.fileName,
+        fileType: attachmentMeta.fileType,
+        fileSize: attachmentMeta.fileSize,
+        blob,
+        description: attachmentMeta.description,
+        uploadedAt: new Date(attachmentMeta.uploadedAt),
+      };
+
+      await db.attachments.add(attachment);
+
+      await db.ratings.update(rating.id, {
+        attachmentIds: Array.from(new Set([...(rating.attachmentIds || []), attachment.id])),
+      });
+
+      attachmentsRestored++;
+    } catch (error) {
+      console.error("Failed to import attachment:", path, error);
+    }
+  }
+
+  return attachmentsRestored;
+}
+
+/**
+ * Imports custom questions, keeping whichever copy of a question was updated last
+ * An imported question that would take the index of a different existing question is added
+ * under the next free index instead. Returns, per capability, the imported indexes that now
+ * map to a different local index.
+ */
+async function importCustomQuestions(data: ExportData): Promise<Map<string, Map<number, number>>> {
+  const remap = new Map<string, Map<number, number>>();
+  const setRemap = (capabilityCode: string, from: number, to: number) => {
+    if (from === to) return;
+    const indexes = remap.get(capabilityCode) ?? new Map<number, number>();
+    indexes.set(from, to);
+    remap.set(capabilityCode, indexes);
+  };
+
+  for (const imported of data.data.customQuestions ?? []) {
+    const question: CustomQuestion = {
+      ...imported,
+      createdAt: new Date(imported.createdAt),
+      updatedAt: new Date(imported.updatedAt),
+    };
+
+    const existing = await db.customQuestions.get(question.id);
+    if (existing) {
+      if (question.updatedAt > existing.updatedAt) {
+        await db.customQuestions.put({ ...question, questionIndex: existing.questionIndex });
       }
+      setRemap(question.capabilityCode, question.questionIndex, existing.questionIndex);
+      continue;
+    }
+
+    const occupant = await db.customQuestions
+      .where("[capabilityCode+questionIndex]")
+      .equals([question.capabilityCode, question.questionIndex])
+      .first();
+    if (!occupant) {
+      await db.customQuestions.add(question);
+    } else if (occupant.question !== question.question) {
+      // Past every local and imported index, so no other imported question is displaced
+      const localIndexes = await db.customQuestions
+        .where("capabilityCode")
+        .equals(question.capabilityCode)
+        .toArray();
+      const questionIndex = Math.max(
+        CUSTOM_QUESTION_INDEX_OFFSET,
+        ...localIndexes.map((q) => q.questionIndex + 1),
+        ...(data.data.customQuestions ?? [])
+          .filter((q) => q.capabilityCode === question.capabilityCode)
+          .map((q) => q.questionIndex + 1)
+      );
+      await db.customQuestions.add({ ...question, questionIndex });
+      setRemap(question.capabilityCode, question.questionIndex, questionIndex);
     }
   }
 
-  result.attachmentsRestored = attachmentsRestored;
+  return remap;
+}
 
-  onProgress?.(100, "Complete");
+/**
+ * Moves imported ratings (current and history) of re-indexed custom questions to their local
+ * index, in place, so they stay attached to their own question
+ */
+function remapCustomQuestionRatings(
+  data: ExportData,
+  remap: Map<string, Map<number, number>>
+): void {
+  if (remap.size === 0) return;
 
-  return result;
+  const capabilityByAssessment = new Map(
+    data.data.assessments.map((a) => [a.id, a.capabilityCode])
+  );
+  for (const rating of data.data.ratings) {
+    const capabilityCode = capabilityByAssessment.get(rating.capabilityAssessmentId);
+    const questionIndex = capabilityCode && remap.get(capabilityCode)?.get(rating.questionIndex);
+    if (questionIndex) rating.questionIndex = questionIndex;
+  }
+  for (const entry of data.data.history) {
+    for (const rating of entry.ratings) {
+      const questionIndex = remap.get(entry.capabilityCode)?.get(rating.questionIndex);
+      if (questionIndex) rating.questionIndex = questionIndex;
+    }
+  }
+}
+
+/**
+ * Merge choices keyed by the question indexes ratings have after remapCustomQuestionRatings
+ */
+function remapMergeChoices(
+  choices: Record<number, RatingMergeSide> | undefined,
+  indexes: Map<number, number> | undefined
+): Record<number, RatingMergeSide> | undefined {
+  if (!choices || !indexes) return choices;
+  return Object.fromEntries(
+    Object.entries(choices).map(([index, side]) => [indexes.get(Number(index)) ?? index, side])
+  );
+}
+
+/**
+ * The local assessment an import is compared with: the open one when there is one, else the
+ * finalized one (as on the dashboard)
+ */
+async function findLocalAssessment(
+  capabilityCode: string
+): Promise<CapabilityAssessment | undefined> {
+  const assessments = await db.capabilityAssessments
+    .where("capabilityCode")
+    .equals(capabilityCode)
+    .toArray();
+  return (
+    assessments.find((a) => isOpenStatus(a.status)) ??
+    assessments.find((a) => a.status === "finalized")
+  );
+}
+
+/**
+ * Adds an imported assessment and its ratings as a new local assessment
+ * A finalized import replaces the local finalized assessment for the same cycle, as finalizing
+ * in the app does.
+ */
+async function addImportedAssessment(
+  importedAssessment: ImportedAssessment,
+  importedRatings: ImportedRating[]
+): Promise<void> {
+  const newAssessmentId = uuidv4();
+
+  await db.capabilityAssessments.add({
+    id: newAssessmentId,
+    capabilityCode: importedAssessment.capabilityCode,
+    businessArea: importedAssessment.businessArea,
+    processName: importedAssessment.processName,
+    status: importedAssessment.status,
+    tags: importedAssessment.tags,
+    blueprintVersion: importedAssessment.blueprintVersion,
+    createdAt: new Date(importedAssessment.createdAt),
+    updatedAt: new Date(importedAssessment.updatedAt),
+    finalizedAt: importedAssessment.finalizedAt
+      ? new Date(importedAssessment.finalizedAt)
+      : undefined,
+    score: importedAssessment.score,
+    scoringStrategy: importedAssessment.scoringStrategy,
+    cycleId: importedAssessment.cycleId,
+    ...getReviewFields(importedAssessment),
+  });
+
+  await addImportedRatings(newAssessmentId, importedRatings);
+
+  if (importedAssessment.status === "finalized") {
+    await retireFinalizedAssessment({
+      id: newAssessmentId,
+      capabilityCode: importedAssessment.capabilityCode,
+      cycleId: importedAssessment.cycleId,
+    });
+  }
 }
 
 /**
  * Core import processing logic
+ * Assessments are resolved as given in resolutions (keyed by imported assessment ID), falling
+ * back to the suggested resolution. IDs of assessments imported as current (or merged) are
+ * collected. Ratings of custom questions that were re-indexed on import are rewritten in data,
+ * so attachments restored afterwards find them.
  */
 async function processImport(
   data: ExportData,
-  onProgress?: ImportProgressCallback
+  onProgress?: ImportProgressCallback,
+  resolutions: Record<string, ImportResolution> = {},
+  importedAsCurrent: Set<string> = new Set(),
+  mergeChoices: Record<string, Record<number, RatingMergeSide>> = {}
 ): Promise<ImportResult> {
   const result: ImportResult = {
     success: true,
@@ -307,6 +871,24 @@ async function processImport(
     details: [],
   };
 
+  // Import custom questions first so imported ratings can be matched to them
+  const questionRemap = await importCustomQuestions(data);
+  remapCustomQuestionRatings(data, questionRemap);
+
+  // Import assessment cycles first so imported assessments can reference them
+  for (const cycle of data.data.cycles ?? []) {
+    const existing = await db.assessmentCycles.get(cycle.id);
+    if (!existing) {
+      await db.assessmentCycles.add({
+        ...cycle,
+        startDate: new Date(cycle.startDate),
+        endDate: new Date(cycle.endDate),
+        createdAt: new Date(cycle.createdAt),
+        updatedAt: new Date(cycle.updatedAt),
+      });
+    }
+  }
+
   const totalAssessments = data.data.assessments.length;
 
   for (let i = 0; i < data.data.assessments.length; i++) {
@@ -317,12 +899,21 @@ async function processImport(
     onProgress?.(progress, `Processing ${importedAssessment.processName}...`);
 
     try {
-      const itemResult = await processAssessmentImport(importedAssessment, data);
+      const itemResult = await processAssessmentImport(
+        importedAssessment,
+        data,
+        resolutions[importedAssessment.id],
+        remapMergeChoices(
+          mergeChoices[importedAssessment.id],
+          questionRemap.get(importedAssessment.capabilityCode)
+        )
+      );
       result.details.push(itemResult);
 
       switch (itemResult.action) {
         case "imported_current":
           result.importedAsCurrent++;
+          importedAsCurrent.add(importedAssessment.id);
           break;
         case "imported_history":
           result.importedAsHistory++;
@@ -363,6 +954,10 @@ async function processImport(
       await db.assessmentHistory.add({
         ...historyEntry,
         snapshotDate: new Date(historyEntry.snapshotDate),
+        ratings: historyEntry.ratings.map((r) => ({
+          ...r,
+          targetDate: r.targetDate ? new Date(r.targetDate) : undefined,
+        })),
       });
     }
   }
@@ -371,12 +966,47 @@ async function processImport(
   return result;
 }
 
+/**
+ * Converts an imported rating to a new local rating of an assessment (without attachments)
+ */
+function toLocalRating(capabilityAssessmentId: string, rating: ImportedRating): Rating {
+  return {
+    id: uuidv4(),
+    capabilityAssessmentId,
+    questionIndex: rating.questionIndex,
+    level: rating.level,
+    previousLevel: rating.previousLevel,
+    targetLevel: rating.targetLevel,
+    targetDate: rating.targetDate ? new Date(rating.targetDate) : undefined,
+    notApplicable: rating.notApplicable,
+    notApplicableReason: rating.notApplicableReason,
+    notes: rating.notes,
+    carriedForward: rating.carriedForward,
+    attachmentIds: [],
+    updatedAt: new Date(rating.updatedAt),
+  };
+}
+
+/**
+ * Adds imported ratings to a local assessment
+ */
+async function addImportedRatings(
+  capabilityAssessmentId: string,
+  importedRatings: ImportedRating[]
+): Promise<void> {
+  for (const rating of importedRatings) {
+    await db.ratings.add(toLocalRating(capabilityAssessmentId, rating));
+  }
+}
+
 /**
  * Processes a single assessment import with merge logic
  */
 async function processAssessmentImport(
-  importedAssessment: ExportData["data"]["assessments"][0],
-  data: ExportData
+  importedAssessment: ImportedAssessment,
+  data: ExportData,
+  resolution?: ImportResolution,
+  mergeChoices?: Record<number, RatingMergeSide>
 ): Promise<ImportItemResult> {
   const capabilityCode = importedAssessment.capabilityCode;
 
@@ -384,47 +1014,25 @@ async function processAssessmentImport(
     (r) => r.capabilityAssessmentId === importedAssessment.id
   );
 
-  const existingAssessment = await db.capabilityAssessments
-    .where("capabilityCode")
-    .equals(capabilityCode)
-    .first();
+  const existingAssessment = await findLocalAssessment(capabilityCode);
 
   const importedDate = new Date(importedAssessment.updatedAt);
+  const decision =
+    resolution ?? suggestResolution(existingAssessment, importedAssessment).suggested;
 
   if (!existingAssessment) {
-    // No existing - import as current
-    const newAssessmentId = uuidv4();
-
-    await db.capabilityAssessments.add({
-      id: newAssessmentId,
-      capabilityCode: importedAssessment.capabilityCode,
-      businessArea: importedAssessment.businessArea,
-      processName: importedAssessment.processName,
-      status: importedAssessment.status,
-      tags: importedAssessment.tags,
-      blueprintVersion: importedAssessment.blueprintVersion,
-      createdAt: new Date(importedAssessment.createdAt),
-      updatedAt: importedDate,
-      finalizedAt: importedAssessment.finalizedAt
-        ? new Date(importedAssessment.finalizedAt)
-        : undefined,
-      score: importedAssessment.score,
-    });
-
-    for (const rating of importedRatings) {
-      await db.ratings.add({
-        id: uuidv4(),
-        capabilityAssessmentId: newAssessmentId,
-        questionIndex: rating.questionIndex,
-        level: rating.level,
-        previousLevel: rating.previousLevel,
-        notes: rating.notes,
-        carriedForward: rating.carriedForward,
-        attachmentIds: [],
-        updatedAt: new Date(rating.updatedAt),
-      });
+    if (decision === "keep_local") {
+      return {
+        capabilityCode,
+        capabilityName: importedAssessment.processName,
+        action: "skipped",
+        reason: "Not imported",
+      };
     }
 
+    // No existing - import as current
+    await addImportedAssessment(importedAssessment, importedRatings);
+
     return {
       capabilityCode,
       capabilityName: importedAssessment.processName,
@@ -432,34 +1040,39 @@ async function processAssessmentImport(
     };
   }
 
-  // Existing assessment found - compare timestamps
-  const existingDate = existingAssessment.updatedAt;
-  const timeDiff = Math.abs(importedDate.getTime() - existingDate.getTime());
-
-  const isSameData =
-    timeDiff < 1000 &&
-    importedAssessment.score !== undefined &&
-    existingAssessment.score !== undefined &&
-    Math.abs(importedAssessment.score - existingAssessment.score) < 0.01;
-
-  if (isSameData) {
+  if (decision === "keep_local") {
     return {
       capabilityCode,
       capabilityName: importedAssessment.processName,
       action: "skipped",
-      reason: "Identical to current assessment",
+      reason: isSameAssessment(existingAssessment, importedAssessment)
+        ? "Identical to current assessment"
+        : "Kept local assessment",
     };
   }
 
-  if (importedDate > existingDate) {
-    // Imported is newer - move existing to history, import as current
-
-    const existingRatings = await db.ratings
-      .where("capabilityAssessmentId")
-      .equals(existingAssessment.id)
-      .toArray();
+  if (decision === "merge") {
+    return await mergeAssessment(
+      existingAssessment,
+      importedAssessment,
+      importedRatings,
+      mergeChoices
+    );
+  }
 
-    if (existingAssessment.status === "finalized" && existingAssessment.score) {
+  if (decision === "take_incoming" || importedDate > existingAssessment.updatedAt) {
+    // Imported replaces the local assessment; when keeping both, a finalized local one moves
+    // to history
+    const keepLocal =
+      decision === "keep_both" &&
+      existingAssessment.status === "finalized" &&
+      !!existingAssessment.score;
+
+    if (keepLocal && existingAssessment.score) {
+      const existingRatings = await db.ratings
+        .where("capabilityAssessmentId")
+        .equals(existingAssessment.id)
+        .toArray();
       const historySnapshot = createHistorySnapshot(
         existingAssessment,
         existingRatings,
@@ -468,99 +1081,81 @@ async function processAssessmentImport(
       await db.assessmentHistory.add(historySnapshot);
     }
 
-    // Delete existing ratings
-    await db.ratings.where("capabilityAssessmentId").equals(existingAssessment.id).delete();
-
-    // Update existing assessment with imported data
-    await db.capabilityAssessments.update(existingAssessment.id, {
-      status: importedAssessment.status,
-      tags: importedAssessment.tags,
-      updatedAt: importedDate,
-      finalizedAt: importedAssessment.finalizedAt
-        ? new Date(importedAssessment.finalizedAt)
-        : undefined,
-      score: importedAssessment.score,
-    });
-
-    // Add imported ratings
-    for (const rating of importedRatings) {
-      await db.ratings.add({
-        id: uuidv4(),
-        capabilityAssessmentId: existingAssessment.id,
-        questionIndex: rating.questionIndex,
-        level: rating.level,
-        previousLevel: rating.previousLevel,
-        notes: rating.notes,
-        carriedForward: rating.carriedForward,
-        attachmentIds: [],
-        updatedAt: new Date(rating.updatedAt),
-      });
-    }
+    // The replaced assessment goes to the trash with its ratings and attachments
+    await moveAssessmentToTrash(existingAssessment.id);
+    await addImportedAssessment(importedAssessment, importedRatings);
 
     return {
       capabilityCode,
       capabilityName: importedAssessment.processName,
       action: "imported_current",
-      reason: "Replaced older local assessment (moved to history)",
+      reason: keepLocal
+        ? "Replaced older local assessment (moved to history, previous version in trash)"
+        : "Replaced local assessment (previous version in trash)",
     };
-  } else {
-    // Imported is older - add to history only
-
-    if (importedAssessment.status === "finalized" && importedAssessment.score) {
-      const existingHistory = await db.assessmentHistory
-        .where("capabilityCode")
-        .equals(capabilityCode)
-        .toArray();
-
-      const alreadyExists = existingHistory.some(
-        (h) =>
-          Math.abs(h.snapshotDate.getTime() - importedDate.getTime()) < 1000 &&
-          Math.abs(h.score - importedAssessment.score!) < 0.01
-      );
-
-      if (alreadyExists) {
-        return {
-          capabilityCode,
-          capabilityName: importedAssessment.processName,
-          action: "skipped",
-          reason: "Historical entry already exists",
-        };
-      }
+  }
 
-      const historicalRatings: HistoricalRating[] = importedRatings
-        .filter((r) => r.level !== null)
-        .map((r) => ({
-          questionIndex: r.questionIndex,
-          level: r.level as 1 | 2 | 3 | 4 | 5,
-          notes: r.notes,
-          attachmentIds: r.attachmentIds || [],
-        }));
+  // Keeping both with an older import - add it to history only
+  if (importedAssessment.status === "finalized" && importedAssessment.score) {
+    const existingHistory = await db.assessmentHistory
+      .where("capabilityCode")
+      .equals(capabilityCode)
+      .toArray();
 
-      await db.assessmentHistory.add({
-        id: uuidv4(),
-        capabilityCode,
-        snapshotDate: importedDate,
-        tags: importedAssessment.tags,
-        score: importedAssessment.score,
-        ratings: historicalRatings,
-        blueprintVersion: importedAssessment.blueprintVersion,
-      });
+    const alreadyExists = existingHistory.some(
+      (h) =>
+        Math.abs(h.snapshotDate.getTime() - importedDate.getTime()) < TIMESTAMP_TOLERANCE_MS &&
+        Math.abs(h.score - importedAssessment.score!) < 0.01
+    );
 
+    if (alreadyExists) {
       return {
         capabilityCode,
         capabilityName: importedAssessment.processName,
-        action: "imported_history",
-        reason: "Added as historical entry (local is newer)",
+        action: "skipped",
+        reason: "Historical entry already exists",
       };
     }
 
+    const historicalRatings: HistoricalRating[] = importedRatings
+      .filter(isRatingAnswered)
+      .map((r) => ({
+        questionIndex: r.questionIndex,
+        level: r.notApplicable ? null : r.level,
+        notApplicable: r.notApplicable || undefined,
+        notApplicableReason: r.notApplicable ? r.notApplicableReason : undefined,
+        targetLevel: r.targetLevel,
+        targetDate: r.targetDate ? new Date(r.targetDate) : undefined,
+        notes: r.notes,
+        attachmentIds: r.attachmentIds || [],
+      }));
+
+    await db.assessmentHistory.add({
+      id: uuidv4(),
+      capabilityCode,
+      snapshotDate: importedDate,
+      tags: importedAssessment.tags,
+      score: importedAssessment.score,
+      scoringStrategy: importedAssessment.scoringStrategy,
+      ratings: historicalRatings,
+      blueprintVersion: importedAssessment.blueprintVersion,
+      cycleId: importedAssessment.cycleId,
+    });
+
     return {
       capabilityCode,
       capabilityName: importedAssessment.processName,
-      action: "skipped",
-      reason: "Local assessment is newer and imported is not finalized",
+      action: "imported_history",
+      reason: "Added as historical entry (local is newer)",
     };
   }
+
+  return {
+    capabilityCode,
+    capabilityName: importedAssessment.processName,
+    action: "skipped",
+    reason: "Local assessment is newer and imported is not finalized",
+  };
 }
 
 /**
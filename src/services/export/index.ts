@@ -2,3 +2,7 @@ export * from "./types";
 export * from "./exportService";
 export * from "./importService";
 export * from "./pdfStyles";
+export * from "./ratingImport";
+export * from "./integrity";
+export * from "./encryption";
+export * from "./migrations";
@@ -0,0 +1,77 @@
+import JSZip from "jszip";
+import { describe, expect, it } from "vitest";
+import { computeZipChecksums, describeIntegrityProblems, verifyZipIntegrity } from "./integrity";
+
+/** A ZIP export with data.json, one attachment, and a manifest of their checksums */
+async function checkedZip(): Promise<JSZip> {
+  const zip = new JSZip();
+  zip.file("data.json", JSON.stringify({ exportVersion: "1.1" }));
+  zip.file("attachments/a1/evidence.txt", "evidence");
+  const checksums = await computeZipChecksums(zip);
+  zip.file("manifest.json", JSON.stringify({ exportVersion: "1.1", checksums }));
+  return zip;
+}
+
+/** Round trips a ZIP through its bytes, as an import would see it */
+async function reopen(zip: JSZip): Promise<JSZip> {
+  return JSZip.loadAsync(await zip.generateAsync({ type: "uint8array" }));
+}
+
+describe("verifyZipIntegrity", () => {
+  it("verifies an untouched export", async () => {
+    const report = await verifyZipIntegrity(await reopen(await checkedZip()));
+    expect(report).toEqual({ status: "verified", checkedFiles: 2, problems: [] });
+  });
+
+  it("reports modified, missing and unexpected files", async () => {
+    const zip = await checkedZip();
+    zip.file("data.json", JSON.stringify({ exportVersion: "1.1", edited: true }));
+    zip.remove("attachments/a1/evidence.txt");
+    zip.file("extra.txt", "added later");
+
+    const report = await verifyZipIntegrity(await reopen(zip));
+    expect(report.status).toBe("failed");
+    expect(report.problems).toEqual(
+      expect.arrayContaining([
+        { path: "data.json", problem: "modified" },
+        { path: "attachments/a1/evidence.txt", problem: "missing" },
+        { path: "extra.txt", problem: "unexpected" },
+      ])
+    );
+    expect(report.problems).toHaveLength(3);
+    expect(describeIntegrityProblems(report)).toContain(
+      "data.json has been altered or corrupted since export"
+    );
+  });
+
+  it("accepts checksums written in uppercase", async () => {
+    const zip = await checkedZip();
+    const manifest = JSON.parse(await zip.file("manifest.json")!.async("string"));
+    for (const path of Object.keys(manifest.checksums)) {
+      manifest.checksums[path] = manifest.checksums[path].toUpperCase();
+    }
+    zip.file("manifest.json", JSON.stringify(manifest));
+
+    expect((await verifyZipIntegrity(zip)).status).toBe("verified");
+  });
+
+  it("leaves exports without checksums unverified", async () => {
+    const zip = new JSZip();
+    zip.file("data.json", "{}");
+    zip.file("manifest.json", JSON.stringify({ exportVersion: "1.0" }));
+    expect(await verifyZipIntegrity(zip)).toEqual({
+      status: "unverified",
+      checkedFiles: 0,
+      problems: [],
+    });
+  });
+
+  it("fails when the manifest cannot be parsed", async () => {
+    const zip = new JSZip();
+    zip.file("data.json", "{}");
+    zip.file("manifest.json", "{ not json");
+    const report = await verifyZipIntegrity(zip);
+    expect(report.status).toBe("failed");
+    expect(report.problems).toEqual([{ path: "manifest.json", problem: "unreadable" }]);
+  });
+});
@@ -0,0 +1,117 @@
+/**
+ * ZIP export integrity checks
+ *
+ * ZIP exports list a SHA-256 checksum for data.json, the audit log, and every attachment in
+ * manifest.json. On import the files are hashed again and compared, so a backup that was
+ * corrupted or edited after export is reported instead of being imported. The manifest is not
+ * signed: it detects accidental damage and casual edits, not a rewrite of the whole archive.
+ */
+
+import type JSZip from "jszip";
+import type { ExportManifest, IntegrityProblem, IntegrityReport } from "./types";
+
+/** Files that are not covered by the checksums */
+const UNCHECKED_FILES = ["manifest.json"];
+
+const PROBLEM_DESCRIPTIONS: Record<IntegrityProblem, string> = {
+  modified: "has been altered or corrupted since export",
+  missing: "is listed in the manifest but missing from the ZIP",
+  unexpected: "was added to the ZIP after export",
+  unreadable: "is corrupted and could not be read",
+};
+
+/**
+ * SHA-256 of the given bytes as lowercase hex
+ */
+export async function sha256Hex(data: ArrayBuffer): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", data);
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+/**
+ * Checksums of every file in a ZIP being exported, keyed by path, for the manifest
+ */
+export async function computeZipChecksums(zip: JSZip): Promise<Record<string, string>> {
+  const checksums: Record<string, string> = {};
+  for (const file of getZipFiles(zip)) {
+    checksums[file.name] = await sha256Hex(await file.async("arraybuffer"));
+  }
+  return checksums;
+}
+
+/**
+ * Checks every file of an imported ZIP against the checksums in its manifest
+ */
+export async function verifyZipIntegrity(zip: JSZip): Promise<IntegrityReport> {
+  const manifestFile = zip.file("manifest.json");
+  let manifest: Partial<ExportManifest> | undefined;
+  try {
+    manifest = manifestFile ? JSON.parse(await manifestFile.async("string")) : undefined;
+  } catch {
+    return {
+      status: "failed",
+      checkedFiles: 0,
+      problems: [{ path: "manifest.json", problem: "unreadable" }],
+    };
+  }
+
+  const checksums = manifest?.checksums;
+  if (!checksums) {
+    return { status: "unverified", checkedFiles: 0, problems: [] };
+  }
+
+  const problems: IntegrityReport["problems"] = [];
+  let checkedFiles = 0;
+  const files = getZipFiles(zip);
+
+  for (const file of files) {
+    const expected = checksums[file.name];
+    if (expected === undefined) {
+      problems.push({ path: file.name, problem: "unexpected" });
+      continue;
+    }
+
+    let actual: string;
+    try {
+      actual = await sha256Hex(await file.async("arraybuffer"));
+    } catch {
+      problems.push({ path: file.name, problem: "unreadable" });
+      continue;
+    }
+    checkedFiles++;
+    if (actual !== expected.toLowerCase()) {
+      problems.push({ path: file.name, problem: "modified" });
+    }
+  }
+
+  const present = new Set(files.map((file) => file.name));
+  for (const path of Object.keys(checksums)) {
+    if (!present.has(path)) {
+      problems.push({ path, problem: "missing" });
+    }
+  }
+
+  return { status: problems.length > 0 ? "failed" : "verified", checkedFiles, problems };
+}
+
+/**
+ * One line per integrity problem, e.g. "data.json has been altered or corrupted since export"
+ */
+export function describeIntegrityProblems(report: IntegrityReport): string[] {
+  return report.problems.map(({ path, problem }) => `${path} ${PROBLEM_DESCRIPTIONS[problem]}`);
+}
+
+/**
+ * Files in a ZIP that are covered by the checksums
+ */
+function getZipFiles(zip: JSZip): JSZip.JSZipObject[] {
+  const files: JSZip.JSZipObject[] = [];
+  zip.forEach((_relativePath, file) => {
+    if (!file.dir && !UNCHECKED_FILES.includes(file.name)) {
+      files.push(file);
+    }
+  });
+  return files;
+}
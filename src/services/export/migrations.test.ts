@@ -0,0 +1,99 @@
+import { describe, expect, it } from "vitest";
+import { CURRENT_EXPORT_VERSION, describeMigration, migrateExportData } from "./migrations";
+import type { ExportData } from "./types";
+
+/** An early 1.0 export: no optional sections, and ratings without notes or attachment lists */
+function earlyExport(): ExportData {
+  return {
+    exportVersion: "1.0",
+    exportDate: "2024-01-15T00:00:00.000Z",
+    appVersion: "2.0.0",
+    blueprintVersion: "3.0",
+    scope: "full",
+    data: {
+      assessments: [
+        {
+          id: "a1",
+          capabilityCode: "CM_Establish_Case",
+          businessArea: "Care Management",
+          processName: "Establish Case",
+          status: "finalized",
+          blueprintVersion: "3.0",
+          createdAt: "2024-01-01T00:00:00.000Z",
+          updatedAt: "2024-01-10T00:00:00.000Z",
+        },
+      ],
+      ratings: [
+        {
+          id: "r1",
+          capabilityAssessmentId: "a1",
+          questionIndex: 0,
+          level: 3,
+          updatedAt: "2024-01-10T00:00:00.000Z",
+        },
+      ],
+    },
+  } as unknown as ExportData;
+}
+
+describe("migrateExportData", () => {
+  it("returns current exports unchanged, without a report", () => {
+    const payload = { ...earlyExport(), exportVersion: CURRENT_EXPORT_VERSION };
+    const result = migrateExportData(payload);
+    expect(result.data).toBe(payload);
+    expect(result.migration).toBeUndefined();
+  });
+
+  it("upgrades a 1.0 export and fills in missing sections and fields", () => {
+    const payload = earlyExport();
+    const { data, migration } = migrateExportData(payload);
+
+    expect(data.exportVersion).toBe(CURRENT_EXPORT_VERSION);
+    expect(data.data.history).toEqual([]);
+    expect(data.data.tags).toEqual([]);
+    expect(data.data.cycles).toEqual([]);
+    expect(data.data.customQuestions).toEqual([]);
+    expect(data.data.assessments[0].tags).toEqual([]);
+    expect(data.data.ratings[0]).toMatchObject({
+      notes: "",
+      attachmentIds: [],
+      carriedForward: false,
+    });
+    expect(data.metadata).toMatchObject({
+      totalAssessments: 1,
+      totalRatings: 1,
+      capabilities: ["CM_Establish_Case"],
+    });
+
+    expect(migration?.fromVersion).toBe("1.0");
+    expect(migration?.toVersion).toBe(CURRENT_EXPORT_VERSION);
+    expect(migration?.steps).toHaveLength(1);
+    expect(describeMigration(migration!)).toContain(
+      "1.0 → 1.1: Added empty tag lists to 1 assessment"
+    );
+  });
+
+  it("leaves the original payload untouched", () => {
+    const payload = earlyExport();
+    migrateExportData(payload);
+    expect(payload.exportVersion).toBe("1.0");
+    expect(payload.data.history).toBeUndefined();
+    expect(payload.data.ratings[0].notes).toBeUndefined();
+  });
+
+  it("chains the registered steps up to the current version", () => {
+    const { migration } = migrateExportData(earlyExport());
+    const steps = migration!.steps.map((step) => `${step.fromVersion}->${step.toVersion}`);
+    expect(steps).toEqual(["1.0->1.1"]);
+    expect(migration!.steps[migration!.steps.length - 1].toVersion).toBe(CURRENT_EXPORT_VERSION);
+  });
+
+  it("rejects versions with no chain of steps, such as a newer release", () => {
+    expect(() => migrateExportData({ ...earlyExport(), exportVersion: "9.0" })).toThrow(
+      "Unsupported export version: 9.0"
+    );
+    expect(() => migrateExportData({ ...earlyExport(), exportVersion: "" })).toThrow(
+      "Unsupported export version: "
+    );
+  });
+});
@@ -0,0 +1,254 @@
+/**
+ * Export Format Migrations
+ *
+ * Exports record the format version they were written in. Older exports are upgraded one
+ * registered step at a time until they reach the current version, so archived files from
+ * earlier releases stay importable. Each step reports what it changed.
+ *
+ * Data files from the v1.0 app, which predate the export format, are converted as well.
+ *
+ * To change the export format: bump CURRENT_EXPORT_VERSION, and register a step from the
+ * previous version that converts older payloads to the new shape.
+ */
+
+import { convertLegacyData, type LegacyData } from "../legacyMigration";
+import type {
+  AssessmentExport,
+  ExportData,
+  ExportMigrationReport,
+  ExportMigrationStep,
+  RatingExport,
+} from "./types";
+
+/** Export format version written by this release */
+export const CURRENT_EXPORT_VERSION = "1.1";
+
+/**
+ * An export payload in some earlier format; only the version and data sections are known
+ */
+type VersionedExport = Record<string, unknown> & {
+  exportVersion: string;
+  data: Record<string, unknown>;
+};
+
+type ExportRecord = Record<string, unknown>;
+
+/**
+ * Upgrades an export payload from one format version to the next
+ * migrate changes the payload in place and returns a description of each change.
+ */
+interface ExportMigration {
+  from: string;
+  to: string;
+  description: string;
+  migrate: (payload: VersionedExport) => string[];
+}
+
+/** Registered upgrade steps, oldest first */
+const MIGRATIONS: ExportMigration[] = [
+  {
+    from: "1.0",
+    to: "1.1",
+    description: "Complete the sections and fields that early 1.0 exports may lack",
+    migrate: (payload) => {
+      const changes: string[] = [];
+      const data = payload.data;
+
+      // Sections added after the first 1.0 release (cycles, custom questions) or left out
+      for (const section of ["history", "tags", "attachments", "cycles", "customQuestions"]) {
+        if (!Array.isArray(data[section])) {
+          data[section] = [];
+          changes.push(`Added empty ${section} section`);
+        }
+      }
+
+      const assessments = data.assessments as ExportRecord[];
+      const ratings = data.ratings as ExportRecord[];
+
+      const untagged = assessments.filter((a) => !Array.isArray(a.tags));
+      for (const assessment of untagged) {
+        assessment.tags = [];
+      }
+      if (untagged.length > 0) {
+        changes.push(`Added empty tag lists to ${countOf(untagged.length, "assessment")}`);
+      }
+
+      let ratingsFilled = 0;
+      for (const rating of ratings) {
+        const missing =
+          !Array.isArray(rating.attachmentIds) ||
+          typeof rating.carriedForward !== "boolean" ||
+          typeof rating.notes !== "string";
+        if (!missing) continue;
+        rating.attachmentIds = Array.isArray(rating.attachmentIds) ? rating.attachmentIds : [];
+        rating.carriedForward = rating.carriedForward === true;
+        rating.notes = typeof rating.notes === "string" ? rating.notes : "";
+        ratingsFilled++;
+      }
+      if (ratingsFilled > 0) {
+        changes.push(
+          `Filled in missing notes, attachment lists, or carry-forward flags on ${countOf(ratingsFilled, "rating")}`
+        );
+      }
+
+      if (!payload.metadata || typeof payload.metadata !== "object") {
+        payload.metadata = {
+          totalAssessments: assessments.length,
+          totalRatings: ratings.length,
+          totalHistory: (data.history as unknown[]).length,
+          totalAttachments: (data.attachments as unknown[]).length,
+          businessAreas: Array.from(new Set(assessments.map((a) => String(a.businessArea)))),
+          capabilities: Array.from(new Set(assessments.map((a) => String(a.capabilityCode)))),
+        };
+        changes.push("Rebuilt the export summary");
+      }
+
+      return changes;
+    },
+  },
+];
+
+/**
+ * Upgrades an export to the current format version
+ * Only the envelope of the payload has been validated; the rest may be in an older shape.
+ * The payload is copied, never changed. Throws when no chain of steps leads from its version
+ * to the current one (for example an export from a newer release).
+ */
+export function migrateExportData(payload: ExportData): {
+  data: ExportData;
+  migration?: ExportMigrationReport;
+} {
+  const fromVersion = payload.exportVersion;
+  if (fromVersion === CURRENT_EXPORT_VERSION) {
+    return { data: payload };
+  }
+
+  const path = findMigrationPath(fromVersion);
+  if (!path) {
+    throw new Error(`Unsupported export version: ${fromVersion}`);
+  }
+
+  const upgraded = structuredClone(payload) as unknown as VersionedExport;
+  const steps: ExportMigrationStep[] = [];
+  for (const migration of path) {
+    const changes = migration.migrate(upgraded);
+    upgraded.exportVersion = migration.to;
+    steps.push({
+      fromVersion: migration.from,
+      toVersion: migration.to,
+      description: migration.description,
+      changes,
+    });
+  }
+
+  return {
+    data: upgraded as unknown as ExportData,
+    migration: { fromVersion, toVersion: CURRENT_EXPORT_VERSION, steps },
+  };
+}
+
+/**
+ * Converts v1.0 app data into current export data
+ * The v1.0 multi-capability assessments become per-capability assessments, with older
+ * finalized versions as history (see legacyMigration).
+ */
+export function migrateLegacyExport(legacy: LegacyData): {
+  data: ExportData;
+  migration: ExportMigrationReport;
+} {
+  const { assessments, ratings, history, tags, report } = convertLegacyData(legacy);
+
+  const assessmentExports: AssessmentExport[] = assessments.map((a) => ({
+    id: a.id,
+    capabilityCode: a.capabilityCode,
+    businessArea: a.businessArea,
+    processName: a.processName,
+    status: a.status,
+    tags: a.tags,
+    blueprintVersion: a.blueprintVersion,
+    createdAt: a.createdAt.toISOString(),
+    updatedAt: a.updatedAt.toISOString(),
+    finalizedAt: a.finalizedAt?.toISOString(),
+    score: a.score,
+  }));
+  const ratingExports: RatingExport[] = ratings.map((r) => ({
+    id: r.id,
+    capabilityAssessmentId: r.capabilityAssessmentId,
+    questionIndex: r.questionIndex,
+    level: r.level,
+    notes: r.notes,
+    carriedForward: r.carriedForward,
+    attachmentIds: [],
+    updatedAt: r.updatedAt.toISOString(),
+  }));
+
+  const fromVersion = "1.0 (legacy app data)";
+  return {
+    data: {
+      exportVersion: CURRENT_EXPORT_VERSION,
+      exportDate: report.convertedAt,
+      appVersion: "1.0",
+      blueprintVersion: legacy.assessments[0]?.blueprintVersion ?? "",
+      scope: "full",
+      data: {
+        assessments: assessmentExports,
+        ratings: ratingExports,
+        history,
+        tags,
+        attachments: [],
+        cycles: [],
+        customQuestions: [],
+      },
+      metadata: {
+        totalAssessments: assessmentExports.length,
+        totalRatings: ratingExports.length,
+        totalHistory: history.length,
+        totalAttachments: 0,
+        businessAreas: Array.from(new Set(assessments.map((a) => a.businessArea))),
+        capabilities: assessments.map((a) => a.capabilityCode),
+      },
+    },
+    migration: {
+      fromVersion,
+      toVersion: CURRENT_EXPORT_VERSION,
+      steps: [
+        {
+          fromVersion,
+          toVersion: CURRENT_EXPORT_VERSION,
+          description: `Convert ${countOf(report.legacyAssessments, "v1.0 assessment")} to per-capability assessments`,
+          changes: report.changes,
+        },
+      ],
+    },
+  };
+}
+
+/**
+ * One line per change made while upgrading an export, for display
+ */
+export function describeMigration(migration: ExportMigrationReport): string[] {
+  return migration.steps.flatMap((step) =>
+    step.changes.length > 0
+      ? step.changes.map((change) => `${step.fromVersion} → ${step.toVersion}: ${change}`)
+      : [`${step.fromVersion} → ${step.toVersion}: ${step.description} (nothing to change)`]
+  );
+}
+
+/**
+ * The steps leading from a version to the current one, or null when there is no such chain
+ */
+function findMigrationPath(version: string): ExportMigration[] | null {
+  const path: ExportMigration[] = [];
+  let current = version;
+  while (current !== CURRENT_EXPORT_VERSION) {
+    const next = MIGRATIONS.find((migration) => migration.from === current);
+    if (!next || path.includes(next)) return null;
+    path.push(next);
+    current = next.to;
+  }
+  return path;
+}
+
+function countOf(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? "" : "s"}`;
+}
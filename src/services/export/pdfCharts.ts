@@ -0,0 +1,186 @@
+/**
+ * PDF Charts for MITA 3.0
+ *
+ * Vector charts drawn with jsPDF primitives for the PDF report: a radar of business area
+ * scores, stacked maturity level distribution bars, and capability score sparklines.
+ * Positions and sizes are in millimeters; scores are plotted on the fixed 1-5 maturity scale.
+ */
+
+import type jsPDF from "jspdf";
+import { COLORS, LEVEL_COLORS } from "./pdfStyles";
+import type { ScoreHistoryPoint } from "./reportData";
+
+type Point = [x: number, y: number];
+
+const MAX_SCORE = 5;
+const RADAR_LABEL_WIDTH = 38;
+const RADAR_FILL: [number, number, number] = [204, 222, 234];
+
+/**
+ * Draws a radar chart with one axis per item, clockwise from the top
+ * Needs at least three items to form a shape. Labels are placed just outside the outer ring.
+ */
+export function drawRadarChart(
+  doc: jsPDF,
+  items: { label: string; score: number }[],
+  centerX: number,
+  centerY: number,
+  radius: number
+): void {
+  const angleOf = (index: number) => -Math.PI / 2 + (2 * Math.PI * index) / items.length;
+  const pointAt = (index: number, distance: number): Point => [
+    centerX + Math.cos(angleOf(index)) * distance,
+    centerY + Math.sin(angleOf(index)) * distance,
+  ];
+
+  // Score area first, so the grid stays visible on top of it
+  const scorePoints = items.map((item, i) => pointAt(i, (item.score / MAX_SCORE) * radius));
+  doc.setFillColor(...RADAR_FILL);
+  drawPolygon(doc, scorePoints, "F");
+
+  // Rings for levels 1-5 and one axis per item
+  doc.setDrawColor(...COLORS.mediumGray);
+  doc.setLineWidth(0.2);
+  for (let level = 1; level <= MAX_SCORE; level++) {
+    drawPolygon(
+      doc,
+      items.map((_, i) => pointAt(i, (level / MAX_SCORE) * radius)),
+      "S"
+    );
+  }
+  items.forEach((_, i) => {
+    const [x, y] = pointAt(i, radius);
+    doc.line(centerX, centerY, x, y);
+  });
+
+  doc.setFontSize(6);
+  doc.setFont("helvetica", "normal");
+  doc.setTextColor(...COLORS.darkGray);
+  for (let level = 1; level <= MAX_SCORE; level++) {
+    doc.text(String(level), centerX + 1, centerY - (level / MAX_SCORE) * radius + 2);
+  }
+
+  // Score outline and points
+  doc.setDrawColor(...COLORS.primary);
+  doc.setLineWidth(0.6);
+  drawPolygon(doc, scorePoints, "S");
+  doc.setFillColor(...COLORS.primary);
+  for (const [x, y] of scorePoints) {
+    doc.circle(x, y, 0.8, "F");
+  }
+  doc.setLineWidth(0.2);
+
+  // Axis labels, aligned away from the chart
+  doc.setFontSize(7);
+  doc.setTextColor(...COLORS.secondary);
+  items.forEach((item, i) => {
+    const cos = Math.cos(angleOf(i));
+    const sin = Math.sin(angleOf(i));
+    const [x, y] = pointAt(i, radius + 3);
+    const align = cos > 0.3 ? "left" : cos < -0.3 ? "right" : "center";
+    const lines: string[] = doc.splitTextToSize(
+      `${item.label} (${item.score.toFixed(1)})`,
+      RADAR_LABEL_WIDTH
+    );
+    const blockHeight = lines.length * 3;
+    const top = sin < -0.3 ? y - blockHeight : sin > 0.3 ? y + 1 : y - blockHeight / 2 + 1;
+    doc.text(lines, x, top + 2, { align });
+  });
+}
+
+/**
+ * Draws a 100% stacked bar of answers per maturity level, labelling segments wide enough
+ */
+export function drawLevelDistributionBar(
+  doc: jsPDF,
+  counts: number[],
+  x: number,
+  y: number,
+  width: number,
+  height: number
+): void {
+  const total = counts.reduce((sum, count) => sum + count, 0);
+  if (total === 0) return;
+
+  doc.setFontSize(6);
+  doc.setFont("helvetica", "bold");
+  let segmentX = x;
+  counts.forEach((count, index) => {
+    if (count === 0) return;
+    const segmentWidth = (count / total) * width;
+    doc.setFillColor(...LEVEL_COLORS[index]);
+    doc.rect(segmentX, y, segmentWidth, height, "F");
+
+    if (segmentWidth >= 8) {
+      doc.setTextColor(...(index >= 2 ? COLORS.white : COLORS.secondary));
+      doc.text(
+        `${Math.round((count / total) * 100)}%`,
+        segmentX + segmentWidth / 2,
+        y + height / 2 + 1,
+        { align: "center" }
+      );
+    }
+    segmentX += segmentWidth;
+  });
+}
+
+/**
+ * Draws the level 1-5 color key for distribution bars, returning the y below it
+ */
+export function drawLevelLegend(doc: jsPDF, x: number, y: number): number {
+  doc.setFontSize(7);
+  doc.setFont("helvetica", "normal");
+  doc.setTextColor(...COLORS.darkGray);
+  LEVEL_COLORS.forEach((color, index) => {
+    const itemX = x + index * 22;
+    doc.setFillColor(...color);
+    doc.rect(itemX, y, 3, 3, "F");
+    doc.text(`Level ${index + 1}`, itemX + 4.5, y + 2.5);
+  });
+  return y + 6;
+}
+
+/**
+ * Draws a small line chart of scores over time, spaced evenly, with the latest point highlighted
+ */
+export function drawSparkline(
+  doc: jsPDF,
+  points: ScoreHistoryPoint[],
+  x: number,
+  y: number,
+  width: number,
+  height: number
+): void {
+  doc.setFillColor(...COLORS.lightGray);
+  doc.rect(x, y, width, height, "F");
+  if (points.length === 0) return;
+
+  const pad = 1.5;
+  const step = points.length > 1 ? (width - pad * 2) / (points.length - 1) : 0;
+  const coords: Point[] = points.map((point, i) => [
+    x + pad + step * i,
+    y + height - pad - ((point.score - 1) / (MAX_SCORE - 1)) * (height - pad * 2),
+  ]);
+
+  doc.setDrawColor(...COLORS.primary);
+  doc.setLineWidth(0.4);
+  for (let i = 1; i < coords.length; i++) {
+    doc.line(coords[i - 1][0], coords[i - 1][1], coords[i][0], coords[i][1]);
+  }
+  doc.setLineWidth(0.2);
+
+  coords.forEach(([pointX, pointY], i) => {
+    const latest = i === coords.length - 1;
+    doc.setFillColor(...(latest ? COLORS.accent : COLORS.primary));
+    doc.circle(pointX, pointY, latest ? 0.9 : 0.6, "F");
+  });
+}
+
+/**
+ * Draws a closed polygon through the given points
+ */
+function drawPolygon(doc: jsPDF, points: Point[], style: "S" | "F"): void {
+  const [[startX, startY]] = points;
+  const segments = points.slice(1).map(([x, y], i) => [x - points[i][0], y - points[i][1]]);
+  doc.lines(segments, startX, startY, [1, 1], style, true);
+}
@@ -0,0 +1,103 @@
+/**
+ * PDF Evidence for MITA 3.0
+ *
+ * Appends the pages of PDF attachments to a generated report. jsPDF can only draw new pages,
+ * so the finished report is reopened with pdf-lib and the attachment pages are copied in after
+ * it, each stamped with its evidence label and the report's page numbering.
+ */
+
+import { PDFDocument, StandardFonts, rgb } from "pdf-lib";
+import { COLORS } from "./pdfStyles";
+import type { AttachmentMetadata } from "./types";
+
+const MM_TO_PT = 72 / 25.4;
+
+/**
+ * A PDF attachment ready to be appended to the report
+ */
+export interface EvidencePdf {
+  label: string; // "E1", "E2", ... in appendix order
+  fileName: string;
+  document: PDFDocument;
+  pageCount: number;
+}
+
+/**
+ * Loads the PDF attachments to append, in the order given, keyed by attachment ID
+ * Attachments that cannot be read (damaged or password protected) map to null.
+ */
+export async function loadEvidencePdfs(
+  attachments: AttachmentMetadata[],
+  evidence: Map<string, Blob>
+): Promise<Map<string, EvidencePdf | null>> {
+  const pdfs = new Map<string, EvidencePdf | null>();
+  for (const attachment of attachments) {
+    const blob = evidence.get(attachment.id);
+    if (!blob || pdfs.has(attachment.id)) continue;
+    try {
+      const document = await PDFDocument.load(await blob.arrayBuffer(), {
+        updateMetadata: false,
+      });
+      pdfs.set(attachment.id, {
+        label: `E${Array.from(pdfs.values()).filter(Boolean).length + 1}`,
+        fileName: attachment.fileName,
+        document,
+        pageCount: document.getPageCount(),
+      });
+    } catch {
+      pdfs.set(attachment.id, null);
+    }
+  }
+  return pdfs;
+}
+
+/**
+ * Appends the attachment pages after the report, continuing its page numbering (the cover is
+ * not numbered), and returns the combined PDF
+ */
+export async function appendEvidencePdfs(
+  report: ArrayBuffer,
+  pdfs: EvidencePdf[],
+  footerText: string
+): Promise<Uint8Array> {
+  const combined = await PDFDocument.load(report, { updateMetadata: false });
+  const font = await combined.embedFont(StandardFonts.Helvetica);
+  const color = rgb(...(COLORS.darkGray.map((c) => c / 255) as [number, number, number]));
+
+  let pageNumber = combined.getPageCount() - 1;
+  const totalPages = pageNumber + pdfs.reduce((sum, pdf) => sum + pdf.pageCount, 0);
+
+  for (const pdf of pdfs) {
+    const pages = await combined.copyPages(pdf.document, pdf.document.getPageIndices());
+    pages.forEach((page, index) => {
+      combined.addPage(page);
+      pageNumber++;
+
+      const { width, height } = page.getSize();
+      const margin = 15 * MM_TO_PT;
+      const baseline = 8 * MM_TO_PT;
+      page.drawText(
+        toWinAnsi(`Evidence ${pdf.label}: ${pdf.fileName} (page ${index + 1} of ${pages.length})`),
+        { x: margin, y: height - baseline, size: 8, font, color }
+      );
+      page.drawText(toWinAnsi(footerText), { x: margin, y: baseline, size: 8, font, color });
+      const pageLabel = `Page ${pageNumber} of ${totalPages}`;
+      page.drawText(pageLabel, {
+        x: (width - font.widthOfTextAtSize(pageLabel, 9)) / 2,
+        y: baseline,
+        size: 9,
+        font,
+        color,
+      });
+    });
+  }
+
+  return combined.save();
+}
+
+/**
+ * Replaces characters the standard Helvetica font cannot encode
+ */
+function toWinAnsi(text: string): string {
+  return text.replace(/[^\x20-\x7e\u00a0-\u00ff]/g, "?");
+}
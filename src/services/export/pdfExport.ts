@@ -6,9 +6,33 @@
 
 import jsPDF from "jspdf";
 import autoTable from "jspdf-autotable";
-import type { ExportData, ExportOptions } from "./types";
+import type { AttachmentMetadata, ExportData, ExportOptions } from "./types";
 import { getCapabilityByCode } from "../blueprint";
+import { isInReviewStatus } from "../workflow";
+import { describeScoringStrategy } from "../scoring";
+import { formatFileSize } from "../../utils/fileFormatters";
 import { PAGE, MARGIN, CONTENT_WIDTH, COLORS, getMaturityLevelName } from "./pdfStyles";
+import {
+  describeExportFilters,
+  formatGap,
+  getAreaGapRows,
+  getAreaScore,
+  getAreaScoreRows,
+  getFinalizedAssessments,
+  getLevelDistributionRows,
+  getOverallScore,
+  getReportQuestions,
+  getScoreHistory,
+  getStatusRows,
+  groupFinalizedByArea,
+} from "./reportData";
+import {
+  drawLevelDistributionBar,
+  drawLevelLegend,
+  drawRadarChart,
+  drawSparkline,
+} from "./pdfCharts";
+import { appendEvidencePdfs, loadEvidencePdfs, type EvidencePdf } from "./pdfEvidence";
 
 const PAGE_WIDTH = PAGE.WIDTH;
 const PAGE_HEIGHT = PAGE.HEIGHT;
@@ -17,46 +41,114 @@ const MARGIN_RIGHT = MARGIN.RIGHT;
 const MARGIN_TOP = MARGIN.TOP;
 const MARGIN_BOTTOM = MARGIN.BOTTOM;
 
+const TOC_LINE_HEIGHT = 6;
+const TOC_LINES_PER_PAGE = Math.floor(
+  (PAGE_HEIGHT - MARGIN_TOP - 15 - MARGIN_BOTTOM) / TOC_LINE_HEIGHT
+);
+
+const THUMBNAIL_MAX_WIDTH = 80;
+const THUMBNAIL_MAX_HEIGHT = 60;
+const PX_TO_MM = 25.4 / 96;
+
+/**
+ * jsPDF image format for each attachment type that can be embedded as a thumbnail
+ */
+const IMAGE_FORMATS: Record<string, string> = {
+  "image/png": "PNG",
+  "image/jpeg": "JPEG",
+  "image/jpg": "JPEG",
+  "image/gif": "GIF",
+  "image/webp": "WEBP",
+  "image/bmp": "BMP",
+};
+
 type JsPDFWithAutoTable = jsPDF & { lastAutoTable: { finalY: number } };
 
+/**
+ * A report section listed in the table of contents and the PDF outline
+ * Level 0 is a top-level section (executive summary, business area), level 1 a capability.
+ */
+interface TocEntry {
+  title: string;
+  level: 0 | 1;
+  pageNumber: number; // Physical page, including the cover
+  top: number; // Where the section starts on the page
+}
+
 /**
  * Generates a comprehensive PDF report from export data
+ * With the evidence appendix option, evidence holds the attachment files by attachment ID.
  */
-export async function generatePdfReport(data: ExportData, options: ExportOptions): Promise<Blob> {
+export async function generatePdfReport(
+  data: ExportData,
+  options: ExportOptions,
+  evidence?: Map<string, Blob>
+): Promise<Blob> {
   const doc = new jsPDF() as JsPDFWithAutoTable;
   const stateName = options.stateName ?? "State";
+  const areas = groupFinalizedByArea(data);
+  const toc: TocEntry[] = [];
 
   // Generate cover page
   generateCoverPage(doc, data, stateName);
 
+  // Reserve pages for the table of contents; it is filled in once section pages are known
+  let tocEntryCount = evidence ? 2 : 1;
+  for (const areaAssessments of areas.values()) {
+    tocEntryCount += 1 + areaAssessments.length;
+  }
+  const tocPageCount = Math.ceil(tocEntryCount / TOC_LINES_PER_PAGE);
+  for (let i = 0; i < tocPageCount; i++) {
+    doc.addPage();
+  }
+
   // Generate executive summary
   doc.addPage();
+  toc.push({ title: "Executive Summary", level: 0, pageNumber: currentPage(doc), top: MARGIN_TOP });
   generateExecutiveSummary(doc, data);
 
-  // Generate business area details
-  const finalizedAssessments = data.data.assessments.filter((a) => a.status === "finalized");
-
-  // Group assessments by business area
-  const assessmentsByArea = new Map<string, typeof finalizedAssessments>();
-  for (const assessment of finalizedAssessments) {
-    const existing = assessmentsByArea.get(assessment.businessArea);
-    if (existing) {
-      existing.push(assessment);
-    } else {
-      assessmentsByArea.set(assessment.businessArea, [assessment]);
-    }
+  // Generate detailed section for each business area
+  for (const [businessArea, areaAssessments] of areas) {
+    doc.addPage();
+    generateBusinessAreaSection(doc, businessArea, areaAssessments, data, toc);
   }
 
-  // Generate detailed section for each business area
-  for (const [businessArea, areaAssessments] of assessmentsByArea) {
+  // Evidence appendix, with PDF attachments appended after the report
+  let evidencePdfs: EvidencePdf[] = [];
+  if (evidence) {
+    const pdfAttachments = getEvidenceSections(data)
+      .flatMap(({ questions }) => questions.flatMap((item) => item.attachments))
+      .filter(isPdfAttachment);
+    const loadedPdfs = await loadEvidencePdfs(pdfAttachments, evidence);
+    evidencePdfs = Array.from(loadedPdfs.values()).filter((pdf): pdf is EvidencePdf => !!pdf);
+
     doc.addPage();
-    generateBusinessAreaSection(doc, businessArea, areaAssessments, data);
+    toc.push({
+      title: "Evidence Appendix",
+      level: 0,
+      pageNumber: currentPage(doc),
+      top: MARGIN_TOP,
+    });
+    await generateEvidenceAppendix(doc, data, evidence, loadedPdfs);
   }
 
-  // Add page numbers and footer
-  addPageNumbersAndFooter(doc, stateName);
+  // Fill in the table of contents and mirror it in the outline
+  generateTableOfContents(doc, toc, 2);
+  addOutline(doc, toc, 2);
 
-  return doc.output("blob");
+  // Add page numbers and footer, counting the appended evidence pages
+  const appendedPageCount = evidencePdfs.reduce((sum, pdf) => sum + pdf.pageCount, 0);
+  addPageNumbersAndFooter(doc, stateName, appendedPageCount);
+
+  if (evidencePdfs.length === 0) {
+    return doc.output("blob");
+  }
+  const combined = await appendEvidencePdfs(
+    doc.output("arraybuffer"),
+    evidencePdfs,
+    `${stateName} - MITA 3.0 Maturity Assessment`
+  );
+  return new Blob([combined.slice()], { type: "application/pdf" });
 }
 
 /**
@@ -91,6 +183,18 @@ function generateCoverPage(doc: JsPDFWithAutoTable, data: ExportData, stateName:
   doc.text("State Medicaid Agency Self-Assessment", centerX, 100, {
     align: "center",
   });
+  if (data.workspace) {
+    doc.setFontSize(9);
+    doc.text(`Workspace: ${data.workspace.name}`, centerX, 106, { align: "center" });
+  }
+  const filterDescription = describeExportFilters(data);
+  if (filterDescription) {
+    doc.setFontSize(8);
+    doc.text(`Filtered: ${filterDescription}`, centerX, 117, {
+      align: "center",
+      maxWidth: CONTENT_WIDTH,
+    });
+  }
 
   // Divider line
   doc.setDrawColor(...COLORS.mediumGray);
@@ -98,15 +202,13 @@ function generateCoverPage(doc: JsPDFWithAutoTable, data: ExportData, stateName:
   doc.line(centerX - 50, 110, centerX + 50, 110);
 
   // Overall score section
-  const finalizedAssessments = data.data.assessments.filter((a) => a.status === "finalized");
-  const scores = finalizedAssessments
-    .map((a) => a.score)
-    .filter((s): s is number => s !== undefined);
+  const finalizedAssessments = getFinalizedAssessments(data);
 
   const yScoreSection = 130;
 
-  if (scores.length > 0) {
-    const overallScore = scores.reduce((a, b) => a + b, 0) / scores.length;
+  const overallScore = getOverallScore(data);
+
+  if (overallScore !== null) {
     const maturityLevel = getMaturityLevelName(overallScore);
 
     // Score circle
@@ -134,6 +236,12 @@ function generateCoverPage(doc: JsPDFWithAutoTable, data: ExportData, stateName:
     doc.text(`Maturity Level: ${maturityLevel}`, centerX, yScoreSection + 63, {
       align: "center",
     });
+    doc.text(
+      `Scoring Method: ${describeScoringStrategy(data.scoringStrategy)}`,
+      centerX,
+      yScoreSection + 70,
+      { align: "center" }
+    );
   } else {
     doc.setTextColor(...COLORS.darkGray);
     doc.setFontSize(12);
@@ -145,10 +253,10 @@ function generateCoverPage(doc: JsPDFWithAutoTable, data: ExportData, stateName:
 
   // Stats cards row
   const yStats = 210;
-  const cardWidth = 50;
+  const cardWidth = 40;
   const cardHeight = 35;
-  const cardSpacing = 8;
-  const totalWidth = cardWidth * 3 + cardSpacing * 2;
+  const cardSpacing = 6;
+  const totalWidth = cardWidth * 4 + cardSpacing * 3;
   const startX = centerX - totalWidth / 2;
 
   const statsData = [
@@ -158,7 +266,14 @@ function generateCoverPage(doc: JsPDFWithAutoTable, data: ExportData, stateName:
       color: COLORS.accent,
     },
     {
-      value: data.data.assessments.filter((a) => a.status === "in_progress").length.toString(),
+      value: data.data.assessments.filter((a) => isInReviewStatus(a.status)).length.toString(),
+      label: "In Review",
+      color: COLORS.primary,
+    },
+    {
+      value: data.data.assessments
+        .filter((a) => a.status === "in_progress" || a.status === "returned")
+        .length.toString(),
       label: "In Progress",
       color: COLORS.primary,
     },
@@ -227,41 +342,29 @@ function generateExecutiveSummary(doc: JsPDFWithAutoTable, data: ExportData): nu
   const introText =
     "This report presents the results of the MITA 3.0 maturity self-assessment. " +
     "Each capability has been evaluated using the Business Capability Model (BCM) " +
-    "with maturity levels ranging from 1 (Initial) to 5 (Optimized).";
+    "with maturity levels ranging from 1 (Initial) to 5 (Optimized). " +
+    `Business area and overall scores combine capability scores using the ` +
+    `${describeScoringStrategy(data.scoringStrategy).toLowerCase()} method.`;
 
   const splitIntro = doc.splitTextToSize(introText, CONTENT_WIDTH);
   doc.text(splitIntro, MARGIN_LEFT, yPos);
   yPos += splitIntro.length * 5 + 10;
 
   // Business area scores table
-  const finalizedAssessments = data.data.assessments.filter((a) => a.status === "finalized");
-
-  const areaScores = new Map<string, { scores: number[]; capabilities: string[] }>();
-  for (const assessment of finalizedAssessments) {
-    if (assessment.score !== undefined) {
-      const existing = areaScores.get(assessment.businessArea);
-      if (existing) {
-        existing.scores.push(assessment.score);
-        existing.capabilities.push(assessment.processName);
-      } else {
-        areaScores.set(assessment.businessArea, {
-          scores: [assessment.score],
-          capabilities: [assessment.processName],
-        });
-      }
-    }
-  }
+  const areaScores = getAreaScoreRows(data);
 
-  if (areaScores.size > 0) {
+  if (areaScores.length > 0) {
     doc.setFontSize(12);
     doc.setFont("helvetica", "bold");
     doc.text("Business Area Maturity Scores", MARGIN_LEFT, yPos);
     yPos += 8;
 
-    const areaTableData = Array.from(areaScores.entries()).map(([area, areaData]) => {
-      const avg = areaData.scores.reduce((a, b) => a + b, 0) / areaData.scores.length;
-      return [area, avg.toFixed(1), areaData.scores.length.toString(), getMaturityLevelName(avg)];
-    });
+    const areaTableData = areaScores.map((row) => [
+      row.businessArea,
+      row.score.toFixed(1),
+      row.capabilities.toString(),
+      row.maturityLevel,
+    ]);
 
     autoTable(doc, {
       startY: yPos,
@@ -282,6 +385,127 @@ function generateExecutiveSummary(doc: JsPDFWithAutoTable, data: ExportData): nu
     yPos = doc.lastAutoTable.finalY + 15;
   }
 
+  // Radar of business area scores (needs at least three areas to form a shape)
+  if (areaScores.length >= 3) {
+    yPos = checkPageBreak(doc, yPos, 110);
+
+    doc.setFontSize(12);
+    doc.setFont("helvetica", "bold");
+    doc.setTextColor(...COLORS.secondary);
+    doc.text("Business Area Maturity Profile", MARGIN_LEFT, yPos);
+    yPos += 8;
+
+    const radius = 35;
+    drawRadarChart(
+      doc,
+      areaScores.map((row) => ({ label: row.businessArea, score: row.score })),
+      PAGE_WIDTH / 2,
+      yPos + radius + 8,
+      radius
+    );
+    yPos += radius * 2 + 28;
+  }
+
+  // Level distribution of answered questions per business area
+  const distributionRows = getLevelDistributionRows(data);
+
+  if (distributionRows.length > 0) {
+    yPos = checkPageBreak(doc, yPos, 30);
+
+    doc.setFontSize(12);
+    doc.setFont("helvetica", "bold");
+    doc.setTextColor(...COLORS.secondary);
+    doc.text("Maturity Level Distribution", MARGIN_LEFT, yPos);
+    yPos += 6;
+    yPos = drawLevelLegend(doc, MARGIN_LEFT, yPos) + 2;
+
+    const labelWidth = 60;
+    for (const row of distributionRows) {
+      yPos = checkPageBreak(doc, yPos, 8);
+      doc.setFontSize(8);
+      doc.setFont("helvetica", "normal");
+      doc.setTextColor(...COLORS.secondary);
+      const [label] = doc.splitTextToSize(row.businessArea, labelWidth - 2) as string[];
+      doc.text(label, MARGIN_LEFT, yPos + 3.8);
+      drawLevelDistributionBar(
+        doc,
+        row.counts,
+        MARGIN_LEFT + labelWidth,
+        yPos,
+        CONTENT_WIDTH - labelWidth,
+        5
+      );
+      yPos += 8;
+    }
+
+    yPos += 10;
+  }
+
+  // Target maturity gap table (only when targets have been set)
+  const areaGaps = getAreaGapRows(data);
+
+  if (areaGaps.length > 0) {
+    yPos = checkPageBreak(doc, yPos, 40);
+
+    doc.setFontSize(12);
+    doc.setFont("helvetica", "bold");
+    doc.setTextColor(...COLORS.secondary);
+    doc.text("Target Maturity Gaps", MARGIN_LEFT, yPos);
+    yPos += 8;
+
+    autoTable(doc, {
+      startY: yPos,
+      head: [["Business Area", "Current", "Target", "Gap"]],
+      body: areaGaps.map(({ businessArea, gap }) => [
+        businessArea,
+        gap.current?.toFixed(1) ?? "-",
+        gap.target?.toFixed(1) ?? "-",
+        formatGap(gap.gap),
+      ]),
+      theme: "striped",
+      headStyles: { fillColor: COLORS.primary, fontSize: 10 },
+      styles: { fontSize: 9, cellPadding: 3 },
+      columnStyles: {
+        0: { cellWidth: 70 },
+        1: { cellWidth: 25, halign: "center" },
+        2: { cellWidth: 25, halign: "center" },
+        3: { cellWidth: 25, halign: "center" },
+      },
+      margin: { left: MARGIN_LEFT, right: MARGIN_RIGHT },
+    });
+
+    yPos = doc.lastAutoTable.finalY + 15;
+  }
+
+  // Review workflow status table
+  const statusRows = getStatusRows(data);
+
+  if (statusRows.length > 0) {
+    yPos = checkPageBreak(doc, yPos, 40);
+
+    doc.setFontSize(12);
+    doc.setFont("helvetica", "bold");
+    doc.setTextColor(...COLORS.secondary);
+    doc.text("Review Status", MARGIN_LEFT, yPos);
+    yPos += 8;
+
+    autoTable(doc, {
+      startY: yPos,
+      head: [["Status", "Assessments"]],
+      body: statusRows.map(([label, count]) => [label, String(count)]),
+      theme: "striped",
+      headStyles: { fillColor: COLORS.primary, fontSize: 10 },
+      styles: { fontSize: 9, cellPadding: 3 },
+      columnStyles: {
+        0: { cellWidth: 70 },
+        1: { cellWidth: 30, halign: "center" },
+      },
+      margin: { left: MARGIN_LEFT, right: MARGIN_RIGHT },
+    });
+
+    yPos = doc.lastAutoTable.finalY + 15;
+  }
+
   return yPos;
 }
 
@@ -292,24 +516,25 @@ function generateBusinessAreaSection(
   doc: JsPDFWithAutoTable,
   businessArea: string,
   assessments: ExportData["data"]["assessments"],
-  data: ExportData
+  data: ExportData,
+  toc: TocEntry[]
 ): number {
   let yPos = MARGIN_TOP;
 
+  toc.push({ title: businessArea, level: 0, pageNumber: currentPage(doc), top: yPos });
   yPos = addSectionHeader(doc, businessArea, yPos);
 
   // Business area score summary
-  const scores = assessments.map((a) => a.score).filter((s): s is number => s !== undefined);
+  const areaScore = getAreaScore(assessments, data);
 
-  if (scores.length > 0) {
-    const avgScore = scores.reduce((a, b) => a + b, 0) / scores.length;
+  if (areaScore !== null) {
     doc.setFillColor(...COLORS.lightGray);
     doc.roundedRect(MARGIN_LEFT, yPos, CONTENT_WIDTH, 20, 3, 3, "F");
 
     doc.setFontSize(11);
     doc.setFont("helvetica", "bold");
     doc.setTextColor(...COLORS.primary);
-    doc.text(`Business Area Average: ${avgScore.toFixed(1)} / 5.0`, MARGIN_LEFT + 5, yPos + 8);
+    doc.text(`Business Area Score: ${areaScore.toFixed(1)} / 5.0`, MARGIN_LEFT + 5, yPos + 8);
 
     doc.setFont("helvetica", "normal");
     doc.setTextColor(...COLORS.darkGray);
@@ -322,9 +547,34 @@ function generateBusinessAreaSection(
     yPos += 28;
   }
 
+  // Level distribution of this area's answered questions
+  const distribution = getLevelDistributionRows(data).find(
+    (row) => row.businessArea === businessArea
+  );
+
+  if (distribution) {
+    doc.setFontSize(9);
+    doc.setFont("helvetica", "bold");
+    doc.setTextColor(...COLORS.secondary);
+    doc.text(
+      `Maturity Level Distribution (${distribution.total} answered questions)`,
+      MARGIN_LEFT,
+      yPos
+    );
+    yPos += 3;
+    drawLevelDistributionBar(doc, distribution.counts, MARGIN_LEFT, yPos, CONTENT_WIDTH, 6);
+    yPos = drawLevelLegend(doc, MARGIN_LEFT, yPos + 8) + 6;
+  }
+
   // Each capability
   for (const assessment of assessments) {
     yPos = checkPageBreak(doc, yPos, 80);
+    toc.push({
+      title: assessment.processName,
+      level: 1,
+      pageNumber: currentPage(doc),
+      top: yPos,
+    });
     yPos = generateCapabilitySection(doc, assessment, data, yPos);
   }
 
@@ -342,7 +592,7 @@ function generateCapabilitySection(
 ): number {
   let yPos = startY;
 
-  const capability = getCapabilityByCode(assessment.capabilityCode);
+  const capability = getCapabilityByCode(assessment.capabilityCode, assessment.blueprintVersion);
 
   // Capability header
   doc.setFillColor(...COLORS.primary);
@@ -367,6 +617,57 @@ function generateCapabilitySection(
 
   yPos += 12;
 
+  // Review sign-off
+  if (assessment.reviewerName || assessment.reviewedAt) {
+    const reviewedOn = assessment.reviewedAt
+      ? ` on ${new Date(assessment.reviewedAt).toLocaleDateString("en-US")}`
+      : "";
+    doc.setFontSize(8);
+    doc.setFont("helvetica", "italic");
+    doc.setTextColor(...COLORS.darkGray);
+    doc.text(
+      `Approved by ${assessment.reviewerName ?? "reviewer"}${reviewedOn}`,
+      MARGIN_LEFT,
+      yPos
+    );
+    yPos += 6;
+  }
+
+  // Scoring method that produced the capability score
+  if (assessment.score !== undefined) {
+    doc.setFontSize(8);
+    doc.setFont("helvetica", "italic");
+    doc.setTextColor(...COLORS.darkGray);
+    doc.text(
+      `Scored by: ${describeScoringStrategy(assessment.scoringStrategy)}`,
+      MARGIN_LEFT,
+      yPos
+    );
+    yPos += 6;
+  }
+
+  // Score history sparkline (once there is at least one earlier score)
+  const scoreHistory = getScoreHistory(assessment, data);
+  if (scoreHistory.length >= 2) {
+    const first = scoreHistory[0];
+    const latest = scoreHistory[scoreHistory.length - 1];
+    doc.setFontSize(8);
+    doc.setFont("helvetica", "bold");
+    doc.setTextColor(...COLORS.secondary);
+    doc.text("Score History", MARGIN_LEFT, yPos + 4);
+    drawSparkline(doc, scoreHistory, MARGIN_LEFT + 22, yPos, 50, 8);
+    doc.setFont("helvetica", "normal");
+    doc.setTextColor(...COLORS.darkGray);
+    doc.text(
+      `${first.score.toFixed(1)} (${first.date.toLocaleDateString("en-US")}) to ` +
+        `${latest.score.toFixed(1)} (${latest.date.toLocaleDateString("en-US")}), ` +
+        `${scoreHistory.length} assessments`,
+      MARGIN_LEFT + 76,
+      yPos + 4
+    );
+    yPos += 13;
+  }
+
   // Capability description from BPT
   if (capability) {
     doc.setFontSize(9);
@@ -378,113 +679,331 @@ function generateCapabilitySection(
     yPos += descLines.length * 4 + 8;
   }
 
-  // Get ratings for this assessment
-  const ratings = data.data.ratings.filter((r) => r.capabilityAssessmentId === assessment.id);
+  // Render each answered question as a block with its notes and attachments
+  for (const item of getReportQuestions(assessment, data)) {
+    const { rating } = item;
+    const ratingAttachments = item.attachments;
+    const hasNotes = rating.notes && rating.notes.trim();
+    const hasAttachments = ratingAttachments.length > 0;
 
-  // Get attachments for this assessment, grouped by rating
-  const attachmentsByRating = new Map<string, typeof data.data.attachments>();
-  for (const attachment of data.data.attachments) {
-    if (attachment.capabilityAssessmentId === assessment.id) {
-      const existing = attachmentsByRating.get(attachment.ratingId) ?? [];
-      existing.push(attachment);
-      attachmentsByRating.set(attachment.ratingId, existing);
-    }
-  }
-
-  if (ratings.length > 0 && capability) {
-    const questions = capability.bcm.maturity_model.capability_questions;
+    // Calculate space needed for this question block
+    const estimatedHeight =
+      30 + (hasNotes ? 15 : 0) + (hasAttachments ? 10 + ratingAttachments.length * 4 : 0);
+    yPos = checkPageBreak(doc, yPos, estimatedHeight);
 
-    // Render each question as a block with its notes and attachments
-    for (const rating of ratings) {
-      if (rating.level === null) continue;
+    // Question header bar
+    doc.setFillColor(...COLORS.lightGray);
+    doc.rect(MARGIN_LEFT, yPos, CONTENT_WIDTH, 6, "F");
 
-      const question = questions[rating.questionIndex];
-      if (!question) continue;
+    doc.setFontSize(8);
+    doc.setFont("helvetica", "bold");
+    doc.setTextColor(...COLORS.secondary);
+    doc.text(`${item.label}: ${item.category}`, MARGIN_LEFT + 2, yPos + 4);
 
-      const levelKey = `level_${rating.level}` as keyof typeof question.levels;
-      const levelDesc = question.levels[levelKey] || "";
-      const ratingAttachments = attachmentsByRating.get(rating.id) ?? [];
-      const hasNotes = rating.notes && rating.notes.trim();
-      const hasAttachments = ratingAttachments.length > 0;
+    // Level badge (grey N/A badge for not-applicable answers)
+    doc.setFillColor(...(rating.notApplicable ? COLORS.darkGray : COLORS.primary));
+    doc.roundedRect(PAGE_WIDTH - MARGIN_RIGHT - 18, yPos + 0.5, 15, 5, 1.5, 1.5, "F");
+    doc.setFontSize(7);
+    doc.setTextColor(...COLORS.white);
+    doc.text(item.answer, PAGE_WIDTH - MARGIN_RIGHT - 10.5, yPos + 4, { align: "center" });
 
-      // Calculate space needed for this question block
-      const estimatedHeight =
-        30 + (hasNotes ? 15 : 0) + (hasAttachments ? 10 + ratingAttachments.length * 4 : 0);
-      yPos = checkPageBreak(doc, yPos, estimatedHeight);
+    yPos += 9;
 
-      // Question header bar
-      doc.setFillColor(...COLORS.lightGray);
-      doc.rect(MARGIN_LEFT, yPos, CONTENT_WIDTH, 6, "F");
+    // Level description (or not-applicable justification)
+    doc.setFontSize(8);
+    doc.setFont("helvetica", rating.notApplicable ? "italic" : "normal");
+    doc.setTextColor(...COLORS.darkGray);
+    const descLines = doc.splitTextToSize(item.description, CONTENT_WIDTH - 4);
+    doc.text(descLines, MARGIN_LEFT + 2, yPos);
+    yPos += descLines.length * 3.5 + 2;
 
-      doc.setFontSize(8);
+    // Target level (if set)
+    if (item.target) {
+      doc.setFontSize(7);
       doc.setFont("helvetica", "bold");
       doc.setTextColor(...COLORS.secondary);
-      doc.text(`Q${rating.questionIndex + 1}: ${question.category}`, MARGIN_LEFT + 2, yPos + 4);
+      doc.text(`Target: ${item.target}`, MARGIN_LEFT + 2, yPos + 2);
+      yPos += 5;
+    }
 
-      // Level badge
-      doc.setFillColor(...COLORS.primary);
-      doc.roundedRect(PAGE_WIDTH - MARGIN_RIGHT - 18, yPos + 0.5, 15, 5, 1.5, 1.5, "F");
-      doc.setFontSize(7);
-      doc.setTextColor(...COLORS.white);
-      doc.text(`Level ${rating.level}`, PAGE_WIDTH - MARGIN_RIGHT - 10.5, yPos + 4, {
-        align: "center",
-      });
+    // Notes (if any)
+    if (hasNotes) {
+      doc.setFillColor(255, 251, 235); // Light yellow background
+      const noteLines = doc.splitTextToSize(rating.notes, CONTENT_WIDTH - 10);
+      const noteBoxHeight = noteLines.length * 3.5 + 4;
+      doc.roundedRect(MARGIN_LEFT + 2, yPos, CONTENT_WIDTH - 4, noteBoxHeight, 1, 1, "F");
 
-      yPos += 9;
+      doc.setFontSize(7);
+      doc.setFont("helvetica", "bold");
+      doc.setTextColor(...COLORS.secondary);
+      doc.text("Notes:", MARGIN_LEFT + 4, yPos + 3);
 
-      // Level description
-      doc.setFontSize(8);
       doc.setFont("helvetica", "normal");
       doc.setTextColor(...COLORS.darkGray);
-      const descLines = doc.splitTextToSize(levelDesc, CONTENT_WIDTH - 4);
-      doc.text(descLines, MARGIN_LEFT + 2, yPos);
-      yPos += descLines.length * 3.5 + 2;
-
-      // Notes (if any)
-      if (hasNotes) {
-        doc.setFillColor(255, 251, 235); // Light yellow background
-        const noteLines = doc.splitTextToSize(rating.notes, CONTENT_WIDTH - 10);
-        const noteBoxHeight = noteLines.length * 3.5 + 4;
-        doc.roundedRect(MARGIN_LEFT + 2, yPos, CONTENT_WIDTH - 4, noteBoxHeight, 1, 1, "F");
-
-        doc.setFontSize(7);
-        doc.setFont("helvetica", "bold");
-        doc.setTextColor(...COLORS.secondary);
-        doc.text("Notes:", MARGIN_LEFT + 4, yPos + 3);
+      doc.text(noteLines, MARGIN_LEFT + 4, yPos + 6.5);
+      yPos += noteBoxHeight + 2;
+    }
 
-        doc.setFont("helvetica", "normal");
-        doc.setTextColor(...COLORS.darkGray);
-        doc.text(noteLines, MARGIN_LEFT + 4, yPos + 6.5);
-        yPos += noteBoxHeight + 2;
+    // Attachments (if any)
+    if (hasAttachments) {
+      doc.setFontSize(7);
+      doc.setFont("helvetica", "bold");
+      doc.setTextColor(...COLORS.secondary);
+      doc.text("Attachments:", MARGIN_LEFT + 2, yPos + 2);
+      yPos += 4;
+
+      doc.setFont("helvetica", "normal");
+      doc.setFontSize(7);
+      doc.setTextColor(...COLORS.darkGray);
+      for (const attachment of ratingAttachments) {
+        const attachText = attachment.description
+          ? `• ${attachment.fileName} - ${attachment.description}`
+          : `• ${attachment.fileName}`;
+        doc.text(attachText, MARGIN_LEFT + 4, yPos + 2);
+        yPos += 3.5;
       }
+      yPos += 2;
+    }
 
-      // Attachments (if any)
-      if (hasAttachments) {
-        doc.setFontSize(7);
+    yPos += 4; // Space between questions
+  }
+
+  yPos += 6;
+  return yPos;
+}
+
+/**
+ * Finalized assessments with evidence, and their answered questions that have attachments
+ */
+function getEvidenceSections(data: ExportData) {
+  return getFinalizedAssessments(data)
+    .map((assessment) => ({
+      assessment,
+      questions: getReportQuestions(assessment, data).filter((item) => item.attachments.length > 0),
+    }))
+    .filter(({ questions }) => questions.length > 0);
+}
+
+/**
+ * Whether an attachment is a PDF document, whose pages can be appended to the report
+ */
+function isPdfAttachment(attachment: AttachmentMetadata): boolean {
+  return (
+    attachment.fileType === "application/pdf" || attachment.fileName.toLowerCase().endsWith(".pdf")
+  );
+}
+
+/**
+ * Generates the evidence appendix: the attachments of each answered question, with image
+ * attachments embedded as thumbnails and PDF attachments referenced by the label of their
+ * pages appended after the report
+ */
+async function generateEvidenceAppendix(
+  doc: JsPDFWithAutoTable,
+  data: ExportData,
+  evidence: Map<string, Blob>,
+  evidencePdfs: Map<string, EvidencePdf | null>
+): Promise<void> {
+  let yPos = addSectionHeader(doc, "Evidence Appendix", MARGIN_TOP);
+
+  doc.setFontSize(9);
+  doc.setFont("helvetica", "normal");
+  doc.setTextColor(...COLORS.darkGray);
+  const intro = doc.splitTextToSize(
+    "Evidence attached to each answered question of the finalized assessments in this report. " +
+      "Images are shown as thumbnails and the pages of PDF documents are appended after this " +
+      "appendix, labelled E1, E2 and so on. Other files are listed by name only.",
+    CONTENT_WIDTH
+  );
+  doc.text(intro, MARGIN_LEFT, yPos);
+  yPos += intro.length * 4 + 6;
+
+  let listed = 0;
+  for (const { assessment, questions } of getEvidenceSections(data)) {
+    // Capability header
+    yPos = checkPageBreak(doc, yPos, 30);
+    doc.setFillColor(...COLORS.primary);
+    doc.rect(MARGIN_LEFT, yPos, CONTENT_WIDTH, 8, "F");
+    doc.setFontSize(11);
+    doc.setFont("helvetica", "bold");
+    doc.setTextColor(...COLORS.white);
+    doc.text(`${assessment.processName} (${assessment.businessArea})`, MARGIN_LEFT + 3, yPos + 5.5);
+    yPos += 12;
+
+    for (const item of questions) {
+      yPos = checkPageBreak(doc, yPos, 20);
+      doc.setFillColor(...COLORS.lightGray);
+      doc.rect(MARGIN_LEFT, yPos, CONTENT_WIDTH, 6, "F");
+      doc.setFontSize(8);
+      doc.setFont("helvetica", "bold");
+      doc.setTextColor(...COLORS.secondary);
+      const [heading] = doc.splitTextToSize(
+        `${item.label}: ${item.question}`,
+        CONTENT_WIDTH - 4
+      ) as string[];
+      doc.text(heading, MARGIN_LEFT + 2, yPos + 4);
+      yPos += 9;
+
+      for (const attachment of item.attachments) {
+        yPos = checkPageBreak(doc, yPos, 12);
+        doc.setFontSize(8);
         doc.setFont("helvetica", "bold");
         doc.setTextColor(...COLORS.secondary);
-        doc.text("Attachments:", MARGIN_LEFT + 2, yPos + 2);
+        doc.text(
+          `${attachment.fileName} (${formatFileSize(attachment.fileSize)})`,
+          MARGIN_LEFT + 4,
+          yPos
+        );
         yPos += 4;
 
-        doc.setFont("helvetica", "normal");
-        doc.setFontSize(7);
-        doc.setTextColor(...COLORS.darkGray);
-        for (const attachment of ratingAttachments) {
-          const attachText = attachment.description
-            ? `• ${attachment.fileName} - ${attachment.description}`
-            : `• ${attachment.fileName}`;
-          doc.text(attachText, MARGIN_LEFT + 4, yPos + 2);
-          yPos += 3.5;
+        if (attachment.description) {
+          doc.setFont("helvetica", "normal");
+          doc.setTextColor(...COLORS.darkGray);
+          const descLines = doc.splitTextToSize(attachment.description, CONTENT_WIDTH - 8);
+          doc.text(descLines, MARGIN_LEFT + 4, yPos);
+          yPos += descLines.length * 3.5;
+        }
+
+        const blob = evidence.get(attachment.id);
+        const pdf = evidencePdfs.get(attachment.id);
+        const note = !blob
+          ? "File not found in local storage"
+          : isPdfAttachment(attachment)
+            ? pdf
+              ? `Appended after this appendix as ${pdf.label} (${pdf.pageCount} page${pdf.pageCount === 1 ? "" : "s"})`
+              : "PDF could not be read (damaged or password protected), so it is not appended"
+            : undefined;
+        if (note) {
+          doc.setFont("helvetica", "italic");
+          doc.setTextColor(...COLORS.darkGray);
+          doc.text(note, MARGIN_LEFT + 4, yPos);
+          yPos += 4;
+        } else if (blob && IMAGE_FORMATS[attachment.fileType]) {
+          yPos = await addThumbnail(doc, blob, IMAGE_FORMATS[attachment.fileType], yPos);
         }
-        yPos += 2;
+
+        yPos += 3;
+        listed++;
       }
+      yPos += 2;
+    }
+    yPos += 4;
+  }
 
-      yPos += 4; // Space between questions
+  if (listed === 0) {
+    doc.setFontSize(10);
+    doc.setFont("helvetica", "italic");
+    doc.setTextColor(...COLORS.darkGray);
+    doc.text("No evidence is attached to the assessments in this report.", MARGIN_LEFT, yPos);
+  }
+}
+
+/**
+ * Embeds an image scaled to fit the thumbnail box, returning the y below it
+ * Images jsPDF cannot decode get a note instead.
+ */
+async function addThumbnail(
+  doc: JsPDFWithAutoTable,
+  blob: Blob,
+  format: string,
+  yPos: number
+): Promise<number> {
+  try {
+    const image = new Uint8Array(await blob.arrayBuffer());
+    const { width, height } = doc.getImageProperties(image);
+    const scale = Math.min(
+      PX_TO_MM, // Never enlarge beyond the image's size at 96 dpi
+      THUMBNAIL_MAX_WIDTH / width,
+      THUMBNAIL_MAX_HEIGHT / height
+    );
+    const thumbWidth = width * scale;
+    const thumbHeight = height * scale;
+
+    const top = checkPageBreak(doc, yPos + 1, thumbHeight + 2);
+    doc.addImage(image, format, MARGIN_LEFT + 4, top, thumbWidth, thumbHeight);
+    doc.setDrawColor(...COLORS.mediumGray);
+    doc.rect(MARGIN_LEFT + 4, top, thumbWidth, thumbHeight, "S");
+    return top + thumbHeight + 2;
+  } catch {
+    doc.setFontSize(8);
+    doc.setFont("helvetica", "italic");
+    doc.setTextColor(...COLORS.darkGray);
+    doc.text("Image could not be embedded", MARGIN_LEFT + 4, yPos);
+    return yPos + 4;
+  }
+}
+
+/**
+ * Draws the table of contents on the pages reserved after the cover
+ * Page numbers match the footer numbering, which skips the cover. Each line links to its section.
+ */
+function generateTableOfContents(
+  doc: JsPDFWithAutoTable,
+  toc: TocEntry[],
+  firstPage: number
+): void {
+  const pageNumberX = PAGE_WIDTH - MARGIN_RIGHT;
+
+  toc.forEach((entry, index) => {
+    const line = index % TOC_LINES_PER_PAGE;
+    if (line === 0) {
+      doc.setPage(firstPage + index / TOC_LINES_PER_PAGE);
+      addSectionHeader(
+        doc,
+        index === 0 ? "Table of Contents" : "Table of Contents (continued)",
+        MARGIN_TOP
+      );
+    }
+    const yPos = MARGIN_TOP + 15 + line * TOC_LINE_HEIGHT + 4;
+    const indent = entry.level === 1 ? 6 : 0;
+    const pageLabel = String(entry.pageNumber - 1);
+
+    doc.setFontSize(entry.level === 0 ? 10 : 9);
+    doc.setFont("helvetica", entry.level === 0 ? "bold" : "normal");
+    doc.setTextColor(...(entry.level === 0 ? COLORS.secondary : COLORS.darkGray));
+
+    const maxTitleWidth = CONTENT_WIDTH - indent - 20;
+    const [title] = doc.splitTextToSize(entry.title, maxTitleWidth) as string[];
+    doc.text(title, MARGIN_LEFT + indent, yPos);
+    doc.text(pageLabel, pageNumberX, yPos, { align: "right" });
+
+    // Dotted leader between the title and the page number
+    const leaderStart = MARGIN_LEFT + indent + doc.getTextWidth(title) + 2;
+    const leaderEnd = pageNumberX - doc.getTextWidth(pageLabel) - 2;
+    if (leaderEnd > leaderStart) {
+      doc.setDrawColor(...COLORS.mediumGray);
+      doc.setLineDashPattern([0.5, 1], 0);
+      doc.line(leaderStart, yPos, leaderEnd, yPos);
+      doc.setLineDashPattern([], 0);
+    }
+
+    doc.link(MARGIN_LEFT, yPos - 4, CONTENT_WIDTH, TOC_LINE_HEIGHT, {
+      pageNumber: entry.pageNumber,
+      top: entry.top,
+    });
+  });
+}
+
+/**
+ * Adds PDF bookmarks mirroring the table of contents, capabilities nested under their area
+ */
+function addOutline(doc: JsPDFWithAutoTable, toc: TocEntry[], tocPage: number): void {
+  doc.outline.add(null, "Table of Contents", { pageNumber: tocPage });
+  let parent: ReturnType<typeof doc.outline.add> | null = null;
+  for (const entry of toc) {
+    if (entry.level === 0) {
+      parent = doc.outline.add(null, entry.title, { pageNumber: entry.pageNumber });
+    } else {
+      doc.outline.add(parent, entry.title, { pageNumber: entry.pageNumber });
     }
   }
+}
 
-  yPos += 6;
-  return yPos;
+/**
+ * Physical number of the page being drawn on
+ */
+function currentPage(doc: JsPDFWithAutoTable): number {
+  return doc.getCurrentPageInfo().pageNumber;
 }
 
 /**
@@ -516,8 +1035,13 @@ function checkPageBreak(doc: JsPDFWithAutoTable, yPos: number, requiredSpace: nu
 /**
  * Adds page numbers and footer to all pages
  */
-function addPageNumbersAndFooter(doc: JsPDFWithAutoTable, stateName: string): void {
+function addPageNumbersAndFooter(
+  doc: JsPDFWithAutoTable,
+  stateName: string,
+  appendedPageCount = 0
+): void {
   const pageCount = doc.getNumberOfPages();
+  const totalPages = pageCount - 1 + appendedPageCount; // The cover is not numbered
 
   for (let i = 1; i <= pageCount; i++) {
     doc.setPage(i);
@@ -529,7 +1053,7 @@ function addPageNumbersAndFooter(doc: JsPDFWithAutoTable, stateName: string): vo
 
     doc.setFontSize(9);
     doc.setTextColor(...COLORS.darkGray);
-    doc.text(`Page ${i - 1} of ${pageCount - 1}`, PAGE_WIDTH / 2, PAGE_HEIGHT - 12, {
+    doc.text(`Page ${i - 1} of ${totalPages}`, PAGE_WIDTH / 2, PAGE_HEIGHT - 12, {
       align: "center",
     });
 
@@ -48,6 +48,17 @@ export const COLORS = {
   white: [255, 255, 255] as [number, number, number],
 } as const;
 
+/**
+ * Fill colors for maturity levels 1-5 in charts, light to dark
+ */
+export const LEVEL_COLORS: [number, number, number][] = [
+  [222, 235, 247],
+  [158, 202, 225],
+  [66, 146, 198],
+  [0, 91, 150],
+  [8, 48, 107],
+];
+
 /**
  * Get maturity level name from numeric score
  * @param score - Numeric score (1-5)
@@ -0,0 +1,292 @@
+/**
+ * Bulk Rating Import Service for MITA 3.0
+ *
+ * Reads ratings captured in a CSV or XLSX spreadsheet, validates every row against the
+ * blueprint and the open assessments, and previews the changes before writing them.
+ * Ratings are written through the same saveRating logic as the assessment page, so audit
+ * entries and assessment timestamps are recorded as if the ratings were entered by hand.
+ */
+
+import { db } from "../db";
+import { getCapabilityByCode } from "../blueprint";
+import {
+  CUSTOM_QUESTION_INDEX_OFFSET,
+  getCustomQuestions,
+  getQuestionLabel,
+} from "../customQuestions";
+import { saveRating } from "../ratings";
+import { isEditableStatus, isOpenStatus, STATUS_LABELS } from "../workflow";
+import { readFileAsText } from "./importService";
+import { parseCsv, readXlsx, unguardFormula, type CellValue, type Worksheet } from "./spreadsheet";
+import type { RatingImportChange, RatingImportIssue, RatingImportPreview } from "./types";
+import type { CapabilityAssessment, CapabilityQuestion } from "../../types";
+
+// Accepted header names for each column (compared lowercased, with whitespace collapsed)
+const COLUMN_ALIASES = {
+  capabilityCode: ["capability code", "code"],
+  questionIndex: ["question #", "question index", "question number", "question no", "#"],
+  question: ["question", "question text"],
+  level: ["level", "rating", "maturity level"],
+  notes: ["notes", "note", "comments"],
+} as const;
+
+type ImportColumn = keyof typeof COLUMN_ALIASES;
+
+interface ImportRow {
+  source: string;
+  values: Partial<Record<ImportColumn, string>>;
+}
+
+// Open assessment and question list for one capability code
+interface CapabilityTarget {
+  assessment?: CapabilityAssessment;
+  questions: (CapabilityQuestion & { questionIndex: number })[];
+}
+
+function normalizeText(value: string): string {
+  return value.trim().replace(/\s+/g, " ").toLowerCase();
+}
+
+function cellText(value: CellValue): string {
+  return value === null || value === undefined ? "" : String(value).trim();
+}
+
+/**
+ * Map each sheet's header row to the import columns and collect the data rows
+ * Throws when no sheet has both a capability code column and a level column.
+ */
+function collectRows(sheets: Worksheet[]): ImportRow[] {
+  const rows: ImportRow[] = [];
+  let foundHeader = false;
+
+  for (const sheet of sheets) {
+    const headerIndex = sheet.rows.findIndex((row) => row.some((cell) => cellText(cell) !== ""));
+    if (headerIndex < 0) continue;
+
+    const columns = new Map<ImportColumn, number>();
+    sheet.rows[headerIndex].forEach((cell, index) => {
+      const header = normalizeText(cellText(cell));
+      for (const [column, aliases] of Object.entries(COLUMN_ALIASES) as [
+        ImportColumn,
+        readonly string[],
+      ][]) {
+        if (!columns.has(column) && aliases.includes(header)) {
+          columns.set(column, index);
+        }
+      }
+    });
+    if (!columns.has("capabilityCode") || !columns.has("level")) continue;
+    foundHeader = true;
+
+    const prefix = sheets.length > 1 ? `${sheet.name}, row` : "Row";
+    for (let r = headerIndex + 1; r < sheet.rows.length; r++) {
+      const values: ImportRow["values"] = {};
+      for (const [column, index] of columns) {
+        const text = cellText(sheet.rows[r][index]);
+        if (text) values[column] = text;
+      }
+      if (Object.keys(values).length > 0) {
+        rows.push({ source: `${prefix} ${r + 1}`, values });
+      }
+    }
+  }
+
+  if (!foundHeader) {
+    throw new Error(
+      'No ratings found: the header row needs at least "Capability Code" and "Level" columns'
+    );
+  }
+  return rows;
+}
+
+/**
+ * Parse a question reference: "Q3" and "C1" labels, or a 1-based question number
+ */
+function parseQuestionIndex(value: string): number | undefined {
+  const match = value.match(/^([QC])?\s*(\d+)$/i);
+  if (!match || Number(match[2]) < 1) return undefined;
+  const offset = match[1]?.toUpperCase() === "C" ? CUSTOM_QUESTION_INDEX_OFFSET : 0;
+  return offset + Number(match[2]) - 1;
+}
+
+function parseLevel(value: string): 1 | 2 | 3 | 4 | 5 | undefined {
+  const match = value.trim().match(/^(?:level\s*)?([1-5])(?:\.0+)?$/i);
+  return match ? (Number(match[1]) as 1 | 2 | 3 | 4 | 5) : undefined;
+}
+
+async function loadCapabilityTarget(capabilityCode: string): Promise<CapabilityTarget | null> {
+  if (!getCapabilityByCode(capabilityCode)) return null;
+
+  const assessment = await db.capabilityAssessments
+    .where("capabilityCode")
+    .equals(capabilityCode)
+    .filter((a) => isOpenStatus(a.status))
+    .first();
+
+  // Validate against the blueprint version the assessment is pinned to
+  const capability = getCapabilityByCode(capabilityCode, assessment?.blueprintVersion);
+  const customQuestions = await getCustomQuestions(capabilityCode);
+  return {
+    assessment,
+    questions: [
+      ...(capability?.bcm.maturity_model.capability_questions ?? []).map((q, index) => ({
+        ...q,
+        questionIndex: index,
+      })),
+      ...customQuestions,
+    ],
+  };
+}
+
+/**
+ * Read a CSV or XLSX file of ratings and preview what importing it would change
+ * Nothing is written; rows that cannot be imported are listed as issues.
+ */
+export async function previewRatingImport(file: File): Promise<RatingImportPreview> {
+  const name = file.name.toLowerCase();
+  let sheets: Worksheet[];
+  if (name.endsWith(".xlsx")) {
+    sheets = await readXlsx(file);
+  } else if (name.endsWith(".csv")) {
+    const rows = parseCsv(await readFileAsText(file)).map((row) => row.map(unguardFormula));
+    sheets = [{ name: file.name, rows }];
+  } else {
+    throw new Error("Please select a .csv or .xlsx file");
+  }
+
+  const rows = collectRows(sheets);
+  const targets = new Map<string, CapabilityTarget | null>();
+  const changes = new Map<string, RatingImportChange>();
+  const issues: RatingImportIssue[] = [];
+
+  for (const { source, values } of rows) {
+    const issue = (message: string) => issues.push({ source, message });
+
+    const capabilityCode = values.capabilityCode ?? "";
+    if (!capabilityCode) {
+      issue("Capability code is missing");
+      continue;
+    }
+    if (!targets.has(capabilityCode)) {
+      targets.set(capabilityCode, await loadCapabilityTarget(capabilityCode));
+    }
+    const target = targets.get(capabilityCode);
+    if (!target) {
+      issue(`Unknown capability code "${capabilityCode}"`);
+      continue;
+    }
+
+    // Blank answers (e.g. unanswered rows of an exported ratings matrix) are not imported
+    if (!values.level) {
+      if (values.notes) issue("Level is missing");
+      continue;
+    }
+    if (normalizeText(values.level) === "n/a") {
+      issue("Not-applicable answers need a justification; mark them in the assessment instead");
+      continue;
+    }
+    const level = parseLevel(values.level);
+    if (!level) {
+      issue(`Level "${values.level}" is not between 1 and 5`);
+      continue;
+    }
+
+    const assessment = target.assessment;
+    if (!assessment) {
+      issue(`No in-progress assessment for ${capabilityCode}; start one first`);
+      continue;
+    }
+    if (!isEditableStatus(assessment.status)) {
+      issue(
+        `${assessment.processName} is ${STATUS_LABELS[assessment.status].toLowerCase()} and cannot be edited`
+      );
+      continue;
+    }
+
+    let question: CapabilityTarget["questions"][number] | undefined;
+    if (values.questionIndex) {
+      const questionIndex = parseQuestionIndex(values.questionIndex);
+      question = target.questions.find((q) => q.questionIndex === questionIndex);
+      if (!question) {
+        issue(`${assessment.processName} has no question "${values.questionIndex}"`);
+        continue;
+      }
+    } else if (values.question) {
+      const text = normalizeText(values.question);
+      question = target.questions.find((q) => normalizeText(q.question) === text);
+      if (!question) {
+        issue(`No ${assessment.processName} question matches the question text`);
+        continue;
+      }
+    } else {
+      issue("Question number or question text is missing");
+      continue;
+    }
+
+    const existing = await db.ratings
+      .where("[capabilityAssessmentId+questionIndex]")
+      .equals([assessment.id, question.questionIndex])
+      .first();
+
+    // Blank notes keep the notes already on the rating
+    const notes = values.notes ?? existing?.notes ?? "";
+    const action = !existing
+      ? "create"
+      : existing.level === level && existing.notes === notes && !existing.notApplicable
+        ? "unchanged"
+        : "overwrite";
+
+    const key = `${assessment.id}:${question.questionIndex}`;
+    const superseded = changes.get(key);
+    if (superseded) {
+      issues.push({ source: superseded.source, message: `Superseded by ${source}` });
+    }
+    changes.set(key, {
+      source,
+      capabilityAssessmentId: assessment.id,
+      capabilityCode,
+      processName: assessment.processName,
+      questionIndex: question.questionIndex,
+      questionLabel: getQuestionLabel(question.questionIndex),
+      question: question.question,
+      level,
+      notes,
+      action,
+      previousLevel: existing?.level,
+      previousNotes: existing?.notes,
+    });
+  }
+
+  return { fileName: file.name, changes: [...changes.values()], issues };
+}
+
+/**
+ * Write the created and overwritten ratings from a preview in a single transaction
+ * Returns the number of ratings written.
+ */
+export async function applyRatingImport(preview: RatingImportPreview): Promise<number> {
+  const pending = preview.changes.filter((change) => change.action !== "unchanged");
+
+  await db.transaction("rw", [db.ratings, db.capabilityAssessments, db.ratingAudit], async () => {
+    // Assessments may have been submitted since the preview was built
+    for (const assessmentId of new Set(pending.map((c) => c.capabilityAssessmentId))) {
+      const assessment = await db.capabilityAssessments.get(assessmentId);
+      if (!assessment || !isEditableStatus(assessment.status)) {
+        throw new Error(
+          `${assessment?.processName ?? "An assessment"} can no longer be edited; preview the file again`
+        );
+      }
+    }
+
+    for (const change of pending) {
+      await saveRating(
+        change.capabilityAssessmentId,
+        change.questionIndex,
+        change.level,
+        change.notes
+      );
+    }
+  });
+
+  return pending.length;
+}
@@ -0,0 +1,293 @@
+/**
+ * Report Data for MITA 3.0
+ *
+ * Summaries shared by the PDF and Word reports, so both formats present the same figures:
+ * overall and business area scores, target gaps, review status counts, and the answered
+ * questions of each capability.
+ */
+
+import {
+  findAssessmentQuestion,
+  getQuestionLabel,
+  isCustomQuestionIndex,
+} from "../customQuestions";
+import { getCapabilityByCode } from "../blueprint";
+import { STATUS_LABELS } from "../workflow";
+import { combineGapSummaries, summarizeCapabilityGap, type GapSummary } from "../gapAnalysis";
+import { aggregateScores, DEFAULT_SCORING_STRATEGY } from "../scoring";
+import { formatDate } from "../../utils/dateFormatters";
+import { getMaturityLevelName } from "./pdfStyles";
+import type { AssessmentExport, AttachmentMetadata, ExportData, RatingExport } from "./types";
+
+/**
+ * Score row for one business area
+ */
+export interface AreaScoreRow {
+  businessArea: string;
+  score: number;
+  capabilities: number;
+  maturityLevel: string;
+}
+
+/**
+ * Current vs target row for one business area
+ */
+export interface AreaGapRow {
+  businessArea: string;
+  gap: GapSummary;
+}
+
+/**
+ * An answered question of a capability, ready to render
+ */
+export interface ReportQuestion {
+  rating: RatingExport;
+  label: string; // e.g. "Q3" or "C1 (custom)"
+  category: string;
+  question: string;
+  answer: string; // "Level 3" or "N/A"
+  description: string; // Level descriptor, or the not-applicable justification
+  target?: string; // e.g. "Level 4 by 6/30/2027 (gap of 1)"
+  attachments: AttachmentMetadata[];
+}
+
+/**
+ * How the answered questions of one business area spread across maturity levels
+ */
+export interface LevelDistributionRow {
+  businessArea: string;
+  counts: number[]; // Answers at levels 1-5 (index 0 is level 1)
+  total: number;
+}
+
+/**
+ * A capability score at a point in time
+ */
+export interface ScoreHistoryPoint {
+  date: Date;
+  score: number;
+}
+
+/**
+ * Finalized assessments, the only ones scored in reports
+ */
+export function getFinalizedAssessments(data: ExportData): AssessmentExport[] {
+  return data.data.assessments.filter((a) => a.status === "finalized");
+}
+
+/**
+ * Overall maturity score across finalized assessments, or null when none are scored
+ */
+export function getOverallScore(data: ExportData): number | null {
+  const scores = getFinalizedAssessments(data)
+    .map((a) => a.score)
+    .filter((s): s is number => s !== undefined);
+  return aggregateScores(scores, (data.scoringStrategy ?? DEFAULT_SCORING_STRATEGY).method);
+}
+
+/**
+ * Score for a group of assessments, combined with the export's scoring method
+ */
+export function getAreaScore(assessments: AssessmentExport[], data: ExportData): number | null {
+  const scores = assessments.map((a) => a.score).filter((s): s is number => s !== undefined);
+  return aggregateScores(scores, (data.scoringStrategy ?? DEFAULT_SCORING_STRATEGY).method);
+}
+
+/**
+ * Finalized assessments grouped by business area, in export order
+ */
+export function groupFinalizedByArea(data: ExportData): Map<string, AssessmentExport[]> {
+  const assessmentsByArea = new Map<string, AssessmentExport[]>();
+  for (const assessment of getFinalizedAssessments(data)) {
+    const existing = assessmentsByArea.get(assessment.businessArea);
+    if (existing) {
+      existing.push(assessment);
+    } else {
+      assessmentsByArea.set(assessment.businessArea, [assessment]);
+    }
+  }
+  return assessmentsByArea;
+}
+
+/**
+ * Business area maturity scores, for areas with at least one scored assessment
+ */
+export function getAreaScoreRows(data: ExportData): AreaScoreRow[] {
+  const rows: AreaScoreRow[] = [];
+  for (const [businessArea, assessments] of groupFinalizedByArea(data)) {
+    const scored = assessments.filter((a) => a.score !== undefined);
+    if (scored.length === 0) continue;
+    const score = getAreaScore(scored, data) ?? 0;
+    rows.push({
+      businessArea,
+      score,
+      capabilities: scored.length,
+      maturityLevel: getMaturityLevelName(score),
+    });
+  }
+  return rows;
+}
+
+/**
+ * Maturity level distribution of answered questions by business area (N/A answers excluded)
+ */
+export function getLevelDistributionRows(data: ExportData): LevelDistributionRow[] {
+  const rows: LevelDistributionRow[] = [];
+  for (const [businessArea, assessments] of groupFinalizedByArea(data)) {
+    const assessmentIds = new Set(assessments.map((a) => a.id));
+    const counts = [0, 0, 0, 0, 0];
+    for (const rating of data.data.ratings) {
+      if (!assessmentIds.has(rating.capabilityAssessmentId)) continue;
+      if (rating.notApplicable || rating.level === null) continue;
+      counts[rating.level - 1]++;
+    }
+    const total = counts.reduce((sum, count) => sum + count, 0);
+    if (total > 0) rows.push({ businessArea, counts, total });
+  }
+  return rows;
+}
+
+/**
+ * Scores of a capability over time, oldest first: its history snapshots, then the current score
+ */
+export function getScoreHistory(
+  assessment: AssessmentExport,
+  data: ExportData
+): ScoreHistoryPoint[] {
+  const points: ScoreHistoryPoint[] = data.data.history
+    .filter((h) => h.capabilityCode === assessment.capabilityCode)
+    .map((h) => ({ date: new Date(h.snapshotDate), score: h.score }));
+  if (assessment.score !== undefined) {
+    points.push({
+      date: new Date(assessment.finalizedAt ?? assessment.updatedAt),
+      score: assessment.score,
+    });
+  }
+  return points.sort((a, b) => a.date.getTime() - b.date.getTime());
+}
+
+/**
+ * Target maturity gaps by business area (only areas where targets have been set)
+ */
+export function getAreaGapRows(data: ExportData): AreaGapRow[] {
+  const areaGaps = new Map<string, GapSummary[]>();
+  for (const assessment of getFinalizedAssessments(data)) {
+    const ratings = data.data.ratings.filter((r) => r.capabilityAssessmentId === assessment.id);
+    const gap = summarizeCapabilityGap(ratings, assessment.score);
+    if (gap.questionsWithTarget === 0) continue;
+    const existing = areaGaps.get(assessment.businessArea) ?? [];
+    existing.push(gap);
+    areaGaps.set(assessment.businessArea, existing);
+  }
+  return Array.from(areaGaps.entries()).map(([businessArea, gaps]) => ({
+    businessArea,
+    gap: combineGapSummaries(gaps),
+  }));
+}
+
+/**
+ * Format a gap as "+1.2", or "-" when unknown
+ */
+export function formatGap(gap: number | null): string {
+  return gap !== null ? (gap > 0 ? "+" : "") + gap.toFixed(1) : "-";
+}
+
+/**
+ * Assessment counts per review status, in workflow order, skipping empty statuses
+ */
+export function getStatusRows(data: ExportData): [label: string, count: number][] {
+  const statusCounts = new Map<string, number>();
+  for (const assessment of data.data.assessments) {
+    const label = STATUS_LABELS[assessment.status];
+    statusCounts.set(label, (statusCounts.get(label) ?? 0) + 1);
+  }
+  return Object.values(STATUS_LABELS)
+    .filter((label) => statusCounts.has(label))
+    .map((label) => [label, statusCounts.get(label) ?? 0]);
+}
+
+/**
+ * Tag, status and date filters the export was limited to, e.g.
+ * "Tagged #provider-module; Finalized; changed since 1/15/2025", or null when unfiltered
+ */
+export function describeExportFilters(data: ExportData): string | null {
+  const filters = data.scopeDetails?.filters;
+  if (!filters) return null;
+
+  const parts: string[] = [];
+  if (filters.tags) parts.push(`Tagged ${filters.tags.join(" or ")}`);
+  if (filters.statuses) parts.push(filters.statuses.map((s) => STATUS_LABELS[s]).join(" or "));
+  if (filters.updatedSince && filters.updatedBefore) {
+    parts.push(
+      `changed ${formatDate(filters.updatedSince)} to before ${formatDate(filters.updatedBefore)}`
+    );
+  } else if (filters.updatedSince) {
+    parts.push(`changed since ${formatDate(filters.updatedSince)}`);
+  } else if (filters.updatedBefore) {
+    parts.push(`changed before ${formatDate(filters.updatedBefore)}`);
+  }
+  return parts.length > 0 ? parts.join("; ") : null;
+}
+
+/**
+ * Answered questions of an assessment, blueprint questions first and custom questions last
+ */
+export function getReportQuestions(
+  assessment: AssessmentExport,
+  data: ExportData
+): ReportQuestion[] {
+  const capability = getCapabilityByCode(assessment.capabilityCode, assessment.blueprintVersion);
+  if (!capability) return [];
+
+  const questions = capability.bcm.maturity_model.capability_questions;
+  const customQuestions = (data.data.customQuestions ?? []).filter(
+    (q) => q.capabilityCode === assessment.capabilityCode
+  );
+  const ratings = data.data.ratings
+    .filter((r) => r.capabilityAssessmentId === assessment.id)
+    .sort((a, b) => a.questionIndex - b.questionIndex);
+
+  // Attachments for this assessment, grouped by rating
+  const attachmentsByRating = new Map<string, AttachmentMetadata[]>();
+  for (const attachment of data.data.attachments) {
+    if (attachment.capabilityAssessmentId === assessment.id) {
+      const existing = attachmentsByRating.get(attachment.ratingId) ?? [];
+      existing.push(attachment);
+      attachmentsByRating.set(attachment.ratingId, existing);
+    }
+  }
+
+  const result: ReportQuestion[] = [];
+  for (const rating of ratings) {
+    if (rating.level === null && !rating.notApplicable) continue;
+
+    const question = findAssessmentQuestion(questions, customQuestions, rating.questionIndex);
+    if (!question) continue;
+
+    const levelKey = `level_${rating.level}` as keyof typeof question.levels;
+    let target: string | undefined;
+    if (rating.targetLevel && rating.level !== null) {
+      const gap = rating.targetLevel - rating.level;
+      const targetBy = rating.targetDate
+        ? ` by ${new Date(rating.targetDate).toLocaleDateString("en-US")}`
+        : "";
+      target = `Level ${rating.targetLevel}${targetBy}${gap > 0 ? ` (gap of ${gap})` : ""}`;
+    }
+
+    result.push({
+      rating,
+      label: isCustomQuestionIndex(rating.questionIndex)
+        ? `${getQuestionLabel(rating.questionIndex)} (custom)`
+        : getQuestionLabel(rating.questionIndex),
+      category: question.category,
+      question: question.question,
+      answer: rating.notApplicable ? "N/A" : `Level ${rating.level}`,
+      description: rating.notApplicable
+        ? `Not applicable: ${rating.notApplicableReason || "No justification recorded"}`
+        : question.levels[levelKey] || "",
+      target,
+      attachments: attachmentsByRating.get(rating.id) ?? [],
+    });
+  }
+  return result;
+}
@@ -0,0 +1,81 @@
+import JSZip from "jszip";
+import { describe, expect, it } from "vitest";
+import { createXlsx, parseCsv, toCsv, unguardFormula } from "./spreadsheet";
+
+describe("toCsv", () => {
+  it("writes a byte order mark and CRLF line endings", () => {
+    expect(
+      toCsv([
+        ["Code", "Level"],
+        ["CM_Establish_Case", 3],
+      ])
+    ).toBe("\uFEFFCode,Level\r\nCM_Establish_Case,3\r\n");
+  });
+
+  it("quotes fields with commas, quotes and line breaks", () => {
+    expect(toCsv([["a,b", 'say "hi"', "two\nlines"]])).toBe(
+      '\uFEFF"a,b","say ""hi""","two\nlines"\r\n'
+    );
+  });
+
+  it("writes empty cells for null and undefined", () => {
+    expect(toCsv([["a", null, undefined, ""]])).toBe("\uFEFFa,,,\r\n");
+  });
+
+  it("prefixes text that would start a formula with an apostrophe", () => {
+    const csv = toCsv([["=SUM(A1:A2)", "+1", "-x", "@cmd", "\tTab", "plain"]]);
+    expect(csv).toBe("\uFEFF'=SUM(A1:A2),'+1,'-x,'@cmd,'\tTab,plain\r\n");
+  });
+
+  it("quotes a guarded cell starting with a carriage return", () => {
+    expect(toCsv([["\rcmd"]])).toBe('\uFEFF"\'\rcmd"\r\n');
+  });
+
+  it("writes negative numbers as numbers", () => {
+    expect(toCsv([[-1.5]])).toBe("\uFEFF-1.5\r\n");
+  });
+});
+
+describe("parseCsv", () => {
+  it("parses quoted fields with embedded commas, quotes and line breaks", () => {
+    expect(parseCsv('a,"b,c","say ""hi""","two\r\nlines"\r\nd,e,f,g')).toEqual([
+      ["a", "b,c", 'say "hi"', "two\r\nlines"],
+      ["d", "e", "f", "g"],
+    ]);
+  });
+
+  it("skips a leading byte order mark and accepts LF line endings", () => {
+    expect(parseCsv("\uFEFFa,b\nc,d\n")).toEqual([
+      ["a", "b"],
+      ["c", "d"],
+    ]);
+  });
+
+  it("reads back what toCsv writes", () => {
+    const rows = [
+      ["Code", "Notes"],
+      ["CM_Establish_Case", 'Quoted "text", with a comma'],
+      ["PM_Enroll_Provider", "Line one\r\nLine two"],
+    ];
+    expect(parseCsv(toCsv(rows))).toEqual(rows);
+  });
+
+  it("round trips guarded formula text through unguardFormula", () => {
+    const [[cell]] = parseCsv(toCsv([["=1+1"]]));
+    expect(cell).toBe("'=1+1");
+    expect(unguardFormula(cell)).toBe("=1+1");
+    expect(unguardFormula("'quoted")).toBe("'quoted");
+  });
+});
+
+describe("createXlsx", () => {
+  it("writes text starting with a formula character unchanged, as an inline string", async () => {
+    const blob = await createXlsx([{ name: "Ratings", rows: [["Notes"], ["-Partially done"]] }]);
+    const zip = await JSZip.loadAsync(await blob.arrayBuffer());
+    const sheet = await zip.file("xl/worksheets/sheet1.xml")!.async("string");
+
+    expect(sheet).toContain(
+      '<c r="A2" t="inlineStr"><is><t xml:space="preserve">-Partially done</t></is></c>'
+    );
+  });
+});
@@ -0,0 +1,362 @@
+/**
+ * Spreadsheet writers for MITA 3.0
+ *
+ * Minimal CSV and XLSX (Office Open XML) reading and writing. XLSX workbooks are assembled with
+ * JSZip from plain SpreadsheetML parts, using inline strings so no shared string table is needed;
+ * the reader handles shared strings as well, since that is what Excel itself writes.
+ */
+
+import JSZip from "jszip";
+import { escapeXml, XML_DECLARATION } from "./xml";
+
+/** Value of a single spreadsheet cell (empty when null or undefined) */
+export type CellValue = string | number | null | undefined;
+
+/**
+ * Worksheet to write into a workbook; the first row is styled as a header
+ */
+export interface Worksheet {
+  name: string;
+  rows: CellValue[][];
+  columnWidths?: number[]; // In characters, per column
+}
+
+/** Excel's limit on worksheet name length */
+const MAX_SHEET_NAME_LENGTH = 31;
+
+/** Leading characters that make spreadsheet applications treat text as a formula */
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+/**
+ * Prefixes text that a spreadsheet application would evaluate as a formula with an apostrophe,
+ * so free text (notes, names) in a CSV cannot inject formulas (CSV injection)
+ * XLSX does not need this: inline string cells are never evaluated.
+ */
+function guardFormula(text: string): string {
+  return FORMULA_PREFIX.test(text) ? `'${text}` : text;
+}
+
+/**
+ * Removes the apostrophe added by the formula guard when reading an exported CSV back in
+ */
+export function unguardFormula(text: string): string {
+  return text.startsWith("'") && FORMULA_PREFIX.test(text.slice(1)) ? text.slice(1) : text;
+}
+
+/**
+ * Format rows as CSV (RFC 4180), with a byte order mark so Excel reads it as UTF-8
+ * Text cells that would start a formula are prefixed with an apostrophe; numbers are written as is.
+ */
+export function toCsv(rows: CellValue[][]): string {
+  const escape = (value: CellValue): string => {
+    const text =
+      value === null || value === undefined
+        ? ""
+        : typeof value === "number"
+          ? String(value)
+          : guardFormula(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  return "\uFEFF" + rows.map((row) => row.map(escape).join(",")).join("\r\n") + "\r\n";
+}
+
+/**
+ * Parse CSV text (RFC 4180) into rows of strings
+ * Handles quoted fields with embedded commas, quotes and line breaks, and a leading byte order mark.
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  const input = text.startsWith("\uFEFF") ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  // Last line without a trailing line break
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
+
+/**
+ * Make a valid, unique worksheet name: no []:*?/\ characters, at most 31 characters
+ */
+export function toSheetName(name: string, usedNames: Set<string>): string {
+  const base = name.replace(/[[\]:*?/\\]/g, " ").trim() || "Sheet";
+  let candidate = base.slice(0, MAX_SHEET_NAME_LENGTH);
+  for (let n = 2; usedNames.has(candidate.toLowerCase()); n++) {
+    const suffix = ` (${n})`;
+    candidate = base.slice(0, MAX_SHEET_NAME_LENGTH - suffix.length) + suffix;
+  }
+  usedNames.add(candidate.toLowerCase());
+  return candidate;
+}
+
+// Column letters for a zero-based column index (0 -> A, 26 -> AA)
+function columnName(index: number): string {
+  let name = "";
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+}
+
+function worksheetXml(sheet: Worksheet): string {
+  const cols = sheet.columnWidths?.length
+    ? `<cols>${sheet.columnWidths
+        .map((width, i) => `<col min="${i + 1}" max="${i + 1}" width="${width}" customWidth="1"/>`)
+        .join("")}</cols>`
+    : "";
+
+  const rows = sheet.rows
+    .map((row, r) => {
+      const style = r === 0 ? ' s="1"' : "";
+      const cells = row
+        .map((value, c) => {
+          const ref = `${columnName(c)}${r + 1}`;
+          if (value === null || value === undefined || value === "") return "";
+          if (typeof value === "number") {
+            return `<c r="${ref}"${style}><v>${value}</v></c>`;
+          }
+          return `<c r="${ref}"${style} t="inlineStr"><is><t xml:space="preserve">${escapeXml(value)}</t></is></c>`;
+        })
+        .join("");
+      return `<row r="${r + 1}">${cells}</row>`;
+    })
+    .join("");
+
+  // Keep the header row visible while scrolling
+  const pane =
+    sheet.rows.length > 1
+      ? '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>'
+      : "";
+
+  return (
+    XML_DECLARATION +
+    '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+    `${pane}${cols}<sheetData>${rows}</sheetData></worksheet>`
+  );
+}
+
+/**
+ * Build an XLSX workbook with one worksheet per entry
+ */
+export async function createXlsx(sheets: Worksheet[]): Promise<Blob> {
+  const zip = new JSZip();
+  const usedNames = new Set<string>();
+  const names = sheets.map((sheet) => toSheetName(sheet.name, usedNames));
+
+  zip.file(
+    "[Content_Types].xml",
+    XML_DECLARATION +
+      '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+      '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+      '<Default Extension="xml" ContentType="application/xml"/>' +
+      '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+      '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+      sheets
+        .map(
+          (_, i) =>
+            `<Override PartName="/xl/worksheets/sheet${i + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`
+        )
+        .join("") +
+      "</Types>"
+  );
+
+  zip.file(
+    "_rels/.rels",
+    XML_DECLARATION +
+      '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+      '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+      "</Relationships>"
+  );
+
+  zip.file(
+    "xl/workbook.xml",
+    XML_DECLARATION +
+      '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+      "<sheets>" +
+      names
+        .map(
+          (name, i) => `<sheet name="${escapeXml(name)}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`
+        )
+        .join("") +
+      "</sheets></workbook>"
+  );
+
+  zip.file(
+    "xl/_rels/workbook.xml.rels",
+    XML_DECLARATION +
+      '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+      sheets
+        .map(
+          (_, i) =>
+            `<Relationship Id="rId${i + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${i + 1}.xml"/>`
+        )
+        .join("") +
+      `<Relationship Id="rId${sheets.length + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>` +
+      "</Relationships>"
+  );
+
+  // Style 0 is the default; style 1 is the bold header
+  zip.file(
+    "xl/styles.xml",
+    XML_DECLARATION +
+      '<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+      '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>' +
+      '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>' +
+      '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+      '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+      '<cellXfs count="2"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/><xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/></cellXfs>' +
+      "</styleSheet>"
+  );
+
+  sheets.forEach((sheet, i) => {
+    zip.file(`xl/worksheets/sheet${i + 1}.xml`, worksheetXml(sheet));
+  });
+
+  return zip.generateAsync({
+    type: "blob",
+    compression: "DEFLATE",
+    mimeType: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  });
+}
+
+// Child elements by local name, ignoring any namespace prefix
+function elements(parent: Document | Element, localName: string): Element[] {
+  return Array.from(parent.getElementsByTagNameNS("*", localName));
+}
+
+// Zero-based column index from a cell reference such as "AB12"
+function columnIndex(ref: string): number {
+  const letters = ref.match(/^[A-Z]+/i)?.[0].toUpperCase() ?? "A";
+  let index = 0;
+  for (const letter of letters) {
+    index = index * 26 + (letter.charCodeAt(0) - 64);
+  }
+  return index - 1;
+}
+
+// Text of a string item, skipping phonetic runs
+function stringItemText(item: Element): string {
+  return elements(item, "t")
+    .filter((t) => t.parentElement?.localName !== "rPh")
+    .map((t) => t.textContent ?? "")
+    .join("");
+}
+
+async function readXmlPart(zip: JSZip, path: string): Promise<Document | null> {
+  const file = zip.file(path);
+  if (!file) return null;
+  const doc = new DOMParser().parseFromString(await file.async("string"), "application/xml");
+  if (doc.getElementsByTagName("parsererror").length > 0) {
+    throw new Error(`Invalid XML in workbook part: ${path}`);
+  }
+  return doc;
+}
+
+/**
+ * Read every worksheet of an XLSX workbook
+ * Cells are returned as strings or numbers; formulas yield their cached values.
+ */
+export async function readXlsx(blob: Blob): Promise<Worksheet[]> {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(blob);
+  } catch {
+    throw new Error("File is not a valid Excel workbook");
+  }
+
+  const workbook = await readXmlPart(zip, "xl/workbook.xml");
+  if (!workbook) {
+    throw new Error("File is not a valid Excel workbook");
+  }
+
+  const relationships = new Map<string, string>();
+  const workbookRels = await readXmlPart(zip, "xl/_rels/workbook.xml.rels");
+  for (const rel of workbookRels ? elements(workbookRels, "Relationship") : []) {
+    const target = rel.getAttribute("Target") ?? "";
+    relationships.set(
+      rel.getAttribute("Id") ?? "",
+      target.startsWith("/") ? target.slice(1) : `xl/${target}`
+    );
+  }
+
+  const sharedStringsDoc = await readXmlPart(zip, "xl/sharedStrings.xml");
+  const sharedStrings = sharedStringsDoc
+    ? elements(sharedStringsDoc, "si").map(stringItemText)
+    : [];
+
+  const sheets: Worksheet[] = [];
+  for (const sheet of elements(workbook, "sheet")) {
+    const relId =
+      sheet.getAttributeNS(
+        "http://schemas.openxmlformats.org/officeDocument/2006/relationships",
+        "id"
+      ) ?? sheet.getAttribute("r:id");
+    const path = relId ? relationships.get(relId) : undefined;
+    const doc = path ? await readXmlPart(zip, path) : null;
+    if (!doc) continue;
+
+    const rows: CellValue[][] = [];
+    for (const row of elements(doc, "row")) {
+      const rowNumber = Number(row.getAttribute("r")) || rows.length + 1;
+      const values: CellValue[] = [];
+      elements(row, "c").forEach((cell, position) => {
+        const ref = cell.getAttribute("r");
+        const column = ref ? columnIndex(ref) : position;
+        const type = cell.getAttribute("t");
+        const raw = elements(cell, "v")[0]?.textContent ?? "";
+        let value: CellValue;
+        if (type === "s") {
+          value = sharedStrings[Number(raw)] ?? "";
+        } else if (type === "inlineStr") {
+          const item = elements(cell, "is")[0];
+          value = item ? stringItemText(item) : "";
+        } else if (type === "str" || type === "e") {
+          value = raw;
+        } else if (type === "b") {
+          value = raw === "1" ? "TRUE" : "FALSE";
+        } else {
+          value = raw === "" ? undefined : Number(raw);
+        }
+        values[column] = value;
+      });
+      rows[rowNumber - 1] = values;
+    }
+
+    sheets.push({
+      name: sheet.getAttribute("name") ?? `Sheet${sheets.length + 1}`,
+      rows: Array.from(rows, (row) => Array.from(row ?? [])),
+    });
+  }
+  return sheets;
+}
@@ -0,0 +1,136 @@
+/**
+ * Spreadsheet Export Service for MITA 3.0
+ *
+ * Flattens exported assessments into a ratings matrix with one row per capability question,
+ * written as CSV or as an XLSX workbook with one worksheet per business area.
+ */
+
+import { getCapabilityByCode } from "../blueprint";
+import { getQuestionLabel } from "../customQuestions";
+import { STATUS_LABELS } from "../workflow";
+import { createXlsx, toCsv, type CellValue } from "./spreadsheet";
+import type { AssessmentExport, ExportData } from "./types";
+
+/** Ratings matrix columns, in order */
+export const RATINGS_MATRIX_COLUMNS = [
+  "Business Area",
+  "Capability Code",
+  "Capability",
+  "Question #",
+  "Category",
+  "Question",
+  "Level",
+  "Previous Level",
+  "Target Level",
+  "Notes",
+  "Tags",
+  "Attachments",
+  "Status",
+  "Blueprint Version",
+  "Created",
+  "Updated",
+  "Finalized",
+] as const;
+
+// Column widths (in characters) for the XLSX worksheets, matching RATINGS_MATRIX_COLUMNS
+const COLUMN_WIDTHS = [28, 30, 30, 10, 24, 60, 8, 14, 12, 50, 24, 30, 14, 16, 12, 12, 12];
+
+// Date part of an ISO timestamp, as spreadsheets sort it correctly
+function toDateCell(iso: string | undefined): CellValue {
+  return iso ? iso.slice(0, 10) : undefined;
+}
+
+/**
+ * Build the ratings matrix rows (without the header) for one exported assessment
+ * Every question of the capability gets a row, answered or not; custom questions come last.
+ */
+function buildAssessmentRows(assessment: AssessmentExport, data: ExportData): CellValue[][] {
+  const capability = getCapabilityByCode(assessment.capabilityCode, assessment.blueprintVersion);
+  const questions = [
+    ...(capability?.bcm.maturity_model.capability_questions ?? []).map((q, index) => ({
+      ...q,
+      questionIndex: index,
+    })),
+    ...(data.data.customQuestions ?? [])
+      .filter((q) => q.capabilityCode === assessment.capabilityCode)
+      .sort((a, b) => a.questionIndex - b.questionIndex),
+  ];
+
+  const ratings = data.data.ratings.filter((r) => r.capabilityAssessmentId === assessment.id);
+  const attachmentNames = new Map<string, string[]>();
+  for (const attachment of data.data.attachments) {
+    if (attachment.capabilityAssessmentId === assessment.id) {
+      const names = attachmentNames.get(attachment.ratingId) ?? [];
+      names.push(attachment.fileName);
+      attachmentNames.set(attachment.ratingId, names);
+    }
+  }
+
+  return questions.map((question) => {
+    const rating = ratings.find((r) => r.questionIndex === question.questionIndex);
+    return [
+      assessment.businessArea,
+      assessment.capabilityCode,
+      assessment.processName,
+      getQuestionLabel(question.questionIndex),
+      question.category,
+      question.question,
+      rating?.notApplicable ? "N/A" : (rating?.level ?? undefined),
+      rating?.previousLevel,
+      rating?.targetLevel,
+      rating?.notes,
+      assessment.tags.join(", "),
+      rating ? attachmentNames.get(rating.id)?.join("; ") : undefined,
+      STATUS_LABELS[assessment.status],
+      assessment.blueprintVersion,
+      toDateCell(assessment.createdAt),
+      toDateCell(assessment.updatedAt),
+      toDateCell(assessment.finalizedAt),
+    ];
+  });
+}
+
+// Assessments in business area, then capability order
+function sortAssessments(data: ExportData): AssessmentExport[] {
+  return [...data.data.assessments].sort(
+    (a, b) =>
+      a.businessArea.localeCompare(b.businessArea) || a.processName.localeCompare(b.processName)
+  );
+}
+
+/**
+ * Generates the ratings matrix as CSV
+ */
+export function generateRatingsCsv(data: ExportData): string {
+  const rows = sortAssessments(data).flatMap((a) => buildAssessmentRows(a, data));
+  return toCsv([[...RATINGS_MATRIX_COLUMNS], ...rows]);
+}
+
+/**
+ * Generates the ratings matrix as an XLSX workbook, one worksheet per business area
+ */
+export async function generateRatingsXlsx(data: ExportData): Promise<Blob> {
+  const rowsByArea = new Map<string, CellValue[][]>();
+  for (const assessment of sortAssessments(data)) {
+    const rows = rowsByArea.get(assessment.businessArea) ?? [];
+    rows.push(...buildAssessmentRows(assessment, data));
+    rowsByArea.set(assessment.businessArea, rows);
+  }
+
+  const sheets = [...rowsByArea.entries()].map(([businessArea, rows]) => ({
+    name: businessArea,
+    rows: [[...RATINGS_MATRIX_COLUMNS], ...rows],
+    columnWidths: COLUMN_WIDTHS,
+  }));
+
+  // A workbook needs at least one worksheet
+  if (sheets.length === 0) {
+    sheets.push({
+      name: "Ratings",
+      rows: [[...RATINGS_MATRIX_COLUMNS]],
+      columnWidths: COLUMN_WIDTHS,
+    });
+  }
+
+  return createXlsx(sheets);
+}
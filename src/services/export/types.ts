@@ -4,7 +4,15 @@
  * Type definitions for the export and import system.
  */
 
-import type { AssessmentHistory, Tag } from "../../types";
+import type JSZip from "jszip";
+import type {
+  AssessmentHistory,
+  AssessmentStatus,
+  MaturityLevel,
+  RatingAuditAction,
+  ScoringStrategy,
+  Tag,
+} from "../../types";
 
 /**
  * Export scope options
@@ -14,7 +22,7 @@ export type ExportScope = "full" | "business_area" | "capability";
 /**
  * Export format options
  */
-export type ExportFormat = "json" | "zip" | "pdf";
+export type ExportFormat = "json" | "zip" | "pdf" | "docx" | "csv" | "xlsx";
 
 /**
  * Export options
@@ -27,6 +35,22 @@ export interface ExportOptions {
   includeAttachments?: boolean;
   includeHistory?: boolean;
   stateName?: string;
+  /** Limit the export to assessments belonging to this assessment cycle */
+  cycleId?: string;
+  /** Limit the export to assessments with at least one of these tags */
+  tags?: string[];
+  /** Limit the export to assessments in one of these statuses */
+  statuses?: AssessmentStatus[];
+  /** Limit the export to assessments (and history snapshots) changed on or after this date */
+  updatedSince?: Date;
+  /** Limit the export to assessments (and history snapshots) changed before this date */
+  updatedBefore?: Date;
+  /** Add the rating change audit log as an appendix (ZIP only) */
+  includeAuditLog?: boolean;
+  /** Add an evidence appendix listing attachments per question, with image thumbnails (PDF only) */
+  includeEvidenceAppendix?: boolean;
+  /** Encrypt the export with this passphrase (JSON and ZIP only) */
+  passphrase?: string;
 }
 
 /**
@@ -52,6 +76,10 @@ export interface RatingExport {
   questionIndex: number;
   level: 1 | 2 | 3 | 4 | 5 | null;
   previousLevel?: 1 | 2 | 3 | 4 | 5;
+  targetLevel?: 1 | 2 | 3 | 4 | 5;
+  targetDate?: string;
+  notApplicable?: boolean;
+  notApplicableReason?: string;
   notes: string;
   carriedForward: boolean;
   attachmentIds: string[];
@@ -66,13 +94,65 @@ export interface AssessmentExport {
   capabilityCode: string;
   businessArea: string;
   processName: string;
-  status: "in_progress" | "finalized";
+  status: AssessmentStatus;
   tags: string[];
   blueprintVersion: string;
   createdAt: string;
   updatedAt: string;
   finalizedAt?: string;
   score?: number;
+  scoringStrategy?: ScoringStrategy;
+  cycleId?: string;
+  submittedAt?: string;
+  reviewedAt?: string;
+  reviewerName?: string;
+  reviewComments?: string;
+}
+
+/**
+ * Assessment cycle export format (dates as ISO strings)
+ */
+export interface AssessmentCycleExport {
+  id: string;
+  name: string;
+  startDate: string;
+  endDate: string;
+  capabilityCodes: string[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Custom question export format (dates as ISO strings)
+ */
+export interface CustomQuestionExport {
+  id: string;
+  capabilityCode: string;
+  questionIndex: number;
+  category: string;
+  question: string;
+  levels: MaturityLevel;
+  includeInScoring: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Rating audit log entry in the ZIP audit appendix (dates as ISO strings)
+ */
+export interface RatingAuditExport {
+  id: string;
+  capabilityCode: string;
+  processName: string;
+  capabilityAssessmentId: string;
+  ratingId: string;
+  questionNumber: number; // 1-based within blueprint or custom questions; see questionLabel
+  questionLabel: string; // As shown in the app, e.g. "Q3" or "C1"
+  action: RatingAuditAction;
+  previousValue?: string;
+  newValue?: string;
+  changedBy?: string;
+  changedAt: string;
 }
 
 /**
@@ -84,10 +164,26 @@ export interface ExportData {
   appVersion: string;
   blueprintVersion: string;
   scope: ExportScope;
+  /** Scoring strategy configured at export time (used for aggregate scores in reports) */
+  scoringStrategy?: ScoringStrategy;
+  /** Workspace the data was exported from */
+  workspace?: {
+    id: string;
+    name: string;
+  };
   scopeDetails?: {
     businessArea?: string;
     capabilityCode?: string;
     capabilityName?: string;
+    cycleId?: string;
+    cycleName?: string;
+    /** Tag, status and date filters the export was limited to (dates as ISO strings) */
+    filters?: {
+      tags?: string[];
+      statuses?: AssessmentStatus[];
+      updatedSince?: string;
+      updatedBefore?: string;
+    };
   };
   data: {
     assessments: AssessmentExport[];
@@ -95,6 +191,10 @@ export interface ExportData {
     history: AssessmentHistory[];
     tags: Tag[];
     attachments: AttachmentMetadata[];
+    /** Optional for compatibility with exports created before cycles existed */
+    cycles?: AssessmentCycleExport[];
+    /** Custom questions of the exported capabilities (optional for older exports) */
+    customQuestions?: CustomQuestionExport[];
   };
   metadata: {
     totalAssessments: number;
@@ -106,6 +206,78 @@ export interface ExportData {
   };
 }
 
+/**
+ * Contents of manifest.json in ZIP exports
+ */
+export interface ExportManifest {
+  exportVersion: string;
+  exportDate: string;
+  appVersion: string;
+  blueprintVersion: string;
+  scope: ExportScope;
+  workspace?: ExportData["workspace"];
+  contents: {
+    dataJson: boolean;
+    attachments: boolean;
+    auditLog: boolean;
+  };
+  stats: ExportData["metadata"];
+  /** SHA-256 (hex) of every other file in the ZIP, keyed by path (absent in older exports) */
+  checksums?: Record<string, string>;
+}
+
+/**
+ * Passphrase-protected JSON or ZIP export
+ * The export is encrypted with AES-GCM under a key derived from the passphrase with PBKDF2.
+ * Binary values are base64 encoded. The file keeps its .json or .zip name.
+ */
+export interface EncryptedPackage {
+  format: "mita-ssa-encrypted"; // Always first, so packages can be recognized from their start
+  version: 1;
+  contentType: "json" | "zip"; // What the decrypted content is
+  kdf: { name: "PBKDF2"; hash: "SHA-256"; iterations: number; salt: string };
+  cipher: { name: "AES-GCM"; iv: string };
+  data: string;
+}
+
+/**
+ * What is wrong with one file when a ZIP is checked against its manifest
+ * - modified: contents do not match the recorded checksum (altered or corrupted)
+ * - missing: listed in the manifest but not in the ZIP
+ * - unexpected: in the ZIP but not listed in the manifest
+ * - unreadable: could not be decompressed
+ */
+export type IntegrityProblem = "modified" | "missing" | "unexpected" | "unreadable";
+
+/**
+ * Result of checking a ZIP export against its manifest checksums
+ * Unverified means the ZIP predates checksums, so nothing could be checked.
+ */
+export interface IntegrityReport {
+  status: "verified" | "unverified" | "failed";
+  checkedFiles: number;
+  problems: { path: string; problem: IntegrityProblem }[];
+}
+
+/**
+ * One upgrade step applied to an older export, with what it changed
+ */
+export interface ExportMigrationStep {
+  fromVersion: string;
+  toVersion: string;
+  description: string;
+  changes: string[];
+}
+
+/**
+ * How an older export was upgraded to the current format before import
+ */
+export interface ExportMigrationReport {
+  fromVersion: string;
+  toVersion: string;
+  steps: ExportMigrationStep[];
+}
+
 /**
  * Import result summary
  */
@@ -117,6 +289,7 @@ export interface ImportResult {
   attachmentsRestored: number;
   errors: string[];
   details: ImportItemResult[];
+  migration?: ExportMigrationReport; // Set when the export was in an older format
 }
 
 /**
@@ -129,6 +302,117 @@ export interface ImportItemResult {
   reason?: string;
 }
 
+/**
+ * How to reconcile an imported assessment with the local one for the same capability
+ * - keep_local: leave the local assessment as is and discard the imported one
+ * - take_incoming: replace the local assessment with the imported one
+ * - keep_both: the newer becomes current and the older (if finalized) is kept in history
+ * - merge: combine the ratings question by question into the local (editable) assessment
+ */
+export type ImportResolution = "keep_local" | "take_incoming" | "keep_both" | "merge";
+
+/**
+ * Which copy of a question wins when a merge finds it answered differently on both sides
+ */
+export type RatingMergeSide = "local" | "incoming";
+
+/**
+ * One side's answer to a conflicting question
+ */
+export interface RatingMergeAnswer {
+  level: 1 | 2 | 3 | 4 | 5 | null;
+  notApplicable?: boolean;
+  notes: string;
+  updatedAt: string;
+}
+
+/**
+ * A question answered differently (level or notes) in the local and incoming assessment
+ */
+export interface RatingMergeConflict {
+  questionIndex: number;
+  questionLabel: string; // e.g. "Q3" or "C1"
+  local: RatingMergeAnswer;
+  incoming: RatingMergeAnswer;
+  suggested: RatingMergeSide; // The more recently updated side, local on a tie
+}
+
+/**
+ * Status, score and last update of one side of an import conflict
+ */
+export interface ImportAssessmentSummary {
+  status: AssessmentStatus;
+  score?: number;
+  updatedAt: string;
+}
+
+/**
+ * Dry-run result for one imported assessment
+ */
+export interface ImportPreviewItem {
+  importedAssessmentId: string;
+  capabilityCode: string;
+  capabilityName: string;
+  local?: ImportAssessmentSummary; // Undefined when the capability has no local assessment
+  incoming: ImportAssessmentSummary;
+  suggested: ImportResolution;
+  allowed: ImportResolution[];
+  reason: string; // Why the suggested resolution was chosen
+  conflicts: RatingMergeConflict[]; // Questions a merge cannot settle on its own
+}
+
+/**
+ * Parsed backup file with a per-capability preview, before anything is written
+ */
+export interface ImportPreview {
+  fileName: string;
+  data: ExportData;
+  zip?: JSZip; // Set for ZIP backups, whose attachments are restored on import
+  integrity?: IntegrityReport; // Set for ZIP backups
+  migration?: ExportMigrationReport; // Set when the export was in an older format
+  items: ImportPreviewItem[];
+}
+
+/**
+ * What a bulk rating import row does to the existing rating
+ */
+export type RatingImportAction = "create" | "overwrite" | "unchanged";
+
+/**
+ * A validated spreadsheet row ready to be written as a rating
+ */
+export interface RatingImportChange {
+  source: string; // Where the row came from, e.g. "Row 4" or "Case Management, row 4"
+  capabilityAssessmentId: string;
+  capabilityCode: string;
+  processName: string;
+  questionIndex: number;
+  questionLabel: string;
+  question: string;
+  level: 1 | 2 | 3 | 4 | 5;
+  notes: string;
+  action: RatingImportAction;
+  previousLevel?: number | null;
+  previousNotes?: string;
+}
+
+/**
+ * A spreadsheet row that will not be imported, with the reason
+ */
+export interface RatingImportIssue {
+  source: string;
+  message: string;
+}
+
+/**
+ * Preview of a bulk rating import, shown before anything is written
+ */
+export interface RatingImportPreview {
+  fileName: string;
+  changes: RatingImportChange[];
+  issues: RatingImportIssue[];
+}
+
 /**
  * Export progress callback
  */
@@ -0,0 +1,18 @@
+/**
+ * XML helpers for the Office Open XML writers (XLSX and DOCX)
+ */
+
+/**
+ * Escape text for XML, dropping control characters XML 1.0 does not allow
+ */
+export function escapeXml(text: string): string {
+  return text
+    .replace(/[^\t\n\r\x20-\uD7FF\uE000-\uFFFD\u{10000}-\u{10FFFF}]/gu, "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/** XML declaration that starts every package part */
+export const XML_DECLARATION = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>';
@@ -0,0 +1,76 @@
+/**
+ * Gap analysis helpers
+ *
+ * Compares current (as-is) maturity levels against target (to-be) levels.
+ * Shared by the dashboard gap view and the PDF report.
+ */
+
+/**
+ * Current vs. target summary for a capability or business area
+ */
+export interface GapSummary {
+  current: number | null; // Average current level (or finalized score)
+  target: number | null; // Average target level across questions with a target
+  gap: number | null; // target - current (positive = improvement needed)
+  questionsWithTarget: number;
+}
+
+interface GapRatingInput {
+  level: number | null;
+  targetLevel?: number;
+  notApplicable?: boolean;
+}
+
+function roundScore(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+function average(values: number[]): number | null {
+  if (values.length === 0) return null;
+  return values.reduce((a, b) => a + b, 0) / values.length;
+}
+
+/**
+ * Summarize the gap for one capability from its ratings
+ * A finalized score, when given, is used as the current value instead of the rating average
+ */
+export function summarizeCapabilityGap(
+  ratings: GapRatingInput[],
+  currentScore?: number | null
+): GapSummary {
+  const levels = ratings.map((r) => r.level).filter((l): l is number => l !== null);
+  const targets = ratings
+    .filter((r) => !r.notApplicable)
+    .map((r) => r.targetLevel)
+    .filter((t): t is number => t !== undefined);
+
+  const current = currentScore ?? average(levels);
+  const target = average(targets);
+
+  return {
+    current: current !== null ? roundScore(current) : null,
+    target: target !== null ? roundScore(target) : null,
+    gap: current !== null && target !== null ? roundScore(target - current) : null,
+    questionsWithTarget: targets.length,
+  };
+}
+
+/**
+ * Combine capability gap summaries into a business area (or overall) summary
+ * Only capabilities with both a current and a target value contribute to the gap,
+ * so the combined current and target stay comparable
+ */
+export function combineGapSummaries(summaries: GapSummary[]): GapSummary {
+  const paired = summaries.filter((s) => s.current !== null && s.target !== null);
+  const source = paired.length > 0 ? paired : summaries;
+
+  const current = average(source.map((s) => s.current).filter((v): v is number => v !== null));
+  const target = average(paired.map((s) => s.target as number));
+
+  return {
+    current: current !== null ? roundScore(current) : null,
+    target: target !== null ? roundScore(target) : null,
+    gap: current !== null && target !== null ? roundScore(target - current) : null,
+    questionsWithTarget: summaries.reduce((sum, s) => sum + s.questionsWithTarget, 0),
+  };
+}
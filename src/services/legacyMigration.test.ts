@@ -0,0 +1,123 @@
+import { describe, expect, it } from "vitest";
+import { convertLegacyData, type LegacyData } from "./legacyMigration";
+import type { LegacyAssessment, LegacyRating } from "../types";
+
+const CODE = "CM_Establish_Case";
+
+function assessment(
+  id: string,
+  name: string,
+  status: LegacyAssessment["status"],
+  updated: string
+): LegacyAssessment {
+  return {
+    id,
+    name,
+    status,
+    blueprintVersion: "3.0",
+    createdAt: new Date("2023-01-01"),
+    updatedAt: new Date(updated),
+    finalizedAt: status === "finalized" ? new Date(updated) : undefined,
+  };
+}
+
+function rating(id: string, assessmentId: string, questionIndex: number, level: 1 | 2 | 3 | 4 | 5) {
+  return {
+    id,
+    assessmentId,
+    capabilityCode: CODE,
+    questionIndex,
+    level,
+    notes: "",
+    carriedForward: false,
+    updatedAt: new Date("2024-01-01"),
+  } satisfies LegacyRating;
+}
+
+/** Three v1.0 assessments of one capability: finalized 2023, a dropped draft, and finalized 2024 */
+function legacyData(): LegacyData {
+  const link = (assessmentId: string) => ({
+    id: `link-${assessmentId}`,
+    assessmentId,
+    capabilityCode: CODE,
+    businessArea: "Care Management",
+    processName: "Establish Case",
+  });
+  return {
+    assessments: [
+      assessment("fy23", "FY2023 Baseline", "finalized", "2023-06-01"),
+      assessment("draft", "Scratch", "draft", "2023-09-01"),
+      assessment("fy24", "FY2024 Review", "finalized", "2024-06-01"),
+    ],
+    assessmentCapabilities: [link("fy23"), link("draft"), link("fy24")],
+    ratings: [
+      rating("r1", "fy23", 0, 2),
+      rating("r2", "fy23", 1, 3),
+      rating("r3", "fy24", 0, 4),
+      rating("r4", "fy24", 1, 5),
+      { ...rating("r5", "fy24", 0, 1), capabilityCode: "PM_Enroll_Provider" },
+    ],
+  };
+}
+
+describe("convertLegacyData", () => {
+  it("makes the latest version current and keeps older finalized ones as history", () => {
+    const { assessments, ratings, history, report } = convertLegacyData(legacyData());
+
+    expect(assessments).toHaveLength(1);
+    expect(assessments[0]).toMatchObject({
+      capabilityCode: CODE,
+      status: "finalized",
+      tags: ["#fy2024-review"],
+      score: 4.5,
+    });
+    expect(ratings.map((r) => r.id)).toEqual(["r3", "r4"]);
+    expect(ratings.every((r) => r.capabilityAssessmentId === assessments[0].id)).toBe(true);
+
+    expect(history).toHaveLength(1);
+    expect(history[0]).toMatchObject({
+      capabilityCode: CODE,
+      score: 2.5,
+      tags: ["#fy2023-baseline"],
+    });
+
+    expect(report).toMatchObject({
+      legacyAssessments: 3,
+      currentAssessments: 1,
+      historyEntries: 1,
+      ratings: 4,
+    });
+    expect(report.changes).toContain(
+      "1 rating(s) for capabilities not in their assessment were dropped"
+    );
+  });
+
+  it("turns assessment names into tags", () => {
+    const { tags } = convertLegacyData(legacyData());
+    expect(tags.map((t) => t.name).sort()).toEqual(["#fy2023-baseline", "#fy2024-review"]);
+  });
+
+  it("gives the same IDs when the same data is converted again", () => {
+    const first = convertLegacyData(legacyData());
+    const second = convertLegacyData(legacyData());
+
+    expect(second.assessments.map((a) => a.id)).toEqual(first.assessments.map((a) => a.id));
+    expect(second.history.map((h) => h.id)).toEqual(first.history.map((h) => h.id));
+    expect(second.tags.map((t) => t.id)).toEqual(first.tags.map((t) => t.id));
+    expect(new Set([...first.assessments, ...first.history].map((r) => r.id)).size).toBe(2);
+  });
+
+  it("reports links to missing assessments", () => {
+    const data = legacyData();
+    data.assessmentCapabilities.push({
+      id: "link-gone",
+      assessmentId: "gone",
+      capabilityCode: CODE,
+      businessArea: "Care Management",
+      processName: "Establish Case",
+    });
+    expect(convertLegacyData(data).report.changes).toContain(
+      "Establish Case: skipped a link to missing assessment gone"
+    );
+  });
+});
@@ -0,0 +1,357 @@
+/**
+ * Legacy v1.0 migration
+ *
+ * Brings data forward from the v1.0 model, where one named assessment covered several
+ * capabilities (Assessment + AssessmentCapability, with ratings keyed by assessment and
+ * capability), to the v2.0 model of one CapabilityAssessment per capability.
+ * For each capability the most recently updated v1.0 assessment becomes the current one;
+ * older finalized ones are kept as history snapshots and older drafts are dropped. The v1.0
+ * assessment name is kept as a tag.
+ *
+ * Runs when a v1.0 database is upgraded (see db.ts), and when a v1.0 data file is imported.
+ */
+
+import type { Transaction } from "dexie";
+import { v5 as uuidv5 } from "uuid";
+
+import { calculateCapabilityScore, DEFAULT_SCORING_STRATEGY, toHistoricalRatings } from "./scoring";
+import type {
+  AssessmentHistory,
+  CapabilityAssessment,
+  LegacyAssessment,
+  LegacyAssessmentCapability,
+  LegacyRating,
+  Rating,
+  Tag,
+} from "../types";
+
+/**
+ * Namespace for the IDs of converted records, which are derived from the v1.0 IDs so that
+ * converting (or importing) the same v1.0 data again yields the same records
+ */
+const LEGACY_ID_NAMESPACE = "5b0f4d3e-8a7c-4f1e-9d2b-6c3a1e8f7b40";
+
+/** localStorage key holding the report of a database migration until it is dismissed */
+const LEGACY_MIGRATION_STORAGE_KEY = "mita-ssa-legacy-migration";
+
+/**
+ * The three v1.0 tables
+ */
+export interface LegacyData {
+  assessments: LegacyAssessment[];
+  assessmentCapabilities: LegacyAssessmentCapability[];
+  ratings: LegacyRating[];
+}
+
+/**
+ * What converting v1.0 data produced
+ */
+export interface LegacyMigrationReport {
+  convertedAt: string;
+  legacyAssessments: number;
+  currentAssessments: number;
+  historyEntries: number;
+  ratings: number;
+  changes: string[]; // One line per capability, plus anything that could not be converted
+}
+
+/**
+ * v1.0 data converted to the v2.0 model
+ */
+export interface LegacyConversion {
+  assessments: CapabilityAssessment[];
+  ratings: Rating[];
+  history: AssessmentHistory[];
+  tags: Tag[];
+  report: LegacyMigrationReport;
+}
+
+/**
+ * Reads v1.0 data from a parsed file, or returns null when it is not v1.0 data
+ * Accepts the three tables as top-level arrays (optionally under "data"), or a Dexie database
+ * export of the v1.0 database. Dates may be ISO strings or timestamps.
+ */
+export function readLegacyData(value: unknown): LegacyData | null {
+  if (!value || typeof value !== "object") return null;
+  const record = value as Record<string, unknown>;
+
+  let tables: Record<string, unknown> | undefined;
+  const dexieExport = record.formatName === "dexie" ? (record.data as DexieExportData) : undefined;
+  if (dexieExport && Array.isArray(dexieExport.data)) {
+    tables = Object.fromEntries(dexieExport.data.map((table) => [table.tableName, table.rows]));
+  } else if (Array.isArray(record.assessmentCapabilities)) {
+    tables = record;
+  } else if (
+    record.data &&
+    typeof record.data === "object" &&
+    Array.isArray((record.data as Record<string, unknown>).assessmentCapabilities)
+  ) {
+    tables = record.data as Record<string, unknown>;
+  }
+
+  if (
+    !tables ||
+    !Array.isArray(tables.assessments) ||
+    !Array.isArray(tables.assessmentCapabilities) ||
+    !Array.isArray(tables.ratings) ||
+    !(tables.ratings as Record<string, unknown>[]).every(
+      (r) => typeof r.assessmentId === "string" && typeof r.capabilityCode === "string"
+    )
+  ) {
+    return null;
+  }
+
+  return {
+    assessments: (tables.assessments as Record<string, unknown>[]).map((a) => ({
+      ...(a as unknown as LegacyAssessment),
+      createdAt: new Date(a.createdAt as string),
+      updatedAt: new Date(a.updatedAt as string),
+      finalizedAt: a.finalizedAt ? new Date(a.finalizedAt as string) : undefined,
+    })),
+    assessmentCapabilities: tables.assessmentCapabilities as LegacyAssessmentCapability[],
+    ratings: (tables.ratings as Record<string, unknown>[]).map((r) => ({
+      ...(r as unknown as LegacyRating),
+      notes: typeof r.notes === "string" ? r.notes : "",
+      carriedForward: r.carriedForward === true,
+      updatedAt: new Date(r.updatedAt as string),
+    })),
+  };
+}
+
+type DexieExportData = { data?: { tableName: string; rows: unknown[] }[] };
+
+/**
+ * Converts v1.0 assessments into per-capability assessments, history, and ratings
+ */
+export function convertLegacyData(legacy: LegacyData): LegacyConversion {
+  const assessmentsById = new Map(legacy.assessments.map((a) => [a.id, a]));
+  const ratingsByLink = new Map<string, LegacyRating[]>();
+  for (const rating of legacy.ratings) {
+    const key = `${rating.assessmentId}|${rating.capabilityCode}`;
+    ratingsByLink.set(key, [...(ratingsByLink.get(key) ?? []), rating]);
+  }
+
+  const linksByCapability = new Map<string, LegacyAssessmentCapability[]>();
+  for (const link of legacy.assessmentCapabilities) {
+    linksByCapability.set(link.capabilityCode, [
+      ...(linksByCapability.get(link.capabilityCode) ?? []),
+      link,
+    ]);
+  }
+
+  const conversion: LegacyConversion = {
+    assessments: [],
+    ratings: [],
+    history: [],
+    tags: [],
+    report: {
+      convertedAt: new Date().toISOString(),
+      legacyAssessments: legacy.assessments.length,
+      currentAssessments: 0,
+      historyEntries: 0,
+      ratings: 0,
+      changes: [],
+    },
+  };
+  const { report } = conversion;
+  const tagNames = new Set<string>();
+  let convertedRatings = 0;
+
+  for (const [capabilityCode, links] of linksByCapability) {
+    const versions = links
+      .map((link) => ({ link, assessment: assessmentsById.get(link.assessmentId) }))
+      .filter((v): v is { link: LegacyAssessmentCapability; assessment: LegacyAssessment } => {
+        if (!v.assessment) {
+          report.changes.push(
+            `${v.link.processName}: skipped a link to missing assessment ${v.link.assessmentId}`
+          );
+        }
+        return !!v.assessment;
+      })
+      .sort((a, b) => a.assessment.updatedAt.getTime() - b.assessment.updatedAt.getTime());
+
+    const latest = versions.pop();
+    if (!latest) continue;
+
+    const processName = latest.link.processName;
+    let keptInHistory = 0;
+    let skipped = 0;
+
+    // Older versions: finalized ones become history snapshots, drafts are superseded
+    for (const { link, assessment } of versions) {
+      const ratings = toRatings(ratingsByLink.get(`${assessment.id}|${capabilityCode}`), "");
+      const score = calculateCapabilityScore(ratings, [], DEFAULT_SCORING_STRATEGY);
+      if (assessment.status !== "finalized" || score === null) {
+        skipped++;
+        continue;
+      }
+
+      const tag = toTagName(assessment.name);
+      if (tag) tagNames.add(tag);
+      conversion.history.push({
+        id: legacyId("history", assessment.id, capabilityCode),
+        capabilityCode: link.capabilityCode,
+        snapshotDate: assessment.finalizedAt ?? assessment.updatedAt,
+        tags: tag ? [tag] : [],
+        score,
+        ratings: toHistoricalRatings(ratings),
+        blueprintVersion: assessment.blueprintVersion,
+      });
+      convertedRatings += ratings.length;
+      keptInHistory++;
+    }
+
+    // Latest version becomes the current assessment
+    const { assessment } = latest;
+    const id = legacyId("assessment", assessment.id, capabilityCode);
+    const ratings = toRatings(ratingsByLink.get(`${assessment.id}|${capabilityCode}`), id);
+    const finalized = assessment.status === "finalized";
+    const tag = toTagName(assessment.name);
+    if (tag) tagNames.add(tag);
+    conversion.assessments.push({
+      id,
+      capabilityCode,
+      businessArea: latest.link.businessArea,
+      processName,
+      status: finalized ? "finalized" : "in_progress",
+      tags: tag ? [tag] : [],
+      blueprintVersion: assessment.blueprintVersion,
+      createdAt: assessment.createdAt,
+      updatedAt: assessment.updatedAt,
+      finalizedAt: finalized ? (assessment.finalizedAt ?? assessment.updatedAt) : undefined,
+      score: finalized
+        ? (calculateCapabilityScore(ratings, [], DEFAULT_SCORING_STRATEGY) ?? undefined)
+        : undefined,
+    });
+    conversion.ratings.push(...ratings);
+    convertedRatings += ratings.length;
+
+    const details = [
+      keptInHistory > 0 && `${keptInHistory} older finalized version(s) kept in history`,
+      skipped > 0 && `${skipped} older draft(s) or unscored version(s) dropped`,
+    ].filter(Boolean);
+    report.changes.push(
+      `${processName}: "${assessment.name}" (${assessment.status.replace("_", " ")}) is now the current assessment` +
+        (details.length > 0 ? `; ${details.join("; ")}` : "")
+    );
+  }
+
+  const linked = new Set(
+    legacy.assessmentCapabilities.map((l) => `${l.assessmentId}|${l.capabilityCode}`)
+  );
+  const orphanRatings = legacy.ratings.filter(
+    (r) => !linked.has(`${r.assessmentId}|${r.capabilityCode}`)
+  ).length;
+  if (orphanRatings > 0) {
+    report.changes.push(
+      `${orphanRatings} rating(s) for capabilities not in their assessment were dropped`
+    );
+  }
+
+  const now = new Date();
+  conversion.tags = Array.from(tagNames).map((name) => ({
+    id: legacyId("tag", name),
+    name,
+    usageCount: 1,
+    lastUsed: now,
+  }));
+  report.currentAssessments = conversion.assessments.length;
+  report.historyEntries = conversion.history.length;
+  report.ratings = convertedRatings;
+
+  return conversion;
+}
+
+/**
+ * Converts a v1.0 database while it is upgraded to the v2.0 schema
+ * Called from the first v2.0 schema version's upgrade, while the v1.0 tables are still
+ * readable; they are deleted once the upgrade completes. Does nothing for other databases.
+ */
+export async function migrateLegacyDatabase(tx: Transaction): Promise<void> {
+  let legacy: LegacyData;
+  try {
+    const ratings = await tx.table("ratings").toArray();
+    legacy = {
+      assessments: await tx.table<LegacyAssessment>("assessments").toArray(),
+      assessmentCapabilities: await tx
+        .table<LegacyAssessmentCapability>("assessmentCapabilities")
+        .toArray(),
+      ratings: ratings.filter((r): r is LegacyRating => typeof r.assessmentId === "string"),
+    };
+  } catch {
+    return; // No v1.0 tables
+  }
+  if (legacy.assessments.length === 0) return;
+
+  const conversion = convertLegacyData(legacy);
+
+  await tx.table("ratings").bulkDelete(legacy.ratings.map((r) => r.id));
+  await tx.table("capabilityAssessments").bulkAdd(conversion.assessments);
+  await tx.table("ratings").bulkAdd(conversion.ratings);
+  await tx.table("assessmentHistory").bulkAdd(conversion.history);
+  await tx.table("tags").bulkAdd(conversion.tags);
+
+  try {
+    localStorage.setItem(LEGACY_MIGRATION_STORAGE_KEY, JSON.stringify(conversion.report));
+  } catch {
+    // Storage unavailable - the data is converted, only the notice is lost
+  }
+}
+
+/**
+ * Report of a v1.0 database conversion that has not been dismissed yet
+ */
+export function getLegacyMigrationReport(): LegacyMigrationReport | null {
+  try {
+    const stored = localStorage.getItem(LEGACY_MIGRATION_STORAGE_KEY);
+    return stored ? (JSON.parse(stored) as LegacyMigrationReport) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Stop showing the report of a v1.0 database conversion
+ */
+export function dismissLegacyMigrationReport(): void {
+  try {
+    localStorage.removeItem(LEGACY_MIGRATION_STORAGE_KEY);
+  } catch {
+    // Storage unavailable - nothing to dismiss
+  }
+}
+
+/**
+ * Stable ID for a record converted from v1.0 data, e.g. the history entry of an assessment's
+ * capability
+ */
+function legacyId(kind: string, ...keys: string[]): string {
+  return uuidv5([kind, ...keys].join("|"), LEGACY_ID_NAMESPACE);
+}
+
+/**
+ * Converts the v1.0 ratings of one capability within one assessment
+ */
+function toRatings(legacyRatings: LegacyRating[] = [], capabilityAssessmentId: string): Rating[] {
+  return legacyRatings.map((r) => ({
+    id: r.id,
+    capabilityAssessmentId,
+    questionIndex: r.questionIndex,
+    level: r.level,
+    notes: r.notes,
+    carriedForward: r.carriedForward,
+    attachmentIds: [],
+    updatedAt: r.updatedAt,
+  }));
+}
+
+/**
+ * Tag for a v1.0 assessment name, e.g. "FY2024 Baseline" -> "#fy2024-baseline"
+ */
+function toTagName(name: string): string | null {
+  const slug = name
+    .toLowerCase()
+    .replace(/[^a-z0-9_]+/g, "-")
+    .replace(/^[-_]+|-+$/g, "");
+  return slug ? `#${slug}` : null;
+}
@@ -0,0 +1,53 @@
+import "fake-indexeddb/auto";
+import { beforeEach, describe, expect, it } from "vitest";
+import { db } from "./db";
+import { saveRating } from "./ratings";
+import type { AssessmentStatus } from "../types";
+
+async function addAssessment(status: AssessmentStatus): Promise<string> {
+  const id = `assessment-${status}`;
+  await db.capabilityAssessments.add({
+    id,
+    capabilityCode: "CM_Establish_Case",
+    businessArea: "Care Management",
+    processName: "Establish Case",
+    status,
+    tags: [],
+    blueprintVersion: "3.0",
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  });
+  return id;
+}
+
+describe("saveRating", () => {
+  beforeEach(async () => {
+    await Promise.all(db.tables.map((table) => table.clear()));
+  });
+
+  it.each<AssessmentStatus>(["in_progress", "returned"])(
+    "saves and audits ratings while %s",
+    async (status) => {
+      const assessmentId = await addAssessment(status);
+      const ratingId = await saveRating(assessmentId, 0, 3, "Documented");
+
+      expect(await db.ratings.get(ratingId)).toMatchObject({ level: 3, notes: "Documented" });
+      expect(await db.ratingAudit.where("ratingId").equals(ratingId).count()).toBe(2);
+    }
+  );
+
+  it.each<AssessmentStatus>(["submitted", "approved", "finalized"])(
+    "refuses changes while %s",
+    async (status) => {
+      const assessmentId = await addAssessment(status);
+
+      await expect(saveRating(assessmentId, 0, 3)).rejects.toThrow("cannot be edited");
+      expect(await db.ratings.count()).toBe(0);
+      expect(await db.ratingAudit.count()).toBe(0);
+    }
+  );
+
+  it("refuses changes to a missing assessment", async () => {
+    await expect(saveRating("missing", 0, 3)).rejects.toThrow("Assessment not found: missing");
+  });
+});
@@ -0,0 +1,88 @@
+import { v4 as uuidv4 } from "uuid";
+import { db } from "./db";
+import { recordRatingChanges } from "./auditLog";
+import { isEditableStatus, STATUS_LABELS } from "./workflow";
+import type { Rating } from "../types";
+
+/**
+ * Throw unless an assessment's ratings may be changed (in progress or returned)
+ * Submitted, approved, and finalized assessments are locked; call inside the write transaction.
+ */
+export async function assertRatingsEditable(capabilityAssessmentId: string): Promise<void> {
+  const assessment = await db.capabilityAssessments.get(capabilityAssessmentId);
+  if (!assessment) {
+    throw new Error(`Assessment not found: ${capabilityAssessmentId}`);
+  }
+  if (!isEditableStatus(assessment.status)) {
+    throw new Error(
+      `${assessment.processName} is ${STATUS_LABELS[assessment.status].toLowerCase()} and cannot be edited`
+    );
+  }
+}
+
+/**
+ * Save a rating's level and notes for a question, creating the rating if needed
+ * Choosing a level replaces a not-applicable answer; saving notes alone keeps it.
+ * Records audit entries and touches the assessment's updatedAt. Returns the rating ID.
+ * Throws when the assessment is locked by the review workflow.
+ */
+export async function saveRating(
+  capabilityAssessmentId: string,
+  questionIndex: number,
+  level: 1 | 2 | 3 | 4 | 5 | null,
+  notes: string = ""
+): Promise<string> {
+  const now = new Date();
+  let ratingId = "";
+
+  // Use transaction to prevent race conditions creating duplicate ratings
+  await db.transaction("rw", [db.ratings, db.capabilityAssessments, db.ratingAudit], async () => {
+    await assertRatingsEditable(capabilityAssessmentId);
+
+    // Check if rating exists for this question using compound index
+    const existing = await db.ratings
+      .where("[capabilityAssessmentId+questionIndex]")
+      .equals([capabilityAssessmentId, questionIndex])
+      .first();
+
+    if (existing) {
+      // Update existing rating
+      const notApplicable = level !== null ? false : existing.notApplicable;
+      const answer = {
+        level,
+        notes,
+        notApplicable,
+        notApplicableReason: notApplicable ? existing.notApplicableReason : undefined,
+      };
+      await db.ratings.update(existing.id, {
+        ...answer,
+        carriedForward: false, // Clear carried forward flag on edit
+        updatedAt: now,
+      });
+      await recordRatingChanges(existing, existing, answer, now);
+      ratingId = existing.id;
+    } else {
+      // Create new rating
+      ratingId = uuidv4();
+      const rating: Rating = {
+        id: ratingId,
+        capabilityAssessmentId,
+        questionIndex,
+        level,
+        notes,
+        carriedForward: false,
+        attachmentIds: [], // Initialize empty attachments array
+        updatedAt: now,
+      };
+      await db.ratings.add(rating);
+      await recordRatingChanges(rating, undefined, { level, notes }, now);
+    }
+
+    // Update assessment timestamp
+    await db.capabilityAssessments.update(capabilityAssessmentId, {
+      updatedAt: now,
+    });
+  });
+
+  return ratingId;
+}
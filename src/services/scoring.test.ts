@@ -0,0 +1,91 @@
+import { describe, expect, it } from "vitest";
+import { CUSTOM_QUESTION_INDEX_OFFSET } from "./customQuestions";
+import { aggregateScores, calculateCapabilityScore, DEFAULT_SCORING_STRATEGY } from "./scoring";
+import type { CapabilityQuestion, CustomQuestion, ScoringStrategy } from "../types";
+
+const question = (category: string) => ({ category, question: category }) as CapabilityQuestion;
+
+const QUESTIONS = [question("Business"), question("Business"), question("Technical")];
+
+type Level = 1 | 2 | 3 | 4 | 5 | null;
+const answer = (questionIndex: number, level: Level, notApplicable?: boolean) => ({
+  questionIndex,
+  level,
+  notApplicable,
+});
+
+const RATINGS = [answer(0, 1), answer(1, 2), answer(2, 5)];
+
+const strategy = (
+  method: ScoringStrategy["method"],
+  categoryWeights: Record<string, number> = {}
+): ScoringStrategy => ({ method, categoryWeights });
+
+describe("calculateCapabilityScore", () => {
+  it("averages levels with the default strategy", () => {
+    expect(calculateCapabilityScore(RATINGS, QUESTIONS, DEFAULT_SCORING_STRATEGY)).toBe(8 / 3);
+  });
+
+  it("takes the median", () => {
+    expect(calculateCapabilityScore(RATINGS, QUESTIONS, strategy("median"))).toBe(2);
+  });
+
+  it("takes the weakest link", () => {
+    expect(calculateCapabilityScore(RATINGS, QUESTIONS, strategy("minimum"))).toBe(1);
+  });
+
+  it("weights the mean by question category", () => {
+    const weighted = strategy("mean", { Technical: 3 });
+    // (1 + 2 + 5 * 3) / (1 + 1 + 3)
+    expect(calculateCapabilityScore(RATINGS, QUESTIONS, weighted)).toBe(18 / 5);
+  });
+
+  it("excludes a category weighted 0", () => {
+    const weighted = strategy("mean", { Technical: 0 });
+    expect(calculateCapabilityScore(RATINGS, QUESTIONS, weighted)).toBe(1.5);
+  });
+
+  it("ignores category weights for the median and minimum", () => {
+    expect(calculateCapabilityScore(RATINGS, QUESTIONS, strategy("median", { Technical: 0 }))).toBe(
+      2
+    );
+  });
+
+  it("leaves out unanswered and not-applicable ratings", () => {
+    const ratings = [answer(0, 4), answer(1, null), answer(2, 1, true)];
+    expect(calculateCapabilityScore(ratings, QUESTIONS, DEFAULT_SCORING_STRATEGY)).toBe(4);
+  });
+
+  it("counts custom questions only when they are included in scoring", () => {
+    const custom = (offset: number, includeInScoring: boolean) =>
+      ({
+        questionIndex: CUSTOM_QUESTION_INDEX_OFFSET + offset,
+        category: "Business",
+        includeInScoring,
+      }) as CustomQuestion;
+    const ratings = [
+      answer(0, 2),
+      answer(CUSTOM_QUESTION_INDEX_OFFSET, 4),
+      answer(CUSTOM_QUESTION_INDEX_OFFSET + 1, 5),
+    ];
+
+    expect(
+      calculateCapabilityScore(ratings, QUESTIONS, DEFAULT_SCORING_STRATEGY, [
+        custom(0, true),
+        custom(1, false),
+      ])
+    ).toBe(3);
+    expect(calculateCapabilityScore(ratings, QUESTIONS, DEFAULT_SCORING_STRATEGY)).toBe(2);
+  });
+
+  it("returns null when nothing is scored", () => {
+    expect(calculateCapabilityScore([answer(0, null)], QUESTIONS, strategy("mean"))).toBeNull();
+    expect(calculateCapabilityScore([], QUESTIONS, strategy("minimum"))).toBeNull();
+  });
+});
+
+describe("aggregateScores", () => {
+  it("averages the middle pair for an even-length median", () => {
+    expect(aggregateScores([4, 1, 3, 2], "median")).toBe(2.5);
+  });
+});
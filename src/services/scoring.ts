@@ -0,0 +1,145 @@
+/**
+ * Scoring helpers
+ *
+ * Shared rules for which ratings count as answered and which contribute to a score,
+ * and the configurable strategies used to turn levels into scores.
+ * A "not applicable" answer completes a question but is excluded from scoring.
+ * Custom questions only count toward a score when they are marked for scoring.
+ */
+
+import { isCustomQuestionIndex } from "./customQuestions";
+import type {
+  CapabilityQuestion,
+  CustomQuestion,
+  HistoricalRating,
+  Rating,
+  ScoringMethod,
+  ScoringStrategy,
+} from "../types";
+
+/** Display labels for each scoring method */
+export const SCORING_METHOD_LABELS: Record<ScoringMethod, string> = {
+  mean: "Mean",
+  median: "Median",
+  minimum: "Minimum (weakest link)",
+};
+
+/** Strategy used when none has been configured (and for scores recorded before strategies existed) */
+export const DEFAULT_SCORING_STRATEGY: ScoringStrategy = {
+  method: "mean",
+  categoryWeights: {},
+};
+
+type RatingAnswer = Pick<Rating, "level" | "notApplicable">;
+
+/**
+ * Whether a rating counts as answered (a maturity level or a not-applicable answer)
+ */
+export function isRatingAnswered(rating: RatingAnswer): boolean {
+  return rating.level !== null || rating.notApplicable === true;
+}
+
+/**
+ * Whether a rating contributes to the maturity score
+ */
+export function isRatingScored<T extends RatingAnswer>(
+  rating: T
+): rating is T & { level: 1 | 2 | 3 | 4 | 5 } {
+  return rating.level !== null && rating.notApplicable !== true;
+}
+
+/**
+ * Convert current ratings into the snapshot format stored in assessment history
+ * Unanswered questions are dropped; not-applicable answers are kept with a null level
+ */
+export function toHistoricalRatings(ratings: Rating[]): HistoricalRating[] {
+  return ratings.filter(isRatingAnswered).map((r) => ({
+    questionIndex: r.questionIndex,
+    level: r.notApplicable ? null : r.level,
+    notApplicable: r.notApplicable || undefined,
+    notApplicableReason: r.notApplicable ? r.notApplicableReason : undefined,
+    targetLevel: r.targetLevel,
+    targetDate: r.targetDate,
+    notes: r.notes,
+    attachmentIds: r.attachmentIds || [],
+  }));
+}
+
+/**
+ * Whether a strategy applies category weights (any weight other than the default of 1)
+ */
+export function hasCategoryWeights(strategy: ScoringStrategy): boolean {
+  return strategy.method === "mean" && Object.values(strategy.categoryWeights).some((w) => w !== 1);
+}
+
+/**
+ * Short human-readable description of a strategy, e.g. "Mean (category-weighted)"
+ */
+export function describeScoringStrategy(
+  strategy: ScoringStrategy = DEFAULT_SCORING_STRATEGY
+): string {
+  const label = SCORING_METHOD_LABELS[strategy.method];
+  return hasCategoryWeights(strategy) ? `${label} (category-weighted)` : label;
+}
+
+/**
+ * Combine a list of scores with the given method, or null when the list is empty
+ */
+export function aggregateScores(values: number[], method: ScoringMethod): number | null {
+  if (values.length === 0) return null;
+
+  switch (method) {
+    case "median": {
+      const sorted = [...values].sort((a, b) => a - b);
+      const mid = Math.floor(sorted.length / 2);
+      return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+    }
+    case "minimum":
+      return Math.min(...values);
+    case "mean":
+    default:
+      return values.reduce((a, b) => a + b, 0) / values.length;
+  }
+}
+
+/**
+ * Calculate a capability score from its ratings using a scoring strategy
+ * Category weights apply to the mean only; a weight of 0 excludes the category.
+ * Ratings for custom questions count only when the question is included in scoring.
+ * Returns null when no rating contributes to the score.
+ */
+export function calculateCapabilityScore(
+  ratings: (RatingAnswer & { questionIndex: number })[],
+  questions: CapabilityQuestion[],
+  strategy: ScoringStrategy,
+  customQuestions: CustomQuestion[] = []
+): number | null {
+  const customByIndex = new Map(customQuestions.map((q) => [q.questionIndex, q]));
+  const scored = ratings
+    .filter(isRatingScored)
+    .filter(
+      (r) =>
+        !isCustomQuestionIndex(r.questionIndex) ||
+        customByIndex.get(r.questionIndex)?.includeInScoring === true
+    );
+
+  if (strategy.method !== "mean") {
+    return aggregateScores(
+      scored.map((r) => r.level),
+      strategy.method
+    );
+  }
+
+  let weightedSum = 0;
+  let totalWeight = 0;
+  for (const rating of scored) {
+    const category = isCustomQuestionIndex(rating.questionIndex)
+      ? customByIndex.get(rating.questionIndex)?.category
+      : questions[rating.questionIndex]?.category;
+    const weight = category !== undefined ? (strategy.categoryWeights[category] ?? 1) : 1;
+    weightedSum += rating.level * weight;
+    totalWeight += weight;
+  }
+
+  return totalWeight > 0 ? weightedSum / totalWeight : null;
+}
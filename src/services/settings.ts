@@ -0,0 +1,53 @@
+/**
+ * Application settings
+ *
+ * Typed accessors for key-value settings stored alongside the assessment data.
+ */
+
+import { db } from "./db";
+import { DEFAULT_SCORING_STRATEGY } from "./scoring";
+import type { ScoringStrategy } from "../types";
+
+const SCORING_STRATEGY_KEY = "scoringStrategy";
+const TRASH_RETENTION_KEY = "trashRetentionDays";
+
+/** Days deleted items stay in the trash before they are purged automatically */
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+/**
+ * Get the configured scoring strategy (the plain mean when none is set)
+ */
+export async function getScoringStrategy(): Promise<ScoringStrategy> {
+  const setting = await db.settings.get(SCORING_STRATEGY_KEY);
+  return (setting?.value as ScoringStrategy | undefined) ?? DEFAULT_SCORING_STRATEGY;
+}
+
+/**
+ * Save the scoring strategy applied to future finalizations and aggregate scores
+ */
+export async function saveScoringStrategy(strategy: ScoringStrategy): Promise<void> {
+  for (const weight of Object.values(strategy.categoryWeights)) {
+    if (!Number.isFinite(weight) || weight < 0) {
+      throw new Error("Category weights must be zero or positive numbers");
+    }
+  }
+  await db.settings.put({ key: SCORING_STRATEGY_KEY, value: strategy });
+}
+
+/**
+ * Get how many days deleted items are kept in the trash
+ */
+export async function getTrashRetentionDays(): Promise<number> {
+  const setting = await db.settings.get(TRASH_RETENTION_KEY);
+  return (setting?.value as number | undefined) ?? DEFAULT_TRASH_RETENTION_DAYS;
+}
+
+/**
+ * Save how many days deleted items are kept in the trash
+ */
+export async function saveTrashRetentionDays(days: number): Promise<void> {
+  if (!Number.isInteger(days) || days < 1 || days > 3650) {
+    throw new Error("Retention period must be a whole number of days between 1 and 3650");
+  }
+  await db.settings.put({ key: TRASH_RETENTION_KEY, value: days });
+}
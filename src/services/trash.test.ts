@@ -0,0 +1,84 @@
+import "fake-indexeddb/auto";
+import { beforeEach, describe, expect, it } from "vitest";
+import { db } from "./db";
+import { emptyTrash, moveAssessmentToTrash, purgeTrashItem, restoreTrashItem } from "./trash";
+import type { RatingAuditEntry } from "../types";
+
+const ASSESSMENT_ID = "assessment-1";
+
+function auditEntry(id: string): RatingAuditEntry {
+  return {
+    id,
+    ratingId: "r1",
+    capabilityAssessmentId: ASSESSMENT_ID,
+    questionIndex: 0,
+    action: "level_changed",
+    newValue: "Level 3",
+    changedAt: new Date("2026-06-01"),
+  };
+}
+
+async function addAssessment(): Promise<void> {
+  await db.capabilityAssessments.add({
+    id: ASSESSMENT_ID,
+    capabilityCode: "CM_Establish_Case",
+    businessArea: "Care Management",
+    processName: "Establish Case",
+    status: "in_progress",
+    tags: [],
+    blueprintVersion: "3.0",
+    createdAt: new Date("2026-01-01"),
+    updatedAt: new Date("2026-06-01"),
+  });
+  await db.ratings.add({
+    id: "r1",
+    capabilityAssessmentId: ASSESSMENT_ID,
+    questionIndex: 0,
+    level: 3,
+    notes: "",
+    carriedForward: false,
+    attachmentIds: [],
+    updatedAt: new Date("2026-06-01"),
+  });
+  await db.ratingAudit.add(auditEntry("audit-1"));
+}
+
+describe("trash", () => {
+  beforeEach(async () => {
+    await Promise.all(db.tables.map((table) => table.clear()));
+  });
+
+  it("leaves the audit log in place when an assessment is trashed and restored", async () => {
+    await addAssessment();
+
+    await moveAssessmentToTrash(ASSESSMENT_ID);
+    expect(await db.ratings.count()).toBe(0);
+    expect(await db.ratingAudit.get("audit-1")).toBeDefined();
+
+    await restoreTrashItem(ASSESSMENT_ID);
+    expect(await db.ratings.get("r1")).toBeDefined();
+    expect(await db.ratingAudit.count()).toBe(1);
+  });
+
+  it("keeps audit entries when the trashed assessment is purged", async () => {
+    await addAssessment();
+    await moveAssessmentToTrash(ASSESSMENT_ID);
+
+    await purgeTrashItem(ASSESSMENT_ID);
+
+    expect(await db.trash.count()).toBe(0);
+    expect(await db.ratingAudit.get("audit-1")).toBeDefined();
+  });
+
+  it("returns audit entries held by older trash items to the log when emptied", async () => {
+    await addAssessment();
+    await moveAssessmentToTrash(ASSESSMENT_ID);
+    await db.ratingAudit.clear();
+    await db.trash.update(ASSESSMENT_ID, { ratingAudit: [auditEntry("audit-1")] });
+
+    await emptyTrash();
+
+    expect(await db.trash.count()).toBe(0);
+    expect(await db.ratingAudit.get("audit-1")).toBeDefined();
+  });
+});
@@ -0,0 +1,189 @@
+/**
+ * Trash
+ *
+ * Soft deletion for assessments and history entries. Deleted records are moved, together
+ * with their ratings and attachments, into the trash table so that every other query keeps
+ * seeing only live data. Items can be restored or purged, and are purged automatically once
+ * they are older than the configured retention period. The rating audit log is append-only, so
+ * its entries stay in place throughout.
+ */
+
+import { db } from "./db";
+import { isOpenStatus } from "./workflow";
+import { getTrashRetentionDays } from "./settings";
+import type { TrashItem } from "../types";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Move an assessment and its ratings and attachments to the trash
+ * Its audit log entries stay in the log.
+ */
+export async function moveAssessmentToTrash(assessmentId: string): Promise<void> {
+  await db.transaction(
+    "rw",
+    [db.capabilityAssessments, db.ratings, db.attachments, db.trash],
+    async () => {
+      const assessment = await db.capabilityAssessments.get(assessmentId);
+      if (!assessment) {
+        throw new Error(`Assessment not found: ${assessmentId}`);
+      }
+
+      const ratings = await db.ratings.where("capabilityAssessmentId").equals(assessmentId);
+      const attachments = await db.attachments.where("capabilityAssessmentId").equals(assessmentId);
+
+      await db.trash.put({
+        id: assessment.id,
+        type: "assessment",
+        capabilityCode: assessment.capabilityCode,
+        deletedAt: new Date(),
+        assessment,
+        ratings: await ratings.toArray(),
+        attachments: await attachments.toArray(),
+      });
+
+      await attachments.delete();
+      await ratings.delete();
+      await db.capabilityAssessments.delete(assessmentId);
+    }
+  );
+}
+
+/**
+ * Move a history entry to the trash
+ */
+export async function moveHistoryEntryToTrash(historyId: string): Promise<void> {
+  await db.transaction("rw", [db.assessmentHistory, db.trash], async () => {
+    const historyEntry = await db.assessmentHistory.get(historyId);
+    if (!historyEntry) {
+      throw new Error(`History entry not found: ${historyId}`);
+    }
+
+    await db.trash.put({
+      id: historyEntry.id,
+      type: "history",
+      capabilityCode: historyEntry.capabilityCode,
+      deletedAt: new Date(),
+      historyEntry,
+    });
+    await db.assessmentHistory.delete(historyId);
+  });
+}
+
+/**
+ * Restore a trashed item to its original tables
+ * Fails rather than overwrite when the capability has since gained an assessment that the
+ * restored one would conflict with. Links to cycles that no longer exist are dropped.
+ */
+export async function restoreTrashItem(id: string): Promise<void> {
+  await db.transaction(
+    "rw",
+    [
+      db.trash,
+      db.capabilityAssessments,
+      db.ratings,
+      db.attachments,
+      db.ratingAudit,
+      db.assessmentHistory,
+      db.assessmentCycles,
+    ],
+    async () => {
+      const item = await db.trash.get(id);
+      if (!item) {
+        throw new Error(`Trash item not found: ${id}`);
+      }
+
+      if (item.type === "assessment" && item.assessment) {
+        const { assessment } = item;
+        const conflicting = await db.capabilityAssessments
+          .where("capabilityCode")
+          .equals(assessment.capabilityCode)
+          .filter((a) =>
+            isOpenStatus(assessment.status)
+              ? isOpenStatus(a.status)
+              : a.status === "finalized" && a.cycleId === assessment.cycleId
+          )
+          .first();
+        if (conflicting) {
+          throw new Error(
+            isOpenStatus(assessment.status)
+              ? `${assessment.processName} already has an assessment in progress`
+              : `${assessment.processName} already has a finalized assessment`
+          );
+        }
+
+        const cycleExists =
+          !assessment.cycleId || (await db.assessmentCycles.get(assessment.cycleId)) !== undefined;
+        await db.capabilityAssessments.add(
+          cycleExists ? assessment : { ...assessment, cycleId: undefined }
+        );
+        await db.ratings.bulkAdd(item.ratings ?? []);
+        await db.attachments.bulkAdd(item.attachments ?? []);
+        await db.ratingAudit.bulkPut(item.ratingAudit ?? []);
+      } else if (item.type === "history" && item.historyEntry) {
+        const { historyEntry } = item;
+        const cycleExists =
+          !historyEntry.cycleId ||
+          (await db.assessmentCycles.get(historyEntry.cycleId)) !== undefined;
+        await db.assessmentHistory.add(
+          cycleExists ? historyEntry : { ...historyEntry, cycleId: undefined }
+        );
+      }
+
+      await db.trash.delete(id);
+    }
+  );
+}
+
+/**
+ * Permanently delete a trashed item and everything stored with it, except audit log entries
+ */
+export async function purgeTrashItem(id: string): Promise<void> {
+  await db.transaction("rw", [db.trash, db.ratingAudit], async () => {
+    const item = await db.trash.get(id);
+    await keepAuditEntries(item ? [item] : []);
+    await db.trash.delete(id);
+  });
+}
+
+/**
+ * Permanently delete everything in the trash, except audit log entries
+ */
+export async function emptyTrash(): Promise<void> {
+  await db.transaction("rw", [db.trash, db.ratingAudit], async () => {
+    await keepAuditEntries(await db.trash.toArray());
+    await db.trash.clear();
+  });
+}
+
+/**
+ * Get the date on which a trashed item will be purged automatically
+ */
+export function getPurgeDate(item: Pick<TrashItem, "deletedAt">, retentionDays: number): Date {
+  return new Date(item.deletedAt.getTime() + retentionDays * DAY_MS);
+}
+
+/**
+ * Purge items that have been in the trash longer than the retention period
+ * Returns the number of items purged.
+ */
+export async function purgeExpiredTrash(now: Date = new Date()): Promise<number> {
+  const retentionDays = await getTrashRetentionDays();
+  const cutoff = new Date(now.getTime() - retentionDays * DAY_MS);
+  return db.transaction("rw", [db.trash, db.ratingAudit], async () => {
+    const expired = db.trash.where("deletedAt").below(cutoff);
+    await keepAuditEntries(await expired.toArray());
+    return expired.delete();
+  });
+}
+
+/**
+ * Return audit log entries held by trashed items to the log before the items are purged
+ * Only items trashed before audit entries stayed in the log carry any.
+ */
+async function keepAuditEntries(items: TrashItem[]): Promise<void> {
+  const entries = items.flatMap((item) => item.ratingAudit ?? []);
+  if (entries.length > 0) {
+    await db.ratingAudit.bulkPut(entries);
+  }
+}
@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest";
+import { canTransition, isEditableStatus, isInReviewStatus, isOpenStatus } from "./workflow";
+import type { AssessmentStatus } from "../types";
+
+const STATUSES: AssessmentStatus[] = [
+  "in_progress",
+  "submitted",
+  "returned",
+  "approved",
+  "finalized",
+];
+
+// Every allowed move; anything not listed here must be refused
+const ALLOWED = new Set([
+  "in_progress->submitted",
+  "submitted->returned",
+  "submitted->approved",
+  "returned->submitted",
+  "approved->returned",
+  "approved->finalized",
+  "finalized->in_progress",
+]);
+
+describe("canTransition", () => {
+  for (const from of STATUSES) {
+    for (const to of STATUSES) {
+      const allowed = ALLOWED.has(`${from}->${to}`);
+      it(`${allowed ? "allows" : "refuses"} ${from} -> ${to}`, () => {
+        expect(canTransition(from, to)).toBe(allowed);
+      });
+    }
+  }
+
+  it("only reaches finalized through approval", () => {
+    expect(STATUSES.filter((from) => canTransition(from, "finalized"))).toEqual(["approved"]);
+  });
+});
+
+describe("status checks", () => {
+  it("allows rating edits only while in progress or returned", () => {
+    expect(STATUSES.filter(isEditableStatus)).toEqual(["in_progress", "returned"]);
+  });
+
+  it("treats every status but finalized as open", () => {
+    expect(STATUSES.filter(isOpenStatus)).toEqual([
+      "in_progress",
+      "submitted",
+      "returned",
+      "approved",
+    ]);
+  });
+
+  it("counts submitted and approved as waiting on a reviewer", () => {
+    expect(STATUSES.filter(isInReviewStatus)).toEqual(["submitted", "approved"]);
+  });
+});
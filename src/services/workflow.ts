@@ -0,0 +1,53 @@
+import type { AssessmentStatus, CapabilityStatus } from "../types";
+
+/**
+ * Allowed status transitions for the assessment review workflow
+ * Finalized assessments re-enter the workflow through editAssessment
+ */
+const STATUS_TRANSITIONS: Record<AssessmentStatus, AssessmentStatus[]> = {
+  in_progress: ["submitted"],
+  submitted: ["returned", "approved"],
+  returned: ["submitted"],
+  approved: ["returned", "finalized"],
+  finalized: ["in_progress"],
+};
+
+/**
+ * Human-readable labels for each assessment status
+ */
+export const STATUS_LABELS: Record<AssessmentStatus, string> = {
+  in_progress: "In Progress",
+  submitted: "Submitted for Review",
+  returned: "Returned",
+  approved: "Approved",
+  finalized: "Finalized",
+};
+
+/**
+ * Check whether an assessment may move from one status to another
+ */
+export function canTransition(from: AssessmentStatus, to: AssessmentStatus): boolean {
+  return STATUS_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Check whether an assessment is still open (not yet finalized)
+ */
+export function isOpenStatus(status: AssessmentStatus): boolean {
+  return status !== "finalized";
+}
+
+/**
+ * Check whether ratings can be edited in this status
+ * Submitted and approved assessments are locked while under review
+ */
+export function isEditableStatus(status: AssessmentStatus): boolean {
+  return status === "in_progress" || status === "returned";
+}
+
+/**
+ * Check whether an assessment is waiting on a reviewer
+ */
+export function isInReviewStatus(status: CapabilityStatus): status is "submitted" | "approved" {
+  return status === "submitted" || status === "approved";
+}
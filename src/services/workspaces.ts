@@ -0,0 +1,164 @@
+/**
+ * Workspace management
+ *
+ * Each workspace is an isolated Dexie database. A small registry database keeps the
+ * list of workspaces; the active workspace ID lives in localStorage and is read when
+ * the app starts, so switching workspaces reloads the app.
+ */
+
+import Dexie, { type EntityTable } from "dexie";
+import { v4 as uuidv4 } from "uuid";
+import {
+  createDatabase,
+  db,
+  DEFAULT_WORKSPACE_ID,
+  getActiveWorkspaceId,
+  getWorkspaceDatabaseName,
+  setActiveWorkspaceId,
+} from "./db";
+import type { Workspace } from "../types";
+
+const registry = new Dexie("MitaSSAWorkspaces") as Dexie & {
+  workspaces: EntityTable<Workspace, "id">;
+};
+
+registry.version(1).stores({
+  workspaces: "id, name, createdAt",
+});
+
+/** Name given to the default workspace when the registry is first created */
+const DEFAULT_WORKSPACE_NAME = "Default Workspace";
+
+/**
+ * The default workspace as stored, or as implied before it has been renamed
+ * (the registry is only written when needed so reads stay usable in live queries)
+ */
+async function getDefaultWorkspace(): Promise<Workspace> {
+  const stored = await registry.workspaces.get(DEFAULT_WORKSPACE_ID);
+  return (
+    stored ?? {
+      id: DEFAULT_WORKSPACE_ID,
+      name: DEFAULT_WORKSPACE_NAME,
+      createdAt: new Date(0),
+      updatedAt: new Date(0),
+    }
+  );
+}
+
+/**
+ * Validate a workspace name, rejecting blanks and duplicates (case-insensitive)
+ */
+async function validateWorkspaceName(name: string, excludeId?: string): Promise<string> {
+  const trimmed = name.trim();
+  if (!trimmed) {
+    throw new Error("Workspace name is required");
+  }
+  const duplicate = (await listWorkspaces()).find(
+    (w) => w.id !== excludeId && w.name.toLowerCase() === trimmed.toLowerCase()
+  );
+  if (duplicate) {
+    throw new Error(`A workspace named "${trimmed}" already exists`);
+  }
+  return trimmed;
+}
+
+/**
+ * List all workspaces, oldest first
+ */
+export async function listWorkspaces(): Promise<Workspace[]> {
+  const workspaces = await registry.workspaces.orderBy("createdAt").toArray();
+  if (workspaces.some((w) => w.id === DEFAULT_WORKSPACE_ID)) return workspaces;
+  return [await getDefaultWorkspace(), ...workspaces];
+}
+
+/**
+ * Get the active workspace
+ */
+export async function getActiveWorkspace(): Promise<Workspace> {
+  const active = await registry.workspaces.get(getActiveWorkspaceId());
+  return active ?? getDefaultWorkspace();
+}
+
+/**
+ * Create a new, empty workspace
+ */
+export async function createWorkspace(name: string): Promise<string> {
+  const validName = await validateWorkspaceName(name);
+  const now = new Date();
+  const id = uuidv4();
+
+  await registry.workspaces.add({ id, name: validName, createdAt: now, updatedAt: now });
+  return id;
+}
+
+/**
+ * Rename a workspace
+ */
+export async function renameWorkspace(id: string, name: string): Promise<void> {
+  const validName = await validateWorkspaceName(name, id);
+  const workspace =
+    id === DEFAULT_WORKSPACE_ID ? await getDefaultWorkspace() : await registry.workspaces.get(id);
+  if (!workspace) {
+    throw new Error(`Workspace not found: ${id}`);
+  }
+  await registry.workspaces.put({ ...workspace, name: validName, updatedAt: new Date() });
+}
+
+/**
+ * Duplicate a workspace, copying every table into a new workspace database
+ */
+export async function duplicateWorkspace(sourceId: string, name: string): Promise<string> {
+  const validName = await validateWorkspaceName(name);
+  const id = uuidv4();
+
+  const isActiveSource = sourceId === getActiveWorkspaceId();
+  const source = isActiveSource ? db : createDatabase(getWorkspaceDatabaseName(sourceId));
+  const target = createDatabase(getWorkspaceDatabaseName(id));
+
+  try {
+    await source.open();
+    for (const table of source.tables) {
+      const rows = await table.toArray();
+      if (rows.length > 0) {
+        await target.table(table.name).bulkAdd(rows);
+      }
+    }
+  } catch (err) {
+    target.close();
+    await Dexie.delete(getWorkspaceDatabaseName(id));
+    throw err;
+  } finally {
+    if (!isActiveSource) source.close();
+  }
+  target.close();
+
+  const now = new Date();
+  await registry.workspaces.add({ id, name: validName, createdAt: now, updatedAt: now });
+  return id;
+}
+
+/**
+ * Delete a workspace and its database
+ * The active workspace and the default workspace cannot be deleted.
+ */
+export async function deleteWorkspace(id: string): Promise<void> {
+  if (id === DEFAULT_WORKSPACE_ID) {
+    throw new Error("The default workspace cannot be deleted");
+  }
+  if (id === getActiveWorkspaceId()) {
+    throw new Error("Switch to another workspace before deleting this one");
+  }
+
+  await Dexie.delete(getWorkspaceDatabaseName(id));
+  await registry.workspaces.delete(id);
+}
+
+/**
+ * Switch to another workspace
+ * Reloads the app so every query reopens against the new database
+ */
+export function switchWorkspace(id: string): void {
+  if (id === getActiveWorkspaceId()) return;
+  setActiveWorkspaceId(id);
+  window.location.reload();
+}
@@ -3,7 +3,21 @@
 // ============================================
 
 // Assessment status (simplified from v1.0 - no 'draft' state)
-export type AssessmentStatus = "in_progress" | "finalized";
+// Review workflow: in_progress -> submitted -> approved -> finalized,
+// with submitted/approved able to go back to the analyst as "returned"
+export type AssessmentStatus = "in_progress" | "submitted" | "returned" | "approved" | "finalized";
+
+// Capability-level status as shown on the dashboard
+export type CapabilityStatus = "not_assessed" | AssessmentStatus;
+
+// How question levels are combined into a capability score, and capability scores into
+// business area and overall scores
+export type ScoringMethod = "mean" | "median" | "minimum";
+
+export interface ScoringStrategy {
+  method: ScoringMethod;
+  categoryWeights: Record<string, number>; // Question category -> weight (default 1, mean only)
+}
 
 // Main assessment record - one per capability assessment
 export interface CapabilityAssessment {
@@ -17,16 +31,26 @@ export interface CapabilityAssessment {
   createdAt: Date;
   updatedAt: Date;
   finalizedAt?: Date;
-  score?: number; // Calculated average (1-5) when finalized
+  score?: number; // Calculated score (1-5) when finalized
+  scoringStrategy?: ScoringStrategy; // Strategy that produced the score (unset = plain mean)
+  cycleId?: string; // FK to AssessmentCycle (unset = not part of a cycle)
+  submittedAt?: Date; // When last submitted for review
+  reviewedAt?: Date; // When last returned or approved
+  reviewerName?: string; // Who last returned or approved the assessment
+  reviewComments?: string; // Comments from the last review
 }
 
 // Rating for a single question within an assessment
 export interface Rating {
   id: string;
   capabilityAssessmentId: string; // FK to CapabilityAssessment
-  questionIndex: number; // 0-based index into capability_questions
+  questionIndex: number; // 0-based index into capability_questions, or a custom question's index
   level: 1 | 2 | 3 | 4 | 5 | null;
   previousLevel?: 1 | 2 | 3 | 4 | 5; // Suggested level from previous assessment (carry-forward hint)
+  targetLevel?: 1 | 2 | 3 | 4 | 5; // Desired to-be maturity level
+  targetDate?: Date; // When the target level should be reached
+  notApplicable?: boolean; // Question does not apply to the state (level stays null)
+  notApplicableReason?: string; // Required justification when notApplicable is set
   notes: string;
   carriedForward: boolean; // True if copied from previous assessment
   attachmentIds: string[]; // Array of attachment IDs linked to this rating
@@ -46,6 +70,42 @@ export interface Attachment {
   uploadedAt: Date;
 }
 
+// Workspace - an isolated set of assessment data (e.g. one per state or program area)
+export interface Workspace {
+  id: string;
+  name: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Key-value application setting stored per database
+export interface AppSetting {
+  key: string;
+  value: unknown;
+}
+
+// Kind of change recorded in the rating audit log
+export type RatingAuditAction =
+  | "level_changed"
+  | "notes_changed"
+  | "target_changed"
+  | "attachment_added"
+  | "attachment_removed";
+
+// Append-only audit log entry for a single rating change
+export interface RatingAuditEntry {
+  id: string;
+  ratingId: string; // FK to Rating
+  capabilityAssessmentId: string; // FK to CapabilityAssessment
+  questionIndex: number;
+  action: RatingAuditAction;
+  previousValue?: string; // Display value before the change (level, notes, target, file name)
+  newValue?: string; // Display value after the change
+  changedBy?: string; // Editor name, when one has been set
+  changedAt: Date;
+  discardedFromVersion?: string; // Blueprint version the question was dropped from by a migration
+}
+
 // Historical snapshot of a finalized assessment
 export interface AssessmentHistory {
   id: string;
@@ -53,17 +113,40 @@ export interface AssessmentHistory {
   snapshotDate: Date; // When this version was finalized
   tags: string[]; // Tags at time of snapshot
   score: number; // Maturity score (1-5)
+  scoringStrategy?: ScoringStrategy; // Strategy that produced the score (unset = plain mean)
   ratings: HistoricalRating[]; // Full ratings snapshot
   blueprintVersion: string;
+  cycleId?: string; // Cycle the snapshot was finalized under
 }
 
 export interface HistoricalRating {
   questionIndex: number;
-  level: 1 | 2 | 3 | 4 | 5;
+  level: 1 | 2 | 3 | 4 | 5 | null; // null only for not-applicable answers
+  notApplicable?: boolean;
+  notApplicableReason?: string;
+  targetLevel?: 1 | 2 | 3 | 4 | 5;
+  targetDate?: Date;
   notes: string;
   attachmentIds: string[]; // Preserve attachment references in history
 }
 
+// Kind of record held in the trash
+export type TrashItemType = "assessment" | "history";
+
+// Soft-deleted assessment or history entry, kept with its dependent records until it is
+// restored or purged
+export interface TrashItem {
+  id: string; // ID of the deleted assessment or history entry
+  type: TrashItemType;
+  capabilityCode: string;
+  deletedAt: Date;
+  assessment?: CapabilityAssessment; // Set for deleted assessments
+  ratings?: Rating[];
+  attachments?: Attachment[];
+  ratingAudit?: RatingAuditEntry[]; // Only on items trashed before audit entries stayed in the log
+  historyEntry?: AssessmentHistory; // Set for deleted history entries
+}
+
 // Tag record for autocomplete
 export interface Tag {
   id: string;
@@ -72,6 +155,41 @@ export interface Tag {
   lastUsed: Date;
 }
 
+// Named assessment campaign (e.g. "FY2026 SS-A Submission")
+export interface AssessmentCycle {
+  id: string;
+  name: string;
+  startDate: Date;
+  endDate: Date;
+  capabilityCodes: string[]; // Capabilities in scope (empty = all capabilities)
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// State-specific question added to a capability alongside the blueprint questions
+// Rated like any other question; its questionIndex is permanent and never reused, so ratings,
+// history, and exports keep pointing at the right question after others are deleted
+export interface CustomQuestion {
+  id: string;
+  capabilityCode: string; // "CM_Establish_Case"
+  questionIndex: number; // >= CUSTOM_QUESTION_INDEX_OFFSET, unique per capability
+  category: string;
+  question: string;
+  levels: MaturityLevel;
+  includeInScoring: boolean; // Whether ratings count toward the capability score
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Question index mapping between two blueprint versions, loaded from a mapping file
+// For each capability, maps an old questionIndex (as a string key) to the new questionIndex,
+// or to null when the old question was removed
+export interface BlueprintMapping {
+  fromVersion: string;
+  toVersion: string;
+  capabilities: Record<string, Record<string, number | null>>;
+}
+
 // ============================================
 // Legacy v1.0 Types (for migration reference)
 // ============================================
@@ -182,6 +300,39 @@ export interface BPT {
   };
 }
 
+// BCM or BPT file from a content pack, stored as it appeared in the pack's ZIP
+export interface ContentPackFile {
+  path: string; // Path inside the ZIP, e.g. "bcm/CM_Establish_Case_BCM_v3.1.json"
+  document: BCM | BPT;
+}
+
+// Set of BCM/BPT files imported at runtime (e.g. a revised CMS release or a state overlay)
+// Merged with the built-in blueprint as the app starts; later packs win over earlier ones
+export interface ContentPack {
+  id: string;
+  name: string; // ZIP filename without the extension
+  importedAt: Date;
+  files: ContentPackFile[];
+}
+
+// Kind of problem found while loading the bundled BCM/BPT files and content packs
+export type BlueprintDiagnosticKind =
+  | "invalid_document" // Fails structural validation (file is skipped)
+  | "unrecognized_file" // Filename does not follow the <CODE>_<BCM|BPT>_v<version>.json pattern
+  | "orphan" // Capability has a BCM without a BPT, or vice versa (capability is skipped)
+  | "mismatch" // BCM, BPT, and filename disagree on names, codes, or versions
+  | "unresolved_link" // Predecessor/successor process name matches no capability
+  | "override"; // Content pack file replaces a built-in (or earlier pack) file
+
+export interface BlueprintDiagnostic {
+  severity: "error" | "warning";
+  kind: BlueprintDiagnosticKind;
+  message: string;
+  file?: string; // Path relative to src/data, or "packs/<pack name>/<path>" for content packs
+  capabilityCode?: string;
+  version?: string;
+}
+
 // Capability with both BCM and BPT data
 export interface Capability {
   code: string;
@@ -40,3 +40,19 @@ export function formatDateLong(date: Date | string): string {
     day: "numeric",
   });
 }
+
+/**
+ * Convert a Date to the yyyy-mm-dd value used by date inputs (local time)
+ */
+export function toDateInputValue(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Parse a yyyy-mm-dd date input value as local midnight
+ */
+export function fromDateInputValue(value: string): Date {
+  return new Date(`${value}T00:00:00`);
+}
@@ -4,3 +4,4 @@
 
 export * from "./dateFormatters";
 export * from "./downloadHelpers";
+export * from "./fileFormatters";
@@ -0,0 +1,9 @@
+import { defineConfig } from 'vitest/config'
+
+// Unit tests for the services; kept apart from vite.config.ts so the PWA plugin stays out of test runs
+export default defineConfig({
+  test: {
+    include: ['src/**/*.test.ts'],
+    environment: 'node',
+  },
+})